@@ -0,0 +1,330 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+// Generated market data for the simulator. Candles are deterministic for a given symbol,
+// interval and time so repeated or paged requests line up; the live book is a random walk.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_START = Date.UTC(2015, 0, 1);
+const BOOK_LEVELS = 200;
+
+export const SYMBOLS = {
+  BTCUSDT: { base: 'BTC', quote: 'USDT', price: 45000, tick: 0.01, lot: 0.00001, dailyVol: 0.03 },
+  ETHUSDT: { base: 'ETH', quote: 'USDT', price: 2500, tick: 0.01, lot: 0.0001, dailyVol: 0.04 },
+  SOLUSDT: { base: 'SOL', quote: 'USDT', price: 120, tick: 0.01, lot: 0.001, dailyVol: 0.05 },
+  XRPUSDT: { base: 'XRP', quote: 'USDT', price: 0.6, tick: 0.0001, lot: 0.1, dailyVol: 0.045 },
+  ADAUSDT: { base: 'ADA', quote: 'USDT', price: 0.45, tick: 0.0001, lot: 0.1, dailyVol: 0.045 },
+  DOGEUSDT: { base: 'DOGE', quote: 'USDT', price: 0.12, tick: 0.00001, lot: 1, dailyVol: 0.06 }
+};
+
+// Accepts BTCUSDT, BTC-USDT, BTC-USD (Coinbase) and lower case stream names
+export const resolveSymbol = (raw) => {
+  if (!raw) return null;
+  const compact = raw.toUpperCase().replace(/[-_/]/g, '');
+  if (SYMBOLS[compact]) return compact;
+  if (compact.endsWith('USD') && SYMBOLS[`${compact}T`]) return `${compact}T`;
+  return null;
+};
+
+// Stable pseudo-random number in [0, 1) for a list of integer/string keys
+const hash = (...keys) => {
+  let h = 2166136261;
+  for (const key of keys) {
+    const text = String(key);
+    for (let i = 0; i < text.length; i++) {
+      h ^= text.charCodeAt(i);
+      h = Math.imul(h, 16777619);
+    }
+    h ^= 0x9e3779b9;
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 2246822507);
+  h ^= h >>> 13;
+  return (h >>> 0) / 4294967296;
+};
+
+const gaussian = (...keys) => {
+  const u = Math.max(hash(...keys, 'u'), 1e-12);
+  const v = hash(...keys, 'v');
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Small month/weekday drifts so the seasonality views have something to find
+const seasonalDrift = (time) => {
+  const date = new Date(time);
+  const monthBias = [0.002, 0.001, 0.0015, 0.001, -0.0005, -0.001, 0.0005, -0.0005, -0.0015, 0.002, 0.0025, 0.0005];
+  const weekdayBias = [0.0005, 0.0015, 0, -0.0005, 0.001, -0.001, 0];
+  return monthBias[date.getUTCMonth()] + weekdayBias[date.getUTCDay()];
+};
+
+// --- recorded data -----------------------------------------------------------
+
+let recordedDir = null;
+const recorded = new Map();
+
+// Files are <dir>/<SYMBOL>.json holding [openTime, open, high, low, close, volume] daily rows
+export const useRecordedData = (dir) => {
+  recordedDir = dir;
+  recorded.clear();
+};
+
+const loadRecorded = (symbol) => {
+  if (!recordedDir) return null;
+  if (!recorded.has(symbol)) {
+    const file = path.join(recordedDir, `${symbol}.json`);
+    const rows = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : null;
+    recorded.set(symbol, rows && new Map(rows.map(row => [Number(row[0]), row.map(Number)])));
+  }
+  return recorded.get(symbol);
+};
+
+// --- candles -----------------------------------------------------------------
+
+const dailyCloses = new Map();
+// The walk is scaled so each symbol trades at its reference price on this day
+const ANCHOR_DAY = Math.round((Date.UTC(2025, 0, 1) - HISTORY_START) / DAY_MS);
+
+// Cumulative daily random walk from HISTORY_START, extended lazily up to `day`
+const dailyClose = (symbol, day) => {
+  const spec = SYMBOLS[symbol];
+  let closes = dailyCloses.get(symbol);
+  if (!closes) {
+    closes = [1];
+    dailyCloses.set(symbol, closes);
+  }
+  while (closes.length <= Math.max(day, ANCHOR_DAY)) {
+    const index = closes.length;
+    const time = HISTORY_START + index * DAY_MS;
+    // Mild long-run growth so older history sits well below today's prices
+    const logReturn = 0.0005 + seasonalDrift(time) + spec.dailyVol * gaussian(symbol, 'day', index);
+    closes.push(closes[index - 1] * Math.exp(logReturn));
+  }
+  return closes[Math.max(0, day)] * (spec.price / closes[ANCHOR_DAY]);
+};
+
+// Continuous price path: daily walk interpolated intraday plus minute-level noise
+const priceAt = (symbol, time) => {
+  const spec = SYMBOLS[symbol];
+  const dayFloat = (time - HISTORY_START) / DAY_MS;
+  const day = Math.floor(dayFloat);
+  const from = dailyClose(symbol, day);
+  const to = dailyClose(symbol, day + 1);
+  const minute = Math.floor(time / 60000);
+  const noise = spec.dailyVol * 0.08 * gaussian(symbol, 'minute', minute);
+  return (from + (to - from) * (dayFloat - day)) * Math.exp(noise);
+};
+
+// One OHLCV bucket; open/close come from the shared path so consecutive candles join up
+export const candleAt = (symbol, openTime, intervalMs) => {
+  const rows = intervalMs === DAY_MS ? loadRecorded(symbol) : null;
+  const row = rows?.get(openTime);
+  if (row) {
+    const [, open, high, low, close, volume] = row;
+    return { openTime, open, high, low, close, volume };
+  }
+
+  const spec = SYMBOLS[symbol];
+  const open = priceAt(symbol, openTime);
+  const close = priceAt(symbol, openTime + intervalMs);
+  const scale = spec.dailyVol * Math.sqrt(intervalMs / DAY_MS);
+  const high = Math.max(open, close) * (1 + scale * 0.6 * hash(symbol, 'high', intervalMs, openTime));
+  const low = Math.min(open, close) * (1 - scale * 0.6 * hash(symbol, 'low', intervalMs, openTime));
+  const notional = 5e8 * (0.5 + hash(symbol, 'volume', intervalMs, openTime)) * (intervalMs / DAY_MS);
+  return { openTime, open, high, low, close, volume: notional / close };
+};
+
+// Candles whose open falls in [start, end], oldest first, capped at `limit` newest
+export const candlesBetween = (symbol, intervalMs, start, end, limit) => {
+  const now = Date.now();
+  const last = Math.floor(Math.min(end, now) / intervalMs) * intervalMs;
+  const first = Math.max(Math.ceil(Math.max(start, HISTORY_START) / intervalMs) * intervalMs, last - (limit - 1) * intervalMs);
+  const candles = [];
+  for (let openTime = first; openTime <= last; openTime += intervalMs) {
+    candles.push(candleAt(symbol, openTime, intervalMs));
+  }
+  return candles;
+};
+
+// --- live book ---------------------------------------------------------------
+
+const roundToTick = (price, tick) => Math.round(price / tick) * tick;
+const decimals = (tick) => Math.max(0, Math.round(-Math.log10(tick)));
+
+class LiveBook {
+  constructor(symbol) {
+    this.symbol = symbol;
+    this.spec = SYMBOLS[symbol];
+    this.digits = decimals(this.spec.tick);
+    this.mid = priceAt(symbol, Date.now());
+    this.bids = new Map();
+    this.asks = new Map();
+    // Level spacing a few ticks wide, relative to price so cheap coins still get a sensible book
+    this.levelSpacing = Math.max(this.spec.tick, roundToTick(this.mid * 0.00005, this.spec.tick));
+    this.updateId = 1000000 + Math.floor(hash(symbol, Date.now()) * 1000000);
+    this.tradeId = this.updateId;
+    this.rebuild();
+  }
+
+  formatPrice(price) {
+    return price.toFixed(this.digits);
+  }
+
+  // Best bid/ask on a fixed price grid so levels persist while the mid wanders
+  insidePrices() {
+    const bestBid = Math.floor(this.mid / this.levelSpacing) * this.levelSpacing;
+    return { bestBid, bestAsk: bestBid + this.levelSpacing };
+  }
+
+  levelPrice(from, offset) {
+    return this.formatPrice(roundToTick(from + offset * this.levelSpacing, this.spec.tick));
+  }
+
+  rebuild() {
+    this.bids.clear();
+    this.asks.clear();
+    const { bestBid, bestAsk } = this.insidePrices();
+    for (let i = 0; i < BOOK_LEVELS; i++) {
+      this.bids.set(this.levelPrice(bestBid, -i), this.randomQuantity());
+      this.asks.set(this.levelPrice(bestAsk, i), this.randomQuantity());
+    }
+  }
+
+  randomQuantity() {
+    return (Math.random() * 2 + 0.05) * (1000 / Math.max(this.mid, 1)) ** 0.5;
+  }
+
+  // Advance one tick and return the changed levels as absolute quantities (0 = removed)
+  advance() {
+    const changes = { bids: new Map(), asks: new Map() };
+    this.mid *= Math.exp(this.spec.dailyVol * 0.0005 * (Math.random() - 0.5) * 2);
+
+    const { bestBid, bestAsk } = this.insidePrices();
+
+    // Levels that crossed the new mid are removed
+    for (const price of this.bids.keys()) {
+      if (parseFloat(price) > bestBid + this.spec.tick / 2) { this.bids.delete(price); changes.bids.set(price, 0); }
+    }
+    for (const price of this.asks.keys()) {
+      if (parseFloat(price) < bestAsk - this.spec.tick / 2) { this.asks.delete(price); changes.asks.set(price, 0); }
+    }
+
+    // Refill the inside and trim the far end so each side keeps BOOK_LEVELS
+    for (let i = 0; i < BOOK_LEVELS; i++) {
+      const bid = this.levelPrice(bestBid, -i);
+      const ask = this.levelPrice(bestAsk, i);
+      if (!this.bids.has(bid)) { const q = this.randomQuantity(); this.bids.set(bid, q); changes.bids.set(bid, q); }
+      if (!this.asks.has(ask)) { const q = this.randomQuantity(); this.asks.set(ask, q); changes.asks.set(ask, q); }
+    }
+    this.trim(this.bids, (a, b) => b - a, changes.bids);
+    this.trim(this.asks, (a, b) => a - b, changes.asks);
+
+    // A handful of resting orders change size
+    for (const [side, levels] of [['bids', this.bids], ['asks', this.asks]]) {
+      const prices = Array.from(levels.keys());
+      for (let i = 0; i < 4; i++) {
+        const price = prices[Math.floor(Math.random() * Math.min(prices.length, 40))];
+        const quantity = Math.random() < 0.1 ? 0 : this.randomQuantity();
+        if (quantity === 0) levels.delete(price); else levels.set(price, quantity);
+        changes[side].set(price, quantity);
+      }
+    }
+
+    const count = changes.bids.size + changes.asks.size;
+    const first = this.updateId + 1;
+    this.updateId += Math.max(count, 1);
+    return {
+      firstUpdateId: first,
+      lastUpdateId: this.updateId,
+      bids: Array.from(changes.bids, ([price, quantity]) => [price, quantity.toFixed(6)]),
+      asks: Array.from(changes.asks, ([price, quantity]) => [price, quantity.toFixed(6)])
+    };
+  }
+
+  // Market orders against the touch: buys lift the best ask, sells hit the best bid. Sizes are
+  // skewed small with the occasional block, so the trade tape has large prints to show.
+  printTrades() {
+    if (Math.random() < 0.4) return [];
+    const top = this.snapshot(1);
+    const count = 1 + Math.floor(Math.random() * 3);
+    const trades = [];
+    for (let i = 0; i < count; i++) {
+      const side = Math.random() < 0.5 ? 'buy' : 'sell';
+      const level = side === 'buy' ? top.asks[0] : top.bids[0];
+      if (!level) continue;
+      const block = Math.random() < 0.02 ? 20 + Math.random() * 30 : 1;
+      const quantity = Math.max(this.spec.lot, Math.random() ** 3 * this.randomQuantity() * block);
+      trades.push({ id: ++this.tradeId, side, price: level[0], quantity: quantity.toFixed(6), time: Date.now() });
+    }
+    return trades;
+  }
+
+  trim(levels, compare, changes) {
+    const sorted = Array.from(levels.keys()).sort((a, b) => compare(parseFloat(a), parseFloat(b)));
+    sorted.slice(BOOK_LEVELS).forEach(price => { levels.delete(price); changes.set(price, 0); });
+  }
+
+  snapshot(depth) {
+    const sortSide = (levels, compare) => Array.from(levels.entries())
+      .sort(([a], [b]) => compare(parseFloat(a), parseFloat(b)))
+      .slice(0, depth)
+      .map(([price, quantity]) => [price, quantity.toFixed(6)]);
+
+    return {
+      updateId: this.updateId,
+      bids: sortSide(this.bids, (a, b) => b - a),
+      asks: sortSide(this.asks, (a, b) => a - b)
+    };
+  }
+
+  // 24h stats from the generated hourly path ending now
+  stats() {
+    const now = Date.now();
+    const hours = candlesBetween(this.symbol, 60 * 60 * 1000, now - DAY_MS, now, 24);
+    const open = hours[0]?.open ?? this.mid;
+    const high = Math.max(this.mid, ...hours.map(c => c.high));
+    const low = Math.min(this.mid, ...hours.map(c => c.low));
+    const volume = hours.reduce((sum, c) => sum + c.volume, 0);
+    const top = this.snapshot(1);
+    return {
+      open, high, low, volume,
+      last: this.mid,
+      bid: parseFloat(top.bids[0]?.[0] ?? this.mid),
+      ask: parseFloat(top.asks[0]?.[0] ?? this.mid),
+      openTime: now - DAY_MS,
+      closeTime: now
+    };
+  }
+}
+
+const books = new Map();
+const listeners = new Set();
+const tradeListeners = new Set();
+
+export const getBook = (symbol) => {
+  if (!books.has(symbol)) {
+    books.set(symbol, new LiveBook(symbol));
+  }
+  return books.get(symbol);
+};
+
+// Every 100ms each active book moves and listeners receive (symbol, diff)
+export const onBookDiff = (listener) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// Trades printed on each tick, as (symbol, trades); only generated while someone listens
+export const onTrades = (listener) => {
+  tradeListeners.add(listener);
+  return () => tradeListeners.delete(listener);
+};
+
+export const startMarket = () => setInterval(() => {
+  for (const [symbol, book] of books) {
+    const diff = book.advance();
+    listeners.forEach(listener => listener(symbol, diff));
+
+    const trades = tradeListeners.size ? book.printTrades() : [];
+    if (trades.length) tradeListeners.forEach(listener => listener(symbol, trades));
+  }
+}, 100);
@@ -0,0 +1,409 @@
+import http from 'node:http';
+import { parseArgs } from 'node:util';
+import { venues, rateLimitResponses } from './venues.js';
+import { SYMBOLS, resolveSymbol, getBook, onBookDiff, onTrades, startMarket, useRecordedData } from './market.js';
+import { acceptWebSocket } from './websocket.js';
+
+// Local stand-in for the Coinbase / OKX / KuCoin / Binance public market-data APIs.
+//
+//   npm run simulator -- --port 8787 --latency 200 --rate-limit 0.1
+//
+// Point the app at it with VITE_EXCHANGE_SIMULATOR_URL=http://localhost:8787 (see docs/simulator.md).
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.SIM_PORT ?? '8787' },
+    host: { type: 'string', default: process.env.SIM_HOST ?? '127.0.0.1' },
+    data: { type: 'string', default: process.env.SIM_DATA_DIR },
+    latency: { type: 'string', default: process.env.SIM_LATENCY_MS ?? '0' },
+    jitter: { type: 'string', default: process.env.SIM_JITTER_MS ?? '0' },
+    'rate-limit': { type: 'string', default: process.env.SIM_RATE_LIMIT_RATE ?? '0' },
+    malformed: { type: 'string', default: process.env.SIM_MALFORMED_RATE ?? '0' },
+    'drop-socket': { type: 'string', default: process.env.SIM_DROP_SOCKET_RATE ?? '0' },
+    gap: { type: 'string', default: process.env.SIM_SEQUENCE_GAP_RATE ?? '0' },
+    venues: { type: 'string', default: process.env.SIM_FAULT_VENUES ?? '' }
+  }
+});
+
+// Fault injection settings; adjustable at runtime through /__faults
+const DEFAULT_FAULTS = {
+  latencyMs: 0,          // added to every REST response
+  jitterMs: 0,           // extra random 0..jitterMs on top of latencyMs
+  rateLimitRate: 0,      // probability a REST call gets a venue-shaped 429
+  malformedRate: 0,      // probability a REST call gets a broken payload
+  dropSocketRate: 0,     // probability per second that each open socket is dropped without a close frame
+  sequenceGapRate: 0,    // probability a depth diff skips update ids (forces a client resync)
+  venues: []             // limit faults to these venues; empty means all
+};
+
+let faults = {
+  ...DEFAULT_FAULTS,
+  latencyMs: Number(args.latency),
+  jitterMs: Number(args.jitter),
+  rateLimitRate: Number(args['rate-limit']),
+  malformedRate: Number(args.malformed),
+  dropSocketRate: Number(args['drop-socket']),
+  sequenceGapRate: Number(args.gap),
+  venues: args.venues ? args.venues.split(',').map(v => v.trim()).filter(Boolean) : []
+};
+
+const faultsApply = (venue) => faults.venues.length === 0 || faults.venues.includes(venue);
+const chance = (rate) => rate > 0 && Math.random() < rate;
+
+if (args.data) {
+  useRecordedData(args.data);
+}
+
+// --- REST --------------------------------------------------------------------
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+const sendJson = (response, status, body, headers = {}) => {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS, ...headers });
+  response.end(typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+// Three flavours of broken: cut-off JSON, the wrong shape, and an HTML error page from a "proxy"
+const sendMalformed = (response, body) => {
+  const kind = Math.floor(Math.random() * 3);
+  if (kind === 0) {
+    const text = JSON.stringify(body);
+    sendJson(response, 200, text.slice(0, Math.max(1, Math.floor(text.length / 2))));
+  } else if (kind === 1) {
+    sendJson(response, 200, { unexpected: true });
+  } else {
+    response.writeHead(200, { 'Content-Type': 'text/html', ...CORS_HEADERS });
+    response.end('<html><body><h1>502 Bad Gateway</h1></body></html>');
+  }
+};
+
+const readBody = (request) => new Promise((resolve) => {
+  let text = '';
+  request.on('data', chunk => { text += chunk; });
+  request.on('end', () => resolve(text));
+});
+
+const handleControl = async (request, response, path) => {
+  if (path === '/__health') {
+    return sendJson(response, 200, { status: 'ok', symbols: Object.keys(SYMBOLS) });
+  }
+  if (path === '/__faults/reset' && request.method === 'POST') {
+    faults = { ...DEFAULT_FAULTS };
+    return sendJson(response, 200, faults);
+  }
+  if (path === '/__faults' && request.method === 'POST') {
+    try {
+      const update = JSON.parse((await readBody(request)) || '{}');
+      faults = { ...faults, ...update };
+      console.log('Faults updated:', faults);
+      return sendJson(response, 200, faults);
+    } catch {
+      return sendJson(response, 400, { error: 'Body must be JSON' });
+    }
+  }
+  if (path === '/__faults') {
+    return sendJson(response, 200, faults);
+  }
+  return sendJson(response, 404, { error: 'Unknown control endpoint' });
+};
+
+const server = http.createServer(async (request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host ?? 'localhost'}`);
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, CORS_HEADERS);
+    return response.end();
+  }
+
+  if (url.pathname.startsWith('/__')) {
+    return handleControl(request, response, url.pathname);
+  }
+
+  const [, venue, ...rest] = url.pathname.split('/');
+  const routes = venues[venue];
+  if (!routes) {
+    return sendJson(response, 404, { error: `Unknown venue "${venue}"` });
+  }
+
+  const path = `/${rest.join('/')}`;
+  const route = routes.find(([method, pattern]) => (method === '*' || method === request.method) && pattern.test(path));
+  if (!route) {
+    return sendJson(response, 404, { error: `No simulated endpoint for ${request.method} ${url.pathname}` });
+  }
+
+  const faulty = faultsApply(venue);
+  if (faulty && (faults.latencyMs > 0 || faults.jitterMs > 0)) {
+    await new Promise(resolve => setTimeout(resolve, faults.latencyMs + Math.random() * faults.jitterMs));
+  }
+
+  if (faulty && chance(faults.rateLimitRate)) {
+    const { status, body } = rateLimitResponses[venue];
+    return sendJson(response, status, body, { 'Retry-After': '1' });
+  }
+
+  const [, pattern, handler] = route;
+  const wsOrigin = `ws://${request.headers.host ?? `${args.host}:${args.port}`}`;
+  let result;
+  try {
+    result = handler(pattern.exec(path), url.searchParams, { wsOrigin });
+  } catch (error) {
+    console.error(`Simulator handler failed for ${url.pathname}:`, error);
+    return sendJson(response, 500, { error: 'Simulator handler failed' });
+  }
+
+  const { status = 200, body } = result;
+
+  if (faulty && status === 200 && chance(faults.malformedRate)) {
+    return sendMalformed(response, body);
+  }
+  sendJson(response, status, body);
+});
+
+// --- WebSocket feeds -----------------------------------------------------------
+
+const sockets = new Set();
+const binanceSubscribers = new Map(); // symbol -> Set<socket>
+const kucoinSubscribers = new Map();  // symbol -> Set<{ socket, topic }>
+const kucoinMatchSubscribers = new Map(); // symbol -> Set<{ socket, topic }>
+const coinbaseSubscribers = new Map(); // symbol -> Set<{ socket, product }>
+const okxSubscribers = new Map();      // symbol -> Set<{ socket, instId }>
+
+const addSubscriber = (registry, symbol, entry) => {
+  if (!registry.has(symbol)) registry.set(symbol, new Set());
+  registry.get(symbol).add(entry);
+  getBook(symbol); // make sure the book is ticking
+};
+
+// Binance style: /binance/ws/<symbol>@depth or @depth@100ms, one depthUpdate per tick
+const openBinanceStream = (socket, stream) => {
+  const [name, channel] = stream.split('@');
+  const symbol = resolveSymbol(name);
+  if (!symbol || channel !== 'depth') {
+    socket.close(1008);
+    return;
+  }
+
+  addSubscriber(binanceSubscribers, symbol, socket);
+  socket.onClose(() => binanceSubscribers.get(symbol)?.delete(socket));
+};
+
+// KuCoin style: welcome, then { type: 'subscribe', topic: '/market/level2:BTC-USDT' }
+const openKucoinStream = (socket) => {
+  socket.send({ id: String(Date.now()), type: 'welcome' });
+
+  socket.onMessage(text => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+
+    if (message.type === 'ping') {
+      socket.send({ id: message.id, type: 'pong' });
+    } else if (message.type === 'subscribe' && typeof message.topic === 'string') {
+      const [channel, market] = message.topic.split(':');
+      const symbol = resolveSymbol(market);
+      const registry = { '/market/level2': kucoinSubscribers, '/market/match': kucoinMatchSubscribers }[channel];
+      if (!registry || !symbol) {
+        socket.send({ id: message.id, type: 'error', code: 404, data: `topic ${message.topic} is not supported` });
+        return;
+      }
+
+      const entry = { socket, topic: message.topic };
+      addSubscriber(registry, symbol, entry);
+      socket.onClose(() => registry.get(symbol)?.delete(entry));
+      if (message.response) {
+        socket.send({ id: message.id, type: 'ack' });
+      }
+    }
+  });
+};
+
+// Coinbase style: { type: 'subscribe', product_ids: ['BTC-USD'], channels: ['matches'] }
+const openCoinbaseStream = (socket) => {
+  socket.onMessage(text => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+    if (message.type !== 'subscribe') return;
+
+    const channels = (message.channels ?? []).map(channel => typeof channel === 'string' ? channel : channel.name);
+    if (!channels.includes('matches')) {
+      socket.send({ type: 'error', message: 'Failed to subscribe', reason: 'only the matches channel is simulated' });
+      return;
+    }
+
+    const products = message.product_ids ?? [];
+    const unknown = products.find(product => !resolveSymbol(product));
+    if (unknown) {
+      socket.send({ type: 'error', message: 'Failed to subscribe', reason: `${unknown} is not a valid product` });
+      return;
+    }
+
+    products.forEach(product => {
+      const symbol = resolveSymbol(product);
+      const entry = { socket, product };
+      addSubscriber(coinbaseSubscribers, symbol, entry);
+      socket.onClose(() => coinbaseSubscribers.get(symbol)?.delete(entry));
+    });
+    socket.send({ type: 'subscriptions', channels: [{ name: 'matches', product_ids: products }] });
+  });
+};
+
+// OKX style: { op: 'subscribe', args: [{ channel: 'trades', instId: 'BTC-USDT' }] }; a bare "ping" gets "pong"
+const openOkxStream = (socket) => {
+  socket.onMessage(text => {
+    if (text === 'ping') {
+      socket.send('pong');
+      return;
+    }
+
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+    if (message.op !== 'subscribe') return;
+
+    (message.args ?? []).forEach(arg => {
+      const symbol = resolveSymbol(arg.instId);
+      if (arg.channel !== 'trades' || !symbol) {
+        socket.send({ event: 'error', code: '60018', msg: `Wrong URL or channel:${arg.channel}, instId:${arg.instId} doesn't exist.` });
+        return;
+      }
+
+      const entry = { socket, instId: arg.instId };
+      addSubscriber(okxSubscribers, symbol, entry);
+      socket.onClose(() => okxSubscribers.get(symbol)?.delete(entry));
+      socket.send({ event: 'subscribe', arg });
+    });
+  });
+};
+
+server.on('upgrade', (request, rawSocket) => {
+  const url = new URL(request.url, 'http://localhost');
+  const socket = acceptWebSocket(request, rawSocket);
+  if (!socket) return;
+
+  sockets.add(socket);
+  socket.venue = url.pathname.split('/')[1];
+  socket.onClose(() => sockets.delete(socket));
+
+  const binanceStream = /^\/binance\/ws\/(.+)$/.exec(url.pathname);
+  if (binanceStream) {
+    openBinanceStream(socket, binanceStream[1]);
+  } else if (url.pathname === '/kucoin/ws') {
+    openKucoinStream(socket);
+  } else if (url.pathname === '/coinbase/ws') {
+    openCoinbaseStream(socket);
+  } else if (url.pathname === '/okx/ws/v5/public') {
+    openOkxStream(socket);
+  } else {
+    socket.close(1008);
+  }
+});
+
+onBookDiff((symbol, diff) => {
+  // A gap makes the stream skip update ids the client never sees
+  let { firstUpdateId } = diff;
+  if (faultsApply('binance') && chance(faults.sequenceGapRate)) {
+    firstUpdateId += 2;
+  }
+
+  const depthUpdate = {
+    e: 'depthUpdate',
+    E: Date.now(),
+    s: symbol,
+    U: firstUpdateId,
+    u: diff.lastUpdateId,
+    b: diff.bids,
+    a: diff.asks
+  };
+  binanceSubscribers.get(symbol)?.forEach(socket => socket.send(depthUpdate));
+
+  const kucoinGap = faultsApply('kucoin') && chance(faults.sequenceGapRate) ? 2 : 0;
+  kucoinSubscribers.get(symbol)?.forEach(({ socket, topic }) => socket.send({
+    type: 'message',
+    topic,
+    subject: 'trade.l2update',
+    data: {
+      sequenceStart: diff.firstUpdateId + kucoinGap,
+      sequenceEnd: diff.lastUpdateId,
+      symbol: topic.split(':')[1],
+      changes: {
+        asks: diff.asks.map(([price, quantity]) => [price, quantity, String(diff.lastUpdateId)]),
+        bids: diff.bids.map(([price, quantity]) => [price, quantity, String(diff.lastUpdateId)])
+      }
+    }
+  }));
+});
+
+// Coinbase reports the maker's side; OKX and KuCoin report the taker's
+onTrades((symbol, trades) => {
+  trades.forEach(trade => {
+    const iso = new Date(trade.time).toISOString();
+    coinbaseSubscribers.get(symbol)?.forEach(({ socket, product }) => socket.send({
+      type: 'match',
+      trade_id: trade.id,
+      sequence: trade.id,
+      product_id: product,
+      size: trade.quantity,
+      price: trade.price,
+      side: trade.side === 'buy' ? 'sell' : 'buy',
+      time: iso
+    }));
+
+    kucoinMatchSubscribers.get(symbol)?.forEach(({ socket, topic }) => socket.send({
+      type: 'message',
+      topic,
+      subject: 'trade.l3match',
+      data: {
+        symbol: topic.split(':')[1],
+        sequence: String(trade.id),
+        tradeId: String(trade.id),
+        side: trade.side,
+        price: trade.price,
+        size: trade.quantity,
+        time: `${trade.time}000000`
+      }
+    }));
+  });
+
+  okxSubscribers.get(symbol)?.forEach(({ socket, instId }) => socket.send({
+    arg: { channel: 'trades', instId },
+    data: trades.map(trade => ({
+      instId,
+      tradeId: String(trade.id),
+      px: trade.price,
+      sz: trade.quantity,
+      side: trade.side,
+      ts: String(trade.time)
+    }))
+  }));
+});
+
+// Dropped sockets are rolled once a second
+setInterval(() => {
+  if (faults.dropSocketRate <= 0) return;
+  sockets.forEach(socket => {
+    if (faultsApply(socket.venue) && chance(faults.dropSocketRate)) {
+      console.log('Fault injection: dropping socket');
+      socket.drop();
+    }
+  });
+}, 1000);
+
+startMarket();
+server.listen(Number(args.port), args.host, () => {
+  console.log(`Exchange simulator listening on http://${args.host}:${args.port}`);
+  console.log('Faults:', faults);
+});
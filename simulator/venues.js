@@ -0,0 +1,341 @@
+import { SYMBOLS, DAY_MS, resolveSymbol, getBook, candlesBetween } from './market.js';
+
+// REST handlers shaped like each venue's public market-data API. Only the endpoints the
+// app's adapters call are covered. Handlers return { status?, body } for the server to send.
+
+const MINUTE_MS = 60 * 1000;
+
+// Venue interval spellings -> milliseconds: 86400 (Coinbase), 1D / 1H (OKX), 1day / 1hour (KuCoin), 1d / 1h (Binance).
+// Months are approximated as 30 days.
+export const parseInterval = (value) => {
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+  const match = /^(\d+)(m|min|h|H|hour|d|D|day|w|W|week|M|mon|month)(utc)?$/.exec(value ?? '');
+  if (!match) return null;
+
+  const units = {
+    m: MINUTE_MS, min: MINUTE_MS,
+    h: 60 * MINUTE_MS, H: 60 * MINUTE_MS, hour: 60 * MINUTE_MS,
+    d: DAY_MS, D: DAY_MS, day: DAY_MS,
+    w: 7 * DAY_MS, W: 7 * DAY_MS, week: 7 * DAY_MS,
+    M: 30 * DAY_MS, mon: 30 * DAY_MS, month: 30 * DAY_MS
+  };
+  return Number(match[1]) * units[match[2]];
+};
+
+const fixed = (value, digits = 8) => Number(value).toFixed(digits);
+const listSymbols = () => Object.entries(SYMBOLS).map(([symbol, spec]) => ({ symbol, ...spec }));
+
+// --- Coinbase ----------------------------------------------------------------
+
+// The only candle sizes the real Exchange API accepts, in seconds
+const COINBASE_GRANULARITIES = [60, 300, 900, 3600, 21600, 86400];
+const coinbaseError = (status, message) => ({ status, body: { message } });
+const coinbaseProduct = (symbol) => symbol.replace(/USDT$/, '-USD');
+
+const coinbase = [
+  ['GET', /^\/products$/, () => ({
+    body: listSymbols().map(({ symbol, base, tick, lot }) => ({
+      id: coinbaseProduct(symbol),
+      base_currency: base,
+      quote_currency: 'USD',
+      quote_increment: String(tick),
+      base_increment: String(lot),
+      status: 'online',
+      trading_disabled: false
+    }))
+  })],
+
+  ['GET', /^\/products\/([^/]+)\/book$/, ([, product]) => {
+    const symbol = resolveSymbol(product);
+    if (!symbol) return coinbaseError(404, 'NotFound');
+    const book = getBook(symbol).snapshot(50);
+    return {
+      body: {
+        bids: book.bids.map(([price, quantity]) => [price, quantity, 1]),
+        asks: book.asks.map(([price, quantity]) => [price, quantity, 1]),
+        sequence: book.updateId,
+        time: new Date().toISOString()
+      }
+    };
+  }],
+
+  ['GET', /^\/products\/([^/]+)\/ticker$/, ([, product]) => {
+    const symbol = resolveSymbol(product);
+    if (!symbol) return coinbaseError(404, 'NotFound');
+    const stats = getBook(symbol).stats();
+    return {
+      body: {
+        trade_id: Date.now(),
+        price: fixed(stats.last, 2),
+        size: '0.01',
+        bid: fixed(stats.bid, 2),
+        ask: fixed(stats.ask, 2),
+        volume: fixed(stats.volume),
+        time: new Date().toISOString()
+      }
+    };
+  }],
+
+  ['GET', /^\/products\/([^/]+)\/stats$/, ([, product]) => {
+    const symbol = resolveSymbol(product);
+    if (!symbol) return coinbaseError(404, 'NotFound');
+    const stats = getBook(symbol).stats();
+    return {
+      body: {
+        open: fixed(stats.open, 2),
+        high: fixed(stats.high, 2),
+        low: fixed(stats.low, 2),
+        last: fixed(stats.last, 2),
+        volume: fixed(stats.volume),
+        volume_30day: fixed(stats.volume * 30)
+      }
+    };
+  }],
+
+  ['GET', /^\/products\/([^/]+)\/candles$/, ([, product], query) => {
+    const symbol = resolveSymbol(product);
+    if (!symbol) return coinbaseError(404, 'NotFound');
+    const intervalMs = parseInterval(query.get('granularity') ?? '86400');
+    if (!COINBASE_GRANULARITIES.includes(intervalMs / 1000)) return coinbaseError(400, 'Unsupported granularity');
+
+    const end = query.get('end') ? Date.parse(query.get('end')) : Date.now();
+    const start = query.get('start') ? Date.parse(query.get('start')) : end - 300 * intervalMs;
+    if ((end - start) / intervalMs > 300) {
+      return coinbaseError(400, 'granularity too small for the requested time range. Count of aggregations requested exceeds 300');
+    }
+
+    // [time, low, high, open, close, volume], newest first
+    return {
+      body: candlesBetween(symbol, intervalMs, start, end, 300).reverse().map(c => [
+        c.openTime / 1000, c.low, c.high, c.open, c.close, c.volume
+      ])
+    };
+  }]
+];
+
+// --- OKX ---------------------------------------------------------------------
+
+const okxOk = (data) => ({ body: { code: '0', msg: '', data } });
+const okxError = (code, msg) => ({ status: 400, body: { code, msg, data: [] } });
+const okxInstrument = (symbol) => `${SYMBOLS[symbol].base}-${SYMBOLS[symbol].quote}`;
+
+const okxCandles = (maxLimit) => (_match, query) => {
+  const symbol = resolveSymbol(query.get('instId'));
+  if (!symbol) return okxError('51001', 'Instrument ID does not exist');
+  const intervalMs = parseInterval(query.get('bar') ?? '1m');
+  if (!intervalMs) return okxError('51000', 'Parameter bar error');
+
+  const limit = Math.min(Number(query.get('limit') ?? maxLimit), maxLimit);
+  // `after` pages backwards: records strictly older than the timestamp
+  const end = query.get('after') ? Number(query.get('after')) - 1 : Date.now();
+  const start = query.get('before') ? Number(query.get('before')) + 1 : 0;
+
+  // [ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm], newest first
+  return okxOk(candlesBetween(symbol, intervalMs, start, end, limit).reverse().map(c => [
+    String(c.openTime), fixed(c.open), fixed(c.high), fixed(c.low), fixed(c.close),
+    fixed(c.volume), fixed(c.volume * c.close), fixed(c.volume * c.close),
+    c.openTime + intervalMs <= Date.now() ? '1' : '0'
+  ]));
+};
+
+const okx = [
+  ['GET', /^\/api\/v5\/market\/books$/, (_match, query) => {
+    const symbol = resolveSymbol(query.get('instId'));
+    if (!symbol) return okxError('51001', 'Instrument ID does not exist');
+    const book = getBook(symbol).snapshot(Math.min(Number(query.get('sz') ?? 1), 400));
+    return okxOk([{
+      asks: book.asks.map(([price, quantity]) => [price, quantity, '0', '1']),
+      bids: book.bids.map(([price, quantity]) => [price, quantity, '0', '1']),
+      ts: String(Date.now())
+    }]);
+  }],
+
+  ['GET', /^\/api\/v5\/market\/ticker$/, (_match, query) => {
+    const symbol = resolveSymbol(query.get('instId'));
+    if (!symbol) return okxError('51001', 'Instrument ID does not exist');
+    const stats = getBook(symbol).stats();
+    return okxOk([{
+      instType: 'SPOT',
+      instId: okxInstrument(symbol),
+      last: fixed(stats.last),
+      askPx: fixed(stats.ask),
+      bidPx: fixed(stats.bid),
+      open24h: fixed(stats.open),
+      high24h: fixed(stats.high),
+      low24h: fixed(stats.low),
+      vol24h: fixed(stats.volume),
+      volCcy24h: fixed(stats.volume * stats.last),
+      ts: String(Date.now())
+    }]);
+  }],
+
+  ['GET', /^\/api\/v5\/market\/candles$/, okxCandles(300)],
+  ['GET', /^\/api\/v5\/market\/history-candles$/, okxCandles(100)],
+
+  ['GET', /^\/api\/v5\/public\/instruments$/, () => okxOk(listSymbols().map(({ symbol, base, quote, tick, lot }) => ({
+    instType: 'SPOT',
+    instId: okxInstrument(symbol),
+    baseCcy: base,
+    quoteCcy: quote,
+    tickSz: String(tick),
+    lotSz: String(lot),
+    state: 'live'
+  })))]
+];
+
+// --- KuCoin ------------------------------------------------------------------
+
+const kucoinOk = (data) => ({ body: { code: '200000', data } });
+const kucoinError = (code, msg) => ({ status: 400, body: { code, msg } });
+
+const kucoin = [
+  ['GET', /^\/api\/v1\/market\/orderbook\/level2_(20|100)$/, ([, depth], query) => {
+    const symbol = resolveSymbol(query.get('symbol'));
+    if (!symbol) return kucoinError('400100', 'This pair is not provided at present');
+    const book = getBook(symbol).snapshot(Number(depth));
+    return kucoinOk({ time: Date.now(), sequence: String(book.updateId), bids: book.bids, asks: book.asks });
+  }],
+
+  ['GET', /^\/api\/v1\/market\/stats$/, (_match, query) => {
+    const symbol = resolveSymbol(query.get('symbol'));
+    if (!symbol) return kucoinError('400100', 'This pair is not provided at present');
+    const stats = getBook(symbol).stats();
+    return kucoinOk({
+      time: Date.now(),
+      symbol: query.get('symbol'),
+      buy: fixed(stats.bid),
+      sell: fixed(stats.ask),
+      changeRate: fixed((stats.last - stats.open) / stats.open, 4),
+      changePrice: fixed(stats.last - stats.open),
+      high: fixed(stats.high),
+      low: fixed(stats.low),
+      vol: fixed(stats.volume),
+      volValue: fixed(stats.volume * stats.last),
+      last: fixed(stats.last),
+      averagePrice: fixed((stats.high + stats.low) / 2)
+    });
+  }],
+
+  ['GET', /^\/api\/v1\/market\/candles$/, (_match, query) => {
+    const symbol = resolveSymbol(query.get('symbol'));
+    if (!symbol) return kucoinError('400100', 'This pair is not provided at present');
+    const intervalMs = parseInterval(query.get('type') ?? '1min');
+    if (!intervalMs) return kucoinError('400100', 'Unsupported type');
+
+    const end = query.get('endAt') ? Number(query.get('endAt')) * 1000 : Date.now();
+    const start = query.get('startAt') ? Number(query.get('startAt')) * 1000 : 0;
+
+    // [time (s), open, close, high, low, volume, turnover], newest first
+    return kucoinOk(candlesBetween(symbol, intervalMs, start, end, 1500).reverse().map(c => [
+      String(c.openTime / 1000), fixed(c.open), fixed(c.close), fixed(c.high), fixed(c.low),
+      fixed(c.volume), fixed(c.volume * c.close)
+    ]));
+  }],
+
+  ['GET', /^\/api\/v1\/symbols$/, () => kucoinOk(listSymbols().map(({ base, quote, tick, lot }) => ({
+    symbol: `${base}-${quote}`,
+    name: `${base}-${quote}`,
+    baseCurrency: base,
+    quoteCurrency: quote,
+    priceIncrement: String(tick),
+    baseIncrement: String(lot),
+    enableTrading: true
+  })))],
+
+  // Real KuCoin wants POST; accept GET too since the legacy WebSocketService uses it
+  ['*', /^\/api\/v1\/bullet-public$/, (_match, _query, { wsOrigin }) => kucoinOk({
+    token: `sim-${Date.now()}`,
+    instanceServers: [{
+      endpoint: `${wsOrigin}/kucoin/ws`,
+      encrypt: false,
+      protocol: 'websocket',
+      pingInterval: 18000,
+      pingTimeout: 10000
+    }]
+  })]
+];
+
+// --- Binance -----------------------------------------------------------------
+
+const binanceError = (code, msg) => ({ status: 400, body: { code, msg } });
+
+const binance = [
+  ['GET', /^\/api\/v3\/depth$/, (_match, query) => {
+    const symbol = resolveSymbol(query.get('symbol'));
+    if (!symbol) return binanceError(-1121, 'Invalid symbol.');
+    const book = getBook(symbol).snapshot(Math.min(Number(query.get('limit') ?? 100), 5000));
+    return { body: { lastUpdateId: book.updateId, bids: book.bids, asks: book.asks } };
+  }],
+
+  ['GET', /^\/api\/v3\/ticker\/24hr$/, (_match, query) => {
+    const symbol = resolveSymbol(query.get('symbol'));
+    if (!symbol) return binanceError(-1121, 'Invalid symbol.');
+    const stats = getBook(symbol).stats();
+    return {
+      body: {
+        symbol,
+        priceChange: fixed(stats.last - stats.open),
+        priceChangePercent: fixed(((stats.last - stats.open) / stats.open) * 100, 3),
+        weightedAvgPrice: fixed((stats.high + stats.low + stats.last) / 3),
+        prevClosePrice: fixed(stats.open),
+        lastPrice: fixed(stats.last),
+        bidPrice: fixed(stats.bid),
+        askPrice: fixed(stats.ask),
+        openPrice: fixed(stats.open),
+        highPrice: fixed(stats.high),
+        lowPrice: fixed(stats.low),
+        volume: fixed(stats.volume),
+        quoteVolume: fixed(stats.volume * stats.last),
+        openTime: stats.openTime,
+        closeTime: stats.closeTime,
+        count: 100000
+      }
+    };
+  }],
+
+  ['GET', /^\/api\/v3\/klines$/, (_match, query) => {
+    const symbol = resolveSymbol(query.get('symbol'));
+    if (!symbol) return binanceError(-1121, 'Invalid symbol.');
+    const intervalMs = parseInterval(query.get('interval'));
+    if (!intervalMs) return binanceError(-1120, 'Invalid interval.');
+
+    const limit = Math.min(Number(query.get('limit') ?? 500), 1000);
+    const end = query.get('endTime') ? Number(query.get('endTime')) : Date.now();
+    const start = query.get('startTime') ? Number(query.get('startTime')) : 0;
+
+    return {
+      body: candlesBetween(symbol, intervalMs, start, end, limit).map(c => [
+        c.openTime, fixed(c.open), fixed(c.high), fixed(c.low), fixed(c.close), fixed(c.volume),
+        c.openTime + intervalMs - 1, fixed(c.volume * c.close), 1000,
+        fixed(c.volume * 0.5), fixed(c.volume * c.close * 0.5), '0'
+      ])
+    };
+  }],
+
+  ['GET', /^\/api\/v3\/exchangeInfo$/, () => ({
+    body: {
+      timezone: 'UTC',
+      serverTime: Date.now(),
+      symbols: listSymbols().map(({ symbol, base, quote, tick, lot }) => ({
+        symbol,
+        status: 'TRADING',
+        baseAsset: base,
+        quoteAsset: quote,
+        filters: [
+          { filterType: 'PRICE_FILTER', tickSize: String(tick) },
+          { filterType: 'LOT_SIZE', stepSize: String(lot) }
+        ]
+      }))
+    }
+  })]
+];
+
+// Rate-limit responses per venue, used by fault injection
+export const rateLimitResponses = {
+  coinbase: { status: 429, body: { message: 'Public rate limit exceeded' } },
+  okx: { status: 429, body: { code: '50011', msg: 'Too Many Requests', data: [] } },
+  kucoin: { status: 429, body: { code: '429000', msg: 'Too Many Requests' } },
+  binance: { status: 429, body: { code: -1003, msg: 'Too many requests; current limit is 6000 request weight per 1 MINUTE.' } }
+};
+
+export const venues = { coinbase, okx, kucoin, binance };
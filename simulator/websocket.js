@@ -0,0 +1,133 @@
+import crypto from 'node:crypto';
+
+// Just enough of RFC 6455 for the simulator: text frames, ping/pong and close.
+// Keeps the simulator free of runtime dependencies.
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const encodeFrame = (opcode, payload) => {
+  const body = Buffer.from(payload);
+  let header;
+  if (body.length < 126) {
+    header = Buffer.from([0x80 | opcode, body.length]);
+  } else if (body.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(body.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(body.length), 2);
+  }
+  return Buffer.concat([header, body]);
+};
+
+export class SimulatorSocket {
+  constructor(socket) {
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.closed = false;
+    this.messageHandlers = new Set();
+    this.closeHandlers = new Set();
+
+    socket.on('data', chunk => this.receive(chunk));
+    socket.on('close', () => this.handleClose());
+    socket.on('error', () => this.handleClose());
+  }
+
+  onMessage(handler) {
+    this.messageHandlers.add(handler);
+  }
+
+  onClose(handler) {
+    this.closeHandlers.add(handler);
+  }
+
+  send(data) {
+    if (this.closed) return;
+    this.socket.write(encodeFrame(0x1, typeof data === 'string' ? data : JSON.stringify(data)));
+  }
+
+  close(code = 1000) {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    this.socket.write(encodeFrame(0x8, payload));
+    this.socket.end();
+    this.handleClose();
+  }
+
+  // Fault injection: vanish without a close frame, like a dropped connection
+  drop() {
+    this.socket.destroy();
+    this.handleClose();
+  }
+
+  handleClose() {
+    if (this.closed) return;
+    this.closed = true;
+    this.closeHandlers.forEach(handler => handler());
+  }
+
+  receive(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= 2) {
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (this.buffer.length < offset + length) return;
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= this.buffer[maskOffset + (i % 4)];
+        }
+      }
+      this.buffer = this.buffer.subarray(offset + length);
+
+      if (opcode === 0x1) {
+        const text = payload.toString('utf8');
+        this.messageHandlers.forEach(handler => handler(text));
+      } else if (opcode === 0x8) {
+        this.close();
+      } else if (opcode === 0x9) {
+        this.socket.write(encodeFrame(0xa, payload));
+      }
+    }
+  }
+}
+
+// Complete the upgrade handshake; returns null (and rejects the socket) for non-WebSocket requests
+export const acceptWebSocket = (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (!key || request.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = crypto.createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  return new SimulatorSocket(socket);
+};
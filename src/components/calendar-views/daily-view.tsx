@@ -1,59 +1,29 @@
-import React, { useMemo } from 'react';
+import React from 'react';
 import { ChevronLeft, ChevronRight, TrendingUp, TrendingDown, BarChart3 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
-
-interface DailyData {
-  date: Date;
-  volatility: number;
-  performance: number;
-  volume: number;
-  price: number;
-  liquidity: number;
-  intradayHigh: number;
-  intradayLow: number;
-  openPrice: number;
-  closePrice: number;
-}
-
-const generateDailyData = (date: Date): DailyData => {
-  const seed = date.getTime();
-  const random = (min: number, max: number) => {
-    const x = Math.sin(seed * 9.301) * 10000;
-    return min + (x - Math.floor(x)) * (max - min);
-  };
-  
-  const basePrice = random(40000, 70000);
-  const volatility = random(0, 1);
-  const performance = random(-0.15, 0.15);
-  
-  return {
-    date,
-    volatility,
-    performance,
-    volume: random(1000000, 100000000),
-    price: basePrice,
-    liquidity: random(0.1, 1),
-    intradayHigh: basePrice * (1 + random(0, 0.05)),
-    intradayLow: basePrice * (1 - random(0, 0.05)),
-    openPrice: basePrice * (1 + random(-0.02, 0.02)),
-    closePrice: basePrice * (1 + performance),
-  };
-};
+import { useCalendarData } from '@/hooks/useCalendarData';
+import { FilterOptions, getFilterDisplay } from '@/utils/calendar-filters';
+import { DateRange } from '@/components/interactive-features/date-range-selector';
+import { getVolatilityLevel, toDayKey } from '@/services/calendar-data-service';
+import { useMarketEvents } from '@/contexts/market-events-context';
+import { EventList } from '@/components/ui/event-badges';
 
 interface DailyViewProps {
+  symbol: string;
   selectedDate: Date;
   onDateChange: (date: Date) => void;
   onDateSelect?: (date: Date) => void;
   selectedForDashboard?: Date | null;
   onHover?: (data: any) => void;
   onHoverLeave?: () => void;
-  filters?: any;
-  dateRange?: any;
+  filters?: FilterOptions;
+  dateRange?: DateRange;
 }
 
 export const DailyView: React.FC<DailyViewProps> = ({
+  symbol,
   selectedDate,
   onDateChange,
   onDateSelect,
@@ -63,7 +33,11 @@ export const DailyView: React.FC<DailyViewProps> = ({
   filters,
   dateRange
 }) => {
-  const dailyData = useMemo(() => generateDailyData(selectedDate), [selectedDate]);
+  const { getDayState } = useCalendarData(symbol, selectedDate, selectedDate);
+  const dayState = getDayState(selectedDate);
+  const { status, data: dailyData } = dayState;
+  const filterDisplay = getFilterDisplay(dayState, filters);
+  const events = useMarketEvents().getEventsOn(toDayKey(selectedDate));
   
   const navigateDay = (direction: 'prev' | 'next') => {
     const newDate = new Date(selectedDate);
@@ -72,8 +46,9 @@ export const DailyView: React.FC<DailyViewProps> = ({
   };
 
   const getVolatilityColor = (volatility: number) => {
-    if (volatility < 0.3) return 'text-volatility-low border-volatility-low bg-volatility-low/10';
-    if (volatility < 0.7) return 'text-volatility-medium border-volatility-medium bg-volatility-medium/10';
+    const level = getVolatilityLevel(volatility);
+    if (level === 'low') return 'text-volatility-low border-volatility-low bg-volatility-low/10';
+    if (level === 'medium') return 'text-volatility-medium border-volatility-medium bg-volatility-medium/10';
     return 'text-volatility-high border-volatility-high bg-volatility-high/10';
   };
 
@@ -119,6 +94,13 @@ export const DailyView: React.FC<DailyViewProps> = ({
         </Button>
       </div>
 
+      {events.length > 0 && (
+        <Card className="p-4">
+          <h3 className="text-sm font-semibold mb-2">Events</h3>
+          <EventList events={events} />
+        </Card>
+      )}
+
       {/* Daily Metrics Card */}
       <Card 
         className={cn(
@@ -127,11 +109,12 @@ export const DailyView: React.FC<DailyViewProps> = ({
           isToday(selectedDate) && "ring-4 ring-primary shadow-glow animate-pulse-glow",
           dateRange?.start && dateRange?.end && 
           selectedDate >= dateRange.start && selectedDate <= dateRange.end &&
-          "ring-2 ring-primary/50 bg-primary/5"
+          "ring-2 ring-primary/50 bg-primary/5",
+          filterDisplay === 'dimmed' && "opacity-30 grayscale"
         )}
         tabIndex={0}
         onClick={() => onDateSelect?.(selectedDate)}
-        onMouseEnter={() => onHover?.({ date: selectedDate, ...dailyData })}
+        onMouseEnter={() => dailyData && onHover?.({ ...dailyData })}
         onMouseLeave={() => onHoverLeave?.()}
         onKeyDown={(e) => {
           if (e.key === 'Enter' || e.key === ' ') {
@@ -140,6 +123,18 @@ export const DailyView: React.FC<DailyViewProps> = ({
           }
         }}
       >
+        {filterDisplay === 'hidden' ? (
+          <div className="h-40 flex items-center justify-center text-muted-foreground">
+            This day doesn't match the current filters
+          </div>
+        ) : !dailyData ? (
+          <div className={cn(
+            "h-40 flex items-center justify-center text-muted-foreground",
+            status === 'loading' && "animate-pulse"
+          )}>
+            {status === 'loading' ? 'Loading market data...' : 'No market data for this day'}
+          </div>
+        ) : (
         <div className="space-y-4">
           {/* Header with Performance */}
           <div className="flex items-center justify-between">
@@ -162,22 +157,22 @@ export const DailyView: React.FC<DailyViewProps> = ({
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div className="space-y-1">
               <p className="text-sm text-muted-foreground">Open</p>
-              <p className="font-semibold">${dailyData.openPrice.toLocaleString()}</p>
+              <p className="font-semibold">${dailyData.open.toLocaleString()}</p>
             </div>
             <div className="space-y-1">
               <p className="text-sm text-muted-foreground">Close</p>
-              <p className="font-semibold">${dailyData.closePrice.toLocaleString()}</p>
+              <p className="font-semibold">${dailyData.close.toLocaleString()}</p>
             </div>
             <div className="space-y-1">
               <p className="text-sm text-muted-foreground">High</p>
               <p className="font-semibold text-performance-positive">
-                ${dailyData.intradayHigh.toLocaleString()}
+                ${dailyData.high.toLocaleString()}
               </p>
             </div>
             <div className="space-y-1">
               <p className="text-sm text-muted-foreground">Low</p>
               <p className="font-semibold text-performance-negative">
-                ${dailyData.intradayLow.toLocaleString()}
+                ${dailyData.low.toLocaleString()}
               </p>
             </div>
           </div>
@@ -188,7 +183,7 @@ export const DailyView: React.FC<DailyViewProps> = ({
               <p className="text-sm font-medium mb-1">Intraday Volatility</p>
               <p className="text-2xl font-bold">{(dailyData.volatility * 100).toFixed(1)}%</p>
               <p className="text-xs opacity-75">
-                Range: ${(dailyData.intradayHigh - dailyData.intradayLow).toLocaleString()}
+                Range: ${(dailyData.high - dailyData.low).toLocaleString()}
               </p>
             </div>
             
@@ -203,7 +198,7 @@ export const DailyView: React.FC<DailyViewProps> = ({
             <div className="p-4 rounded-lg border-2 border-accent/20 bg-accent/5">
               <p className="text-sm font-medium mb-1">Price Change</p>
               <p className={cn("text-2xl font-bold", getPerformanceColor(dailyData.performance))}>
-                ${Math.abs(dailyData.closePrice - dailyData.openPrice).toLocaleString()}
+                ${Math.abs(dailyData.close - dailyData.open).toLocaleString()}
               </p>
               <p className="text-xs text-muted-foreground">
                 {dailyData.performance > 0 ? 'Gain' : dailyData.performance < 0 ? 'Loss' : 'Neutral'}
@@ -211,6 +206,7 @@ export const DailyView: React.FC<DailyViewProps> = ({
             </div>
           </div>
         </div>
+        )}
       </Card>
     </div>
   );
@@ -3,6 +3,12 @@ import { ChevronLeft, ChevronRight, TrendingUp, TrendingDown, BarChart3 } from '
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
+import { useCalendarData } from '@/hooks/useCalendarData';
+import { FilterOptions, filterDays, isFilterActive } from '@/utils/calendar-filters';
+import { DateRange } from '@/components/interactive-features/date-range-selector';
+import { CalendarDayData, toDayKey } from '@/services/calendar-data-service';
+import { useMarketEvents } from '@/contexts/market-events-context';
+import { EventBadges } from '@/components/ui/event-badges';
 
 interface MonthlyData {
   month: Date;
@@ -19,74 +25,35 @@ interface MonthlyData {
   worstWeek: { start: Date; performance: number };
 }
 
-const generateMonthlyData = (month: Date): MonthlyData => {
-  const monthStart = new Date(month.getFullYear(), month.getMonth(), 1);
-  const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0);
-  
-  // Aggregate mock data for the month
-  let totalVolatility = 0;
-  let totalVolume = 0;
-  let totalLiquidity = 0;
-  let prices: number[] = [];
-  let weeklyPerformances: { start: Date; performance: number }[] = [];
-  let tradingDays = 0;
-  let volatilities: number[] = [];
-  
-  // Generate weekly data for the month
-  const current = new Date(monthStart);
-  while (current <= monthEnd) {
-    const weekStart = new Date(current);
-    weekStart.setDate(current.getDate() - current.getDay());
-    
-    let weekVolatility = 0;
-    let weekVolume = 0;
-    let weekLiquidity = 0;
-    let weekPerformance = 0;
-    let weekTradingDays = 0;
-    
-    for (let i = 0; i < 7; i++) {
-      const date = new Date(weekStart);
-      date.setDate(weekStart.getDate() + i);
-      
-      if (date >= monthStart && date <= monthEnd && date.getDay() !== 0 && date.getDay() !== 6) {
-        const seed = date.getTime();
-        const random = (min: number, max: number) => {
-          const x = Math.sin(seed * 9.301) * 10000;
-          return min + (x - Math.floor(x)) * (max - min);
-        };
-        
-        const volatility = random(0, 1);
-        weekVolatility += volatility;
-        weekVolume += random(1000000, 100000000);
-        weekLiquidity += random(0.1, 1);
-        weekPerformance += random(-0.03, 0.03);
-        prices.push(random(40000, 70000));
-        volatilities.push(volatility);
-        weekTradingDays++;
-        tradingDays++;
-      }
-    }
-    
-    if (weekTradingDays > 0) {
-      totalVolatility += weekVolatility;
-      totalVolume += weekVolume;
-      totalLiquidity += weekLiquidity;
-      weeklyPerformances.push({
-        start: new Date(weekStart),
-        performance: weekPerformance / weekTradingDays
-      });
-    }
-    
-    current.setDate(current.getDate() + 7);
-  }
-  
-  const avgVolatility = totalVolatility / tradingDays;
-  const avgLiquidity = totalLiquidity / tradingDays;
-  const monthlyPerformance = weeklyPerformances.reduce((sum, week) => sum + week.performance, 0);
-  
+const aggregateMonthlyData = (month: Date, days: CalendarDayData[]): MonthlyData | null => {
+  if (days.length === 0) return null;
+
+  // Group the month's days into Sunday-started weeks
+  const weeks = new Map<number, CalendarDayData[]>();
+  days.forEach(day => {
+    const weekStart = new Date(day.date);
+    weekStart.setDate(day.date.getDate() - day.date.getDay());
+    const key = weekStart.getTime();
+    if (!weeks.has(key)) weeks.set(key, []);
+    weeks.get(key)!.push(day);
+  });
+
+  const weeklyPerformances = Array.from(weeks.entries()).map(([start, weekDays]) => ({
+    start: new Date(start),
+    performance: (weekDays[weekDays.length - 1].close - weekDays[0].open) / weekDays[0].open
+  }));
+
+  const tradingDays = days.length;
+  const avgVolatility = days.reduce((sum, day) => sum + day.volatility, 0) / tradingDays;
+  const avgLiquidity = days.reduce((sum, day) => sum + day.liquidity, 0) / tradingDays;
+  const totalVolume = days.reduce((sum, day) => sum + day.volume, 0);
+  const monthlyPerformance = (days[tradingDays - 1].close - days[0].open) / days[0].open;
+
   // Determine volatility trend
-  const firstHalfVolatility = volatilities.slice(0, Math.floor(volatilities.length / 2)).reduce((a, b) => a + b, 0) / Math.floor(volatilities.length / 2);
-  const secondHalfVolatility = volatilities.slice(Math.floor(volatilities.length / 2)).reduce((a, b) => a + b, 0) / Math.ceil(volatilities.length / 2);
+  const volatilities = days.map(day => day.volatility);
+  const half = Math.floor(volatilities.length / 2);
+  const firstHalfVolatility = half > 0 ? volatilities.slice(0, half).reduce((a, b) => a + b, 0) / half : avgVolatility;
+  const secondHalfVolatility = volatilities.slice(half).reduce((a, b) => a + b, 0) / (volatilities.length - half);
   const volatilityTrend = secondHalfVolatility > firstHalfVolatility * 1.1 ? 'increasing' : 
                           secondHalfVolatility < firstHalfVolatility * 0.9 ? 'decreasing' : 'stable';
   
@@ -109,8 +76,8 @@ const generateMonthlyData = (month: Date): MonthlyData => {
     monthlyPerformance,
     liquidityPattern,
     avgLiquidity,
-    monthHigh: Math.max(...prices),
-    monthLow: Math.min(...prices),
+    monthHigh: Math.max(...days.map(day => day.high)),
+    monthLow: Math.min(...days.map(day => day.low)),
     tradingDays,
     bestWeek,
     worstWeek,
@@ -118,17 +85,19 @@ const generateMonthlyData = (month: Date): MonthlyData => {
 };
 
 interface MonthlyViewProps {
+  symbol: string;
   selectedDate: Date;
   onDateChange: (date: Date) => void;
   onDateSelect?: (date: Date) => void;
   selectedForDashboard?: Date | null;
   onHover?: (data: any) => void;
   onHoverLeave?: () => void;
-  filters?: any;
-  dateRange?: any;
+  filters?: FilterOptions;
+  dateRange?: DateRange;
 }
 
 export const MonthlyView: React.FC<MonthlyViewProps> = ({
+  symbol,
   selectedDate,
   onDateChange,
   onDateSelect,
@@ -138,7 +107,22 @@ export const MonthlyView: React.FC<MonthlyViewProps> = ({
   filters,
   dateRange
 }) => {
-  const monthlyData = useMemo(() => generateMonthlyData(selectedDate), [selectedDate]);
+  const monthStart = useMemo(() => new Date(selectedDate.getFullYear(), selectedDate.getMonth(), 1), [selectedDate]);
+  const monthEnd = useMemo(() => new Date(selectedDate.getFullYear(), selectedDate.getMonth() + 1, 0), [selectedDate]);
+
+  const { days, isLoading } = useCalendarData(symbol, monthStart, monthEnd);
+  const monthlyData = useMemo(() => aggregateMonthlyData(selectedDate, days), [selectedDate, days]);
+  const matchingDays = filterDays(days, filters);
+  const { visibleEvents } = useMarketEvents();
+  const monthEvents = useMemo(() => {
+    const prefix = toDayKey(monthStart).slice(0, 7);
+    return visibleEvents
+      .filter(event => event.date.startsWith(prefix))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }, [visibleEvents, monthStart]);
+  const matchingAvgReturn = matchingDays.length
+    ? matchingDays.reduce((sum, day) => sum + day.performance, 0) / matchingDays.length
+    : null;
   
   const navigateMonth = (direction: 'prev' | 'next') => {
     const newDate = new Date(selectedDate);
@@ -225,7 +209,7 @@ export const MonthlyView: React.FC<MonthlyViewProps> = ({
             onDateSelect?.(selectedDate);
           }
         }}
-        onMouseEnter={() => onHover?.({ 
+        onMouseEnter={() => monthlyData && onHover?.({ 
           date: selectedDate, 
           volatility: monthlyData.avgVolatility,
           performance: monthlyData.monthlyPerformance,
@@ -234,7 +218,7 @@ export const MonthlyView: React.FC<MonthlyViewProps> = ({
           liquidity: monthlyData.avgLiquidity
         })}
         onMouseLeave={() => onHoverLeave?.()}
-        onTouchStart={() => onHover?.({ 
+        onTouchStart={() => monthlyData && onHover?.({ 
           date: selectedDate, 
           volatility: monthlyData.avgVolatility,
           performance: monthlyData.monthlyPerformance,
@@ -244,6 +228,14 @@ export const MonthlyView: React.FC<MonthlyViewProps> = ({
         })}
         onTouchEnd={() => onHoverLeave?.()}
       >
+        {!monthlyData ? (
+          <div className={cn(
+            "h-40 flex items-center justify-center text-muted-foreground",
+            isLoading && "animate-pulse"
+          )}>
+            {isLoading ? 'Loading market data...' : 'No market data for this month'}
+          </div>
+        ) : (
         <div className="space-y-4 sm:space-y-6">
           {/* Header with Performance */}
           <div className="flex items-center justify-between">
@@ -319,6 +311,19 @@ export const MonthlyView: React.FC<MonthlyViewProps> = ({
             </div>
           </div>
 
+          {filters && isFilterActive(filters) && (
+            <p className="text-sm text-muted-foreground">
+              {matchingDays.length} of {monthlyData.tradingDays} trading days match the current filters
+              {matchingAvgReturn !== null && (
+                <> · avg daily return{' '}
+                  <span className={getPerformanceColor(matchingAvgReturn)}>
+                    {(matchingAvgReturn * 100).toFixed(2)}%
+                  </span>
+                </>
+              )}
+            </p>
+          )}
+
           {/* Best and Worst Weeks */}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
             <div className="p-3 rounded-lg bg-performance-positive/10 border border-performance-positive/20">
@@ -326,8 +331,8 @@ export const MonthlyView: React.FC<MonthlyViewProps> = ({
               <p className="text-sm text-muted-foreground">
                 {monthlyData.bestWeek.start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
               </p>
-              <p className="text-lg font-bold text-performance-positive">
-                +{(monthlyData.bestWeek.performance * 100).toFixed(2)}%
+              <p className={cn("text-lg font-bold", getPerformanceColor(monthlyData.bestWeek.performance))}>
+                {monthlyData.bestWeek.performance > 0 ? '+' : ''}{(monthlyData.bestWeek.performance * 100).toFixed(2)}%
               </p>
             </div>
             <div className="p-3 rounded-lg bg-performance-negative/10 border border-performance-negative/20">
@@ -335,13 +340,32 @@ export const MonthlyView: React.FC<MonthlyViewProps> = ({
               <p className="text-sm text-muted-foreground">
                 {monthlyData.worstWeek.start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
               </p>
-              <p className="text-lg font-bold text-performance-negative">
-                {(monthlyData.worstWeek.performance * 100).toFixed(2)}%
+              <p className={cn("text-lg font-bold", getPerformanceColor(monthlyData.worstWeek.performance))}>
+                {monthlyData.worstWeek.performance > 0 ? '+' : ''}{(monthlyData.worstWeek.performance * 100).toFixed(2)}%
               </p>
             </div>
           </div>
         </div>
+        )}
       </Card>
+
+      {/* Events this month */}
+      {monthEvents.length > 0 && (
+        <Card className="p-3 sm:p-4 lg:p-6">
+          <h3 className="text-sm font-semibold mb-3">Events</h3>
+          <div className="space-y-2">
+            {monthEvents.map(event => (
+              <div key={event.id} className="flex items-center gap-3 text-sm">
+                <span className="font-mono text-xs text-muted-foreground w-12 flex-shrink-0">
+                  {new Date(`${event.date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                </span>
+                <EventBadges events={[event]} />
+                <span className="truncate">{event.title}</span>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -3,6 +3,12 @@ import { ChevronLeft, ChevronRight, TrendingUp, TrendingDown, BarChart3 } from '
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
+import { useCalendarData } from '@/hooks/useCalendarData';
+import { FilterOptions, filterDays, getFilterDisplay, isFilterActive } from '@/utils/calendar-filters';
+import { DateRange } from '@/components/interactive-features/date-range-selector';
+import { CalendarDayData, getVolatilityLevel, toDayKey } from '@/services/calendar-data-service';
+import { useMarketEvents } from '@/contexts/market-events-context';
+import { EventBadges } from '@/components/ui/event-badges';
 
 interface WeeklyData {
   weekStart: Date;
@@ -16,68 +22,39 @@ interface WeeklyData {
   tradingDays: number;
 }
 
-const generateWeeklyData = (weekStart: Date): WeeklyData => {
-  const weekEnd = new Date(weekStart);
-  weekEnd.setDate(weekStart.getDate() + 6);
-  
-  // Aggregate mock data for the week
-  let totalVolatility = 0;
-  let totalVolume = 0;
-  let totalLiquidity = 0;
-  let prices: number[] = [];
-  let performances: number[] = [];
-  let tradingDays = 0;
-  
-  for (let i = 0; i < 7; i++) {
-    const date = new Date(weekStart);
-    date.setDate(weekStart.getDate() + i);
-    
-    // Skip weekends for trading data
-    if (date.getDay() !== 0 && date.getDay() !== 6) {
-      const seed = date.getTime();
-      const random = (min: number, max: number) => {
-        const x = Math.sin(seed * 9.301) * 10000;
-        return min + (x - Math.floor(x)) * (max - min);
-      };
-      
-      totalVolatility += random(0, 1);
-      totalVolume += random(1000000, 100000000);
-      totalLiquidity += random(0.1, 1);
-      prices.push(random(40000, 70000));
-      performances.push(random(-0.15, 0.15));
-      tradingDays++;
-    }
-  }
-  
-  const avgVolatility = totalVolatility / tradingDays;
-  const avgLiquidity = totalLiquidity / tradingDays;
-  const weeklyPerformance = performances.reduce((sum, perf) => sum + perf, 0);
-  
+const aggregateWeeklyData = (weekStart: Date, weekEnd: Date, days: CalendarDayData[]): WeeklyData | null => {
+  if (days.length === 0) return null;
+
+  const first = days[0];
+  const last = days[days.length - 1];
+
   return {
     weekStart,
     weekEnd,
-    avgVolatility,
-    totalVolume,
-    weeklyPerformance,
-    avgLiquidity,
-    highestPrice: Math.max(...prices),
-    lowestPrice: Math.min(...prices),
-    tradingDays,
+    avgVolatility: days.reduce((sum, day) => sum + day.volatility, 0) / days.length,
+    totalVolume: days.reduce((sum, day) => sum + day.volume, 0),
+    weeklyPerformance: (last.close - first.open) / first.open,
+    avgLiquidity: days.reduce((sum, day) => sum + day.liquidity, 0) / days.length,
+    highestPrice: Math.max(...days.map(day => day.high)),
+    lowestPrice: Math.min(...days.map(day => day.low)),
+    tradingDays: days.length,
   };
 };
 
 interface WeeklyViewProps {
+  symbol: string;
   selectedDate: Date;
   onDateChange: (date: Date) => void;
   onDateSelect?: (date: Date) => void;
   selectedForDashboard?: Date | null;
   onHover?: (data: any) => void;
   onHoverLeave?: () => void;
-  filters?: any;
-  dateRange?: any;
+  filters?: FilterOptions;
+  dateRange?: DateRange;
 }
 
 export const WeeklyView: React.FC<WeeklyViewProps> = ({
+  symbol,
   selectedDate,
   onDateChange,
   onDateSelect,
@@ -93,7 +70,22 @@ export const WeeklyView: React.FC<WeeklyViewProps> = ({
     return start;
   }, [selectedDate]);
   
-  const weeklyData = useMemo(() => generateWeeklyData(weekStart), [weekStart]);
+  const weekEnd = useMemo(() => {
+    const end = new Date(weekStart);
+    end.setDate(weekStart.getDate() + 6);
+    return end;
+  }, [weekStart]);
+
+  const { days, isLoading, getDayState } = useCalendarData(symbol, weekStart, weekEnd);
+  const weeklyData = useMemo(() => aggregateWeeklyData(weekStart, weekEnd, days), [weekStart, weekEnd, days]);
+  const matchingDays = filterDays(days, filters);
+  const { getEventsOn } = useMarketEvents();
+
+  const weekDates = useMemo(() => Array.from({ length: 7 }, (_, i) => {
+    const date = new Date(weekStart);
+    date.setDate(weekStart.getDate() + i);
+    return date;
+  }), [weekStart]);
   
   const navigateWeek = (direction: 'prev' | 'next') => {
     const newDate = new Date(selectedDate);
@@ -102,8 +94,9 @@ export const WeeklyView: React.FC<WeeklyViewProps> = ({
   };
 
   const getVolatilityColor = (volatility: number) => {
-    if (volatility < 0.3) return 'text-volatility-low border-volatility-low bg-volatility-low/10';
-    if (volatility < 0.7) return 'text-volatility-medium border-volatility-medium bg-volatility-medium/10';
+    const level = getVolatilityLevel(volatility);
+    if (level === 'low') return 'text-volatility-low border-volatility-low bg-volatility-low/10';
+    if (level === 'medium') return 'text-volatility-medium border-volatility-medium bg-volatility-medium/10';
     return 'text-volatility-high border-volatility-high bg-volatility-high/10';
   };
 
@@ -115,7 +108,7 @@ export const WeeklyView: React.FC<WeeklyViewProps> = ({
 
   const isSelected = selectedForDashboard && 
     selectedForDashboard >= weekStart && 
-    selectedForDashboard <= weeklyData.weekEnd;
+    selectedForDashboard <= weekEnd;
 
   return (
     <div className="space-y-6" onMouseMove={(e) => {
@@ -137,7 +130,7 @@ export const WeeklyView: React.FC<WeeklyViewProps> = ({
           {weekStart.toLocaleDateString('en-US', { 
             month: 'short',
             day: 'numeric'
-          })} - {weeklyData.weekEnd.toLocaleDateString('en-US', { 
+          })} - {weekEnd.toLocaleDateString('en-US', { 
             month: 'short',
             day: 'numeric',
             year: 'numeric'
@@ -155,12 +148,12 @@ export const WeeklyView: React.FC<WeeklyViewProps> = ({
           "p-6 cursor-pointer transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-secondary",
           isSelected && "ring-2 ring-accent scale-105",
           dateRange?.start && dateRange?.end && 
-          weekStart >= dateRange.start && weeklyData.weekEnd <= dateRange.end &&
+          weekStart >= dateRange.start && weekEnd <= dateRange.end &&
           "ring-2 ring-primary/50 bg-primary/5"
         )}
         tabIndex={0}
         onClick={() => onDateSelect?.(weekStart)}
-        onMouseEnter={() => onHover?.({ 
+        onMouseEnter={() => weeklyData && onHover?.({ 
           date: weekStart, 
           volatility: weeklyData.avgVolatility,
           performance: weeklyData.weeklyPerformance,
@@ -176,6 +169,14 @@ export const WeeklyView: React.FC<WeeklyViewProps> = ({
           }
         }}
       >
+        {!weeklyData ? (
+          <div className={cn(
+            "h-40 flex items-center justify-center text-muted-foreground",
+            isLoading && "animate-pulse"
+          )}>
+            {isLoading ? 'Loading market data...' : 'No market data for this week'}
+          </div>
+        ) : (
         <div className="space-y-4">
           {/* Header with Performance */}
           <div className="flex items-center justify-between">
@@ -240,6 +241,55 @@ export const WeeklyView: React.FC<WeeklyViewProps> = ({
             </div>
           </div>
         </div>
+        )}
+      </Card>
+
+      {/* Day Strip */}
+      <Card className="p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold">Days</h3>
+          {filters && isFilterActive(filters) && (
+            <span className="text-xs text-muted-foreground">
+              {matchingDays.length} of {days.length} days match filters
+            </span>
+          )}
+        </div>
+        <div className="grid grid-cols-7 gap-2">
+          {weekDates.map(date => {
+            const dayState = getDayState(date);
+            const display = getFilterDisplay(dayState, filters);
+            const day = dayState.data;
+
+            if (display === 'hidden') {
+              return <div key={date.toISOString()} className="h-16 rounded-lg border border-dashed border-border/40" />;
+            }
+
+            return (
+              <button
+                key={date.toISOString()}
+                type="button"
+                className={cn(
+                  "h-16 rounded-lg border p-1 text-center transition-all hover:shadow-md focus:outline-none focus:ring-2 focus:ring-secondary",
+                  day ? getVolatilityColor(day.volatility) : "bg-muted/20 border-border",
+                  dayState.status === 'loading' && "animate-pulse",
+                  display === 'dimmed' && "opacity-20 grayscale",
+                  selectedForDashboard?.toDateString() === date.toDateString() && "ring-2 ring-accent"
+                )}
+                onClick={() => onDateSelect?.(date)}
+                onMouseEnter={() => day && onHover?.({ ...day })}
+                onMouseLeave={() => onHoverLeave?.()}
+              >
+                <div className="text-[10px] sm:text-xs text-muted-foreground">
+                  {date.toLocaleDateString('en-US', { weekday: 'short' })} {date.getDate()}
+                </div>
+                <div className={cn("text-xs sm:text-sm font-semibold", day ? getPerformanceColor(day.performance) : "text-muted-foreground")}>
+                  {day ? `${(day.performance * 100).toFixed(1)}%` : '—'}
+                </div>
+                <EventBadges events={getEventsOn(toDayKey(date))} max={2} className="justify-center mt-0.5" />
+              </button>
+            );
+          })}
+        </div>
       </Card>
     </div>
   );
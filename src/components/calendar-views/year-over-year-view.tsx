@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useCalendarMonthAcrossYears } from '@/hooks/useCalendarData';
+import { CalendarDayData } from '@/services/calendar-data-service';
+
+const YEAR_SPANS = [3, 5, 8, 10];
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+const formatReturn = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+interface YearRow {
+  year: number;
+  days: (CalendarDayData | null | undefined)[]; // undefined = day doesn't exist that year (e.g. Feb 29)
+  monthReturn: number | null;
+}
+
+interface YearOverYearViewProps {
+  symbol: string;
+  selectedDate: Date;
+  onDateChange: (date: Date) => void;
+  onDateSelect?: (date: Date) => void;
+  selectedForDashboard?: Date | null;
+  onHover?: (data: CalendarDayData) => void;
+  onHoverLeave?: () => void;
+}
+
+export const YearOverYearView: React.FC<YearOverYearViewProps> = ({
+  symbol,
+  selectedDate,
+  onDateChange,
+  onDateSelect,
+  selectedForDashboard,
+  onHover,
+  onHoverLeave
+}) => {
+  const [yearSpan, setYearSpan] = useState(5);
+  const month = selectedDate.getMonth();
+  const endYear = selectedDate.getFullYear();
+
+  const { years, getDayState, isLoading } = useCalendarMonthAcrossYears(symbol, month, endYear, yearSpan);
+
+  // Widest month in the span, so Feb gets a 29th column whenever a leap year is included
+  const columnCount = Math.max(...years.map(year => daysInMonth(year, month)));
+  const dayColumns = Array.from({ length: columnCount }, (_, i) => i + 1);
+
+  const rows: YearRow[] = [...years].reverse().map(year => {
+    const days = dayColumns.map(day => {
+      if (day > daysInMonth(year, month)) return undefined;
+      return getDayState(new Date(year, month, day)).data ?? null;
+    });
+    const traded = days.filter((d): d is CalendarDayData => !!d);
+    const monthReturn = traded.length
+      ? (traded[traded.length - 1].close - traded[0].open) / traded[0].open
+      : null;
+    return { year, days, monthReturn };
+  });
+
+  // Each column averages only the years where that day exists and traded
+  const averages = dayColumns.map((_, index) => {
+    const values = rows
+      .map(row => row.days[index])
+      .filter((d): d is CalendarDayData => !!d)
+      .map(d => d.performance);
+    return {
+      value: values.length ? values.reduce((a, b) => a + b, 0) / values.length : null,
+      count: values.length
+    };
+  });
+  const monthReturns = rows.map(row => row.monthReturn).filter((r): r is number => r !== null);
+  const avgMonthReturn = monthReturns.length
+    ? monthReturns.reduce((a, b) => a + b, 0) / monthReturns.length
+    : null;
+
+  const maxMagnitude = Math.max(
+    ...rows.flatMap(row => row.days).filter((d): d is CalendarDayData => !!d).map(d => Math.abs(d.performance)),
+    0.0001
+  );
+
+  const getReturnStyle = (value: number | null): React.CSSProperties => {
+    if (value === null) return {};
+    const alpha = 0.1 + Math.min(Math.abs(value) / maxMagnitude, 1) * 0.7;
+    return {
+      backgroundColor: value >= 0
+        ? `hsl(var(--performance-positive) / ${alpha})`
+        : `hsl(var(--performance-negative) / ${alpha})`
+    };
+  };
+
+  const navigateMonth = (direction: 'prev' | 'next') => {
+    const newDate = new Date(selectedDate);
+    newDate.setMonth(selectedDate.getMonth() + (direction === 'next' ? 1 : -1));
+    onDateChange(newDate);
+  };
+
+  const monthName = selectedDate.toLocaleDateString('en-US', { month: 'long' });
+  const gridTemplateColumns = `3.5rem repeat(${columnCount}, minmax(1.25rem, 1fr)) 4.5rem`;
+
+  return (
+    <div className="space-y-6">
+      {/* Navigation */}
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" onClick={() => navigateMonth('prev')} className="flex-shrink-0">
+          <ChevronLeft className="w-4 h-4" />
+          <span className="hidden sm:inline ml-1">Previous</span>
+        </Button>
+        <div className="flex items-center space-x-2">
+          <h2 className="text-lg sm:text-xl font-semibold text-center">
+            {monthName} {years[0]}–{years[years.length - 1]}
+          </h2>
+          <Select value={String(yearSpan)} onValueChange={(value) => setYearSpan(Number(value))}>
+            <SelectTrigger className="w-24 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {YEAR_SPANS.map(span => (
+                <SelectItem key={span} value={String(span)}>{span} Years</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => navigateMonth('next')} className="flex-shrink-0">
+          <span className="hidden sm:inline mr-1">Next</span>
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <Card className="p-3 sm:p-4 lg:p-6 overflow-x-auto">
+        <div className="min-w-[720px] space-y-1">
+          {/* Day-of-month header */}
+          <div className="grid gap-1" style={{ gridTemplateColumns }}>
+            <div className="text-xs font-medium text-muted-foreground">Year</div>
+            {dayColumns.map(day => (
+              <div key={day} className="text-center text-[10px] sm:text-xs font-medium text-muted-foreground">
+                {day}
+              </div>
+            ))}
+            <div className="text-right text-xs font-medium text-muted-foreground">Month</div>
+          </div>
+
+          {/* One row per year, day columns aligned */}
+          {rows.map(row => (
+            <div key={row.year} className="grid gap-1" style={{ gridTemplateColumns }}>
+              <div className="text-xs sm:text-sm font-semibold flex items-center">{row.year}</div>
+              {row.days.map((data, index) => {
+                const date = new Date(row.year, month, index + 1);
+                if (data === undefined) {
+                  return (
+                    <div
+                      key={index}
+                      className="h-7 sm:h-8 rounded-sm border border-dashed border-border/50"
+                      title={`${monthName} ${index + 1} does not exist in ${row.year}`}
+                    />
+                  );
+                }
+                const isSelected = selectedForDashboard?.toDateString() === date.toDateString();
+                return (
+                  <div
+                    key={index}
+                    className={cn(
+                      "h-7 sm:h-8 rounded-sm border border-border cursor-pointer transition-transform hover:scale-110",
+                      !data && "bg-muted/20",
+                      !data && isLoading && "animate-pulse",
+                      isSelected && "ring-2 ring-accent"
+                    )}
+                    style={data ? getReturnStyle(data.performance) : undefined}
+                    onClick={() => onDateSelect?.(date)}
+                    onMouseEnter={() => data && onHover?.({ ...data })}
+                    onMouseLeave={() => onHoverLeave?.()}
+                  />
+                );
+              })}
+              <div className={cn(
+                "text-right text-xs sm:text-sm font-semibold flex items-center justify-end",
+                row.monthReturn === null ? "text-muted-foreground" :
+                row.monthReturn >= 0 ? "text-performance-positive" : "text-performance-negative"
+              )}>
+                {row.monthReturn === null ? '—' : formatReturn(row.monthReturn)}
+              </div>
+            </div>
+          ))}
+
+          {/* Cross-year average */}
+          <div className="grid gap-1 pt-2 border-t border-border" style={{ gridTemplateColumns }}>
+            <div className="text-xs sm:text-sm font-semibold flex items-center">Avg</div>
+            {averages.map((average, index) => (
+              <div
+                key={index}
+                className={cn(
+                  "h-7 sm:h-8 rounded-sm border border-border",
+                  average.value === null && "bg-muted/20"
+                )}
+                style={getReturnStyle(average.value)}
+                title={average.value === null
+                  ? 'No data'
+                  : `${monthName} ${index + 1}: ${formatReturn(average.value)} avg over ${average.count} year${average.count === 1 ? '' : 's'}`}
+              />
+            ))}
+            <div className={cn(
+              "text-right text-xs sm:text-sm font-bold flex items-center justify-end",
+              avgMonthReturn === null ? "text-muted-foreground" :
+              avgMonthReturn >= 0 ? "text-performance-positive" : "text-performance-negative"
+            )}>
+              {avgMonthReturn === null ? '—' : formatReturn(avgMonthReturn)}
+            </div>
+          </div>
+        </div>
+
+        <p className="mt-3 text-xs text-muted-foreground">
+          Cells are colored by daily open-to-close return. Dashed cells are days that do not exist in that year; the average row only counts years with data for that day.
+        </p>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { chartColors } from '@/components/ui/chart-formatters';
+
+export interface CandleDatum {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  prevClose?: number;
+}
+
+interface CandleShapeProps {
+  // Supplied by recharts for a range bar whose value is [low, high]
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: CandleDatum;
+  // 'filled': colour and fill from open vs close.
+  // 'hollow': colour from close vs previous close; rising candles (close > open) are drawn hollow.
+  variant?: 'filled' | 'hollow';
+}
+
+export const CandleShape: React.FC<CandleShapeProps> = ({ x = 0, y = 0, width = 0, height = 0, payload, variant = 'filled' }) => {
+  if (!payload) return null;
+
+  const { open, high, low, close, prevClose } = payload;
+  const top = Math.min(y, y + height);
+  const span = Math.abs(height);
+  const pixelsPerUnit = high > low ? span / (high - low) : 0;
+  const toY = (price: number) => top + (high - price) * pixelsPerUnit;
+
+  const rising = variant === 'hollow' ? close >= (prevClose ?? open) : close >= open;
+  const color = rising ? chartColors.bullish : chartColors.bearish;
+  const hollow = variant === 'hollow' && close > open;
+
+  const bodyWidth = Math.max(1, width * 0.7);
+  const bodyX = x + (width - bodyWidth) / 2;
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, toY(Math.min(open, close)) - bodyTop); // Doji still get a visible line
+  const wickX = x + width / 2;
+
+  return (
+    <g>
+      <line x1={wickX} y1={toY(high)} x2={wickX} y2={toY(low)} stroke={color} strokeWidth={1} />
+      <rect
+        x={bodyX}
+        y={bodyTop}
+        width={bodyWidth}
+        height={bodyHeight}
+        fill={hollow ? chartColors.background : color}
+        stroke={color}
+        strokeWidth={1}
+      />
+    </g>
+  );
+};
@@ -1,22 +1,40 @@
-import React, { useState, useMemo } from 'react';
-import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Area, LineChart, AreaChart, BarChart, ReferenceLine } from 'recharts';
+import React, { useState, useMemo, useRef, useCallback } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Area, ReferenceLine, Customized } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ChartControls } from '@/components/ui/chart-controls';
+import { ChartControls, ChartType, TimeInterval } from '@/components/ui/chart-controls';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { ChartLegend, ChartLegendConfigs } from '@/components/ui/chart-legend';
 import { ChartTooltip } from '@/components/ui/chart-tooltip';
 import { useChartTouch } from '@/hooks/useTouch';
 import { useChartOptimization } from '@/hooks/useChartOptimization';
+import { useChartKlines } from '@/hooks/useChartKlines';
+import { useLiveCandles, LiveCandleSource } from '@/hooks/useLiveCandles';
+import { useIndicatorInstances } from '@/hooks/useIndicatorInstances';
+import { useChartDrawings } from '@/hooks/useChartDrawings';
+import { useMarketEvents } from '@/contexts/market-events-context';
 import { formatPrice, formatVolume, formatTime, chartColors } from '@/components/ui/chart-formatters';
-import { calculateSMA, calculateEMA, calculateRSI, calculateMACD, calculateBollingerBands } from '@/utils/technicalIndicators';
-import { Kline } from '@/types/api';
+import { cn } from '@/lib/utils';
+import { toHeikinAshi } from '@/utils/candles';
+import { CandleShape } from './CandleShape';
+import { CanvasCandleChart, CanvasChartHandle, CanvasSeriesStyle } from './CanvasCandleChart';
+import { IndicatorPane } from './IndicatorPane';
+import { IndicatorSettingsDialog } from './IndicatorSettingsDialog';
+import { DrawingLayer, DrawingLayerProps } from './DrawingLayer';
+import { RechartsOverlay } from './RechartsOverlay';
+import { EventMarkers } from './EventMarkers';
+import { DrawingToolbar } from './DrawingToolbar';
+import { createLiveIndicators, indicatorInstanceLabel, IndicatorOutput } from '@/utils/chart-indicators';
+import { PriceBar } from '@/utils/technicalIndicators';
+import { ChartDrawing, DrawingType, drawingColors } from '@/utils/chart-drawings';
+import { ChartProjection } from '@/utils/chart-projection';
 
 interface CandlestickChartProps {
-  klines: Kline[];
   symbol: string;
 }
 
 interface CandleData {
   date: string;
+  time: number;
   open: number;
   high: number;
   low: number;
@@ -24,16 +42,62 @@ interface CandleData {
   volume: number;
   change: number;
   changePercent: number;
+  prevClose?: number;
+  range: [number, number]; // [low, high], drawn as one bar per candle
+  indicators?: Record<string, number | [number, number] | null>; // by series/band key, null during warm-up
 }
 
-export function CandlestickChart({ klines, symbol }: CandlestickChartProps) {
-  const [chartType, setChartType] = useState<'candlestick' | 'line' | 'area' | 'bar'>('candlestick');
-  const [timeInterval, setTimeInterval] = useState<'1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w'>('1h');
-  const [activeIndicators, setActiveIndicators] = useState<string[]>([]);
+const LABEL_SCALES: Record<TimeInterval, 'minute' | 'hour' | 'day' | 'week'> = {
+  '1m': 'minute', '5m': 'minute', '15m': 'minute', '1h': 'hour', '4h': 'hour', '1d': 'day', '1w': 'week'
+};
+
+// Recharts draws one SVG node per element and bogs down past this; larger series go to the canvas renderer
+const SVG_MAX_CANDLES = 500;
+
+const CHART_SYNC_ID = 'price-chart';
+const INDICATOR_PANE_HEIGHT = 96;
+
+const CANVAS_STYLES: Record<ChartType, CanvasSeriesStyle> = {
+  candlestick: 'candles', 'heikin-ashi': 'candles', hollow: 'hollow', line: 'line', area: 'area', bar: 'bar'
+};
+
+const toCandle = (bar: PriceBar, interval: TimeInterval, prevClose?: number): CandleData => {
+  const change = bar.close - bar.open;
+  return {
+    date: formatTime(bar.time, LABEL_SCALES[interval]),
+    time: bar.time,
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume,
+    change,
+    changePercent: (change / bar.open) * 100,
+    prevClose,
+    range: [bar.low, bar.high]
+  };
+};
+
+export function CandlestickChart({ symbol }: CandlestickChartProps) {
+  const [chartType, setChartType] = useState<ChartType>('candlestick');
+  const [timeInterval, setTimeInterval] = useState<TimeInterval>('1h');
+  // Refetches whenever the interval changes; previous candles stay up until the new ones arrive
+  const [historySize, setHistorySize] = useState(200);
+  const [liveSource, setLiveSource] = useState<LiveCandleSource>('book');
+  const { klines, interval, isLoading, isPlaceholderData } = useChartKlines(symbol, timeInterval, historySize);
+  const canvasRef = useRef<CanvasChartHandle>(null);
+  const indicators = useIndicatorInstances(symbol);
+  const [indicatorDialogOpen, setIndicatorDialogOpen] = useState(false);
   const [crosshair, setCrosshair] = useState<{ x: number; y: number } | null>(null);
+  // Annotations are saved per symbol and chart interval
+  const drawings = useChartDrawings(symbol, timeInterval);
+  const { visibleEvents: marketEvents } = useMarketEvents();
+  const [drawingTool, setDrawingTool] = useState<DrawingType | null>(null);
+  const [drawingColor, setDrawingColor] = useState(drawingColors[0]);
+  const [selectedDrawingId, setSelectedDrawingId] = useState<string | null>(null);
 
   const handleChartTypeChange = (type: any) => {
-    if (['candlestick', 'line', 'area', 'bar'].includes(type)) {
+    if (['candlestick', 'heikin-ashi', 'hollow', 'line', 'area', 'bar'].includes(type)) {
       setChartType(type);
     }
   };
@@ -45,31 +109,71 @@ export function CandlestickChart({ klines, symbol }: CandlestickChartProps) {
   };
 
   // Process and optimize chart data
+  const historyData: CandleData[] = useMemo(() => {
+    return klines.map((kline, index) => toCandle({
+      time: kline.openTime,
+      open: parseFloat(kline.open),
+      high: parseFloat(kline.high),
+      low: parseFloat(kline.low),
+      close: parseFloat(kline.close),
+      volume: parseFloat(kline.volume)
+    }, timeInterval, index > 0 ? parseFloat(klines[index - 1].close) : undefined));
+  }, [klines, timeInterval]);
+
+  // Between fetches the forming candle follows the order book stream, or the trade stream when chosen
+  const liveBars = useLiveCandles(symbol, interval, historyData[historyData.length - 1], liveSource);
   const candleData: CandleData[] = useMemo(() => {
-    return klines.map((kline) => {
-      const open = parseFloat(kline.open);
-      const close = parseFloat(kline.close);
-      const high = parseFloat(kline.high);
-      const low = parseFloat(kline.low);
-      const volume = parseFloat(kline.volume);
-      const change = close - open;
-      const changePercent = (change / open) * 100;
-      
-      return {
-        date: formatTime(kline.openTime, timeInterval === '1d' || timeInterval === '1w' ? 'day' : 'hour'),
-        open,
-        high,
-        low,
-        close,
-        volume,
-        change,
-        changePercent
-      };
+    if (!liveBars.length) return historyData;
+    const kept = historyData.filter(candle => candle.time < liveBars[0].time);
+    return liveBars.reduce((candles, bar) => [...candles, toCandle(bar, timeInterval, candles[candles.length - 1]?.close)], kept);
+  }, [historyData, liveBars, timeInterval]);
+
+  // Heikin-Ashi only changes what is drawn; stats and indicators keep using the real prices
+  const displayData: CandleData[] = useMemo(() => chartType === 'heikin-ashi'
+    ? toHeikinAshi(candleData).map(candle => ({ ...candle, range: [candle.low, candle.high] as [number, number] }))
+    : candleData,
+  [candleData, chartType]);
+
+  // Indicators always use the real candles, including under Heikin-Ashi. History is computed when it
+  // is fetched; live bars then only step the streaming versions for the newest values.
+  const liveIndicators = useMemo(
+    () => createLiveIndicators(indicators.instances, historyData),
+    [historyData, indicators.instances]
+  );
+
+  // Re-applying the newest bar is a revision, so this is safe to repeat
+  const indicatorOutputs = useMemo(() => {
+    liveBars.forEach(bar => liveIndicators.apply(bar));
+    return liveIndicators.outputs;
+  }, [liveIndicators, liveBars]);
+
+  const overlayOutputs = useMemo(() => indicatorOutputs.filter(output => output.definition.placement === 'overlay'), [indicatorOutputs]);
+  const paneOutputs = useMemo(() => indicatorOutputs.filter(output => output.definition.placement === 'pane'), [indicatorOutputs]);
+
+  // Every candle is drawn on canvas, decimated per pixel column rather than sampled
+  const canvasMode = displayData.length > SVG_MAX_CANDLES;
+
+  // Recharts reads indicator values from each row; bands become [lower, upper] ranges.
+  // The canvas renderer reads the series directly.
+  const chartRows: CandleData[] = useMemo(() => {
+    if (canvasMode || !indicatorOutputs.length) return displayData;
+    const finite = (value: number | undefined) => value !== undefined && Number.isFinite(value) ? value : null;
+    return displayData.map((row, index) => {
+      const indicators: CandleData['indicators'] = {};
+      indicatorOutputs.forEach(({ series, bands }: IndicatorOutput) => {
+        series.forEach(item => { indicators[item.key] = finite(item.values[index]); });
+        bands?.forEach(band => {
+          const upper = finite(series.find(item => item.key === band.upper)?.values[index]);
+          const lower = finite(series.find(item => item.key === band.lower)?.values[index]);
+          indicators[band.key] = upper !== null && lower !== null ? [Math.min(lower, upper), Math.max(lower, upper)] : null;
+        });
+      });
+      return { ...row, indicators };
     });
-  }, [klines, timeInterval]);
+  }, [displayData, indicatorOutputs, canvasMode]);
 
   // Chart optimization for performance
-  const optimizedData = useChartOptimization(candleData, {
+  const optimizedData = useChartOptimization(chartRows, {
     maxDataPoints: 200,
     enableVirtualization: candleData.length > 100,
     updateThrottle: 16
@@ -92,42 +196,50 @@ export function CandlestickChart({ klines, symbol }: CandlestickChartProps) {
     }
   );
 
-  // Calculate technical indicators
-  const technicalData = useMemo(() => {
-    const prices = candleData.map(d => d.close);
-    const indicators: any = {};
+  // The canvas reads the series arrays themselves, which live bars update in place
+  const canvasIndicators = useMemo(() => ({
+    overlays: overlayOutputs.flatMap(output => output.series),
+    bands: overlayOutputs.flatMap(({ series, bands = [] }) => bands.map(band => ({
+      upper: series.find(item => item.key === band.upper)?.values ?? [],
+      lower: series.find(item => item.key === band.lower)?.values ?? [],
+      color: band.color
+    }))),
+    panes: paneOutputs.map(({ definition, instance, series }) => ({
+      label: indicatorInstanceLabel(instance),
+      series,
+      range: definition.range,
+      levels: definition.levels
+    }))
+  }), [overlayOutputs, paneOutputs]);
 
-    if (activeIndicators.includes('sma')) {
-      indicators.sma20 = calculateSMA(prices, 20);
-      indicators.sma50 = calculateSMA(prices, 50);
-    }
-    
-    if (activeIndicators.includes('ema')) {
-      indicators.ema12 = calculateEMA(prices, 12);
-      indicators.ema26 = calculateEMA(prices, 26);
-    }
-    
-    if (activeIndicators.includes('rsi')) {
-      indicators.rsi = calculateRSI(prices, 14);
-    }
-    
-    if (activeIndicators.includes('macd')) {
-      indicators.macd = calculateMACD(prices);
-    }
-    
-    if (activeIndicators.includes('bb')) {
-      indicators.bb = calculateBollingerBands(prices, 20, 2);
-    }
+  const { add: addDrawing, update: updateDrawing, remove: removeDrawing } = drawings;
+  const deleteDrawing = useCallback((id: string) => {
+    removeDrawing(id);
+    setSelectedDrawingId(null);
+  }, [removeDrawing]);
 
-    return indicators;
-  }, [candleData, activeIndicators]);
+  // Shared by the Recharts and canvas renderers; a new drawing is selected and the tool put down
+  const drawingProps: DrawingLayerProps = {
+    drawings: drawings.drawings,
+    tool: drawingTool,
+    color: drawingColor,
+    selectedId: selectedDrawingId,
+    onSelectDrawing: setSelectedDrawingId,
+    onCreateDrawing: (drawing: ChartDrawing) => {
+      addDrawing(drawing);
+      setSelectedDrawingId(drawing.id);
+      setDrawingTool(null);
+    },
+    onChangeDrawing: (id, points) => updateDrawing(id, { points }),
+    onRemoveDrawing: deleteDrawing
+  };
+  const selectedDrawing = drawings.drawings.find(drawing => drawing.id === selectedDrawingId);
 
   // Enhanced tooltip with indicators
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
-      const data = payload[0].payload;
-      const dataIndex = optimizedData.data.findIndex(d => d.date === label);
-      
+      const data = payload[0].payload as CandleData;
+
       return (
         <ChartTooltip
           active={active}
@@ -137,10 +249,9 @@ export function CandlestickChart({ klines, symbol }: CandlestickChartProps) {
             { name: 'Low', value: data.low, color: 'hsl(var(--chart-3))' },
             { name: 'Close', value: data.close, color: 'hsl(var(--chart-1))' },
             { name: 'Volume', value: data.volume, color: 'hsl(var(--chart-4))' },
-            ...(activeIndicators.includes('sma') && technicalData.sma20?.[dataIndex] ? 
-              [{ name: 'SMA20', value: technicalData.sma20[dataIndex], color: 'hsl(var(--chart-5))' }] : []),
-            ...(activeIndicators.includes('rsi') && technicalData.rsi?.[dataIndex] ? 
-              [{ name: 'RSI', value: technicalData.rsi[dataIndex].value, color: 'hsl(var(--chart-6))' }] : [])
+            ...indicatorOutputs.flatMap(({ series }) => series
+              .filter(item => typeof data.indicators?.[item.key] === 'number')
+              .map(item => ({ name: item.label, value: data.indicators[item.key] as number, color: item.color })))
           ]}
           label={label}
           formatter={(value, name) => {
@@ -153,66 +264,13 @@ export function CandlestickChart({ klines, symbol }: CandlestickChartProps) {
     return null;
   };
 
-  // Custom candlestick bar component
-  const CandleBar = (props: any) => {
-    const { payload, x, y, width, height } = props;
-    if (!payload) return null;
-
-    const { open, close, high, low } = payload;
-    const isGreen = close > open;
-    const color = isGreen ? 'hsl(var(--chart-2))' : 'hsl(var(--chart-3))';
-    
-    // Calculate positions
-    const bodyTop = Math.min(open, close);
-    const bodyBottom = Math.max(open, close);
-    const bodyHeight = Math.abs(close - open);
-    
-    // Scale values relative to chart
-    const scale = height / (high - low);
-    const wickX = x + width / 2;
-    const bodyY = y + (high - bodyBottom) * scale;
-    const bodyHeightScaled = bodyHeight * scale || 1; // Minimum 1px height
-    
-    return (
-      <g>
-        {/* Upper wick */}
-        <line
-          x1={wickX}
-          y1={y + (high - high) * scale}
-          x2={wickX}
-          y2={bodyY}
-          stroke={color}
-          strokeWidth={1}
-        />
-        {/* Lower wick */}
-        <line
-          x1={wickX}
-          y1={bodyY + bodyHeightScaled}
-          x2={wickX}
-          y2={y + (high - low) * scale}
-          stroke={color}
-          strokeWidth={1}
-        />
-        {/* Body */}
-        <rect
-          x={x + width * 0.2}
-          y={bodyY}
-          width={width * 0.6}
-          height={bodyHeightScaled}
-          fill={isGreen ? color : 'none'}
-          stroke={color}
-          strokeWidth={isGreen ? 0 : 1}
-        />
-      </g>
-    );
-  };
-
   // Render different chart types
   const renderChart = () => {
     const data = optimizedData.data;
     const chartProps = {
       data,
       margin: { top: 20, right: 30, left: 20, bottom: 5 },
+      syncId: CHART_SYNC_ID,
       onMouseMove: (e: any) => {
         if (e?.activeLabel && e?.activeCoordinate) {
           setCrosshair({ x: e.activeCoordinate.x, y: e.activeCoordinate.y });
@@ -224,19 +282,20 @@ export function CandlestickChart({ klines, symbol }: CandlestickChartProps) {
     switch (chartType) {
       case 'line':
         return (
-          <LineChart {...chartProps}>
+          <ComposedChart {...chartProps}>
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
             <XAxis dataKey="date" tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
             <YAxis domain={['dataMin - 100', 'dataMax + 100']} tick={{ fontSize: 12 }} />
             <Tooltip content={<CustomTooltip />} />
             <Line type="monotone" dataKey="close" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
             {renderIndicators()}
-          </LineChart>
+            {renderAnnotationLayer()}
+          </ComposedChart>
         );
       
       case 'area':
         return (
-          <AreaChart {...chartProps}>
+          <ComposedChart {...chartProps}>
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
             <XAxis dataKey="date" tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
             <YAxis domain={['dataMin - 100', 'dataMax + 100']} tick={{ fontSize: 12 }} />
@@ -249,31 +308,38 @@ export function CandlestickChart({ klines, symbol }: CandlestickChartProps) {
               </linearGradient>
             </defs>
             {renderIndicators()}
-          </AreaChart>
+            {renderAnnotationLayer()}
+          </ComposedChart>
         );
       
       case 'bar':
         return (
-          <BarChart {...chartProps}>
+          <ComposedChart {...chartProps}>
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
             <XAxis dataKey="date" tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
             <YAxis domain={['dataMin - 100', 'dataMax + 100']} tick={{ fontSize: 12 }} />
             <Tooltip content={<CustomTooltip />} />
             <Bar dataKey="close" fill="hsl(var(--primary))" radius={[2, 2, 0, 0]} />
             {renderIndicators()}
-          </BarChart>
+            {renderAnnotationLayer()}
+          </ComposedChart>
         );
       
-      default: // candlestick
+      default: // candlestick, heikin-ashi, hollow
         return (
           <ComposedChart {...chartProps}>
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
             <XAxis dataKey="date" tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
-            <YAxis domain={['dataMin - 100', 'dataMax + 100']} tick={{ fontSize: 12 }} />
-            <YAxis yAxisId="volume" orientation="right" domain={[0, 'dataMax']} hide />
+            <YAxis domain={['auto', 'auto']} tick={{ fontSize: 12 }} tickFormatter={(value) => formatPrice(Number(value))} />
+            {/* Volume sits in the bottom quarter, under the candles */}
+            <YAxis yAxisId="volume" orientation="right" domain={[0, (max: number) => max * 4]} hide />
             <Tooltip content={<CustomTooltip />} />
             <Bar dataKey="volume" fill="hsl(var(--chart-4))" opacity={0.4} yAxisId="volume" radius={[1, 1, 0, 0]} />
-            <Line type="monotone" dataKey="close" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+            <Bar
+              dataKey="range"
+              isAnimationActive={false}
+              shape={(props: unknown) => <CandleShape {...(props as object)} variant={chartType === 'hollow' ? 'hollow' : 'filled'} />}
+            />
             {renderIndicators()}
             {crosshair && (
               <>
@@ -281,45 +347,52 @@ export function CandlestickChart({ klines, symbol }: CandlestickChartProps) {
                 <ReferenceLine y={crosshair.y} stroke="hsl(var(--muted-foreground))" strokeDasharray="2 2" />
               </>
             )}
+            {renderAnnotationLayer()}
           </ComposedChart>
         );
     }
   };
 
-  // Render technical indicators
-  const renderIndicators = () => {
-    const indicators = [];
-    
-    if (activeIndicators.includes('sma') && technicalData.sma20) {
-      indicators.push(
-        <Line 
-          key="sma20"
-          type="monotone" 
-          dataKey={() => technicalData.sma20}
-          stroke="hsl(var(--chart-5))" 
-          strokeWidth={2} 
-          dot={false}
-          name="SMA 20"
-        />
-      );
-    }
-    
-    if (activeIndicators.includes('ema') && technicalData.ema12) {
-      indicators.push(
-        <Line 
-          key="ema12"
-          type="monotone" 
-          dataKey={() => technicalData.ema12}
-          stroke="hsl(var(--chart-6))" 
-          strokeWidth={2} 
-          dot={false}
-          name="EMA 12"
-        />
-      );
-    }
+  // Overlay indicators on the price scale: channel fills first, then lines and SAR dots
+  const renderIndicators = () => [
+    ...overlayOutputs.flatMap(({ bands = [] }) => bands.map(band => (
+      <Area
+        key={band.key}
+        dataKey={`indicators.${band.key}`}
+        stroke="none"
+        fill={band.color}
+        fillOpacity={0.1}
+        isAnimationActive={false}
+        activeDot={false}
+      />
+    ))),
+    ...overlayOutputs.flatMap(({ series }) => series.map(item => (
+      <Line
+        key={item.key}
+        type="monotone"
+        dataKey={`indicators.${item.key}`}
+        name={item.label}
+        stroke={item.style === 'dots' ? 'none' : item.color}
+        strokeWidth={1.5}
+        dot={item.style === 'dots' ? { r: 1.5, fill: item.color, stroke: 'none' } : false}
+        activeDot={false}
+        isAnimationActive={false}
+      />
+    )))
+  ];
 
-    return indicators;
-  };
+  // Event markers and drawings, in either renderer's projection; drawings on top so they can be picked
+  const renderAnnotations = (projection: ChartProjection) => (
+    <>
+      <EventMarkers projection={projection} events={marketEvents} />
+      <DrawingLayer projection={projection} {...drawingProps} />
+    </>
+  );
+
+  // Annotations go last so they sit above the series
+  const renderAnnotationLayer = () => (
+    <Customized component={<RechartsOverlay rows={optimizedData.data} render={renderAnnotations} />} />
+  );
 
   return (
     <div className="space-y-6">
@@ -331,34 +404,92 @@ export function CandlestickChart({ klines, symbol }: CandlestickChartProps) {
             onChartTypeChange={handleChartTypeChange}
             timeInterval={timeInterval}
             onTimeIntervalChange={handleTimeIntervalChange}
-            onZoomIn={() => optimizedData.zoomToRange(
-              optimizedData.startIndex + 10,
-              optimizedData.endIndex - 10
-            )}
-            onZoomOut={() => optimizedData.zoomToRange(
-              Math.max(0, optimizedData.startIndex - 10),
-              Math.min(candleData.length, optimizedData.endIndex + 10)
-            )}
+            onZoomIn={() => canvasMode
+              ? canvasRef.current?.zoomIn()
+              : optimizedData.zoomToRange(optimizedData.startIndex + 10, optimizedData.endIndex - 10)}
+            onZoomOut={() => canvasMode
+              ? canvasRef.current?.zoomOut()
+              : optimizedData.zoomToRange(
+                Math.max(0, optimizedData.startIndex - 10),
+                Math.min(candleData.length, optimizedData.endIndex + 10)
+              )}
             onReset={() => {
+              canvasRef.current?.reset();
               optimizedData.resetView();
               resetZoom();
             }}
-            enabledIndicators={activeIndicators}
-            onToggleIndicator={(indicator) => {
-              setActiveIndicators(prev => 
-                prev.includes(indicator) 
-                  ? prev.filter(i => i !== indicator)
-                  : [...prev, indicator]
-              );
-            }}
+            historySize={historySize}
+            onHistorySizeChange={setHistorySize}
+            liveSource={liveSource}
+            onLiveSourceChange={setLiveSource}
+            indicatorCount={indicators.instances.filter(instance => instance.visible).length}
+            onEditIndicators={() => setIndicatorDialogOpen(true)}
+          />
+          <IndicatorSettingsDialog
+            open={indicatorDialogOpen}
+            onOpenChange={setIndicatorDialogOpen}
+            symbol={symbol}
+            instances={indicators.instances}
+            onAdd={indicators.add}
+            onUpdate={indicators.update}
+            onRemove={indicators.remove}
           />
         </CardHeader>
         <CardContent>
-        <div ref={elementRef as any} className="h-96 touch-pan-y select-none">
-          <ResponsiveContainer width="100%" height="100%">
-            {renderChart()}
-          </ResponsiveContainer>
+        <DrawingToolbar
+          tool={drawingTool}
+          onToolChange={setDrawingTool}
+          color={drawingColor}
+          onColorChange={setDrawingColor}
+          selected={selectedDrawing}
+          onUpdateSelected={(patch) => selectedDrawing && updateDrawing(selectedDrawing.id, patch)}
+          onRemoveSelected={() => selectedDrawing && deleteDrawing(selectedDrawing.id)}
+          onClear={() => {
+            drawings.clear();
+            setSelectedDrawingId(null);
+          }}
+          count={drawings.drawings.length}
+          className="mb-3"
+        />
+        <div
+          ref={canvasMode ? undefined : elementRef as any}
+          className={cn('touch-pan-y select-none transition-opacity', !canvasMode && 'h-96', isPlaceholderData && 'opacity-50')}
+          // Canvas panes are drawn inside the chart, so its box grows with them
+          style={canvasMode ? { height: 384 + paneOutputs.length * INDICATOR_PANE_HEIGHT } : undefined}
+        >
+          {isLoading ? (
+            <div className="h-full flex items-center justify-center">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : canvasMode ? (
+            <CanvasCandleChart
+              ref={canvasRef}
+              candles={displayData}
+              seriesStyle={CANVAS_STYLES[chartType]}
+              overlays={canvasIndicators.overlays}
+              bands={canvasIndicators.bands}
+              panes={canvasIndicators.panes}
+              paneHeight={INDICATOR_PANE_HEIGHT}
+              formatTimeLabel={(time) => formatTime(time, LABEL_SCALES[timeInterval])}
+              renderOverlay={renderAnnotations}
+            />
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              {renderChart()}
+            </ResponsiveContainer>
+          )}
         </div>
+        {!canvasMode && !isLoading && paneOutputs.map(({ definition, instance, series }) => (
+          <IndicatorPane
+            key={instance.id}
+            label={indicatorInstanceLabel(instance)}
+            definition={definition}
+            series={series}
+            data={optimizedData.data}
+            syncId={CHART_SYNC_ID}
+            height={INDICATOR_PANE_HEIGHT}
+          />
+        ))}
         
         {/* Enhanced Summary statistics with performance metrics */}
         <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -369,7 +500,7 @@ export function CandlestickChart({ klines, symbol }: CandlestickChartProps) {
             </p>
           </div>
           <div className="bg-gradient-to-br from-chart-2/20 to-transparent p-4 rounded-lg border border-chart-2/20 text-center">
-            <p className="text-muted-foreground text-sm">24h Change</p>
+            <p className="text-muted-foreground text-sm">{timeInterval} Change</p>
             <p className={`font-bold text-lg font-mono ${candleData[candleData.length - 1]?.change >= 0 ? 'text-performance-positive' : 'text-performance-negative'}`}>
               {candleData[candleData.length - 1]?.change >= 0 ? '+' : ''}
               {candleData[candleData.length - 1]?.changePercent.toFixed(2)}%
@@ -385,10 +516,10 @@ export function CandlestickChart({ klines, symbol }: CandlestickChartProps) {
             <p className="text-muted-foreground text-sm">High/Low</p>
             <div className="space-y-1">
               <p className="font-bold text-chart-2 text-sm font-mono">
-                {formatPrice(Math.max(...candleData.map(d => d.high)))}
+                {formatPrice(candleData.reduce((max, d) => Math.max(max, d.high), 0))}
               </p>
               <p className="font-bold text-chart-3 text-sm font-mono">
-                {formatPrice(Math.min(...candleData.map(d => d.low)))}
+                {formatPrice(candleData.reduce((min, d) => Math.min(min, d.low), Infinity))}
               </p>
             </div>
           </div>
@@ -396,7 +527,7 @@ export function CandlestickChart({ klines, symbol }: CandlestickChartProps) {
 
         {/* Performance Metrics */}
         <div className="mt-4 text-xs text-muted-foreground flex justify-between items-center">
-          <span>Data Points: {optimizedData.data.length}/{candleData.length}</span>
+          <span>Data Points: {canvasMode ? candleData.length : optimizedData.data.length}/{candleData.length} ({canvasMode ? 'canvas' : 'SVG'})</span>
           <span>Zoom: {zoomLevel.toFixed(1)}x</span>
           <span>Touch: {touchState.isMultiTouch ? 'Multi' : 'Single'}</span>
           <span>Performance: {optimizedData.getPerformanceMetrics()?.renderTime || 0}ms</span>
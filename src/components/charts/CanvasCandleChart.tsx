@@ -0,0 +1,554 @@
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { useCanvas, CanvasSize } from '@/hooks/useCanvas';
+import { chartColors, formatPrice, formatVolume, generatePriceTicks } from '@/components/ui/chart-formatters';
+import { aggregateCandles, decimateSeries, CandleBucket, OHLCV, SeriesBucket } from '@/utils/decimation';
+import { resolveColor, withAlpha, crisp } from '@/utils/canvas';
+import { ChartProjection, createCandleProjection, createTimeScale } from '@/utils/chart-projection';
+import { cn } from '@/lib/utils';
+
+export interface CanvasCandle extends OHLCV {
+  time: number;
+}
+
+export interface CanvasOverlay {
+  label: string;
+  values: number[]; // one per candle, NaN where undefined
+  color: string;
+  style?: 'line' | 'histogram' | 'dots';
+}
+
+// Shaded area between two series on the price scale
+export interface CanvasBand {
+  upper: number[];
+  lower: number[];
+  color: string;
+}
+
+// Indicator strip under the price plot, sharing its time axis
+export interface CanvasPane {
+  label: string;
+  series: CanvasOverlay[];
+  range?: [number, number]; // fixed scale; otherwise fitted to the visible values
+  levels?: number[];
+}
+
+export type CanvasSeriesStyle = 'candles' | 'hollow' | 'line' | 'area' | 'bar';
+
+export interface CanvasChartHandle {
+  zoomIn: () => void;
+  zoomOut: () => void;
+  reset: () => void;
+}
+
+interface CanvasCandleChartProps {
+  candles: CanvasCandle[];
+  seriesStyle?: CanvasSeriesStyle;
+  overlays?: CanvasOverlay[];
+  bands?: CanvasBand[];
+  panes?: CanvasPane[];
+  paneHeight?: number;
+  showVolume?: boolean;
+  formatTimeLabel: (time: number) => string;
+  // SVG drawn over the price plot (e.g. annotations), positioned through the current view
+  renderOverlay?: (projection: ChartProjection) => React.ReactNode;
+  className?: string;
+}
+
+const PRICE_AXIS_WIDTH = 72;
+const TIME_AXIS_HEIGHT = 20;
+const VOLUME_SHARE = 0.2;     // bottom fifth of the plot
+const MIN_CANDLE_PX = 3;      // narrower than this and neighbouring candles are merged
+const MIN_VISIBLE = 20;
+const ZOOM_STEP = 1.25;
+
+// Visible window as a candle count and distance from the newest candle; null shows everything
+interface Viewport {
+  count: number;
+  rightOffset: number;
+}
+
+// What the last draw mapped to the price plot, for placing the overlay
+interface PlotView {
+  start: number;
+  pxPerCandle: number;
+  min: number;
+  max: number;
+  width: number;
+  height: number;
+}
+
+const samePlotView = (a: PlotView | null, b: PlotView) =>
+  !!a && a.start === b.start && a.pxPerCandle === b.pxPerCandle && a.min === b.min && a.max === b.max &&
+  a.width === b.width && a.height === b.height;
+
+const formatIndicatorValue = (value: number): string => {
+  if (value === undefined || Number.isNaN(value)) return '-';
+  const magnitude = Math.abs(value);
+  if (magnitude >= 1e6) return formatVolume(value);
+  return value.toFixed(magnitude >= 100 ? 1 : magnitude >= 1 ? 2 : 4);
+};
+
+// One indicator series from its decimated buckets: a min/max line, zero-based histogram or dots
+const drawSeries = (
+  ctx: CanvasRenderingContext2D,
+  series: CanvasOverlay,
+  buckets: SeriesBucket[],
+  bucketX: (bucket: SeriesBucket) => number,
+  y: (value: number) => number,
+  bucketWidth: number,
+  baseline: number
+) => {
+  const color = resolveColor(series.color);
+
+  if (series.style === 'histogram') {
+    const width = Math.max(1, bucketWidth * 0.7);
+    buckets.forEach(bucket => {
+      // The larger swing in the column, so merged bars keep their peaks
+      const value = Math.abs(bucket.max) >= Math.abs(bucket.min) ? bucket.max : bucket.min;
+      const top = Math.min(y(value), baseline);
+      ctx.fillStyle = withAlpha(value >= 0 ? chartColors.bullish : chartColors.bearish, 0.6);
+      ctx.fillRect(bucketX(bucket) - width / 2, top, width, Math.max(1, Math.abs(y(value) - baseline)));
+    });
+    return;
+  }
+
+  if (series.style === 'dots') {
+    const radius = Math.min(2.5, Math.max(1, bucketWidth / 4));
+    ctx.fillStyle = color;
+    buckets.forEach(bucket => {
+      ctx.beginPath();
+      ctx.arc(bucketX(bucket), y(bucket.last), radius, 0, Math.PI * 2);
+      ctx.fill();
+    });
+    return;
+  }
+
+  ctx.beginPath();
+  buckets.forEach((bucket, i) => {
+    const bx = bucketX(bucket);
+    if (i === 0) ctx.moveTo(bx, y(bucket.first));
+    else ctx.lineTo(bx, y(bucket.first));
+    ctx.lineTo(bx, y(bucket.last));
+  });
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.stroke();
+  ctx.lineWidth = 1;
+};
+
+export const CanvasCandleChart = forwardRef<CanvasChartHandle, CanvasCandleChartProps>(({
+  candles,
+  seriesStyle = 'candles',
+  overlays = [],
+  bands = [],
+  panes = [],
+  paneHeight = 96,
+  showVolume = true,
+  formatTimeLabel,
+  renderOverlay,
+  className
+}, ref) => {
+  const viewRef = useRef<Viewport | null>(null);
+  const pointerRef = useRef<{ x: number; y: number } | null>(null);
+  const dragRef = useRef<{ x: number; rightOffset: number } | null>(null);
+  const [hovered, setHovered] = useState<CandleBucket | null>(null);
+  const [plotView, setPlotView] = useState<PlotView | null>(null);
+
+  const visibleRange = useCallback(() => {
+    const total = candles.length;
+    const view = viewRef.current;
+    const count = view ? Math.min(total, Math.max(MIN_VISIBLE, view.count)) : total;
+    const rightOffset = view ? Math.min(Math.max(0, view.rightOffset), total - count) : 0;
+    const end = Math.round(total - rightOffset);
+    return { start: Math.max(0, Math.round(end - count)), end };
+  }, [candles.length]);
+
+  // Price plot on top, then one strip per pane, then the time axis
+  const layout = (size: CanvasSize) => {
+    const plotWidth = Math.max(1, size.width - PRICE_AXIS_WIDTH);
+    const panesHeight = panes.length * paneHeight;
+    const plotHeight = Math.max(1, size.height - TIME_AXIS_HEIGHT - panesHeight);
+    return { plotWidth, plotHeight, axisTop: plotHeight + panesHeight };
+  };
+
+  // Buckets actually drawn for the current view and width, shared by drawing and hit-testing
+  const bucketsFor = useCallback((plotWidth: number) => {
+    const { start, end } = visibleRange();
+    const pxPerCandle = plotWidth / Math.max(1, end - start);
+    const bucketSize = pxPerCandle >= MIN_CANDLE_PX ? 1 : Math.ceil(MIN_CANDLE_PX / pxPerCandle);
+    return { start, end, pxPerCandle, bucketSize, buckets: aggregateCandles(candles, start, end, bucketSize) };
+  }, [candles, visibleRange]);
+
+  const draw = (ctx: CanvasRenderingContext2D, size: CanvasSize) => {
+    if (!candles.length) return;
+
+    const { plotWidth, plotHeight, axisTop } = layout(size);
+    const { start, end, pxPerCandle, bucketSize, buckets } = bucketsFor(plotWidth);
+    const priceHeight = showVolume ? plotHeight * (1 - VOLUME_SHARE) : plotHeight;
+
+    // Price scale from the visible extremes, including overlays so they aren't clipped
+    let min = Infinity;
+    let max = -Infinity;
+    buckets.forEach(bucket => {
+      if (bucket.low < min) min = bucket.low;
+      if (bucket.high > max) max = bucket.high;
+    });
+    const overlayBuckets = overlays.map(overlay => decimateSeries(overlay.values, start, end, bucketSize));
+    overlayBuckets.forEach(series => series.forEach(bucket => {
+      if (bucket.min < min) min = bucket.min;
+      if (bucket.max > max) max = bucket.max;
+    }));
+    if (!Number.isFinite(min) || !Number.isFinite(max)) return;
+    const padding = (max - min || max * 0.01 || 1) * 0.05;
+    min -= padding;
+    max += padding;
+
+    const y = (price: number) => (max - price) / (max - min) * priceHeight;
+    // Re-renders only when the mapping changes, so the redraw that follows doesn't loop
+    const view = { start, pxPerCandle, min, max, width: plotWidth, height: priceHeight };
+    if (renderOverlay) setPlotView(prev => samePlotView(prev, view) ? prev : view);
+    const x = (index: number) => (index - start) * pxPerCandle;
+    const bucketX = (bucket: { startIndex: number; endIndex: number }) => x((bucket.startIndex + bucket.endIndex) / 2);
+    const bucketWidth = bucketSize * pxPerCandle;
+
+    const bullish = resolveColor(chartColors.bullish);
+    const bearish = resolveColor(chartColors.bearish);
+    const muted = resolveColor(chartColors.textSecondary);
+
+    // Grid and price axis
+    ctx.font = '11px ui-monospace, monospace';
+    ctx.textBaseline = 'middle';
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = withAlpha(chartColors.grid, 0.5);
+    ctx.fillStyle = muted;
+    generatePriceTicks(min, max, 6).filter(tick => tick >= min && tick <= max).forEach(tick => {
+      const ty = crisp(y(tick));
+      ctx.beginPath();
+      ctx.moveTo(0, ty);
+      ctx.lineTo(plotWidth, ty);
+      ctx.stroke();
+      ctx.fillText(formatPrice(tick), plotWidth + 6, ty);
+    });
+
+    // Time axis: a label roughly every 120px
+    ctx.textBaseline = 'top';
+    ctx.textAlign = 'center';
+    const labelEvery = Math.max(1, Math.round(120 / pxPerCandle));
+    for (let index = Math.ceil(start / labelEvery) * labelEvery; index < end; index += labelEvery) {
+      const lx = x(index + 0.5);
+      if (lx < 30 || lx > plotWidth - 30) continue;
+      ctx.fillText(formatTimeLabel(candles[index].time), lx, axisTop + 4);
+    }
+    ctx.textAlign = 'left';
+
+    const pointer = pointerRef.current;
+    const pointerIndex = pointer ? Math.floor(start + pointer.x / pxPerCandle) : end - 1;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, plotWidth, plotHeight);
+    ctx.clip();
+
+    // Volume along the bottom, coloured by candle direction
+    if (showVolume) {
+      const maxVolume = Math.max(...buckets.map(bucket => bucket.volume), 0);
+      if (maxVolume > 0) {
+        const volumeHeight = plotHeight * VOLUME_SHARE;
+        buckets.forEach(bucket => {
+          const height = bucket.volume / maxVolume * volumeHeight;
+          ctx.fillStyle = withAlpha(bucket.close >= bucket.open ? chartColors.bullish : chartColors.bearish, 0.35);
+          ctx.fillRect(bucketX(bucket) - bucketWidth * 0.4, plotHeight - height, Math.max(1, bucketWidth * 0.8), height);
+        });
+      }
+    }
+
+    if (seriesStyle === 'line' || seriesStyle === 'area') {
+      const closes = decimateSeries(candles.map(candle => candle.close), start, end, bucketSize);
+      ctx.beginPath();
+      closes.forEach((bucket, i) => {
+        const bx = bucketX(bucket);
+        if (i === 0) ctx.moveTo(bx, y(bucket.first));
+        else ctx.lineTo(bx, y(bucket.first));
+        // Min and max keep spikes inside a merged column visible
+        if (bucketSize > 1) {
+          ctx.lineTo(bx, y(bucket.min));
+          ctx.lineTo(bx, y(bucket.max));
+        }
+        ctx.lineTo(bx, y(bucket.last));
+      });
+      ctx.strokeStyle = resolveColor(chartColors.primary);
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      if (seriesStyle === 'area' && closes.length) {
+        ctx.lineTo(bucketX(closes[closes.length - 1]), priceHeight);
+        ctx.lineTo(bucketX(closes[0]), priceHeight);
+        ctx.closePath();
+        ctx.fillStyle = withAlpha(chartColors.primary, 0.15);
+        ctx.fill();
+      }
+    } else if (seriesStyle === 'bar') {
+      ctx.fillStyle = withAlpha(chartColors.primary, 0.8);
+      buckets.forEach(bucket => {
+        const top = y(bucket.close);
+        ctx.fillRect(bucketX(bucket) - bucketWidth * 0.4, top, Math.max(1, bucketWidth * 0.8), priceHeight - top);
+      });
+    } else {
+      const bodyWidth = Math.max(1, bucketWidth * 0.7);
+      buckets.forEach((bucket, i) => {
+        // Hollow candles colour by the previous close and leave rising bodies unfilled
+        const previousClose = i > 0 ? buckets[i - 1].close : candles[bucket.startIndex - 1]?.close ?? bucket.open;
+        const rising = seriesStyle === 'hollow' ? bucket.close >= previousClose : bucket.close >= bucket.open;
+        const color = rising ? bullish : bearish;
+        const cx = bucketX(bucket);
+        const bodyTop = y(Math.max(bucket.open, bucket.close));
+        const bodyHeight = Math.max(1, y(Math.min(bucket.open, bucket.close)) - bodyTop);
+
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(crisp(cx), y(bucket.high));
+        ctx.lineTo(crisp(cx), y(bucket.low));
+        ctx.stroke();
+
+        if (seriesStyle === 'hollow' && bucket.close > bucket.open && bodyWidth > 2) {
+          ctx.fillStyle = resolveColor(chartColors.background);
+          ctx.fillRect(cx - bodyWidth / 2, bodyTop, bodyWidth, bodyHeight);
+          ctx.strokeRect(crisp(cx - bodyWidth / 2), crisp(bodyTop), Math.round(bodyWidth) - 1, Math.round(bodyHeight) - 1);
+        } else {
+          ctx.fillStyle = color;
+          ctx.fillRect(cx - bodyWidth / 2, bodyTop, bodyWidth, bodyHeight);
+        }
+      });
+    }
+
+    bands.forEach(band => {
+      const lower = new Map(decimateSeries(band.lower, start, end, bucketSize).map(bucket => [bucket.startIndex, bucket]));
+      const pairs = decimateSeries(band.upper, start, end, bucketSize)
+        .filter(bucket => lower.has(bucket.startIndex))
+        .map(bucket => ({ x: bucketX(bucket), upper: bucket.last, lower: lower.get(bucket.startIndex)!.last }));
+      if (pairs.length < 2) return;
+      ctx.beginPath();
+      pairs.forEach((pair, i) => i === 0 ? ctx.moveTo(pair.x, y(pair.upper)) : ctx.lineTo(pair.x, y(pair.upper)));
+      [...pairs].reverse().forEach(pair => ctx.lineTo(pair.x, y(pair.lower)));
+      ctx.closePath();
+      ctx.fillStyle = withAlpha(band.color, 0.1);
+      ctx.fill();
+    });
+
+    overlays.forEach((overlay, index) => drawSeries(ctx, overlay, overlayBuckets[index], bucketX, y, bucketWidth, y(0)));
+
+    ctx.restore();
+
+    // Indicator panes, each scaled to its own values
+    panes.forEach((pane, paneIndex) => {
+      const top = plotHeight + paneIndex * paneHeight;
+      const seriesBuckets = pane.series.map(series => decimateSeries(series.values, start, end, bucketSize));
+      let [paneMin, paneMax] = pane.range ?? [Infinity, -Infinity];
+      if (!pane.range) {
+        seriesBuckets.forEach(series => series.forEach(bucket => {
+          if (bucket.min < paneMin) paneMin = bucket.min;
+          if (bucket.max > paneMax) paneMax = bucket.max;
+        }));
+        // Histograms grow from zero, so keep it on the scale
+        if (pane.series.some(series => series.style === 'histogram')) {
+          paneMin = Math.min(paneMin, 0);
+          paneMax = Math.max(paneMax, 0);
+        }
+      }
+      if (!Number.isFinite(paneMin) || !Number.isFinite(paneMax)) return;
+      if (paneMax === paneMin) paneMax = paneMin + 1;
+      const innerTop = top + 14;
+      const innerHeight = paneHeight - 18;
+      const paneY = (value: number) => innerTop + (paneMax - value) / (paneMax - paneMin) * innerHeight;
+
+      ctx.strokeStyle = resolveColor(chartColors.grid);
+      ctx.beginPath();
+      ctx.moveTo(0, crisp(top));
+      ctx.lineTo(plotWidth + PRICE_AXIS_WIDTH, crisp(top));
+      ctx.stroke();
+
+      ctx.fillStyle = muted;
+      ctx.textBaseline = 'middle';
+      ctx.fillText(formatIndicatorValue(paneMax), plotWidth + 6, innerTop);
+      ctx.fillText(formatIndicatorValue(paneMin), plotWidth + 6, innerTop + innerHeight);
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(0, top, plotWidth, paneHeight);
+      ctx.clip();
+
+      ctx.strokeStyle = withAlpha(chartColors.textSecondary, 0.5);
+      ctx.setLineDash([2, 3]);
+      (pane.levels ?? []).forEach(level => {
+        const ly = crisp(paneY(level));
+        ctx.beginPath();
+        ctx.moveTo(0, ly);
+        ctx.lineTo(plotWidth, ly);
+        ctx.stroke();
+      });
+      ctx.setLineDash([]);
+
+      const zeroY = paneY(Math.min(Math.max(0, paneMin), paneMax));
+      pane.series.forEach((series, index) => drawSeries(ctx, series, seriesBuckets[index], bucketX, paneY, bucketWidth, zeroY));
+
+      // Name and the value under the pointer (or the latest one)
+      ctx.textBaseline = 'top';
+      let labelX = 6;
+      [pane.label, ...pane.series.map(series => `${series.label} ${formatIndicatorValue(series.values[pointerIndex])}`)].forEach((text, i) => {
+        ctx.fillStyle = i === 0 ? muted : resolveColor(pane.series[i - 1].color);
+        ctx.fillText(text, labelX, top + 2);
+        labelX += ctx.measureText(text).width + 10;
+      });
+      ctx.restore();
+    });
+
+    // Crosshair through the panes, with the price under the pointer when it is over the price plot
+    if (pointer && pointer.x <= plotWidth && pointer.y <= axisTop) {
+      ctx.strokeStyle = muted;
+      ctx.setLineDash([3, 3]);
+      ctx.beginPath();
+      ctx.moveTo(crisp(pointer.x), 0);
+      ctx.lineTo(crisp(pointer.x), axisTop);
+      if (pointer.y <= priceHeight) {
+        ctx.moveTo(0, crisp(pointer.y));
+        ctx.lineTo(plotWidth, crisp(pointer.y));
+      }
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+    if (pointer && pointer.x <= plotWidth && pointer.y <= priceHeight) {
+      const price = max - pointer.y / priceHeight * (max - min);
+      ctx.fillStyle = resolveColor(chartColors.primary);
+      ctx.fillRect(plotWidth, pointer.y - 9, PRICE_AXIS_WIDTH, 18);
+      ctx.fillStyle = resolveColor(chartColors.background);
+      ctx.textBaseline = 'middle';
+      ctx.fillText(formatPrice(price), plotWidth + 6, pointer.y);
+    }
+  };
+
+  const { canvasRef, requestDraw } = useCanvas(draw);
+
+  const setView = useCallback((view: Viewport | null) => {
+    viewRef.current = view;
+    requestDraw();
+  }, [requestDraw]);
+
+  // Zoom keeping the candle at `anchor` (0 = left edge, 1 = right edge) in place
+  const zoom = useCallback((factor: number, anchor = 1) => {
+    const total = candles.length;
+    const { start, end } = visibleRange();
+    const count = end - start;
+    const nextCount = Math.min(total, Math.max(MIN_VISIBLE, count * factor));
+    if (nextCount >= total) {
+      setView(null);
+      return;
+    }
+    const pivot = start + anchor * count;
+    const nextEnd = pivot + (1 - anchor) * nextCount;
+    setView({ count: nextCount, rightOffset: Math.min(Math.max(0, total - nextEnd), total - nextCount) });
+  }, [candles.length, visibleRange, setView]);
+
+  useImperativeHandle(ref, () => ({
+    zoomIn: () => zoom(1 / ZOOM_STEP),
+    zoomOut: () => zoom(ZOOM_STEP),
+    reset: () => setView(null)
+  }), [zoom, setView]);
+
+  // React registers wheel listeners as passive, so the page would scroll along with the zoom
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const plotWidth = canvas.clientWidth - PRICE_AXIS_WIDTH;
+      const anchor = Math.min(1, Math.max(0, event.offsetX / plotWidth));
+      zoom(event.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP, anchor);
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [canvasRef, zoom]);
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const point = { x: event.nativeEvent.offsetX, y: event.nativeEvent.offsetY };
+    const plotWidth = canvas.clientWidth - PRICE_AXIS_WIDTH;
+    const { start, end, pxPerCandle, buckets } = bucketsFor(plotWidth);
+
+    const drag = dragRef.current;
+    if (drag) {
+      const count = end - start;
+      const rightOffset = drag.rightOffset + (point.x - drag.x) / pxPerCandle;
+      setView({ count, rightOffset: Math.min(Math.max(0, rightOffset), candles.length - count) });
+    }
+
+    pointerRef.current = point;
+    const index = start + point.x / pxPerCandle;
+    setHovered(buckets.find(bucket => index >= bucket.startIndex && index < bucket.endIndex) ?? null);
+    requestDraw();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const { start, end } = visibleRange();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.nativeEvent.offsetX, rightOffset: candles.length - end };
+    if (!viewRef.current) viewRef.current = { count: end - start, rightOffset: 0 };
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handlePointerLeave = () => {
+    pointerRef.current = null;
+    dragRef.current = null;
+    setHovered(null);
+    requestDraw();
+  };
+
+  const hoveredTime = hovered ? candles[hovered.startIndex]?.time : undefined;
+
+  const timeScale = useMemo(() => createTimeScale(candles.map(candle => candle.time)), [candles]);
+  const projection = useMemo(() => plotView && createCandleProjection(
+    timeScale,
+    { left: 0, top: 0, width: plotView.width, height: plotView.height },
+    plotView.start,
+    plotView.pxPerCandle,
+    {
+      toY: price => (plotView.max - price) / (plotView.max - plotView.min) * plotView.height,
+      fromY: py => plotView.max - py / plotView.height * (plotView.max - plotView.min)
+    }
+  ), [timeScale, plotView]);
+
+  return (
+    <div className={cn('relative h-full w-full', className)}>
+      <canvas
+        ref={canvasRef}
+        className="h-full w-full cursor-crosshair touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerLeave}
+        onDoubleClick={() => setView(null)}
+      />
+      {renderOverlay && projection && (
+        // Only the overlay's own interactive shapes take pointer events; the rest reach the canvas
+        <svg className="pointer-events-none absolute inset-0 h-full w-full">
+          {renderOverlay(projection)}
+        </svg>
+      )}
+      {hovered && hoveredTime !== undefined && (
+        <div className="pointer-events-none absolute left-2 top-1 flex flex-wrap gap-x-3 text-xs font-mono text-muted-foreground">
+          <span>{formatTimeLabel(hoveredTime)}{hovered.endIndex - hovered.startIndex > 1 ? ` (+${hovered.endIndex - hovered.startIndex - 1})` : ''}</span>
+          <span>O {formatPrice(hovered.open)}</span>
+          <span>H {formatPrice(hovered.high)}</span>
+          <span>L {formatPrice(hovered.low)}</span>
+          <span>C {formatPrice(hovered.close)}</span>
+          <span>V {formatVolume(hovered.volume)}</span>
+        </div>
+      )}
+    </div>
+  );
+});
+
+CanvasCandleChart.displayName = 'CanvasCandleChart';
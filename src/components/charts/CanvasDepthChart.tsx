@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { useCanvas, CanvasSize } from '@/hooks/useCanvas';
+import { chartColors, formatPrice, formatVolume, generatePriceTicks } from '@/components/ui/chart-formatters';
+import { resolveColor, withAlpha, crisp } from '@/utils/canvas';
+import { cn } from '@/lib/utils';
+
+export interface DepthLevel {
+  price: number;
+  cumulative: number; // base quantity from the best price out to this level
+}
+
+interface CanvasDepthChartProps {
+  bids: DepthLevel[]; // best first
+  asks: DepthLevel[]; // best first
+  className?: string;
+}
+
+const AXIS_WIDTH = 56;
+const PRICE_AXIS_HEIGHT = 20;
+
+// Cumulative depth is monotonic away from the mid, so keeping the last level per pixel column
+// is lossless at screen resolution however many levels the book has
+const decimateDepth = (levels: DepthLevel[], toX: (price: number) => number): Array<{ x: number; cumulative: number }> => {
+  const points: Array<{ x: number; cumulative: number }> = [];
+  levels.forEach(level => {
+    const x = Math.round(toX(level.price));
+    const last = points[points.length - 1];
+    if (last && last.x === x) {
+      last.cumulative = level.cumulative;
+    } else {
+      points.push({ x, cumulative: level.cumulative });
+    }
+  });
+  return points;
+};
+
+export function CanvasDepthChart({ bids, asks, className }: CanvasDepthChartProps) {
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+
+  const scales = (size: CanvasSize) => {
+    const plotWidth = size.width - AXIS_WIDTH;
+    const plotHeight = size.height - PRICE_AXIS_HEIGHT;
+    const minPrice = bids[bids.length - 1]?.price ?? asks[0]?.price ?? 0;
+    const maxPrice = asks[asks.length - 1]?.price ?? bids[0]?.price ?? 1;
+    const maxDepth = Math.max(bids[bids.length - 1]?.cumulative ?? 0, asks[asks.length - 1]?.cumulative ?? 0) || 1;
+    const span = maxPrice - minPrice || 1;
+    return {
+      plotWidth,
+      plotHeight,
+      minPrice,
+      maxPrice,
+      maxDepth,
+      toX: (price: number) => (price - minPrice) / span * plotWidth,
+      toPrice: (x: number) => minPrice + x / plotWidth * span,
+      toY: (cumulative: number) => plotHeight - cumulative / maxDepth * plotHeight * 0.95
+    };
+  };
+
+  const draw = (ctx: CanvasRenderingContext2D, size: CanvasSize) => {
+    if (!bids.length && !asks.length) return;
+
+    const { plotWidth, plotHeight, minPrice, maxPrice, maxDepth, toX, toY } = scales(size);
+
+    ctx.font = '11px ui-monospace, monospace';
+    ctx.fillStyle = resolveColor(chartColors.textSecondary);
+    ctx.strokeStyle = withAlpha(chartColors.grid, 0.5);
+    ctx.textBaseline = 'middle';
+    [0.25, 0.5, 0.75, 1].forEach(share => {
+      const ty = crisp(toY(maxDepth * share));
+      ctx.beginPath();
+      ctx.moveTo(0, ty);
+      ctx.lineTo(plotWidth, ty);
+      ctx.stroke();
+      ctx.fillText(formatVolume(maxDepth * share), plotWidth + 6, ty);
+    });
+    ctx.textBaseline = 'top';
+    ctx.textAlign = 'center';
+    generatePriceTicks(minPrice, maxPrice, 5).filter(tick => tick >= minPrice && tick <= maxPrice).forEach(tick => {
+      ctx.fillText(formatPrice(tick), toX(tick), plotHeight + 4);
+    });
+    ctx.textAlign = 'left';
+
+    // Step areas: each side rises from the mid outwards
+    const side = (levels: DepthLevel[], color: string) => {
+      const points = decimateDepth(levels, toX);
+      if (!points.length) return;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, plotHeight);
+      let previousY = plotHeight;
+      points.forEach(point => {
+        ctx.lineTo(point.x, previousY);
+        previousY = toY(point.cumulative);
+        ctx.lineTo(point.x, previousY);
+      });
+      const edge = points[points.length - 1].x;
+      ctx.strokeStyle = resolveColor(color);
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      ctx.lineTo(edge, plotHeight);
+      ctx.closePath();
+      ctx.fillStyle = withAlpha(color, 0.25);
+      ctx.fill();
+    };
+    side(bids, chartColors.bullish);
+    side(asks, chartColors.bearish);
+
+    if (pointer && pointer.x <= plotWidth) {
+      ctx.strokeStyle = resolveColor(chartColors.textSecondary);
+      ctx.lineWidth = 1;
+      ctx.setLineDash([3, 3]);
+      ctx.beginPath();
+      ctx.moveTo(crisp(pointer.x), 0);
+      ctx.lineTo(crisp(pointer.x), plotHeight);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+  };
+
+  const { canvasRef } = useCanvas(draw);
+
+  // Depth available at the price under the pointer, on whichever side of the book it falls
+  const hoveredDepth = (() => {
+    const canvas = canvasRef.current;
+    if (!pointer || !canvas) return null;
+    const { toPrice } = scales({ width: canvas.clientWidth, height: canvas.clientHeight });
+    const price = toPrice(pointer.x);
+    const bidLevel = [...bids].reverse().find(level => level.price >= price);
+    const askLevel = [...asks].reverse().find(level => level.price <= price);
+    if (bids.length && price <= bids[0].price && bidLevel) return { price, side: 'Bids', cumulative: bidLevel.cumulative };
+    if (asks.length && price >= asks[0].price && askLevel) return { price, side: 'Asks', cumulative: askLevel.cumulative };
+    return { price, side: 'Spread', cumulative: 0 };
+  })();
+
+  return (
+    <div className={cn('relative h-full w-full', className)}>
+      <canvas
+        ref={canvasRef}
+        className="h-full w-full cursor-crosshair"
+        onPointerMove={event => setPointer({ x: event.nativeEvent.offsetX, y: event.nativeEvent.offsetY })}
+        onPointerLeave={() => setPointer(null)}
+      />
+      {hoveredDepth && (
+        <div className="pointer-events-none absolute left-2 top-1 flex gap-3 text-xs font-mono text-muted-foreground">
+          <span>{formatPrice(hoveredDepth.price)}</span>
+          <span>{hoveredDepth.side} {formatVolume(hoveredDepth.cumulative)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
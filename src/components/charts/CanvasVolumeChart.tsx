@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { useCanvas, CanvasSize } from '@/hooks/useCanvas';
+import { chartColors, formatVolume } from '@/components/ui/chart-formatters';
+import { aggregateCandles, CandleBucket } from '@/utils/decimation';
+import { resolveColor, withAlpha, crisp } from '@/utils/canvas';
+import { CanvasCandle } from './CanvasCandleChart';
+import { cn } from '@/lib/utils';
+
+interface CanvasVolumeChartProps {
+  candles: CanvasCandle[];
+  formatTimeLabel: (time: number) => string;
+  className?: string;
+}
+
+const AXIS_WIDTH = 56;
+const TIME_AXIS_HEIGHT = 20;
+const MIN_BAR_PX = 2;
+
+// Volume bars for the whole series; columns narrower than MIN_BAR_PX merge their candles' volume
+export function CanvasVolumeChart({ candles, formatTimeLabel, className }: CanvasVolumeChartProps) {
+  const [hovered, setHovered] = useState<CandleBucket | null>(null);
+
+  const bucketsFor = (plotWidth: number) => {
+    const pxPerCandle = plotWidth / Math.max(1, candles.length);
+    const bucketSize = pxPerCandle >= MIN_BAR_PX ? 1 : Math.ceil(MIN_BAR_PX / pxPerCandle);
+    return { pxPerCandle, bucketSize, buckets: aggregateCandles(candles, 0, candles.length, bucketSize) };
+  };
+
+  const draw = (ctx: CanvasRenderingContext2D, size: CanvasSize) => {
+    if (!candles.length) return;
+
+    const plotWidth = size.width - AXIS_WIDTH;
+    const plotHeight = size.height - TIME_AXIS_HEIGHT;
+    const { pxPerCandle, bucketSize, buckets } = bucketsFor(plotWidth);
+    const maxVolume = Math.max(...buckets.map(bucket => bucket.volume), 0) || 1;
+    const y = (volume: number) => plotHeight - volume / maxVolume * plotHeight * 0.95;
+
+    ctx.font = '11px ui-monospace, monospace';
+    ctx.fillStyle = resolveColor(chartColors.textSecondary);
+    ctx.strokeStyle = withAlpha(chartColors.grid, 0.5);
+    ctx.textBaseline = 'middle';
+    [0.25, 0.5, 0.75, 1].forEach(share => {
+      const ty = crisp(y(maxVolume * share));
+      ctx.beginPath();
+      ctx.moveTo(0, ty);
+      ctx.lineTo(plotWidth, ty);
+      ctx.stroke();
+      ctx.fillText(formatVolume(maxVolume * share), plotWidth + 6, ty);
+    });
+
+    ctx.textBaseline = 'top';
+    ctx.textAlign = 'center';
+    const labelEvery = Math.max(1, Math.round(120 / pxPerCandle));
+    for (let index = 0; index < candles.length; index += labelEvery) {
+      const lx = (index + 0.5) * pxPerCandle;
+      if (lx < 30 || lx > plotWidth - 30) continue;
+      ctx.fillText(formatTimeLabel(candles[index].time), lx, plotHeight + 4);
+    }
+    ctx.textAlign = 'left';
+
+    const barWidth = Math.max(1, bucketSize * pxPerCandle * 0.8);
+    buckets.forEach(bucket => {
+      const cx = (bucket.startIndex + bucket.endIndex) / 2 * pxPerCandle;
+      const top = y(bucket.volume);
+      const color = bucket.close >= bucket.open ? chartColors.bullish : chartColors.bearish;
+      ctx.fillStyle = withAlpha(color, bucket.startIndex === hovered?.startIndex ? 1 : 0.8);
+      ctx.fillRect(cx - barWidth / 2, top, barWidth, plotHeight - top);
+    });
+  };
+
+  const { canvasRef } = useCanvas(draw);
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const plotWidth = event.currentTarget.clientWidth - AXIS_WIDTH;
+    const { pxPerCandle, buckets } = bucketsFor(plotWidth);
+    const index = event.nativeEvent.offsetX / pxPerCandle;
+    setHovered(buckets.find(bucket => index >= bucket.startIndex && index < bucket.endIndex) ?? null);
+  };
+
+  return (
+    <div className={cn('relative h-full w-full', className)}>
+      <canvas
+        ref={canvasRef}
+        className="h-full w-full"
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => setHovered(null)}
+      />
+      {hovered && (
+        <div className="pointer-events-none absolute left-2 top-1 flex gap-3 text-xs font-mono text-muted-foreground">
+          <span>{formatTimeLabel(candles[hovered.startIndex].time)}</span>
+          <span>V {formatVolume(hovered.volume)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
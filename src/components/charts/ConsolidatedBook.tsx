@@ -0,0 +1,99 @@
+import React from 'react';
+import { AlertTriangle, Layers } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatPrice, formatVolume } from '@/components/ui/chart-formatters';
+import { ConsolidatedOrderbook } from '@/utils/consolidated-orderbook';
+
+export type OrderbookMode = 'venue' | 'consolidated';
+
+interface BookModeToggleProps {
+  mode: OrderbookMode;
+  onModeChange: (mode: OrderbookMode) => void;
+}
+
+// Switches a book chart between the active venue and all venues merged
+export function BookModeToggle({ mode, onModeChange }: BookModeToggleProps) {
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant={mode === 'venue' ? 'default' : 'outline'}
+        size="sm"
+        onClick={() => onModeChange('venue')}
+        className="h-7 px-2 text-xs"
+      >
+        Venue
+      </Button>
+      <Button
+        variant={mode === 'consolidated' ? 'default' : 'outline'}
+        size="sm"
+        onClick={() => onModeChange('consolidated')}
+        className="h-7 px-2 text-xs gap-1"
+      >
+        <Layers className="w-3.5 h-3.5" />
+        All venues
+      </Button>
+    </div>
+  );
+}
+
+interface ConsolidatedBookSummaryProps {
+  book: ConsolidatedOrderbook;
+}
+
+// Venue key with each venue's quote, cross-venue best bid/ask and any crossed books
+export function ConsolidatedBookSummary({ book }: ConsolidatedBookSummaryProps) {
+  const nameOf = (venue: string) => {
+    const found = book.venues.find(v => v.id === venue);
+    return found ? `${found.name} (${found.quote})` : venue;
+  };
+  const spread = book.bestBid && book.bestAsk ? book.bestAsk.price - book.bestBid.price : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        {book.venues.map(venue => (
+          <span key={venue.id} className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: venue.color }} />
+            {venue.name}
+            <span className="font-mono">{venue.quote}</span>
+          </span>
+        ))}
+        <span className="ml-auto font-mono">grid {book.step}</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-gradient-to-br from-chart-2/20 to-transparent p-2 rounded-lg border border-chart-2/20">
+          <p className="text-muted-foreground text-xs">Best Bid</p>
+          <p className="font-bold text-chart-2 font-mono text-sm">{book.bestBid ? formatPrice(book.bestBid.price) : '—'}</p>
+          {book.bestBid && <p className="text-xs text-muted-foreground">{nameOf(book.bestBid.venue)}</p>}
+        </div>
+        <div className="p-2 rounded-lg border">
+          <p className="text-muted-foreground text-xs">Spread</p>
+          <p className={`font-bold font-mono text-sm ${book.crossed ? 'text-performance-negative' : ''}`}>
+            {spread !== null ? formatPrice(spread) : '—'}
+          </p>
+        </div>
+        <div className="bg-gradient-to-br from-chart-3/20 to-transparent p-2 rounded-lg border border-chart-3/20">
+          <p className="text-muted-foreground text-xs">Best Ask</p>
+          <p className="font-bold text-chart-3 font-mono text-sm">{book.bestAsk ? formatPrice(book.bestAsk.price) : '—'}</p>
+          {book.bestAsk && <p className="text-xs text-muted-foreground">{nameOf(book.bestAsk.venue)}</p>}
+        </div>
+      </div>
+
+      {book.crossed && (
+        <div className="p-2 rounded-lg border border-warning/40 bg-warning/10 text-xs space-y-1">
+          <p className="font-semibold flex items-center gap-1">
+            <AlertTriangle className="w-3.5 h-3.5 text-warning" />
+            Crossed market — before fees and transfer costs
+          </p>
+          {book.arbitrage.slice(0, 3).map(opportunity => (
+            <p key={`${opportunity.buyVenue}-${opportunity.sellVenue}`} className="font-mono">
+              Buy {nameOf(opportunity.buyVenue)} {formatPrice(opportunity.buyPrice)} → sell {nameOf(opportunity.sellVenue)} {formatPrice(opportunity.sellPrice)}
+              {' '}({opportunity.spreadBps.toFixed(1)} bps, {formatVolume(opportunity.quantity)} for {formatPrice(opportunity.profit)})
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,14 +7,100 @@ import { ChartTooltip } from '@/components/ui/chart-tooltip';
 import { useChartTouch } from '@/hooks/useTouch';
 import { useChartOptimization } from '@/hooks/useChartOptimization';
 import { formatPrice, formatVolume } from '@/components/ui/chart-formatters';
-import { Orderbook } from '@/types/api';
+import { Orderbook, OrderbookEntry } from '@/types/api';
+import { ConsolidatedLevel, ConsolidatedOrderbook } from '@/utils/consolidated-orderbook';
+import { CanvasDepthChart, DepthLevel } from './CanvasDepthChart';
+import { BookModeToggle, ConsolidatedBookSummary, OrderbookMode } from './ConsolidatedBook';
 
 interface DepthChartProps {
   orderbook: Orderbook | null;
   connectionStatus: 'connecting' | 'connected' | 'disconnected' | 'error';
+  mode?: OrderbookMode;
+  onModeChange?: (mode: OrderbookMode) => void;
+  consolidated?: ConsolidatedOrderbook | null;
+  consolidatedLoading?: boolean;
 }
 
-export function DepthChart({ orderbook, connectionStatus }: DepthChartProps) {
+// Books deeper than this are drawn on canvas in full; the SVG charts show the top 20 levels per side
+const SVG_MAX_LEVELS = 200;
+
+const cumulativeLevels = (levels: OrderbookEntry[]): DepthLevel[] => {
+  let total = 0;
+  return levels.map(level => ({ price: parseFloat(level.price), cumulative: (total += parseFloat(level.quantity)) }));
+};
+
+// Running depth per venue at each consolidated level, so stacked areas add up to the merged book
+const venueCumulative = (levels: ConsolidatedLevel[], venues: string[]) => {
+  const totals: Record<string, number> = {};
+  return levels.map(level => {
+    venues.forEach(venue => { totals[venue] = (totals[venue] ?? 0) + (level.venues[venue] ?? 0); });
+    return { price: level.price, ...totals };
+  });
+};
+
+function ConsolidatedDepth({ book }: { book: ConsolidatedOrderbook }) {
+  const venueIds = book.venues.map(venue => venue.id);
+  const sides = [
+    { key: 'bid', title: 'Bid Depth', className: 'text-chart-2', rows: venueCumulative(book.bids, venueIds).reverse() },
+    { key: 'ask', title: 'Ask Depth', className: 'text-chart-3', rows: venueCumulative(book.asks, venueIds) }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <ConsolidatedBookSummary book={book} />
+      {sides.map(side => (
+        <div key={side.key}>
+          <h4 className={`text-sm font-semibold mb-3 ${side.className}`}>{side.title}</h4>
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={side.rows} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                <XAxis
+                  dataKey="price"
+                  tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                  stroke="hsl(var(--muted-foreground))"
+                  tickFormatter={(value) => `$${value.toFixed(0)}`}
+                />
+                <YAxis
+                  tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                  stroke="hsl(var(--muted-foreground))"
+                  tickFormatter={(value) => value.toFixed(2)}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: 'hsl(var(--popover))', border: '1px solid hsl(var(--border))', fontSize: 12 }}
+                  labelFormatter={(price) => `Price: ${formatPrice(Number(price))}`}
+                  formatter={(value: number) => formatVolume(value)}
+                />
+                {book.venues.map(venue => (
+                  <Area
+                    key={venue.id}
+                    type="stepAfter"
+                    dataKey={venue.id}
+                    name={venue.name}
+                    stackId="venues"
+                    stroke={venue.color}
+                    fill={venue.color}
+                    fillOpacity={0.35}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function DepthChart({
+  orderbook,
+  connectionStatus,
+  mode = 'venue',
+  onModeChange,
+  consolidated,
+  consolidatedLoading
+}: DepthChartProps) {
   // Touch interactions for mobile
   const { elementRef, touchState, zoomLevel, resetZoom } = useChartTouch(
     (scale) => {
@@ -72,6 +158,7 @@ export function DepthChart({ orderbook, connectionStatus }: DepthChartProps) {
   };
 
   const { bidsWithCumulative, asksWithCumulative } = prepareDepthData();
+  const canvasMode = orderbook.bids.length + orderbook.asks.length > SVG_MAX_LEVELS;
   
   // Optimize depth data for performance
   const optimizedBids = useChartOptimization(bidsWithCumulative, {
@@ -132,99 +219,119 @@ export function DepthChart({ orderbook, connectionStatus }: DepthChartProps) {
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
             <span>Market Depth - {orderbook.symbol}</span>
-            <Badge 
-              variant="secondary" 
-              className={`${getStatusColor(connectionStatus)} text-white animate-pulse-glow`}
-            >
-              {getStatusText(connectionStatus)}
-            </Badge>
+            <div className="flex items-center gap-2">
+              {onModeChange && <BookModeToggle mode={mode} onModeChange={onModeChange} />}
+              <Badge 
+                variant="secondary" 
+                className={`${getStatusColor(connectionStatus)} text-white animate-pulse-glow`}
+              >
+                {getStatusText(connectionStatus)}
+              </Badge>
+            </div>
           </CardTitle>
         </CardHeader>
         <CardContent>
+        {mode === 'consolidated' ? (
+          consolidated ? (
+            <ConsolidatedDepth book={consolidated} />
+          ) : (
+            <div className="h-64 flex items-center justify-center text-muted-foreground">
+              {consolidatedLoading ? 'Loading venue order books...' : 'No venue order books available'}
+            </div>
+          )
+        ) : (
         <div className="space-y-6">
-          {/* Bid Depth Chart */}
-          <div>
-            <h4 className="text-sm font-semibold mb-3 text-chart-2 flex items-center gap-2">
-              <div className="w-3 h-3 bg-chart-2 rounded-full animate-pulse-glow"></div>
-              Bid Depth
-            </h4>
-            <div ref={elementRef as any} className="h-48 touch-pan-y select-none">
-              <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={optimizedBids.data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
-                  <XAxis 
-                    dataKey="price" 
-                    tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
-                    stroke="hsl(var(--muted-foreground))"
-                    axisLine={{ stroke: 'hsl(var(--border))' }}
-                    tickFormatter={(value) => `$${value.toFixed(0)}`}
-                  />
-                  <YAxis 
-                    tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
-                    stroke="hsl(var(--muted-foreground))"
-                    axisLine={{ stroke: 'hsl(var(--border))' }}
-                    tickFormatter={(value) => value.toFixed(2)}
-                  />
-                  <Tooltip content={<CustomTooltip />} />
-                  <Area 
-                    type="monotone" 
-                    dataKey="cumulative" 
-                    stroke="hsl(var(--chart-2))"
-                    fill="url(#bidGradient)"
-                    strokeWidth={2}
-                  />
-                  <defs>
-                    <linearGradient id="bidGradient" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="5%" stopColor="hsl(var(--chart-2))" stopOpacity={0.8}/>
-                      <stop offset="95%" stopColor="hsl(var(--chart-2))" stopOpacity={0.1}/>
-                    </linearGradient>
-                  </defs>
-                </AreaChart>
-              </ResponsiveContainer>
+          {canvasMode ? (
+            <div className="h-96">
+              <CanvasDepthChart bids={cumulativeLevels(orderbook.bids)} asks={cumulativeLevels(orderbook.asks)} />
             </div>
-          </div>
+          ) : (
+            <>
+              {/* Bid Depth Chart */}
+              <div>
+                <h4 className="text-sm font-semibold mb-3 text-chart-2 flex items-center gap-2">
+                  <div className="w-3 h-3 bg-chart-2 rounded-full animate-pulse-glow"></div>
+                  Bid Depth
+                </h4>
+                <div ref={elementRef as any} className="h-48 touch-pan-y select-none">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={optimizedBids.data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                      <XAxis 
+                        dataKey="price" 
+                        tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                        stroke="hsl(var(--muted-foreground))"
+                        axisLine={{ stroke: 'hsl(var(--border))' }}
+                        tickFormatter={(value) => `$${value.toFixed(0)}`}
+                      />
+                      <YAxis 
+                        tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                        stroke="hsl(var(--muted-foreground))"
+                        axisLine={{ stroke: 'hsl(var(--border))' }}
+                        tickFormatter={(value) => value.toFixed(2)}
+                      />
+                      <Tooltip content={<CustomTooltip />} />
+                      <Area 
+                        type="monotone" 
+                        dataKey="cumulative" 
+                        stroke="hsl(var(--chart-2))"
+                        fill="url(#bidGradient)"
+                        strokeWidth={2}
+                      />
+                      <defs>
+                        <linearGradient id="bidGradient" x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="5%" stopColor="hsl(var(--chart-2))" stopOpacity={0.8}/>
+                          <stop offset="95%" stopColor="hsl(var(--chart-2))" stopOpacity={0.1}/>
+                        </linearGradient>
+                      </defs>
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
 
-          {/* Ask Depth Chart */}
-          <div>
-            <h4 className="text-sm font-semibold mb-3 text-chart-3 flex items-center gap-2">
-              <div className="w-3 h-3 bg-chart-3 rounded-full animate-pulse-glow"></div>
-              Ask Depth
-            </h4>
-            <div className="h-48 touch-pan-y select-none">
-              <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={optimizedAsks.data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
-                  <XAxis 
-                    dataKey="price" 
-                    tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
-                    stroke="hsl(var(--muted-foreground))"
-                    axisLine={{ stroke: 'hsl(var(--border))' }}
-                    tickFormatter={(value) => `$${value.toFixed(0)}`}
-                  />
-                  <YAxis 
-                    tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
-                    stroke="hsl(var(--muted-foreground))"
-                    axisLine={{ stroke: 'hsl(var(--border))' }}
-                    tickFormatter={(value) => value.toFixed(2)}
-                  />
-                  <Tooltip content={<CustomTooltip />} />
-                  <Area 
-                    type="monotone" 
-                    dataKey="cumulative" 
-                    stroke="hsl(var(--chart-3))"
-                    fill="url(#askGradient)"
-                    strokeWidth={2}
-                  />
-                  <defs>
-                    <linearGradient id="askGradient" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="5%" stopColor="hsl(var(--chart-3))" stopOpacity={0.8}/>
-                      <stop offset="95%" stopColor="hsl(var(--chart-3))" stopOpacity={0.1}/>
-                    </linearGradient>
-                  </defs>
-                </AreaChart>
-              </ResponsiveContainer>
-            </div>
-          </div>
+              {/* Ask Depth Chart */}
+              <div>
+                <h4 className="text-sm font-semibold mb-3 text-chart-3 flex items-center gap-2">
+                  <div className="w-3 h-3 bg-chart-3 rounded-full animate-pulse-glow"></div>
+                  Ask Depth
+                </h4>
+                <div className="h-48 touch-pan-y select-none">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={optimizedAsks.data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                      <XAxis 
+                        dataKey="price" 
+                        tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                        stroke="hsl(var(--muted-foreground))"
+                        axisLine={{ stroke: 'hsl(var(--border))' }}
+                        tickFormatter={(value) => `$${value.toFixed(0)}`}
+                      />
+                      <YAxis 
+                        tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                        stroke="hsl(var(--muted-foreground))"
+                        axisLine={{ stroke: 'hsl(var(--border))' }}
+                        tickFormatter={(value) => value.toFixed(2)}
+                      />
+                      <Tooltip content={<CustomTooltip />} />
+                      <Area 
+                        type="monotone" 
+                        dataKey="cumulative" 
+                        stroke="hsl(var(--chart-3))"
+                        fill="url(#askGradient)"
+                        strokeWidth={2}
+                      />
+                      <defs>
+                        <linearGradient id="askGradient" x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="5%" stopColor="hsl(var(--chart-3))" stopOpacity={0.8}/>
+                          <stop offset="95%" stopColor="hsl(var(--chart-3))" stopOpacity={0.1}/>
+                        </linearGradient>
+                      </defs>
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </>
+          )}
 
           {/* Market Summary */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
@@ -254,6 +361,7 @@ export function DepthChart({ orderbook, connectionStatus }: DepthChartProps) {
             </div>
           </div>
         </div>
+        )}
         </CardContent>
       </Card>
 
@@ -0,0 +1,67 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, TooltipProps, ReferenceLine } from 'recharts';
+import { ChartTooltip } from '@/components/ui/chart-tooltip';
+import { DivergenceSample } from '@/utils/venue-divergence';
+
+interface DivergenceChartProps {
+  history: DivergenceSample[];
+  venues: Array<{ id: string; name: string; color: string }>;
+  thresholdBps: number;
+  height?: number;
+}
+
+const formatClock = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Spread between the highest and lowest venue, and each venue's deviation from the median, over time
+export function DivergenceChart({ history, venues, thresholdBps, height = 220 }: DivergenceChartProps) {
+  const CustomTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
+    if (!active || !payload?.length) return null;
+    const row = payload[0].payload as DivergenceSample;
+    return (
+      <ChartTooltip
+        active={active}
+        payload={[
+          { name: 'Spread', value: row.spreadBps, color: 'hsl(var(--primary))' },
+          ...venues
+            .filter(venue => row[venue.id] !== undefined)
+            .map(venue => ({ name: venue.name, value: row[venue.id], color: venue.color }))
+        ]}
+        label={formatClock(Number(label))}
+        formatter={(value) => `${Number(value).toFixed(1)} bps`}
+      />
+    );
+  };
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={history} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+        <XAxis
+          dataKey="time"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+          tickFormatter={(value) => formatClock(Number(value))}
+          minTickGap={50}
+        />
+        <YAxis tick={{ fontSize: 11 }} tickFormatter={(value) => `${Number(value).toFixed(0)}`} width={40} />
+        <Tooltip content={<CustomTooltip />} />
+        <ReferenceLine y={thresholdBps} stroke="hsl(var(--destructive))" strokeDasharray="4 3" />
+        <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" opacity={0.5} />
+        {venues.map(venue => (
+          <Line
+            key={venue.id}
+            type="monotone"
+            dataKey={venue.id}
+            stroke={venue.color}
+            strokeWidth={1}
+            dot={false}
+            connectNulls
+            isAnimationActive={false}
+          />
+        ))}
+        <Line type="monotone" dataKey="spreadBps" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} isAnimationActive={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
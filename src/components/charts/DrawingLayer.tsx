@@ -0,0 +1,287 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { formatPrice } from '@/components/ui/chart-formatters';
+import { ChartProjection, PricePoint } from '@/utils/chart-projection';
+import {
+  ChartDrawing,
+  DrawingType,
+  FIBONACCI_LEVELS,
+  createDrawing,
+  drawingTypes,
+  fibonacciPrice,
+  translateDrawing
+} from '@/utils/chart-drawings';
+
+export interface DrawingLayerProps {
+  drawings: ChartDrawing[];
+  tool: DrawingType | null; // null selects and edits existing drawings
+  color: string;            // for new drawings
+  selectedId: string | null;
+  onSelectDrawing: (id: string | null) => void;
+  onCreateDrawing: (drawing: ChartDrawing) => void;
+  onChangeDrawing: (id: string, points: PricePoint[]) => void;
+  onRemoveDrawing: (id: string) => void;
+}
+
+// In-progress pointer interaction: placing a two-point drawing, or dragging a handle (or the whole
+// drawing when `handle` is null). Previewed locally and committed on release.
+type Gesture =
+  | { kind: 'create'; type: DrawingType; start: PricePoint; x: number; y: number }
+  | { kind: 'move'; id: string; handle: number | null; origin: PricePoint; points: PricePoint[] };
+
+const HIT_WIDTH = 10;
+const MIN_DRAG_PX = 4;
+
+const localPoint = (event: React.PointerEvent<SVGElement>) => {
+  const svg = event.currentTarget.ownerSVGElement ?? event.currentTarget;
+  const rect = svg.getBoundingClientRect();
+  return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+};
+
+// Trend lines, price levels, rectangles, Fibonacci retracements and notes drawn in an SVG <g> over a
+// price plot. Rendered inside the Recharts chart (via `RechartsOverlay`) or over the canvas chart.
+export function DrawingLayer({
+  projection,
+  drawings,
+  tool,
+  color,
+  selectedId,
+  onSelectDrawing,
+  onCreateDrawing,
+  onChangeDrawing,
+  onRemoveDrawing
+}: DrawingLayerProps & { projection: ChartProjection }) {
+  const clipId = `drawings-${useId().replace(/:/g, '')}`;
+  const gestureRef = useRef<Gesture | null>(null);
+  const [draft, setDraft] = useState<ChartDrawing | null>(null);
+  const { plot, x, y } = projection;
+
+  // Clicking away deselects; Delete removes the selection unless typing in a field
+  useEffect(() => {
+    if (!selectedId) return;
+    const onPointerDown = (event: PointerEvent) => {
+      if (!(event.target as Element).closest?.('[data-drawing], [data-drawing-controls]')) onSelectDrawing(null);
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Delete' && event.key !== 'Backspace') return;
+      if ((event.target as Element).closest?.('input, textarea, [contenteditable="true"]')) return;
+      onRemoveDrawing(selectedId);
+    };
+    window.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, [selectedId, onSelectDrawing, onRemoveDrawing]);
+
+  const startCreate = (event: React.PointerEvent<SVGRectElement>) => {
+    if (!tool) return;
+    event.stopPropagation();
+    const at = localPoint(event);
+    const point = projection.toPoint(at.x, at.y);
+    if (drawingTypes[tool].points === 1) {
+      onCreateDrawing(createDrawing(tool, [point], color));
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    gestureRef.current = { kind: 'create', type: tool, start: point, ...at };
+    setDraft(createDrawing(tool, [point, point], color));
+  };
+
+  const startMove = (event: React.PointerEvent<SVGElement>, drawing: ChartDrawing, handle: number | null) => {
+    if (tool) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const at = localPoint(event);
+    onSelectDrawing(drawing.id);
+    gestureRef.current = { kind: 'move', id: drawing.id, handle, origin: projection.toPoint(at.x, at.y), points: drawing.points };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGGElement>) => {
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+    const at = localPoint(event);
+    const point = projection.toPoint(at.x, at.y);
+    const current = drawings.find(drawing => drawing.id === (gesture.kind === 'move' ? gesture.id : ''));
+
+    if (gesture.kind === 'create') {
+      setDraft(prev => prev && { ...prev, points: [gesture.start, point] });
+    } else if (current) {
+      const points = gesture.handle === null
+        ? translateDrawing(gesture.points, point.time - gesture.origin.time, point.price - gesture.origin.price)
+        : gesture.points.map((original, i) => i === gesture.handle ? point : original);
+      setDraft({ ...current, points });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGGElement>) => {
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+    if (!gesture) return;
+    const at = localPoint(event);
+
+    if (gesture.kind === 'create') {
+      // A click without a drag would leave a zero-length drawing
+      if (draft && Math.hypot(at.x - gesture.x, at.y - gesture.y) >= MIN_DRAG_PX) onCreateDrawing(draft);
+    } else if (draft?.id === gesture.id) {
+      onChangeDrawing(gesture.id, draft.points);
+    }
+    setDraft(null);
+  };
+
+  const shown = useMemo(() => {
+    if (!draft) return drawings;
+    const editing = drawings.some(drawing => drawing.id === draft.id);
+    return editing ? drawings.map(drawing => drawing.id === draft.id ? draft : drawing) : [...drawings, draft];
+  }, [drawings, draft]);
+
+  const renderShape = (drawing: ChartDrawing) => {
+    const [first, second] = drawing.points;
+    const x1 = x(first.time);
+    const y1 = y(first.price);
+    const x2 = second ? x(second.time) : x1;
+    const y2 = second ? y(second.price) : y1;
+    const left = Math.min(x1, x2);
+    const right = Math.max(x1, x2);
+    const hitProps = {
+      stroke: 'transparent',
+      strokeWidth: HIT_WIDTH,
+      fill: 'none',
+      pointerEvents: tool ? 'none' : 'stroke',
+      style: { cursor: 'move' },
+      onPointerDown: (event: React.PointerEvent<SVGElement>) => startMove(event, drawing, null)
+    } as const;
+
+    switch (drawing.type) {
+      case 'trendline':
+        return (
+          <>
+            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={drawing.color} strokeWidth={1.5} />
+            <line x1={x1} y1={y1} x2={x2} y2={y2} {...hitProps} />
+          </>
+        );
+      case 'horizontal':
+        return (
+          <>
+            <line x1={plot.left} y1={y1} x2={plot.left + plot.width} y2={y1} stroke={drawing.color} strokeWidth={1} strokeDasharray="6 3" />
+            <text x={plot.left + plot.width - 4} y={y1 - 4} textAnchor="end" fontSize={11} fill={drawing.color}>
+              {formatPrice(first.price)}
+            </text>
+            <line x1={plot.left} y1={y1} x2={plot.left + plot.width} y2={y1} {...hitProps} />
+          </>
+        );
+      case 'rectangle':
+        return (
+          <rect
+            x={left}
+            y={Math.min(y1, y2)}
+            width={right - left}
+            height={Math.abs(y2 - y1)}
+            stroke={drawing.color}
+            strokeWidth={1}
+            fill={drawing.color}
+            fillOpacity={0.1}
+            pointerEvents={tool ? 'none' : 'all'}
+            style={{ cursor: 'move' }}
+            onPointerDown={(event) => startMove(event, drawing, null)}
+          />
+        );
+      case 'fibonacci':
+        return (
+          <>
+            <rect
+              x={left}
+              y={Math.min(y1, y2)}
+              width={right - left}
+              height={Math.abs(y2 - y1)}
+              fill={drawing.color}
+              fillOpacity={0.05}
+              pointerEvents={tool ? 'none' : 'all'}
+              style={{ cursor: 'move' }}
+              onPointerDown={(event) => startMove(event, drawing, null)}
+            />
+            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={drawing.color} strokeWidth={1} strokeDasharray="3 3" pointerEvents="none" />
+            {FIBONACCI_LEVELS.map(level => {
+              const ly = y(fibonacciPrice(drawing.points, level));
+              return (
+                <g key={level} pointerEvents="none">
+                  <line x1={left} y1={ly} x2={right} y2={ly} stroke={drawing.color} strokeWidth={1} />
+                  <text x={left + 4} y={ly - 3} fontSize={10} fill={drawing.color}>
+                    {(level * 100).toFixed(1)}% {formatPrice(fibonacciPrice(drawing.points, level))}
+                  </text>
+                </g>
+              );
+            })}
+          </>
+        );
+      case 'text':
+        return (
+          <text
+            x={x1}
+            y={y1}
+            fontSize={12}
+            fill={drawing.color}
+            stroke="hsl(var(--background))"
+            strokeWidth={3}
+            paintOrder="stroke"
+            pointerEvents={tool ? 'none' : 'all'}
+            style={{ cursor: 'move', userSelect: 'none' }}
+            onPointerDown={(event) => startMove(event, drawing, null)}
+          >
+            {drawing.text}
+          </text>
+        );
+    }
+  };
+
+  // Handles on the anchor points of the selected drawing; a level's handle stays inside the plot
+  const renderHandles = (drawing: ChartDrawing) => drawing.points.map((point, i) => {
+    const hx = drawing.type === 'horizontal'
+      ? Math.min(plot.left + plot.width - 8, Math.max(plot.left + 8, x(point.time)))
+      : x(point.time);
+    return (
+      <circle
+        key={i}
+        cx={hx}
+        cy={y(point.price)}
+        r={4}
+        fill="hsl(var(--background))"
+        stroke={drawing.color}
+        strokeWidth={1.5}
+        pointerEvents="all"
+        style={{ cursor: 'grab' }}
+        onPointerDown={(event) => startMove(event, drawing, i)}
+      />
+    );
+  });
+
+  return (
+    <g onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerCancel={handlePointerUp}>
+      <defs>
+        <clipPath id={clipId}>
+          <rect x={plot.left} y={plot.top} width={plot.width} height={plot.height} />
+        </clipPath>
+      </defs>
+      {tool && (
+        <rect
+          x={plot.left}
+          y={plot.top}
+          width={plot.width}
+          height={plot.height}
+          fill="transparent"
+          pointerEvents="all"
+          style={{ cursor: 'crosshair', touchAction: 'none' }}
+          onPointerDown={startCreate}
+        />
+      )}
+      <g clipPath={`url(#${clipId})`}>
+        {shown.map(drawing => (
+          <g key={drawing.id} data-drawing={drawing.id} opacity={drawing === draft ? 0.8 : 1}>
+            {renderShape(drawing)}
+            {drawing.id === selectedId && !tool && renderHandles(drawing)}
+          </g>
+        ))}
+      </g>
+    </g>
+  );
+}
@@ -0,0 +1,111 @@
+import React from 'react';
+import { MousePointer2, Slash, Minus, RectangleHorizontal, Rows3, Type, Trash2, Eraser } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { ChartDrawing, DrawingType, drawingColors, drawingTypes } from '@/utils/chart-drawings';
+
+interface DrawingToolbarProps {
+  tool: DrawingType | null;
+  onToolChange: (tool: DrawingType | null) => void;
+  color: string;
+  onColorChange: (color: string) => void;
+  selected?: ChartDrawing;
+  onUpdateSelected: (patch: Partial<Pick<ChartDrawing, 'color' | 'text'>>) => void;
+  onRemoveSelected: () => void;
+  onClear: () => void;
+  count: number;
+  className?: string;
+}
+
+const toolIcons: Record<DrawingType, React.ElementType> = {
+  trendline: Slash,
+  horizontal: Minus,
+  rectangle: RectangleHorizontal,
+  fibonacci: Rows3,
+  text: Type
+};
+
+// Tool picker for chart annotations; with a drawing selected, its colour and text are edited here
+export function DrawingToolbar({
+  tool,
+  onToolChange,
+  color,
+  onColorChange,
+  selected,
+  onUpdateSelected,
+  onRemoveSelected,
+  onClear,
+  count,
+  className
+}: DrawingToolbarProps) {
+  const activeColor = selected?.color ?? color;
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)} data-drawing-controls>
+      <div className="flex gap-1">
+        <Button
+          variant={tool === null ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onToolChange(null)}
+          className="px-2"
+          title="Select and edit"
+          aria-label="Select and edit"
+        >
+          <MousePointer2 className="w-4 h-4" />
+        </Button>
+        {(Object.keys(drawingTypes) as DrawingType[]).map(type => {
+          const Icon = toolIcons[type];
+          return (
+            <Button
+              key={type}
+              variant={tool === type ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onToolChange(tool === type ? null : type)}
+              className="px-2"
+              title={drawingTypes[type].label}
+              aria-label={drawingTypes[type].label}
+            >
+              <Icon className="w-4 h-4" />
+            </Button>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-1">
+        {drawingColors.map(swatch => (
+          <button
+            key={swatch}
+            type="button"
+            onClick={() => selected ? onUpdateSelected({ color: swatch }) : onColorChange(swatch)}
+            className={cn('w-5 h-5 rounded-full border-2', activeColor === swatch ? 'border-foreground' : 'border-transparent')}
+            style={{ backgroundColor: swatch }}
+            aria-label={selected ? 'Drawing colour' : 'New drawing colour'}
+          />
+        ))}
+      </div>
+
+      {selected?.type === 'text' && (
+        <Input
+          value={selected.text ?? ''}
+          onChange={(event) => onUpdateSelected({ text: event.target.value })}
+          className="h-8 w-48"
+          aria-label="Note text"
+        />
+      )}
+
+      {selected && (
+        <Button variant="outline" size="sm" onClick={onRemoveSelected} className="px-2" title="Delete drawing" aria-label="Delete drawing">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+
+      {count > 0 && (
+        <Button variant="ghost" size="sm" onClick={onClear} className="gap-1 text-xs text-muted-foreground">
+          <Eraser className="w-4 h-4" />
+          Clear {count}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, TooltipProps } from 'recharts';
+import { ChartTooltip } from '@/components/ui/chart-tooltip';
+import { formatPrice } from '@/components/ui/chart-formatters';
+import { EquityPoint } from '@/utils/backtest';
+
+interface EquityCurveChartProps {
+  equity: EquityPoint[];
+  height?: number;
+}
+
+// Strategy equity against buy and hold, with the strategy's drawdown shaded on its own scale
+export function EquityCurveChart({ equity, height = 320 }: EquityCurveChartProps) {
+  const data = useMemo(() => equity.map(point => ({
+    date: point.date.toISOString().slice(0, 10),
+    equity: point.equity,
+    benchmark: point.benchmark,
+    drawdown: point.drawdown
+  })), [equity]);
+
+  const CustomTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
+    if (!active || !payload?.length) return null;
+    const row = payload[0].payload;
+    return (
+      <ChartTooltip
+        active={active}
+        payload={[
+          { name: 'Strategy', value: row.equity, color: 'hsl(var(--primary))' },
+          { name: 'Buy & hold', value: row.benchmark, color: 'hsl(var(--muted-foreground))' },
+          { name: 'Drawdown', value: row.drawdown, color: 'hsl(var(--destructive))' }
+        ]}
+        label={label}
+        formatter={(value, name) => name === 'Drawdown' ? `${Number(value).toFixed(2)}%` : formatPrice(Number(value))}
+      />
+    );
+  };
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <ComposedChart data={data} margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+        <XAxis dataKey="date" tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} minTickGap={40} />
+        <YAxis tick={{ fontSize: 11 }} tickFormatter={(value) => formatPrice(Number(value))} width={80} />
+        <YAxis yAxisId="drawdown" orientation="right" domain={[(min: number) => min * 3, 0]} hide />
+        <Tooltip content={<CustomTooltip />} />
+        <Area
+          yAxisId="drawdown"
+          type="monotone"
+          dataKey="drawdown"
+          stroke="none"
+          fill="hsl(var(--destructive))"
+          fillOpacity={0.15}
+          isAnimationActive={false}
+        />
+        <Line type="monotone" dataKey="benchmark" stroke="hsl(var(--muted-foreground))" strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+        <Line type="monotone" dataKey="equity" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} isAnimationActive={false} />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
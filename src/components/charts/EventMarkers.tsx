@@ -0,0 +1,47 @@
+import React from 'react';
+import { ChartProjection } from '@/utils/chart-projection';
+import { MarketEvent, eventTypeInfo } from '@/utils/market-events';
+
+interface EventMarkersProps {
+  projection: ChartProjection;
+  events: MarketEvent[];
+}
+
+// Dashed vertical line at the start of each event's UTC day, labelled with its type. Markers ignore
+// the pointer so drawings and the crosshair underneath keep working.
+export function EventMarkers({ projection, events }: EventMarkersProps) {
+  const { plot, x } = projection;
+  const right = plot.left + plot.width;
+
+  // Several events on one day share a line, labelled with the first type and a count
+  const byX = new Map<number, MarketEvent[]>();
+  events.forEach(event => {
+    const px = Math.round(x(Date.parse(`${event.date}T00:00:00Z`)));
+    if (px < plot.left || px > right) return;
+    byX.set(px, [...(byX.get(px) ?? []), event]);
+  });
+
+  return (
+    <g pointerEvents="none">
+      {[...byX.entries()].map(([px, dayEvents]) => {
+        const info = eventTypeInfo(dayEvents[0].type);
+        const label = dayEvents.length > 1 ? `${info.label} +${dayEvents.length - 1}` : info.label;
+        return (
+          <g key={px}>
+            <line
+              x1={px}
+              x2={px}
+              y1={plot.top}
+              y2={plot.top + plot.height}
+              stroke={info.color}
+              strokeDasharray="2 3"
+              strokeOpacity={0.8}
+            />
+            <text x={px + 3} y={plot.top + 10} fontSize={9} fill={info.color}>{label}</text>
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
@@ -0,0 +1,69 @@
+import React from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
+import { chartColors } from '@/components/ui/chart-formatters';
+import { IndicatorDefinition, IndicatorSeries } from '@/utils/chart-indicators';
+
+interface IndicatorPaneProps {
+  label: string;
+  definition: IndicatorDefinition;
+  series: IndicatorSeries[];
+  data: Array<{ date: string; indicators?: Record<string, unknown> }>; // the price chart's rows
+  syncId: string;
+  height: number;
+}
+
+// Sub-pane for oscillators and volume studies, aligned with the price chart through `syncId`
+export function IndicatorPane({ label, definition, series, data, syncId, height }: IndicatorPaneProps) {
+  const latest = data[data.length - 1]?.indicators;
+
+  return (
+    <div className="border-t border-border/50" style={{ height }}>
+      <div className="flex flex-wrap gap-x-3 px-2 pt-1 text-xs font-mono text-muted-foreground">
+        <span title={definition.description}>{label}</span>
+        {series.map(item => {
+          const value = latest?.[item.key];
+          return (
+            <span key={item.key} style={{ color: item.color }}>
+              {item.label} {typeof value === 'number' ? value.toFixed(2) : '-'}
+            </span>
+          );
+        })}
+      </div>
+      <ResponsiveContainer width="100%" height={height - 20}>
+        <ComposedChart data={data} syncId={syncId} margin={{ top: 4, right: 30, left: 20, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+          <XAxis dataKey="date" hide />
+          <YAxis domain={definition.range ?? ['auto', 'auto']} tick={{ fontSize: 10 }} width={60} />
+          {(definition.levels ?? []).map(level => (
+            <ReferenceLine key={level} y={level} stroke="hsl(var(--muted-foreground))" strokeDasharray="2 3" />
+          ))}
+          {series.map(item => item.style === 'histogram' ? (
+            <Bar key={item.key} dataKey={`indicators.${item.key}`} name={item.label} isAnimationActive={false}>
+              {data.map((row, index) => {
+                const value = row.indicators?.[item.key];
+                return (
+                  <Cell
+                    key={index}
+                    fill={typeof value === 'number' && value < 0 ? chartColors.bearish : chartColors.bullish}
+                    fillOpacity={0.6}
+                  />
+                );
+              })}
+            </Bar>
+          ) : (
+            <Line
+              key={item.key}
+              type="monotone"
+              dataKey={`indicators.${item.key}`}
+              name={item.label}
+              stroke={item.color}
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import React, { useMemo } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  IndicatorInstance,
+  IndicatorParam,
+  chartIndicators,
+  defaultIndicatorParams,
+  getChartIndicator,
+  indicatorInstanceLabel
+} from '@/utils/chart-indicators';
+
+interface IndicatorSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  symbol: string;
+  instances: IndicatorInstance[];
+  onAdd: (type: string) => void;
+  onUpdate: (id: string, patch: Partial<Omit<IndicatorInstance, 'id' | 'type'>>) => void;
+  onRemove: (id: string) => void;
+}
+
+const palette = Array.from({ length: 8 }, (_, i) => `hsl(var(--chart-${i + 1}))`);
+
+const groups = [
+  { placement: 'overlay', label: 'Overlays' },
+  { placement: 'pane', label: 'Panes' }
+] as const;
+
+// Date params are stored as UTC ms with 0 meaning "first candle"; the input works in yyyy-mm-dd
+const toDateInput = (time: number) => time ? new Date(time).toISOString().slice(0, 10) : '';
+
+function ParamInput({ param, value, onChange }: { param: IndicatorParam; value: number; onChange: (value: number) => void }) {
+  if (param.kind === 'date') {
+    return (
+      <Input
+        type="date"
+        value={toDateInput(value)}
+        onChange={(event) => onChange(event.target.value ? Date.parse(event.target.value) : 0)}
+        className="h-8"
+      />
+    );
+  }
+  return (
+    <Input
+      type="number"
+      value={value}
+      min={param.min}
+      max={param.max}
+      step={param.step}
+      onChange={(event) => {
+        const next = parseFloat(event.target.value);
+        // Out-of-range values are clamped rather than rejected so typing stays responsive
+        if (Number.isFinite(next)) onChange(Math.min(param.max ?? next, Math.max(param.min ?? next, next)));
+      }}
+      className="h-8"
+    />
+  );
+}
+
+function InstanceEditor({ instance, onUpdate, onRemove }: {
+  instance: IndicatorInstance;
+  onUpdate: IndicatorSettingsDialogProps['onUpdate'];
+  onRemove: IndicatorSettingsDialogProps['onRemove'];
+}) {
+  const definition = getChartIndicator(instance.type);
+  // Series keys and default colours, from a run over no bars
+  const series = useMemo(
+    () => definition?.compute([], { ...defaultIndicatorParams(definition), ...instance.params }).series ?? [],
+    [definition, instance.params]
+  );
+  if (!definition) return null;
+
+  return (
+    <div className={cn('rounded-md border p-3 space-y-3', !instance.visible && 'opacity-60')}>
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={instance.visible}
+          onCheckedChange={(visible) => onUpdate(instance.id, { visible })}
+          aria-label={`Show ${indicatorInstanceLabel(instance)}`}
+        />
+        <span className="font-medium text-sm" title={definition.description}>{indicatorInstanceLabel(instance)}</span>
+        <span className="text-xs text-muted-foreground">{definition.placement === 'overlay' ? 'Overlay' : 'Pane'}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onRemove(instance.id)}
+          className="ml-auto px-2"
+          aria-label={`Remove ${indicatorInstanceLabel(instance)}`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {definition.params.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {definition.params.map(param => (
+            <div key={param.key} className="space-y-1">
+              <Label className="text-xs text-muted-foreground">{param.label}</Label>
+              <ParamInput
+                param={param}
+                value={instance.params[param.key] ?? param.defaultValue}
+                onChange={(value) => onUpdate(instance.id, { params: { ...instance.params, [param.key]: value } })}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {series.map(item => {
+          const current = instance.colors[item.key] ?? item.color;
+          return (
+            <div key={item.key} className="flex items-center gap-2">
+              <span className="w-20 text-xs text-muted-foreground truncate">{item.label}</span>
+              {palette.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => onUpdate(instance.id, { colors: { ...instance.colors, [item.key]: color } })}
+                  className={cn('w-5 h-5 rounded-full border-2', current === color ? 'border-foreground' : 'border-transparent')}
+                  style={{ backgroundColor: color }}
+                  aria-label={`${item.label} colour`}
+                />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Add, configure, hide and remove the chart's indicator instances
+export function IndicatorSettingsDialog({ open, onOpenChange, symbol, instances, onAdd, onUpdate, onRemove }: IndicatorSettingsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Indicators</DialogTitle>
+          <DialogDescription>Saved for {symbol}. Add an indicator more than once to compare settings.</DialogDescription>
+        </DialogHeader>
+
+        {/* Keyed on the count so the picker resets after each add */}
+        <Select key={instances.length} onValueChange={onAdd}>
+          <SelectTrigger>
+            <SelectValue placeholder="Add indicator..." />
+          </SelectTrigger>
+          <SelectContent>
+            {groups.map(group => (
+              <SelectGroup key={group.placement}>
+                <SelectLabel>{group.label}</SelectLabel>
+                {chartIndicators.filter(indicator => indicator.placement === group.placement).map(indicator => (
+                  <SelectItem key={indicator.id} value={indicator.id}>
+                    {indicator.label} - {indicator.description}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="space-y-2">
+          {instances.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No indicators on this chart</p>
+          )}
+          {instances.map(instance => (
+            <InstanceEditor key={instance.id} instance={instance} onUpdate={onUpdate} onRemove={onRemove} />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,16 +1,92 @@
 import React from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Cell } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Cell, Tooltip } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ChartLegend, ChartLegendConfigs } from '@/components/ui/chart-legend';
 import { Orderbook } from '@/types/api';
+import { ConsolidatedLevel, ConsolidatedOrderbook } from '@/utils/consolidated-orderbook';
+import { BookModeToggle, ConsolidatedBookSummary, OrderbookMode } from './ConsolidatedBook';
 
 interface OrderbookChartProps {
   orderbook: Orderbook | null;
   connectionStatus: 'connecting' | 'connected' | 'disconnected' | 'error';
+  mode?: OrderbookMode;
+  onModeChange?: (mode: OrderbookMode) => void;
+  consolidated?: ConsolidatedOrderbook | null;
+  consolidatedLoading?: boolean;
 }
 
-export function OrderbookChart({ orderbook, connectionStatus }: OrderbookChartProps) {
+// One row per level, split into a stacked bar segment per contributing venue
+function ConsolidatedLevels({ book }: { book: ConsolidatedOrderbook }) {
+  const rows = [...book.asks.slice(0, 10).reverse(), ...book.bids.slice(0, 10)].map(level => ({
+    ...level.venues,
+    displayPrice: String(level.price),
+    side: book.asks.includes(level) ? 'Ask' : 'Bid'
+  }));
+
+  const levelList = (levels: ConsolidatedLevel[], side: 'bid' | 'ask') => levels.slice(0, 5).map((level, index) => (
+    <div key={level.price} className={`p-1 rounded ${index === 0 ? (side === 'bid' ? 'bg-chart-2/10' : 'bg-chart-3/10') : ''}`}>
+      <div className="flex justify-between">
+        <span className={`font-mono text-sm ${side === 'bid' ? 'text-chart-2' : 'text-chart-3'}`}>${level.price}</span>
+        <span className="text-foreground font-mono text-sm">{level.quantity.toFixed(4)}</span>
+      </div>
+      <div className="flex h-1 rounded overflow-hidden mt-1">
+        {book.venues.filter(venue => level.venues[venue.id]).map(venue => (
+          <div
+            key={venue.id}
+            title={`${venue.name}: ${level.venues[venue.id].toFixed(4)}`}
+            style={{ width: `${(level.venues[venue.id] / level.quantity) * 100}%`, backgroundColor: venue.color }}
+          />
+        ))}
+      </div>
+    </div>
+  ));
+
+  return (
+    <div className="space-y-4">
+      <ConsolidatedBookSummary book={book} />
+
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={rows} layout="vertical" margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+            <XAxis type="number" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <YAxis type="category" dataKey="displayPrice" width={80} stroke="hsl(var(--muted-foreground))" fontSize={11} />
+            <Tooltip
+              cursor={{ fill: 'hsl(var(--muted))', opacity: 0.3 }}
+              contentStyle={{ backgroundColor: 'hsl(var(--popover))', border: '1px solid hsl(var(--border))', fontSize: 12 }}
+              labelFormatter={(price, payload) => `${payload?.[0]?.payload.side ?? ''} $${price}`}
+              formatter={(value: number) => value.toFixed(4)}
+            />
+            {book.venues.map(venue => (
+              <Bar key={venue.id} dataKey={venue.id} name={venue.name} stackId="venues" fill={venue.color} opacity={0.85} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div className="bg-gradient-to-r from-chart-2/5 to-transparent p-3 rounded-lg border border-chart-2/20">
+          <h4 className="font-semibold text-chart-2 mb-2">Bids</h4>
+          <div className="space-y-1">{levelList(book.bids, 'bid')}</div>
+        </div>
+        <div className="bg-gradient-to-r from-chart-3/5 to-transparent p-3 rounded-lg border border-chart-3/20">
+          <h4 className="font-semibold text-chart-3 mb-2">Asks</h4>
+          <div className="space-y-1">{levelList(book.asks, 'ask')}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function OrderbookChart({
+  orderbook,
+  connectionStatus,
+  mode = 'venue',
+  onModeChange,
+  consolidated,
+  consolidatedLoading
+}: OrderbookChartProps) {
   if (!orderbook) {
     return (
       <Card>
@@ -75,15 +151,27 @@ export function OrderbookChart({ orderbook, connectionStatus }: OrderbookChartPr
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
             <span>Order Book - {orderbook.symbol}</span>
-            <Badge 
-              variant="secondary" 
-              className={`${getStatusColor(connectionStatus)} text-white`}
-            >
-              {getStatusText(connectionStatus)}
-            </Badge>
+            <div className="flex items-center gap-2">
+              {onModeChange && <BookModeToggle mode={mode} onModeChange={onModeChange} />}
+              <Badge 
+                variant="secondary" 
+                className={`${getStatusColor(connectionStatus)} text-white`}
+              >
+                {getStatusText(connectionStatus)}
+              </Badge>
+            </div>
           </CardTitle>
         </CardHeader>
         <CardContent>
+        {mode === 'consolidated' ? (
+          consolidated ? (
+            <ConsolidatedLevels book={consolidated} />
+          ) : (
+            <div className="h-64 flex items-center justify-center text-muted-foreground">
+              {consolidatedLoading ? 'Loading venue order books...' : 'No venue order books available'}
+            </div>
+          )
+        ) : (
         <div className="space-y-4">
           {/* Price spread info */}
           {orderbook.asks.length > 0 && orderbook.bids.length > 0 && (
@@ -165,6 +253,7 @@ export function OrderbookChart({ orderbook, connectionStatus }: OrderbookChartPr
             </div>
           </div>
         </div>
+        )}
         </CardContent>
       </Card>
 
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { Radio } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCanvas, CanvasSize } from '@/hooks/useCanvas';
+import { chartColors, formatPrice, formatVolume, generatePriceTicks } from '@/components/ui/chart-formatters';
+import { resolveColor, withAlpha, crisp } from '@/utils/canvas';
+import { cn } from '@/lib/utils';
+import { BookSnapshot, MAX_HISTORY_MINUTES, OrderbookHistory, intensityScale, priceStep } from '@/utils/orderbook-history';
+
+interface OrderbookHeatmapProps {
+  history: OrderbookHistory; // mutated as snapshots arrive; the parent re-renders to redraw
+  className?: string;
+}
+
+const AXIS_WIDTH = 64;
+const TIME_AXIS_HEIGHT = 20;
+const WINDOWS = [1, 5, 15, 30];
+const MINUTE_MS = 60 * 1000;
+// Size is drawn in this many opacity steps, so each step's colour is built once per frame
+const INTENSITY_STEPS = 10;
+
+const formatClock = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Nearest level to a price on either side of a snapshot, if one sits within half a row
+const levelAt = (snapshot: BookSnapshot, price: number, step: number) => {
+  const match = (levels: BookSnapshot['bids']) => levels.find(level => Math.abs(level.price - price) <= step / 2);
+  const bid = match(snapshot.bids);
+  if (bid) return { side: 'Bid', quantity: bid.quantity };
+  const ask = match(snapshot.asks);
+  return ask ? { side: 'Ask', quantity: ask.quantity } : null;
+};
+
+// Resting size by time and price from the streamed book, with the mid price drawn over it.
+// Scroll back with the slider or the mouse wheel; "Live" follows the newest snapshot again.
+export function OrderbookHeatmap({ history, className }: OrderbookHeatmapProps) {
+  const [windowMinutes, setWindowMinutes] = useState(5);
+  const [pinnedEnd, setPinnedEnd] = useState<number | null>(null); // null follows the newest snapshot
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+
+  const snapshots = history.snapshots;
+  const latest = snapshots[snapshots.length - 1]?.time ?? 0;
+  const windowMs = windowMinutes * MINUTE_MS;
+  // Earliest end that still fills the window, or the newest snapshot while less is buffered
+  const earliestEnd = Math.min(latest, (snapshots[0]?.time ?? latest) + windowMs);
+  const end = pinnedEnd === null ? latest : Math.min(latest, Math.max(earliestEnd, pinnedEnd));
+  const start = end - windowMs;
+  const isLive = pinnedEnd === null;
+
+  const layout = (size: CanvasSize) => {
+    const visible = history.range(start, end);
+    const plotWidth = size.width - AXIS_WIDTH;
+    const plotHeight = size.height - TIME_AXIS_HEIGHT;
+    const step = priceStep(visible[visible.length - 1]) || 0.01;
+    const low = Math.min(...visible.map(snapshot => snapshot.bids[snapshot.bids.length - 1].price)) - step;
+    const high = Math.max(...visible.map(snapshot => snapshot.asks[snapshot.asks.length - 1].price)) + step;
+    const priceSpan = high - low || 1;
+    return {
+      visible,
+      plotWidth,
+      plotHeight,
+      step,
+      low,
+      high,
+      toX: (time: number) => (time - start) / windowMs * plotWidth,
+      toTime: (x: number) => start + x / plotWidth * windowMs,
+      toY: (price: number) => (high - price) / priceSpan * plotHeight,
+      toPrice: (y: number) => high - y / plotHeight * priceSpan
+    };
+  };
+
+  const draw = (ctx: CanvasRenderingContext2D, size: CanvasSize) => {
+    const { visible, plotWidth, plotHeight, step, low, high, toX, toY } = layout(size);
+    if (!visible.length) return;
+
+    const scale = intensityScale(visible);
+    const shades = (color: string) => Array.from({ length: INTENSITY_STEPS + 1 }, (_, i) => withAlpha(color, 0.08 + 0.87 * i / INTENSITY_STEPS));
+    const bidShades = shades(chartColors.bullish);
+    const askShades = shades(chartColors.bearish);
+    const rowHeight = Math.max(1, toY(low) - toY(low + step));
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, plotWidth, plotHeight);
+    ctx.clip();
+
+    // One column per snapshot until the next; snapshots sharing a pixel column keep only the first
+    let lastColumn = -1;
+    visible.forEach((snapshot, index) => {
+      const x0 = Math.max(0, toX(snapshot.time));
+      const x1 = Math.min(plotWidth, index < visible.length - 1 ? toX(visible[index + 1].time) : toX(end));
+      const column = Math.floor(x0);
+      if (column === lastColumn && index < visible.length - 1) return;
+      lastColumn = column;
+      const width = Math.max(1, x1 - x0);
+
+      const paint = (levels: BookSnapshot['bids'], palette: string[]) => levels.forEach(level => {
+        ctx.fillStyle = palette[Math.min(INTENSITY_STEPS, Math.round(level.quantity / scale * INTENSITY_STEPS))];
+        ctx.fillRect(x0, toY(level.price + step / 2), width, rowHeight);
+      });
+      paint(snapshot.bids, bidShades);
+      paint(snapshot.asks, askShades);
+    });
+
+    // Mid price
+    ctx.strokeStyle = resolveColor(chartColors.text);
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    visible.forEach((snapshot, index) => {
+      const x = Math.max(0, toX(snapshot.time));
+      if (index === 0) ctx.moveTo(x, toY(snapshot.mid));
+      else ctx.lineTo(x, toY(snapshot.mid));
+    });
+    ctx.lineTo(toX(end), toY(visible[visible.length - 1].mid));
+    ctx.stroke();
+    ctx.restore();
+
+    // Axes
+    ctx.font = '11px ui-monospace, monospace';
+    ctx.fillStyle = resolveColor(chartColors.textSecondary);
+    ctx.strokeStyle = withAlpha(chartColors.grid, 0.5);
+    ctx.lineWidth = 1;
+    ctx.textBaseline = 'middle';
+    generatePriceTicks(low, high, 6).filter(tick => tick >= low && tick <= high).forEach(tick => {
+      ctx.fillText(formatPrice(tick), plotWidth + 6, toY(tick));
+    });
+    ctx.textBaseline = 'top';
+    ctx.textAlign = 'center';
+    [0.2, 0.5, 0.8].forEach(share => {
+      const time = start + windowMs * share;
+      ctx.fillText(formatClock(time), toX(time), plotHeight + 4);
+    });
+    ctx.textAlign = 'left';
+
+    if (pointer && pointer.x <= plotWidth && pointer.y <= plotHeight) {
+      ctx.strokeStyle = resolveColor(chartColors.textSecondary);
+      ctx.setLineDash([3, 3]);
+      ctx.beginPath();
+      ctx.moveTo(crisp(pointer.x), 0);
+      ctx.lineTo(crisp(pointer.x), plotHeight);
+      ctx.moveTo(0, crisp(pointer.y));
+      ctx.lineTo(plotWidth, crisp(pointer.y));
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+  };
+
+  const { canvasRef } = useCanvas(draw);
+
+  // Size resting at the price and time under the pointer
+  const hovered = (() => {
+    const canvas = canvasRef.current;
+    if (!pointer || !canvas) return null;
+    const { visible, step, toTime, toPrice, plotWidth, plotHeight } = layout({ width: canvas.clientWidth, height: canvas.clientHeight });
+    if (!visible.length || pointer.x > plotWidth || pointer.y > plotHeight) return null;
+    const time = toTime(pointer.x);
+    const price = toPrice(pointer.y);
+    const snapshot = [...visible].reverse().find(item => item.time <= time) ?? visible[0];
+    return { time, price, level: levelAt(snapshot, price, step) };
+  })();
+
+  // Wheel down scrolls back in time. Registered directly because React's wheel listeners are
+  // passive and the page would scroll too.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const next = end - Math.sign(event.deltaY) * windowMs * 0.1;
+      setPinnedEnd(next >= latest ? null : Math.max(earliestEnd, next));
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [canvasRef, end, windowMs, latest, earliestEnd]);
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={String(windowMinutes)} onValueChange={(value) => setWindowMinutes(Number(value))}>
+          <SelectTrigger className="w-24 h-8" aria-label="Visible window">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WINDOWS.map(minutes => (
+              <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Slider
+          className="flex-1 min-w-[8rem]"
+          min={earliestEnd}
+          max={Math.max(latest, earliestEnd + 1)}
+          step={1000}
+          value={[end]}
+          onValueChange={([value]) => setPinnedEnd(value >= latest ? null : value)}
+          disabled={latest <= earliestEnd}
+          aria-label="Scroll back through history"
+        />
+        <Button
+          variant={isLive ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setPinnedEnd(null)}
+          className="h-8 gap-1"
+        >
+          <Radio className="w-3.5 h-3.5" />
+          Live
+        </Button>
+      </div>
+
+      <div className="relative h-80">
+        <canvas
+          ref={canvasRef}
+          className="h-full w-full cursor-crosshair"
+          onPointerMove={event => setPointer({ x: event.nativeEvent.offsetX, y: event.nativeEvent.offsetY })}
+          onPointerLeave={() => setPointer(null)}
+        />
+        {snapshots.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+            Waiting for order book updates...
+          </div>
+        )}
+        {hovered && (
+          <div className="pointer-events-none absolute left-2 top-1 flex gap-3 text-xs font-mono text-muted-foreground">
+            <span>{formatClock(hovered.time)}</span>
+            <span>{formatPrice(hovered.price)}</span>
+            {hovered.level && <span>{hovered.level.side} {formatVolume(hovered.level.quantity)}</span>}
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {snapshots.length > 0
+          ? `Buffering the streamed book since ${formatClock(snapshots[0].time)}; up to ${MAX_HISTORY_MINUTES} minutes are kept`
+          : `Up to ${MAX_HISTORY_MINUTES} minutes of the streamed book are kept while the dashboard is open`}
+      </p>
+    </div>
+  );
+}
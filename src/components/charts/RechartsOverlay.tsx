@@ -0,0 +1,25 @@
+import React, { ReactNode, useMemo } from 'react';
+import { ChartProjection, PlotRect, createCandleProjection, createTimeScale } from '@/utils/chart-projection';
+
+interface RechartsOverlayProps {
+  rows: Array<{ time: number }>; // the chart's visible rows, one band each
+  render: (projection: ChartProjection) => ReactNode;
+  // Injected by Recharts' <Customized>
+  offset?: PlotRect;
+  yAxisMap?: Record<string, { scale: ((value: number) => number) & { invert: (value: number) => number } }>;
+}
+
+// Adapter for use as `<Customized component={<RechartsOverlay ... />} />`: the chart supplies its plot
+// area and price scale, each row is an equal-width band across the plot, and `render` draws in that
+// projection just as it would over the canvas chart
+export function RechartsOverlay({ rows, render, offset, yAxisMap }: RechartsOverlayProps) {
+  const scale = useMemo(() => createTimeScale(rows.map(row => row.time)), [rows]);
+  const priceScale = yAxisMap?.[0]?.scale;
+  if (!offset || !priceScale || !rows.length) return null;
+
+  const projection = createCandleProjection(scale, offset, 0, offset.width / rows.length, {
+    toY: price => priceScale(price),
+    fromY: py => priceScale.invert(py)
+  });
+  return <>{render(projection)}</>;
+}
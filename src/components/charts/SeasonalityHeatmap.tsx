@@ -0,0 +1,84 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import { SeasonalityBucket, SeasonalityMetric, formatSeasonalityValue } from '@/utils/seasonality';
+
+interface SeasonalityHeatmapProps {
+  title: string;
+  buckets: SeasonalityBucket[];
+  metric: SeasonalityMetric;
+  columns: number;
+  description?: string;
+}
+
+export function SeasonalityHeatmap({ title, buckets, metric, columns, description }: SeasonalityHeatmapProps) {
+  // Win rate is centred on 50%, everything else on zero
+  const centred = (bucket: SeasonalityBucket) =>
+    metric === 'winRate' ? bucket.winRate - 0.5 : bucket[metric];
+
+  const populated = buckets.filter(b => b.count > 0);
+  const maxMagnitude = Math.max(...populated.map(b => Math.abs(centred(b))), 1e-9);
+
+  const getCellStyle = (bucket: SeasonalityBucket): React.CSSProperties => {
+    if (bucket.count === 0) return {};
+    const value = centred(bucket);
+    const intensity = Math.min(Math.abs(value) / maxMagnitude, 1);
+    const alpha = 0.1 + intensity * 0.7;
+
+    // Dispersion has no direction, so it uses a single scale
+    if (metric === 'stdDev') {
+      return { backgroundColor: `hsl(var(--primary) / ${alpha})` };
+    }
+    return {
+      backgroundColor: value >= 0
+        ? `hsl(var(--performance-positive) / ${alpha})`
+        : `hsl(var(--performance-negative) / ${alpha})`
+    };
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm">{title}</CardTitle>
+        {description && <p className="text-xs text-muted-foreground">{description}</p>}
+      </CardHeader>
+      <CardContent>
+        <div
+          className="grid gap-1"
+          style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+        >
+          {buckets.map(bucket => (
+            <Tooltip key={bucket.key}>
+              <TooltipTrigger asChild>
+                <div
+                  className={cn(
+                    "rounded-md border border-border p-1 sm:p-2 text-center transition-transform hover:scale-105",
+                    bucket.count === 0 && "opacity-40"
+                  )}
+                  style={getCellStyle(bucket)}
+                >
+                  <div className="text-[10px] sm:text-xs text-muted-foreground">{bucket.label}</div>
+                  <div className="text-xs sm:text-sm font-semibold">
+                    {bucket.count > 0 ? formatSeasonalityValue(metric, bucket[metric]) : '—'}
+                  </div>
+                </div>
+              </TooltipTrigger>
+              <TooltipContent>
+                <div className="space-y-1 text-xs">
+                  <p className="font-semibold">{bucket.label}</p>
+                  <p>Mean: {formatSeasonalityValue('mean', bucket.mean)}</p>
+                  <p>Median: {formatSeasonalityValue('median', bucket.median)}</p>
+                  <p>Std Dev: {formatSeasonalityValue('stdDev', bucket.stdDev)}</p>
+                  <p>Win Rate: {formatSeasonalityValue('winRate', bucket.winRate)}</p>
+                  <p>t-Stat: {formatSeasonalityValue('tStat', bucket.tStat)}</p>
+                  <p className="text-muted-foreground">Samples: {bucket.count}</p>
+                </div>
+              </TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,12 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Cell } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ChartLegend, ChartLegendConfigs } from '@/components/ui/chart-legend';
 import { ChartTooltip } from '@/components/ui/chart-tooltip';
 import { useChartTouch } from '@/hooks/useTouch';
 import { useChartOptimization } from '@/hooks/useChartOptimization';
-import { formatVolume, formatPrice } from '@/components/ui/chart-formatters';
+import { formatVolume, formatPrice, formatTime } from '@/components/ui/chart-formatters';
+import { CanvasVolumeChart } from './CanvasVolumeChart';
 import { Kline } from '@/types/api';
 
 interface VolumeChartProps {
@@ -13,7 +14,20 @@ interface VolumeChartProps {
   symbol: string;
 }
 
+// Above this many bars the chart is drawn on canvas instead of as SVG
+const SVG_MAX_BARS = 500;
+
 export function VolumeChart({ klines, symbol }: VolumeChartProps) {
+  const canvasMode = klines.length > SVG_MAX_BARS;
+  const canvasCandles = useMemo(() => canvasMode ? klines.map(kline => ({
+    time: kline.openTime,
+    open: parseFloat(kline.open),
+    high: parseFloat(kline.high),
+    low: parseFloat(kline.low),
+    close: parseFloat(kline.close),
+    volume: parseFloat(kline.volume)
+  })) : [], [klines, canvasMode]);
+
   const volumeData = klines.map((kline) => {
     const volume = parseFloat(kline.volume);
     const open = parseFloat(kline.open);
@@ -55,7 +69,7 @@ export function VolumeChart({ klines, symbol }: VolumeChartProps) {
   );
 
   const avgVolume = volumeData.reduce((sum, data) => sum + data.volume, 0) / volumeData.length;
-  const maxVolume = Math.max(...volumeData.map(d => d.volume));
+  const maxVolume = volumeData.reduce((max, d) => Math.max(max, d.volume), 0);
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -89,34 +103,38 @@ export function VolumeChart({ klines, symbol }: VolumeChartProps) {
           <CardTitle>Volume Analysis - {symbol}</CardTitle>
         </CardHeader>
         <CardContent>
-        <div ref={elementRef as any} className="h-64 touch-pan-y select-none">
-          <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={optimizedData.data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
-              <XAxis 
-                dataKey="date" 
-                tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
-                stroke="hsl(var(--muted-foreground))"
-                axisLine={{ stroke: 'hsl(var(--border))' }}
-              />
-              <YAxis 
-                tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
-                stroke="hsl(var(--muted-foreground))"
-                tickFormatter={(value) => formatVolume(value)}
-                axisLine={{ stroke: 'hsl(var(--border))' }}
-              />
-              <Tooltip content={<CustomTooltip />} />
-              <Bar dataKey="volume" radius={[3, 3, 0, 0]}>
-                {optimizedData.data.map((entry, index) => (
-                  <Cell 
-                    key={`cell-${index}`} 
-                    fill={entry.isPositive ? 'hsl(var(--chart-2))' : 'hsl(var(--chart-3))'} 
-                    opacity={0.8}
-                  />
-                ))}
-              </Bar>
-            </BarChart>
-          </ResponsiveContainer>
+        <div ref={canvasMode ? undefined : elementRef as any} className="h-64 touch-pan-y select-none">
+          {canvasMode ? (
+            <CanvasVolumeChart candles={canvasCandles} formatTimeLabel={(time) => formatTime(time, 'day')} />
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={optimizedData.data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                <XAxis 
+                  dataKey="date" 
+                  tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                  stroke="hsl(var(--muted-foreground))"
+                  axisLine={{ stroke: 'hsl(var(--border))' }}
+                />
+                <YAxis 
+                  tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                  stroke="hsl(var(--muted-foreground))"
+                  tickFormatter={(value) => formatVolume(value)}
+                  axisLine={{ stroke: 'hsl(var(--border))' }}
+                />
+                <Tooltip content={<CustomTooltip />} />
+                <Bar dataKey="volume" radius={[3, 3, 0, 0]}>
+                  {optimizedData.data.map((entry, index) => (
+                    <Cell 
+                      key={`cell-${index}`} 
+                      fill={entry.isPositive ? 'hsl(var(--chart-2))' : 'hsl(var(--chart-3))'} 
+                      opacity={0.8}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          )}
         </div>
 
         {/* Volume Statistics */}
@@ -159,7 +177,7 @@ export function VolumeChart({ klines, symbol }: VolumeChartProps) {
             </div>
           </div>
           <div className="mt-3 text-xs text-muted-foreground flex justify-between items-center">
-            <span>Data Points: {optimizedData.data.length}/{volumeData.length}</span>
+            <span>Data Points: {canvasMode ? volumeData.length : optimizedData.data.length}/{volumeData.length}</span>
             <span>Zoom: {zoomLevel.toFixed(1)}x</span>
             <span>Touch: {touchState.isMultiTouch ? 'Multi' : 'Single'}</span>
           </div>
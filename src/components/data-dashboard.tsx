@@ -8,60 +8,59 @@ import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
 import { useRealtimeData } from '@/hooks/useRealtimeData';
 import { useWebSocketHealth } from '@/hooks/useWebSocketHealth';
+import { useSeasonality } from '@/hooks/useSeasonality';
+import { useConsolidatedOrderbook } from '@/hooks/useConsolidatedOrderbook';
+import { useVenueDivergence } from '@/hooks/useVenueDivergence';
+import { useOrderbookHistory } from '@/hooks/useOrderbookHistory';
+import { useTrades } from '@/hooks/useTrades';
+import { SeasonalityMetric, seasonalityMetrics, formatSeasonalityValue } from '@/utils/seasonality';
 import { OrderbookChart } from '@/components/charts/OrderbookChart';
 import { CandlestickChart } from '@/components/charts/CandlestickChart';
 import { VolumeChart } from '@/components/charts/VolumeChart';
 import { DepthChart } from '@/components/charts/DepthChart';
+import { OrderbookHeatmap } from '@/components/charts/OrderbookHeatmap';
+import { OrderbookMode } from '@/components/charts/ConsolidatedBook';
+import { SeasonalityHeatmap } from '@/components/charts/SeasonalityHeatmap';
 import { DateRange } from './interactive-features/date-range-selector';
 import { ConnectionStatus } from '@/components/ui/connection-status';
 import { PriceTicker } from '@/components/ui/price-ticker';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { ErrorState } from '@/components/ui/error-state';
 import { TooltipProvider } from '@/components/ui/tooltip';
+import { getVolatilityLevel as getVolatilityBand } from '@/services/calendar-data-service';
+import { useRangeAnalysis } from '@/hooks/useRangeAnalysis';
+import { FilterOptions, isFilterActive } from '@/utils/calendar-filters';
 import { APIStatusButtons } from '@/components/ui/api-status-buttons';
 import { SymbolInfo } from '@/components/ui/symbol-info';
+import { SymbolPicker } from '@/components/ui/symbol-picker';
 import { OrderbookEnhancements } from '@/components/ui/orderbook-enhancements';
+import { PriceAlertsPanel } from '@/components/ui/price-alerts-panel';
+import { VenueDivergencePanel } from '@/components/ui/venue-divergence-panel';
+import { TradeTape } from '@/components/ui/trade-tape';
+import { EventStudyPanel } from '@/components/ui/event-study-panel';
+import { usePriceAlerts } from '@/hooks/usePriceAlerts';
+import { BacktestPanel } from '@/components/ui/backtest-panel';
+import { useBacktest } from '@/hooks/useBacktest';
+import { BacktestConfig, TradeDayMark, defaultBacktestConfig, tradeDayMarks } from '@/utils/backtest';
 
 interface DataDashboardProps {
+  symbol: string;
+  onSymbolChange: (symbol: string) => void;
   selectedDate: Date | null;
   data?: any;
   dateRange?: DateRange;
   viewType?: 'day' | 'week' | 'month';
+  filters?: FilterOptions;
+  onTradeDaysChange?: (days: Map<string, TradeDayMark> | null) => void;
 }
 
-// Generate mock analysis data for the selected range
-const generateRangeAnalysis = (dateRange: DateRange) => {
-  if (!dateRange.start || !dateRange.end) return null;
-  
-  const days = Math.ceil((dateRange.end.getTime() - dateRange.start.getTime()) / (1000 * 60 * 60 * 24));
-  const seed = dateRange.start.getTime() + dateRange.end.getTime();
-  const random = (min: number, max: number) => {
-    const x = Math.sin(seed * 9.301) * 10000;
-    return min + (x - Math.floor(x)) * (max - min);
-  };
-  
-  const avgVolatility = random(0.1, 0.8);
-  const totalVolume = random(100000000, 500000000) * days;
-  const overallPerformance = random(-0.3, 0.3);
-  
-  return {
-    days,
-    avgVolatility,
-    totalVolume,
-    overallPerformance,
-    highVolatilityDays: Math.floor(days * (avgVolatility > 0.6 ? 0.4 : avgVolatility > 0.3 ? 0.2 : 0.1)),
-    bestDay: overallPerformance > 0 ? random(0.05, 0.15) : random(0.01, 0.05),
-    worstDay: overallPerformance < 0 ? -random(0.05, 0.15) : -random(0.01, 0.05),
-    avgPrice: random(40000, 70000),
-    priceRange: { min: random(35000, 50000), max: random(60000, 75000) },
-    avgLiquidity: random(0.3, 0.9),
-  };
-};
-
-export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data, dateRange, viewType = 'day' }) => {
-  const [selectedSymbol, setSelectedSymbol] = useState('BTCUSDT');
-  const [activeTab, setActiveTab] = useState<'overview' | 'charts'>('overview');
-  const [previousOrderbook, setPreviousOrderbook] = useState(null);
+export const DataDashboard: React.FC<DataDashboardProps> = ({ symbol, onSymbolChange, selectedDate, data, dateRange, viewType = 'day', filters, onTradeDaysChange }) => {
+  const [activeTab, setActiveTab] = useState<'overview' | 'charts' | 'seasonality' | 'backtest'>('overview');
+  const [seasonalityYears, setSeasonalityYears] = useState(5);
+  const [seasonalityMetric, setSeasonalityMetric] = useState<SeasonalityMetric>('mean');
+  const [backtestConfig, setBacktestConfig] = useState<BacktestConfig>(defaultBacktestConfig);
+  const [highlightTrades, setHighlightTrades] = useState(false);
+  const [bookMode, setBookMode] = useState<OrderbookMode>('venue');
   const [keyPressed, setKeyPressed] = useState<string | null>(null);
   
   // Real-time data integration
@@ -71,13 +70,58 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
     klines,
     financialData,
     connectionStatus,
+    streamMode,
+    streamFallbackReason,
     isLoading,
     apiSource,
     apiHealth,
     switchSource,
     testConnection,
     refreshHealthStatus
-  } = useRealtimeData(selectedSymbol);
+  } = useRealtimeData(symbol);
+
+  const {
+    stats: seasonality,
+    history: seasonalityHistory,
+    isLoading: isSeasonalityLoading,
+    isError: isSeasonalityError,
+    refetch: refetchSeasonality
+  } = useSeasonality(symbol, seasonalityYears);
+
+  // Shares the seasonality history, so both tabs cover the same years
+  const { result: backtest } = useBacktest(symbol, seasonalityYears, backtestConfig);
+
+  React.useEffect(() => {
+    onTradeDaysChange?.(highlightTrades && backtest ? tradeDayMarks(backtest.trades) : null);
+  }, [highlightTrades, backtest, onTradeDaysChange]);
+
+  React.useEffect(() => () => onTradeDaysChange?.(null), [onTradeDaysChange]);
+
+  const {
+    stats: rangeAnalysis,
+    totalDays: rangeTotalDays,
+    isLoading: isRangeLoading,
+    isError: isRangeError,
+    refetch: refetchRange
+  } = useRangeAnalysis(symbol, dateRange?.start ?? null, dateRange?.end ?? null, filters);
+
+  // Other venues are only polled while the live tab shows them; mock data has no venues
+  const venuesLive = streamMode !== 'mock';
+  const orderbookMode: OrderbookMode = venuesLive ? bookMode : 'venue';
+  const {
+    consolidated,
+    isLoading: isConsolidatedLoading
+  } = useConsolidatedOrderbook(symbol, activeTab === 'charts' && orderbookMode === 'consolidated');
+  const divergence = useVenueDivergence(symbol, activeTab === 'charts' && venuesLive);
+
+  // Buffers from page load whichever tab is open, so the heatmap has history to scroll back over
+  const { history: bookHistory } = useOrderbookHistory(symbol);
+
+  // Trades from the active venue feed the tape and, when chosen, the chart's forming candle
+  const tape = useTrades(symbol, apiSource, activeTab === 'charts');
+
+  // Alerts are evaluated whichever tab is open
+  const alerts = usePriceAlerts(symbol, ticker, orderbook, streamMode === 'mock');
 
   const { 
     metrics, 
@@ -88,15 +132,7 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
     resetMetrics 
   } = useWebSocketHealth();
 
-  // Track orderbook changes for enhancements
-  React.useEffect(() => {
-    if (orderbook) {
-      setPreviousOrderbook(prevOrderbook => prevOrderbook);
-      setPreviousOrderbook(orderbook);
-    }
-  }, [orderbook]);
-
-  // Keyboard navigation for O (overview) and L (live/charts)
+  // Keyboard navigation for O (overview), L (live/charts), S (seasonality) and B (backtest)
   React.useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       // Only trigger if no input/textarea is focused
@@ -115,6 +151,16 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
         setKeyPressed('L');
         setTimeout(() => setKeyPressed(null), 200);
         event.preventDefault();
+      } else if (key === 's') {
+        setActiveTab('seasonality');
+        setKeyPressed('S');
+        setTimeout(() => setKeyPressed(null), 200);
+        event.preventDefault();
+      } else if (key === 'b') {
+        setActiveTab('backtest');
+        setKeyPressed('B');
+        setTimeout(() => setKeyPressed(null), 200);
+        event.preventDefault();
       }
     };
 
@@ -149,15 +195,23 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
     return <BarChart3 className="w-5 h-5 text-performance-neutral" />;
   };
 
+  const formatSignedPercent = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+  const formatShortDate = (date?: Date | null) =>
+    date ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : '';
+
   const getVolatilityLevel = (volatility: number) => {
-    if (volatility < 0.3) return 'Low';
-    if (volatility < 0.7) return 'Medium';
+    const band = getVolatilityBand(volatility);
+    if (band === 'low') return 'Low';
+    if (band === 'medium') return 'Medium';
     return 'High';
   };
 
   // Check if we have a complete date range for range analysis
   const hasCompleteRange = dateRange?.start && dateRange?.end;
-  const rangeAnalysis = hasCompleteRange ? generateRangeAnalysis(dateRange) : null;
+  const rangeDuration = hasCompleteRange
+    ? Math.round((dateRange.end!.getTime() - dateRange.start!.getTime()) / (1000 * 60 * 60 * 24)) + 1
+    : 0;
 
   // Show analysis for week/month selections even without date range
   const shouldShowAnalysis = selectedDate || hasCompleteRange;
@@ -194,7 +248,7 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
               price={parseFloat(ticker.lastPrice)}
               change={parseFloat(ticker.priceChange)}
               changePercent={parseFloat(ticker.priceChangePercent)}
-              symbol={selectedSymbol}
+              symbol={symbol}
               className="transition-all duration-500 hover:shadow-lg"
             />
           </div>
@@ -216,7 +270,12 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
                   Range: {dateRange!.start!.toLocaleDateString()} - {dateRange!.end!.toLocaleDateString()}
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  Duration: {rangeAnalysis?.days} days
+                  Duration: {rangeDuration} days
+                  {filters && isFilterActive(filters) && rangeAnalysis && (
+                    <span className="ml-2">
+                      · {rangeAnalysis.tradingDays} of {rangeTotalDays} trading days match filters
+                    </span>
+                  )}
                 </p>
               </div>
             ) : (
@@ -238,14 +297,14 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
           
           <div className="flex items-center space-x-1 sm:space-x-2 flex-shrink-0">
             <div className="w-4 h-4 sm:w-5 sm:h-5">
-              {getPerformanceIcon(hasCompleteRange ? (rangeAnalysis?.overallPerformance || 0) : (data?.performance || 0))}
+              {getPerformanceIcon(hasCompleteRange ? (rangeAnalysis?.cumulativeReturn || 0) : (data?.performance || 0))}
             </div>
             <span className={cn(
               "text-base sm:text-lg font-semibold",
-              (hasCompleteRange ? (rangeAnalysis?.overallPerformance || 0) : (data?.performance || 0)) > 0 ? "text-performance-positive" : 
-              (hasCompleteRange ? (rangeAnalysis?.overallPerformance || 0) : (data?.performance || 0)) < 0 ? "text-performance-negative" : "text-performance-neutral"
+              (hasCompleteRange ? (rangeAnalysis?.cumulativeReturn || 0) : (data?.performance || 0)) > 0 ? "text-performance-positive" : 
+              (hasCompleteRange ? (rangeAnalysis?.cumulativeReturn || 0) : (data?.performance || 0)) < 0 ? "text-performance-negative" : "text-performance-neutral"
             )}>
-              {((hasCompleteRange ? (rangeAnalysis?.overallPerformance || 0) : (data?.performance || 0)) * 100).toFixed(2)}%
+              {((hasCompleteRange ? (rangeAnalysis?.cumulativeReturn || 0) : (data?.performance || 0)) * 100).toFixed(2)}%
             </span>
           </div>
         </div>
@@ -277,7 +336,7 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
             {formatVolume(hasCompleteRange ? (rangeAnalysis?.totalVolume || 0) : (data?.volume || 0))}
           </div>
           <p className="text-xs sm:text-sm text-muted-foreground truncate">
-            {hasCompleteRange ? `Avg: ${formatVolume((rangeAnalysis?.totalVolume || 0) / (rangeAnalysis?.days || 1))}/day` : '24h Trading'}
+            {hasCompleteRange ? `Avg: ${formatVolume((rangeAnalysis?.totalVolume || 0) / (rangeAnalysis?.tradingDays || 1))}/day` : '24h Trading'}
           </p>
         </Card>
 
@@ -292,8 +351,8 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
           </div>
           <div className="flex items-center space-x-2">
             <Badge variant={
-              (hasCompleteRange ? (rangeAnalysis?.avgVolatility || 0) : (data?.volatility || 0)) > 0.7 ? "destructive" : 
-              (hasCompleteRange ? (rangeAnalysis?.avgVolatility || 0) : (data?.volatility || 0)) > 0.3 ? "default" : "secondary"
+              getVolatilityLevel(hasCompleteRange ? (rangeAnalysis?.avgVolatility || 0) : (data?.volatility || 0)) === 'High' ? "destructive" : 
+              getVolatilityLevel(hasCompleteRange ? (rangeAnalysis?.avgVolatility || 0) : (data?.volatility || 0)) === 'Medium' ? "default" : "secondary"
             } className="text-xs">
               {getVolatilityLevel(hasCompleteRange ? (rangeAnalysis?.avgVolatility || 0) : (data?.volatility || 0))}
             </Badge>
@@ -324,6 +383,24 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
         </Card>
       </div>
 
+      {hasCompleteRange && isRangeLoading && (
+        <Card className="p-6">
+          <div className="flex flex-col items-center justify-center text-muted-foreground">
+            <LoadingSpinner size="lg" className="mb-4" />
+            <p>Loading candles for the selected range...</p>
+          </div>
+        </Card>
+      )}
+
+      {hasCompleteRange && isRangeError && (
+        <ErrorState
+          variant="data"
+          title="No Range Data"
+          message="Unable to load daily candles for the selected range."
+          onRetry={() => refetchRange()}
+        />
+      )}
+
       {hasCompleteRange && rangeAnalysis && (
         /* Range-specific analysis */
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
@@ -339,8 +416,9 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
                 <div className="flex items-center space-x-1">
                   <TrendingUp className="w-4 h-4 text-performance-positive" />
                   <span className="font-semibold text-performance-positive">
-                    +{(rangeAnalysis.bestDay * 100).toFixed(2)}%
+                    {formatSignedPercent(rangeAnalysis.bestDay?.performance ?? 0)}
                   </span>
+                  <span className="text-xs text-muted-foreground">{formatShortDate(rangeAnalysis.bestDay?.date)}</span>
                 </div>
               </div>
               <div className="flex justify-between items-center">
@@ -348,15 +426,20 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
                 <div className="flex items-center space-x-1">
                   <TrendingDown className="w-4 h-4 text-performance-negative" />
                   <span className="font-semibold text-performance-negative">
-                    {(rangeAnalysis.worstDay * 100).toFixed(2)}%
+                    {formatSignedPercent(rangeAnalysis.worstDay?.performance ?? 0)}
                   </span>
+                  <span className="text-xs text-muted-foreground">{formatShortDate(rangeAnalysis.worstDay?.date)}</span>
                 </div>
               </div>
               <div className="pt-2 border-t">
                 <div className="flex justify-between items-center">
-                  <span className="text-muted-foreground">Range:</span>
+                  <span className="text-muted-foreground">Up / Down / Flat:</span>
                   <span className="font-semibold">
-                    {((rangeAnalysis.bestDay - rangeAnalysis.worstDay) * 100).toFixed(2)}%
+                    <span className="text-performance-positive">{rangeAnalysis.upDays}</span>
+                    {' / '}
+                    <span className="text-performance-negative">{rangeAnalysis.downDays}</span>
+                    {' / '}
+                    <span className="text-performance-neutral">{rangeAnalysis.flatDays}</span>
                   </span>
                 </div>
               </div>
@@ -370,32 +453,58 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
               Risk Assessment
             </h3>
             <div className="space-y-4">
-              <div>
-                <div className="flex justify-between items-center mb-2">
-                  <span className="text-sm text-muted-foreground">Volatility Risk</span>
-                  <span className="text-sm font-medium">
-                    {rangeAnalysis.avgVolatility > 0.6 ? "High" : rangeAnalysis.avgVolatility > 0.3 ? "Medium" : "Low"}
-                  </span>
-                </div>
-                <Progress 
-                  value={rangeAnalysis.avgVolatility * 100}
-                  className="h-2"
-                />
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Annualised Volatility:</span>
+                <span className="font-semibold">{(rangeAnalysis.annualisedVolatility * 100).toFixed(1)}%</span>
               </div>
-              <div>
-                <div className="flex justify-between items-center mb-2">
-                  <span className="text-sm text-muted-foreground">Performance Consistency</span>
-                  <span className="text-sm font-medium">
-                    {Math.abs(rangeAnalysis.overallPerformance) < 0.05 ? "Stable" : "Volatile"}
-                  </span>
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Max Drawdown:</span>
+                <div className="text-right">
+                  <span className="font-semibold text-performance-negative">{(rangeAnalysis.maxDrawdown * 100).toFixed(2)}%</span>
+                  {rangeAnalysis.drawdownPeak && rangeAnalysis.drawdownTrough && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatShortDate(rangeAnalysis.drawdownPeak)} → {formatShortDate(rangeAnalysis.drawdownTrough)}
+                    </p>
+                  )}
                 </div>
-                <Progress 
-                  value={Math.max(0, 100 - Math.abs(rangeAnalysis.overallPerformance) * 1000)}
-                  className="h-2"
-                />
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Average True Range:</span>
+                <span className="font-semibold">
+                  ${rangeAnalysis.averageTrueRange.toLocaleString(undefined, { maximumSignificantDigits: 6 })}
+                  <span className="ml-1 text-xs text-muted-foreground">({(rangeAnalysis.averageTrueRangePct * 100).toFixed(2)}%)</span>
+                </span>
               </div>
             </div>
           </Card>
+
+          {/* Volume Profile */}
+          <Card className="p-6 lg:col-span-2">
+            <h3 className="font-semibold mb-4 flex items-center">
+              <Activity className="w-5 h-5 text-primary mr-2" />
+              Volume Profile
+            </h3>
+            {rangeAnalysis.volumeProfile.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Not enough price movement to build a profile.</p>
+            ) : (
+              <div className="space-y-1">
+                {[...rangeAnalysis.volumeProfile].reverse().map(bucket => (
+                  <div key={bucket.priceLow} className="flex items-center space-x-2 text-xs">
+                    <span className="w-36 text-right text-muted-foreground font-mono truncate">
+                      {bucket.priceLow.toLocaleString(undefined, { maximumSignificantDigits: 6 })} – {bucket.priceHigh.toLocaleString(undefined, { maximumSignificantDigits: 6 })}
+                    </span>
+                    <div className="flex-1 h-3 bg-muted/30 rounded">
+                      <div
+                        className={cn("h-full rounded", bucket === rangeAnalysis.pointOfControl ? "bg-primary" : "bg-primary/40")}
+                        style={{ width: `${(bucket.volume / (rangeAnalysis.pointOfControl?.volume || 1)) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-16 text-right">{formatVolume(bucket.volume)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
         </div>
       )}
 
@@ -452,17 +561,7 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
       <Card className="p-4 sm:p-6">
         <div className="flex flex-col space-y-4 sm:flex-row sm:items-center sm:justify-between sm:space-y-0">
           <div className="flex items-center space-x-4">
-            <Select value={selectedSymbol} onValueChange={setSelectedSymbol}>
-              <SelectTrigger className="w-32">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="BTCUSDT">BTC/USDT</SelectItem>
-                <SelectItem value="ETHUSDT">ETH/USDT</SelectItem>
-                <SelectItem value="ADAUSDT">ADA/USDT</SelectItem>
-                <SelectItem value="DOTUSDT">DOT/USDT</SelectItem>
-              </SelectContent>
-            </Select>
+            <SymbolPicker value={symbol} onChange={onSymbolChange} />
             
             {/* Keyboard Navigation Box */}
             <div className="flex items-center space-x-2 bg-muted/50 rounded-lg px-3 py-2">
@@ -476,19 +575,25 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
                   L
                 </kbd>
                 <span className="text-xs text-muted-foreground">Live</span>
+                <kbd className="px-2 py-1 text-xs bg-background rounded border shadow-sm">
+                  S
+                </kbd>
+                <span className="text-xs text-muted-foreground">Seasonality</span>
               </div>
             </div>
             
             <Badge 
               variant={connectionStatus === 'connected' ? 'default' : 'secondary'}
+              title={streamFallbackReason ? `Live orderbook unavailable: ${streamFallbackReason}` : undefined}
               className={cn(
+                connectionStatus === 'connected' && streamMode === 'mock' ? 'bg-gray-600 text-white' :
                 connectionStatus === 'connected' ? 'bg-green-600 text-white' :
                 connectionStatus === 'connecting' ? 'bg-yellow-600 text-white' :
                 connectionStatus === 'error' ? 'bg-red-600 text-white' : 'bg-gray-600 text-white',
                 "flex items-center space-x-1"
               )}
             >
-              {connectionStatus === 'connected' ? (
+              {connectionStatus === 'connected' && streamMode === 'live' ? (
                 <>
                   <Wifi className="w-3 h-3" />
                   <span>Live Data</span>
@@ -534,6 +639,32 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
             >
               Live Charts <kbd className="ml-2 px-1.5 py-0.5 text-xs bg-muted text-muted-foreground rounded border">L</kbd>
             </Button>
+            <Button
+              variant={activeTab === 'seasonality' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveTab('seasonality')}
+              className={cn(
+                "px-4 py-2 text-sm font-medium transition-all duration-200",
+                activeTab === 'seasonality' && "bg-primary text-primary-foreground shadow-sm",
+                keyPressed === 'S' && "ring-2 ring-ring",
+                activeTab !== 'seasonality' && "hover:bg-accent hover:text-accent-foreground"
+              )}
+            >
+              Seasonality <kbd className="ml-2 px-1.5 py-0.5 text-xs bg-muted text-muted-foreground rounded border">S</kbd>
+            </Button>
+            <Button
+              variant={activeTab === 'backtest' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveTab('backtest')}
+              className={cn(
+                "px-4 py-2 text-sm font-medium transition-all duration-200",
+                activeTab === 'backtest' && "bg-primary text-primary-foreground shadow-sm",
+                keyPressed === 'B' && "ring-2 ring-ring",
+                activeTab !== 'backtest' && "hover:bg-accent hover:text-accent-foreground"
+              )}
+            >
+              Backtest <kbd className="ml-2 px-1.5 py-0.5 text-xs bg-muted text-muted-foreground rounded border">B</kbd>
+            </Button>
           </div>
         </div>
       </Card>
@@ -549,10 +680,10 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
                 <div className="text-center p-4 border border-border rounded-lg">
                   <div className={cn(
                     "text-2xl font-bold mb-1",
-                    data.volatility < 0.3 ? "text-volatility-low" : 
-                    data.volatility < 0.7 ? "text-volatility-medium" : "text-volatility-high"
+                    getVolatilityBand(data.volatility) === 'low' ? "text-volatility-low" : 
+                    getVolatilityBand(data.volatility) === 'medium' ? "text-volatility-medium" : "text-volatility-high"
                   )}>
-                    {data.volatility < 0.3 ? 'LOW' : data.volatility < 0.7 ? 'MEDIUM' : 'HIGH'}
+                    {getVolatilityBand(data.volatility).toUpperCase()}
                   </div>
                   <p className="text-sm text-muted-foreground">Volatility Risk</p>
                 </div>
@@ -672,7 +803,7 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
             <div className="lg:col-span-2">
               {ticker && (
                 <SymbolInfo
-                  symbol={selectedSymbol}
+                  symbol={symbol}
                   price={parseFloat(ticker.lastPrice)}
                   change={parseFloat(ticker.priceChange)}
                   changePercent={parseFloat(ticker.priceChangePercent)}
@@ -751,7 +882,14 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
                   </div>
                 ) : orderbook ? (
                   <div className="animate-fade-in">
-                    <OrderbookChart orderbook={orderbook} connectionStatus={connectionStatus} />
+                    <OrderbookChart
+                      orderbook={orderbook}
+                      connectionStatus={connectionStatus}
+                      mode={orderbookMode}
+                      onModeChange={venuesLive ? setBookMode : undefined}
+                      consolidated={consolidated}
+                      consolidatedLoading={isConsolidatedLoading}
+                    />
                   </div>
                 ) : (
                   <ErrorState
@@ -763,11 +901,34 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
               </CardContent>
             </Card>
             
-            <OrderbookEnhancements 
-              orderbook={orderbook} 
-              previousOrderbook={previousOrderbook}
-            />
+            <OrderbookEnhancements orderbook={orderbook} />
           </div>
+
+          {/* Price Alerts */}
+          <PriceAlertsPanel
+            symbol={symbol}
+            price={ticker ? parseFloat(ticker.lastPrice) : undefined}
+            rules={alerts.rules}
+            history={alerts.history}
+            permission={alerts.permission}
+            onAddRule={alerts.addRule}
+            onUpdateRule={alerts.updateRule}
+            onRemoveRule={alerts.removeRule}
+            onClearHistory={alerts.clearHistory}
+            onRequestPermission={alerts.requestPermission}
+          />
+
+          {/* Cross-venue divergence */}
+          {venuesLive && (
+            <VenueDivergencePanel
+              snapshot={divergence.snapshot}
+              history={divergence.history}
+              venues={divergence.venues}
+              thresholds={divergence.thresholds}
+              onThresholdsChange={divergence.updateThresholds}
+              isLoading={divergence.isLoading}
+            />
+          )}
           
           {/* Price Chart */}
           {klines && klines.length > 0 && (
@@ -776,11 +937,19 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
                 <CardTitle className="text-lg font-semibold">Real-time Price Chart</CardTitle>
               </CardHeader>
               <CardContent className="px-0 pb-0">
-                <CandlestickChart klines={klines} symbol={selectedSymbol} />
+                <CandlestickChart symbol={symbol} />
               </CardContent>
             </Card>
           )}
 
+          {/* Time & Sales */}
+          <TradeTape
+            trades={tape.trades}
+            venueName={tape.venueName}
+            isUsingMockData={tape.isUsingMockData}
+            fallbackReason={tape.fallbackReason}
+          />
+
           {/* Volume & Market Depth */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {klines && klines.length > 0 && (
@@ -796,7 +965,7 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
                     </div>
                   ) : (
                     <div className="animate-fade-in">
-                      <VolumeChart klines={klines} symbol={selectedSymbol} />
+                      <VolumeChart klines={klines} symbol={symbol} />
                     </div>
                   )}
                 </CardContent>
@@ -815,7 +984,14 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
                   </div>
                 ) : orderbook ? (
                   <div className="animate-fade-in">
-                    <DepthChart orderbook={orderbook} connectionStatus={connectionStatus} />
+                    <DepthChart
+                      orderbook={orderbook}
+                      connectionStatus={connectionStatus}
+                      mode={orderbookMode}
+                      onModeChange={venuesLive ? setBookMode : undefined}
+                      consolidated={consolidated}
+                      consolidatedLoading={isConsolidatedLoading}
+                    />
                   </div>
                 ) : (
                   <ErrorState
@@ -827,6 +1003,184 @@ export const DataDashboard: React.FC<DataDashboardProps> = ({ selectedDate, data
               </CardContent>
             </Card>
           </div>
+
+          {/* Liquidity over time */}
+          <Card className="p-6">
+            <CardHeader className="px-0 pt-0">
+              <CardTitle className="text-lg font-semibold">Liquidity Heatmap</CardTitle>
+            </CardHeader>
+            <CardContent className="px-0 pb-0">
+              <OrderbookHeatmap history={bookHistory} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Seasonality Tab - Historical Return Patterns */}
+      {activeTab === 'seasonality' && (
+        <div className="space-y-6">
+          <Card className="p-4 sm:p-6">
+            <div className="flex flex-col space-y-4 sm:flex-row sm:items-center sm:justify-between sm:space-y-0">
+              <div>
+                <h3 className="font-semibold flex items-center gap-2">
+                  <Calendar className="w-4 h-4 text-primary" />
+                  {symbol} Seasonality
+                </h3>
+                <p className="text-xs text-muted-foreground">
+                  {seasonality.sampleSize > 0
+                    ? `${seasonality.sampleSize} daily candles, ${seasonality.startDate?.toLocaleDateString()} - ${seasonality.endDate?.toLocaleDateString()}`
+                    : 'No history loaded'}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Select value={String(seasonalityYears)} onValueChange={(value) => setSeasonalityYears(Number(value))}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="2">2 Years</SelectItem>
+                    <SelectItem value="3">3 Years</SelectItem>
+                    <SelectItem value="5">5 Years</SelectItem>
+                    <SelectItem value="8">8 Years</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={seasonalityMetric} onValueChange={(value) => setSeasonalityMetric(value as SeasonalityMetric)}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {seasonalityMetrics.map(metric => (
+                      <SelectItem key={metric.value} value={metric.value}>{metric.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </Card>
+
+          {isSeasonalityLoading ? (
+            <div className="h-64 flex flex-col items-center justify-center text-muted-foreground">
+              <LoadingSpinner size="lg" className="mb-4" />
+              <p>Loading price history...</p>
+            </div>
+          ) : isSeasonalityError || seasonality.sampleSize === 0 ? (
+            <ErrorState
+              variant="data"
+              title="No Seasonality Data"
+              message="Unable to load enough daily history for this symbol."
+              onRetry={() => refetchSeasonality()}
+            />
+          ) : (
+            <>
+              {/* Best and worst calendar months */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {[...seasonality.month]
+                  .filter(bucket => bucket.count > 0)
+                  .sort((a, b) => b.mean - a.mean)
+                  .filter((_, index, sorted) => index === 0 || index === sorted.length - 1)
+                  .map((bucket, index) => (
+                    <Card key={bucket.key} className="p-4">
+                      <p className="text-sm text-muted-foreground">{index === 0 ? 'Strongest Month' : 'Weakest Month'}</p>
+                      <p className={cn(
+                        "text-xl font-bold",
+                        bucket.mean >= 0 ? "text-performance-positive" : "text-performance-negative"
+                      )}>
+                        {bucket.label} {formatSeasonalityValue('mean', bucket.mean)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Up {formatSeasonalityValue('winRate', bucket.winRate)} of {bucket.count} years, t-stat {formatSeasonalityValue('tStat', bucket.tStat)}
+                      </p>
+                    </Card>
+                  ))}
+              </div>
+
+              <SeasonalityHeatmap
+                title="Month of Year"
+                description="Compounded monthly return across years"
+                buckets={seasonality.month}
+                metric={seasonalityMetric}
+                columns={6}
+              />
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <SeasonalityHeatmap
+                  title="Day of Week"
+                  description="Daily open-to-close return (UTC)"
+                  buckets={seasonality.weekday}
+                  metric={seasonalityMetric}
+                  columns={7}
+                />
+                <SeasonalityHeatmap
+                  title="Day of Month"
+                  description="Daily open-to-close return (UTC)"
+                  buckets={seasonality.dayOfMonth}
+                  metric={seasonalityMetric}
+                  columns={7}
+                />
+              </div>
+              <SeasonalityHeatmap
+                title="ISO Week"
+                description="Compounded weekly return across years"
+                buckets={seasonality.isoWeek}
+                metric={seasonalityMetric}
+                columns={9}
+              />
+              <EventStudyPanel history={seasonalityHistory} />
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Backtest Tab - Calendar Rules on Daily History */}
+      {activeTab === 'backtest' && (
+        <div className="space-y-6">
+          <Card className="p-4 sm:p-6">
+            <div className="flex flex-col space-y-4 sm:flex-row sm:items-center sm:justify-between sm:space-y-0">
+              <div>
+                <h3 className="font-semibold flex items-center gap-2">
+                  <Activity className="w-4 h-4 text-primary" />
+                  {symbol} Backtest
+                </h3>
+                <p className="text-xs text-muted-foreground">
+                  {backtest?.equity.length
+                    ? `${backtest.equity.length} daily candles, ${backtest.equity[0].date.toLocaleDateString()} - ${backtest.equity[backtest.equity.length - 1].date.toLocaleDateString()}`
+                    : 'No history loaded'}
+                </p>
+              </div>
+              <Select value={String(seasonalityYears)} onValueChange={(value) => setSeasonalityYears(Number(value))}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="2">2 Years</SelectItem>
+                  <SelectItem value="3">3 Years</SelectItem>
+                  <SelectItem value="5">5 Years</SelectItem>
+                  <SelectItem value="8">8 Years</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </Card>
+
+          {isSeasonalityLoading ? (
+            <div className="h-64 flex flex-col items-center justify-center text-muted-foreground">
+              <LoadingSpinner size="lg" className="mb-4" />
+              <p>Loading price history...</p>
+            </div>
+          ) : isSeasonalityError || !backtest ? (
+            <ErrorState
+              variant="data"
+              title="No Backtest Data"
+              message="Unable to load enough daily history for this symbol."
+              onRetry={() => refetchSeasonality()}
+            />
+          ) : (
+            <BacktestPanel
+              config={backtestConfig}
+              onConfigChange={setBacktestConfig}
+              result={backtest}
+              highlightOnCalendar={highlightTrades}
+              onHighlightChange={setHighlightTrades}
+            />
+          )}
         </div>
       )}
 
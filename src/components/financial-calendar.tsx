@@ -6,6 +6,7 @@ import { cn } from '@/lib/utils';
 import { DailyView } from './calendar-views/daily-view';
 import { WeeklyView } from './calendar-views/weekly-view';
 import { MonthlyView } from './calendar-views/monthly-view';
+import { YearOverYearView } from './calendar-views/year-over-year-view';
 import { FilterControls, FilterOptions } from './interactive-features/filter-controls';
 import { DateRangeSelector, DateRange } from './interactive-features/date-range-selector';
 import { ZoomControls, ZoomState } from './interactive-features/zoom-controls';
@@ -13,57 +14,60 @@ import { ResponsiveCalendarGrid, ResponsiveCalendarContainer } from '@/component
 import { ResponsiveTooltip } from '@/components/ui/responsive-tooltip';
 import { useBreakpoint } from '@/hooks/useBreakpoint';
 import { useChartTouch } from '@/hooks/useTouch';
-
-// Mock data generator for financial metrics
-const generateMockData = (date: Date) => {
-  const seed = date.getTime();
-  const random = (min: number, max: number) => {
-    const x = Math.sin(seed * 9.301) * 10000;
-    return min + (x - Math.floor(x)) * (max - min);
-  };
-  
-  const volatility = random(0, 1);
-  const performance = random(-0.15, 0.15);
-  const volume = random(1000000, 100000000);
-  
-  return {
-    volatility,
-    performance,
-    volume,
-    price: random(40000, 70000),
-    liquidity: random(0.1, 1),
-  };
-};
+import { useCalendarData } from '@/hooks/useCalendarData';
+import { CalendarDayState, getVolatilityLevel, toDayKey } from '@/services/calendar-data-service';
+import { DEFAULT_SYMBOL } from '@/services/symbol-catalogue';
+import { FilterDisplay, createDefaultFilters, getFilterDisplay, matchesFilters } from '@/utils/calendar-filters';
+import { TradeDayMark } from '@/utils/backtest';
+import { MarketEvent } from '@/utils/market-events';
+import { useMarketEvents } from '@/contexts/market-events-context';
+import { EventBadges } from '@/components/ui/event-badges';
+import { MarketEventsDialog } from '@/components/ui/market-events-dialog';
 
 type ViewType = 'day' | 'week' | 'month';
+type MonthMode = 'single' | 'yoy';
 
 interface CalendarDayProps {
   date: Date;
+  dayState: CalendarDayState;
   isCurrentMonth: boolean;
   isToday: boolean;
   isSelected: boolean;
   isFocused?: boolean;
+  filterDisplay?: FilterDisplay;
+  tradeMark?: TradeDayMark;
+  events?: MarketEvent[];
   onClick: () => void;
   onHover: (data: any) => void;
   onLeave: () => void;
 }
 
-  const CalendarDay: React.FC<CalendarDayProps> = ({
+const CalendarDay: React.FC<CalendarDayProps> = ({
   date,
+  dayState,
   isCurrentMonth,
   isToday,
   isSelected,
   isFocused,
+  filterDisplay = 'visible',
+  tradeMark,
+  events = [],
   onClick,
   onHover,
   onLeave,
 }) => {
-  const data = useMemo(() => generateMockData(date), [date]);
+  const { data, status } = dayState;
   const { isMobile } = useBreakpoint();
+
+  // Keep the slot so the grid stays aligned to weekdays
+  if (filterDisplay === 'hidden') {
+    return <div className={cn("rounded-lg border border-dashed border-border/40", isMobile ? "h-12 min-h-[44px]" : "h-16 sm:h-20 lg:h-24")} />;
+  }
   
   const getVolatilityColor = (volatility: number) => {
-    if (volatility < 0.3) return 'bg-volatility-low/20 border-volatility-low/40';
-    if (volatility < 0.7) return 'bg-volatility-medium/20 border-volatility-medium/40';
+    const level = getVolatilityLevel(volatility);
+    if (level === 'low') return 'bg-volatility-low/20 border-volatility-low/40';
+    if (level === 'medium') return 'bg-volatility-medium/20 border-volatility-medium/40';
     return 'bg-volatility-high/20 border-volatility-high/40';
   };
   
@@ -76,7 +80,7 @@ interface CalendarDayProps {
   // Enhanced touch handling for mobile
   const handleTouch = (action: 'start' | 'end') => {
     if (action === 'start') {
-      onHover({ date, ...data });
+      if (data) onHover({ ...data });
       // Add haptic feedback simulation
       if (navigator.vibrate) {
         navigator.vibrate(10);
@@ -94,15 +98,16 @@ interface CalendarDayProps {
         // Responsive height classes
         isMobile ? "h-12 min-h-[44px]" : "h-16 sm:h-20 lg:h-24",
         "hover:scale-105 hover:shadow-lg",
-        getVolatilityColor(data.volatility),
-        isCurrentMonth ? "opacity-100" : "opacity-40",
+        data ? getVolatilityColor(data.volatility) : "bg-muted/20",
+        status === 'loading' && "animate-pulse",
+        filterDisplay === 'dimmed' ? "opacity-20 grayscale" : isCurrentMonth ? "opacity-100" : "opacity-40",
         isToday && "ring-4 ring-primary animate-pulse-glow shadow-glow",
         isSelected && "ring-2 ring-accent scale-105",
         isFocused && "ring-2 ring-secondary scale-102"
       )}
       tabIndex={0}
       onClick={onClick}
-      onMouseEnter={() => onHover({ date, ...data })}
+      onMouseEnter={() => data && onHover({ ...data })}
       onMouseLeave={onLeave}
       onTouchStart={() => handleTouch('start')}
       onTouchEnd={() => handleTouch('end')}
@@ -117,12 +122,21 @@ interface CalendarDayProps {
             {date.getDate()}
             {isToday && !isMobile && <span className="text-[8px] sm:text-[10px] block leading-none text-primary/80">TODAY</span>}
           </span>
-          <div className={cn("flex-shrink-0", isMobile ? "w-3 h-3" : "w-3 h-3 sm:w-4 sm:h-4")}>
-            {getPerformanceIndicator(data.performance)}
+          <div className="flex items-center gap-1">
+            <EventBadges events={events} compact />
+            <div className={cn("flex-shrink-0", isMobile ? "w-3 h-3" : "w-3 h-3 sm:w-4 sm:h-4")}>
+              {data && getPerformanceIndicator(data.performance)}
+            </div>
           </div>
         </div>
         
-        {!isMobile && (
+        {!isMobile && status !== 'ready' && (
+          <span className="text-[10px] sm:text-xs text-muted-foreground">
+            {status === 'loading' ? 'Loading…' : 'No data'}
+          </span>
+        )}
+
+        {!isMobile && data && (
           <div className="flex items-end justify-between mt-1">
             <div className="flex flex-col space-y-0.5 sm:space-y-1 min-w-0">
               <div 
@@ -139,6 +153,19 @@ interface CalendarDayProps {
           </div>
         )}
       </div>
+
+      {/* Backtest position: bar along the bottom while held, B/S on entry and exit */}
+      {tradeMark && (
+        <div className="absolute inset-x-1 bottom-0.5 h-1 rounded-full bg-primary/60 pointer-events-none" />
+      )}
+      {(tradeMark === 'entry' || tradeMark === 'exit') && (
+        <span className={cn(
+          "absolute right-1 bottom-1.5 text-[9px] font-bold leading-none px-1 py-0.5 rounded pointer-events-none",
+          tradeMark === 'entry' ? "bg-performance-positive text-white" : "bg-performance-negative text-white"
+        )}>
+          {tradeMark === 'entry' ? 'B' : 'S'}
+        </span>
+      )}
       
       {/* Hover overlay */}
       <div className="absolute inset-0 bg-primary/5 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg" />
@@ -148,36 +175,55 @@ interface CalendarDayProps {
 
 
 interface FinancialCalendarProps {
+  symbol?: string;
+  onSymbolChange?: (symbol: string) => void;
   onDateSelect?: (date: Date | null) => void;
   selectedDate?: Date | null;
   onDateRangeChange?: (range: DateRange) => void;
   onViewTypeChange?: (viewType: ViewType) => void;
+  onFiltersChange?: (filters: FilterOptions) => void;
+  tradeDays?: Map<string, TradeDayMark>; // backtest trades to mark on the day grid
 }
 
 export const FinancialCalendar: React.FC<FinancialCalendarProps> = ({ 
+  symbol = DEFAULT_SYMBOL,
+  onSymbolChange,
   onDateSelect,
   selectedDate: externalSelectedDate,
   onDateRangeChange,
-  onViewTypeChange
+  onViewTypeChange,
+  onFiltersChange,
+  tradeDays
 }) => {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [internalSelectedDate, setInternalSelectedDate] = useState<Date | null>(null);
   const selectedDate = externalSelectedDate !== undefined ? externalSelectedDate : internalSelectedDate;
   const [viewType, setViewType] = useState<ViewType>('month');
+  const [monthMode, setMonthMode] = useState<MonthMode>('single');
   const [hoveredData, setHoveredData] = useState<any>(null);
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const [showTooltip, setShowTooltip] = useState(false);
   const [focusedDate, setFocusedDate] = useState<Date | null>(null);
   
   // Interactive features state
-  const [filters, setFilters] = useState<FilterOptions>({
-    instrument: 'BTC/USD',
-    volatilityRange: [0, 1],
-    performanceRange: [-0.15, 0.15],
-    volumeThreshold: 1000000,
-    showOnlyTradingDays: false
-  });
+  const [filters, setFilters] = useState<FilterOptions>(() => createDefaultFilters(symbol));
   const [showFilters, setShowFilters] = useState(false);
+
+  // The instrument filter mirrors the app-wide symbol
+  React.useEffect(() => {
+    setFilters(prev => prev.instrument === symbol ? prev : { ...prev, instrument: symbol });
+  }, [symbol]);
+
+  const handleFiltersChange = (next: FilterOptions) => {
+    setFilters(next);
+    if (next.instrument !== symbol) {
+      onSymbolChange?.(next.instrument);
+    }
+  };
+
+  React.useEffect(() => {
+    onFiltersChange?.(filters);
+  }, [filters, onFiltersChange]);
   const [dateRange, setDateRange] = useState<DateRange>({ start: null, end: null });
   const [isRangeMode, setIsRangeMode] = useState(false);
   const [zoomState, setZoomState] = useState<ZoomState>({ level: 1.0, centerDate: new Date() });
@@ -199,6 +245,9 @@ export const FinancialCalendar: React.FC<FinancialCalendarProps> = ({
     return end;
   }, [currentDate]);
 
+  const { getDayState } = useCalendarData(symbol, monthStart, monthEnd);
+  const { getEventsOn } = useMarketEvents();
+
   const calendarDays = useMemo(() => {
     const days = [];
     const current = new Date(monthStart);
@@ -211,6 +260,16 @@ export const FinancialCalendar: React.FC<FinancialCalendarProps> = ({
     return days;
   }, [monthStart, monthEnd]);
 
+  // Trading days of the current month that pass the filters
+  const tradedDays = calendarDays
+    .filter(date => date.getMonth() === currentDate.getMonth())
+    .map(date => getDayState(date).data)
+    .filter(Boolean);
+  const matchCount = {
+    matching: tradedDays.filter(day => matchesFilters(day, filters)).length,
+    total: tradedDays.length
+  };
+
   const navigateMonth = (direction: 'prev' | 'next') => {
     setCurrentDate(prev => {
       const newDate = new Date(prev);
@@ -364,6 +423,13 @@ export const FinancialCalendar: React.FC<FinancialCalendarProps> = ({
           setViewType('month');
           onViewTypeChange?.('month');
           break;
+        case 'y':
+        case 'Y':
+          e.preventDefault();
+          setViewType('month');
+          onViewTypeChange?.('month');
+          setMonthMode(prev => prev === 'yoy' ? 'single' : 'yoy');
+          break;
       }
 
       if (newDate) {
@@ -421,6 +487,8 @@ export const FinancialCalendar: React.FC<FinancialCalendarProps> = ({
               <span className="hidden sm:inline">Controls</span>
             </Button>
             
+            <MarketEventsDialog className="w-full sm:w-auto justify-center" />
+
             {/* View Type Selector */}
             <div className="flex border border-border rounded-lg overflow-hidden w-full sm:w-auto">
               {(['day', 'week', 'month'] as ViewType[]).map((type) => (
@@ -501,9 +569,10 @@ export const FinancialCalendar: React.FC<FinancialCalendarProps> = ({
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
           <FilterControls
             filters={filters}
-            onFiltersChange={setFilters}
+            onFiltersChange={handleFiltersChange}
             isExpanded={showFilters}
             onToggleExpanded={() => setShowFilters(!showFilters)}
+            matchCount={matchCount}
           />
           <DateRangeSelector
             dateRange={dateRange}
@@ -542,6 +611,7 @@ export const FinancialCalendar: React.FC<FinancialCalendarProps> = ({
       }}>
         {viewType === 'day' && (
           <DailyView
+            symbol={symbol}
             selectedDate={currentDate}
             onDateChange={setCurrentDate}
             onDateSelect={handleDateClick}
@@ -554,6 +624,7 @@ export const FinancialCalendar: React.FC<FinancialCalendarProps> = ({
         )}
         {viewType === 'week' && (
           <WeeklyView
+            symbol={symbol}
             selectedDate={currentDate}
             onDateChange={setCurrentDate}
             onDateSelect={handleDateClick}
@@ -565,17 +636,80 @@ export const FinancialCalendar: React.FC<FinancialCalendarProps> = ({
           />
         )}
         {viewType === 'month' && (
-          <MonthlyView
+          <div className="flex justify-end mb-4">
+            <div className="flex border border-border rounded-lg overflow-hidden">
+              {([['single', 'Single Year'], ['yoy', 'Year over Year']] as [MonthMode, string][]).map(([mode, label]) => (
+                <Button
+                  key={mode}
+                  variant={monthMode === mode ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setMonthMode(mode)}
+                  className="rounded-none first:rounded-l-lg last:rounded-r-lg"
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+        {viewType === 'month' && monthMode === 'yoy' && (
+          <YearOverYearView
+            symbol={symbol}
             selectedDate={currentDate}
             onDateChange={setCurrentDate}
             onDateSelect={handleDateClick}
             selectedForDashboard={selectedDate}
             onHover={handleHover}
             onHoverLeave={handleHoverLeave}
-            filters={filters}
-            dateRange={isRangeMode ? dateRange : undefined}
           />
         )}
+        {viewType === 'month' && monthMode === 'single' && (
+          <div className="space-y-4 sm:space-y-6">
+            <MonthlyView
+              symbol={symbol}
+              selectedDate={currentDate}
+              onDateChange={setCurrentDate}
+              onDateSelect={handleDateClick}
+              selectedForDashboard={selectedDate}
+              onHover={handleHover}
+              onHoverLeave={handleHoverLeave}
+              filters={filters}
+              dateRange={isRangeMode ? dateRange : undefined}
+            />
+
+            {/* Daily heatmap for the visible month */}
+            <Card className="p-3 sm:p-4 lg:p-6">
+              <ResponsiveCalendarContainer>
+                <ResponsiveCalendarGrid type="days" className="mb-2">
+                  {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
+                    <div key={day} className="text-center text-xs sm:text-sm font-medium text-muted-foreground">
+                      {day}
+                    </div>
+                  ))}
+                </ResponsiveCalendarGrid>
+                <ResponsiveCalendarGrid type="days">
+                  {calendarDays.map((date) => (
+                    <CalendarDay
+                      key={date.toISOString()}
+                      date={date}
+                      dayState={getDayState(date)}
+                      isCurrentMonth={isCurrentMonth(date)}
+                      isToday={isToday(date)}
+                      isSelected={isSelected(date)}
+                      isFocused={isFocused(date)}
+                      filterDisplay={getFilterDisplay(getDayState(date), filters)}
+                      tradeMark={tradeDays?.get(toDayKey(date))}
+                      events={getEventsOn(toDayKey(date))}
+                      onClick={() => handleDateClick(date)}
+                      onHover={handleHover}
+                      onLeave={handleHoverLeave}
+                    />
+                  ))}
+                </ResponsiveCalendarGrid>
+              </ResponsiveCalendarContainer>
+            </Card>
+          </div>
+        )}
       </div>
 
       {/* Legend with Keyboard Navigation Help */}
@@ -602,6 +736,27 @@ export const FinancialCalendar: React.FC<FinancialCalendarProps> = ({
               </div>
             </div>
             
+            {/* Backtest Legend - only while trades are shown */}
+            {tradeDays && (
+              <div className="flex flex-col space-y-2 sm:flex-row sm:items-center sm:space-y-0 sm:space-x-3">
+                <span className="text-sm font-semibold text-foreground min-w-fit">Backtest:</span>
+                <div className="flex items-center space-x-2 sm:space-x-3">
+                  <div className="flex items-center space-x-1.5">
+                    <span className="text-[9px] font-bold px-1 py-0.5 rounded bg-performance-positive text-white">B</span>
+                    <span className="text-xs sm:text-sm text-muted-foreground">Entry</span>
+                  </div>
+                  <div className="flex items-center space-x-1.5">
+                    <div className="w-4 h-1 rounded-full bg-primary/60"></div>
+                    <span className="text-xs sm:text-sm text-muted-foreground">Held</span>
+                  </div>
+                  <div className="flex items-center space-x-1.5">
+                    <span className="text-[9px] font-bold px-1 py-0.5 rounded bg-performance-negative text-white">S</span>
+                    <span className="text-xs sm:text-sm text-muted-foreground">Exit</span>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Performance Legend */}
             <div className="flex flex-col space-y-2 sm:flex-row sm:items-center sm:space-y-0 sm:space-x-3">
               <span className="text-sm font-semibold text-foreground min-w-fit">Performance:</span>
@@ -665,6 +820,10 @@ export const FinancialCalendar: React.FC<FinancialCalendarProps> = ({
                 </div>
                 <span className="text-xs sm:text-sm text-muted-foreground">Switch views</span>
               </div>
+              <div className="flex items-center space-x-2">
+                <kbd className="px-1.5 py-0.5 text-xs bg-muted border rounded font-mono">Y</kbd>
+                <span className="text-xs sm:text-sm text-muted-foreground">Year over year</span>
+              </div>
               <div className="flex items-center space-x-2 sm:col-span-2 lg:col-span-1">
                 <kbd className="px-1.5 py-0.5 text-xs bg-muted border rounded font-mono">Esc</kbd>
                 <span className="text-xs sm:text-sm text-muted-foreground">Clear selection</span>
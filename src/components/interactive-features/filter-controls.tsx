@@ -2,40 +2,30 @@ import React from 'react';
 import { Filter, Settings, Search } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
+import { SymbolPicker } from '@/components/ui/symbol-picker';
+import { FilterOptions, FILTER_LIMITS, createDefaultFilters, isFilterActive } from '@/utils/calendar-filters';
 
-export interface FilterOptions {
-  instrument: string;
-  volatilityRange: [number, number];
-  performanceRange: [number, number];
-  volumeThreshold: number;
-  showOnlyTradingDays: boolean;
-}
+export type { FilterOptions } from '@/utils/calendar-filters';
 
 interface FilterControlsProps {
   filters: FilterOptions;
   onFiltersChange: (filters: FilterOptions) => void;
   isExpanded: boolean;
   onToggleExpanded: () => void;
+  matchCount?: { matching: number; total: number };
 }
 
 export const FilterControls: React.FC<FilterControlsProps> = ({
   filters,
   onFiltersChange,
   isExpanded,
-  onToggleExpanded
+  onToggleExpanded,
+  matchCount
 }) => {
-  const instruments = [
-    'BTC/USD',
-    'ETH/USD', 
-    'AAPL',
-    'TSLA',
-    'SPY',
-    'QQQ'
-  ];
+  const active = isFilterActive(filters);
 
   const updateFilter = (key: keyof FilterOptions, value: any) => {
     onFiltersChange({
@@ -66,36 +56,44 @@ export const FilterControls: React.FC<FilterControlsProps> = ({
         {/* Instrument Selection */}
         <div className="flex items-center space-x-4">
           <Label className="min-w-[100px] text-sm">Instrument:</Label>
-          <Select
+          <SymbolPicker
             value={filters.instrument}
-            onValueChange={(value) => updateFilter('instrument', value)}
-          >
-            <SelectTrigger className="w-[180px]">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              {instruments.map((instrument) => (
-                <SelectItem key={instrument} value={instrument}>
-                  {instrument}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+            onChange={(value) => updateFilter('instrument', value)}
+          />
         </div>
 
+        {matchCount && (
+          <div className="flex items-center justify-between text-sm">
+            <span className={active ? "text-foreground" : "text-muted-foreground"}>
+              {active
+                ? `${matchCount.matching} of ${matchCount.total} days this month match`
+                : `${matchCount.total} days this month, no filters applied`}
+            </span>
+            {active && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onFiltersChange(createDefaultFilters(filters.instrument))}
+              >
+                Reset
+              </Button>
+            )}
+          </div>
+        )}
+
         {isExpanded && (
           <>
             {/* Volatility Range */}
             <div className="space-y-2">
               <Label className="text-sm">
-                Volatility Range: {(filters.volatilityRange[0] * 100).toFixed(0)}% - {(filters.volatilityRange[1] * 100).toFixed(0)}%
+                Volatility Range: {(filters.volatilityRange[0] * 100).toFixed(1)}% - {(filters.volatilityRange[1] * 100).toFixed(1)}%
               </Label>
               <Slider
                 value={filters.volatilityRange}
                 onValueChange={(value) => updateFilter('volatilityRange', value as [number, number])}
-                max={1}
-                min={0}
-                step={0.01}
+                min={FILTER_LIMITS.volatility[0]}
+                max={FILTER_LIMITS.volatility[1]}
+                step={0.005}
                 className="w-full"
               />
             </div>
@@ -108,8 +106,8 @@ export const FilterControls: React.FC<FilterControlsProps> = ({
               <Slider
                 value={filters.performanceRange}
                 onValueChange={(value) => updateFilter('performanceRange', value as [number, number])}
-                max={0.15}
-                min={-0.15}
+                min={FILTER_LIMITS.performance[0]}
+                max={FILTER_LIMITS.performance[1]}
                 step={0.001}
                 className="w-full"
               />
@@ -123,8 +121,8 @@ export const FilterControls: React.FC<FilterControlsProps> = ({
               <Slider
                 value={[filters.volumeThreshold]}
                 onValueChange={(value) => updateFilter('volumeThreshold', value[0])}
-                max={100000000}
-                min={1000000}
+                min={FILTER_LIMITS.volume[0]}
+                max={FILTER_LIMITS.volume[1]}
                 step={1000000}
                 className="w-full"
               />
@@ -143,6 +141,24 @@ export const FilterControls: React.FC<FilterControlsProps> = ({
                 Show only trading days
               </Label>
             </div>
+
+            {/* Non-matching Days */}
+            <div className="flex items-center space-x-4">
+              <Label className="min-w-[100px] text-sm">Non-matching:</Label>
+              <div className="flex border border-border rounded-lg overflow-hidden">
+                {([[false, 'Dim'], [true, 'Hide']] as [boolean, string][]).map(([hide, label]) => (
+                  <Button
+                    key={label}
+                    variant={filters.hideNonMatching === hide ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => updateFilter('hideNonMatching', hide)}
+                    className="rounded-none first:rounded-l-lg last:rounded-r-lg"
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
           </>
         )}
       </div>
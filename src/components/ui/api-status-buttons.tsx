@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import { APISource } from '@/services/api-manager';
+import { exchangeRegistry } from '@/services/exchange-registry';
 
 interface APIHealth {
   source: APISource;
@@ -61,12 +62,7 @@ export const APIStatusButtons: React.FC<APIStatusButtonsProps> = ({
   };
 
   const getSourceLabel = (source: APISource) => {
-    switch (source) {
-      case 'coinbase': return 'Coinbase';
-      case 'okx': return 'OKX';
-      case 'kucoin': return 'KuCoin';
-      default: return source;
-    }
+    return exchangeRegistry.get(source)?.name ?? source;
   };
 
   return (
@@ -0,0 +1,237 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { formatPrice } from '@/components/ui/chart-formatters';
+import { EquityCurveChart } from '@/components/charts/EquityCurveChart';
+import { MONTH_LABELS, WEEKDAY_LABELS } from '@/utils/seasonality';
+import { BacktestConfig, BacktestResult, BacktestRule, describeBacktestRule } from '@/utils/backtest';
+
+interface BacktestPanelProps {
+  config: BacktestConfig;
+  onConfigChange: (config: BacktestConfig) => void;
+  result: BacktestResult | null;
+  highlightOnCalendar: boolean;
+  onHighlightChange: (highlight: boolean) => void;
+  className?: string;
+}
+
+const ruleKinds: { value: BacktestRule['kind']; label: string }[] = [
+  { value: 'weekday-window', label: 'Weekday window' },
+  { value: 'months', label: 'Calendar months' },
+  { value: 'positive-months', label: 'Historically positive months' }
+];
+
+const defaultRules: Record<BacktestRule['kind'], BacktestRule> = {
+  'weekday-window': { kind: 'weekday-window', entryDay: 4, exitDay: 0 },
+  months: { kind: 'months', months: [9, 10, 11] },
+  'positive-months': { kind: 'positive-months', minYears: 2 }
+};
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const signClass = (value: number) => value >= 0 ? 'text-performance-positive' : 'text-performance-negative';
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+export const BacktestPanel: React.FC<BacktestPanelProps> = ({
+  config,
+  onConfigChange,
+  result,
+  highlightOnCalendar,
+  onHighlightChange,
+  className
+}) => {
+  const { rule } = config;
+  const setRule = (next: BacktestRule) => onConfigChange({ ...config, rule: next });
+
+  // Blank or negative inputs count as zero rather than breaking the run
+  const setNumber = (key: 'feeBps' | 'slippageBps' | 'initialCapital', value: string) => {
+    const parsed = parseFloat(value);
+    onConfigChange({ ...config, [key]: Number.isFinite(parsed) && parsed > 0 ? parsed : 0 });
+  };
+
+  const weekdaySelect = (value: number, onChange: (day: number) => void, label: string) => (
+    <Select value={String(value)} onValueChange={(day) => onChange(Number(day))}>
+      <SelectTrigger className="w-24" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {WEEKDAY_LABELS.map((day, index) => (
+          <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const metrics = result?.metrics;
+  const metricCards = metrics ? [
+    { label: 'Total Return', value: formatPercent(metrics.totalReturn), tone: signClass(metrics.totalReturn) },
+    { label: 'Buy & Hold', value: formatPercent(metrics.benchmarkReturn), tone: signClass(metrics.benchmarkReturn) },
+    { label: 'CAGR', value: formatPercent(metrics.cagr), tone: signClass(metrics.cagr) },
+    { label: 'Max Drawdown', value: formatPercent(metrics.maxDrawdown), tone: 'text-performance-negative' },
+    { label: 'Sharpe', value: metrics.sharpe.toFixed(2) },
+    { label: 'Sortino', value: metrics.sortino.toFixed(2) },
+    { label: 'Exposure', value: `${(metrics.exposure * 100).toFixed(1)}%` },
+    { label: 'Trades', value: `${metrics.trades} (${(metrics.winRate * 100).toFixed(0)}% won)` }
+  ] : [];
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Rule and cost settings */}
+      <Card className="p-4 sm:p-6">
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={rule.kind} onValueChange={(kind) => setRule(defaultRules[kind as BacktestRule['kind']])}>
+              <SelectTrigger className="w-60">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ruleKinds.map(kind => (
+                  <SelectItem key={kind.value} value={kind.value}>{kind.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {rule.kind === 'weekday-window' && (
+              <>
+                <span className="text-sm text-muted-foreground">Buy at close on</span>
+                {weekdaySelect(rule.entryDay, (entryDay) => setRule({ ...rule, entryDay }), 'Entry day')}
+                <span className="text-sm text-muted-foreground">sell at close on</span>
+                {weekdaySelect(rule.exitDay, (exitDay) => setRule({ ...rule, exitDay }), 'Exit day')}
+              </>
+            )}
+
+            {rule.kind === 'positive-months' && (
+              <>
+                <span className="text-sm text-muted-foreground">after at least</span>
+                <Input
+                  type="number"
+                  min={1}
+                  value={rule.minYears}
+                  onChange={(event) => setRule({ ...rule, minYears: Math.max(1, parseInt(event.target.value, 10) || 1) })}
+                  className="w-20"
+                  aria-label="Minimum years of history"
+                />
+                <span className="text-sm text-muted-foreground">years of history</span>
+              </>
+            )}
+          </div>
+
+          {rule.kind === 'months' && (
+            <div className="flex flex-wrap gap-1">
+              {MONTH_LABELS.map((month, index) => {
+                const active = rule.months.includes(index);
+                return (
+                  <Button
+                    key={month}
+                    variant={active ? 'default' : 'outline'}
+                    size="sm"
+                    className="w-14"
+                    onClick={() => setRule({
+                      ...rule,
+                      months: active ? rule.months.filter(m => m !== index) : [...rule.months, index].sort((a, b) => a - b)
+                    })}
+                  >
+                    {month}
+                  </Button>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="backtest-fee" className="text-xs text-muted-foreground">Fee (bps per side)</Label>
+              <Input id="backtest-fee" type="number" min={0} value={config.feeBps} onChange={(event) => setNumber('feeBps', event.target.value)} className="w-28" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="backtest-slippage" className="text-xs text-muted-foreground">Slippage (bps per side)</Label>
+              <Input id="backtest-slippage" type="number" min={0} value={config.slippageBps} onChange={(event) => setNumber('slippageBps', event.target.value)} className="w-28" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="backtest-capital" className="text-xs text-muted-foreground">Starting capital</Label>
+              <Input id="backtest-capital" type="number" min={1} value={config.initialCapital} onChange={(event) => setNumber('initialCapital', event.target.value)} className="w-32" />
+            </div>
+            <div className="flex items-center gap-2 ml-auto">
+              <Switch id="backtest-highlight" checked={highlightOnCalendar} onCheckedChange={onHighlightChange} />
+              <Label htmlFor="backtest-highlight" className="text-sm">Show trades on calendar</Label>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">{describeBacktestRule(rule)}. Trades fill at daily closes (UTC).</p>
+        </div>
+      </Card>
+
+      {result && metrics && (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {metricCards.map(card => (
+              <Card key={card.label} className="p-4">
+                <p className="text-sm text-muted-foreground">{card.label}</p>
+                <p className={cn('text-xl font-bold font-mono', card.tone)}>{card.value}</p>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="p-6">
+            <CardHeader className="px-0 pt-0">
+              <CardTitle className="text-lg font-semibold">Equity Curve</CardTitle>
+              <p className="text-xs text-muted-foreground">Strategy against buy and hold, drawdown shaded</p>
+            </CardHeader>
+            <CardContent className="px-0 pb-0">
+              <EquityCurveChart equity={result.equity} />
+            </CardContent>
+          </Card>
+
+          <Card className="p-6">
+            <CardHeader className="px-0 pt-0">
+              <CardTitle className="text-lg font-semibold">Trades</CardTitle>
+            </CardHeader>
+            <CardContent className="px-0 pb-0">
+              {result.trades.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The rule never entered the market</p>
+              ) : (
+                <ScrollArea className="h-72">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Entry</TableHead>
+                        <TableHead>Exit</TableHead>
+                        <TableHead className="text-right">Entry Price</TableHead>
+                        <TableHead className="text-right">Exit Price</TableHead>
+                        <TableHead className="text-right">Days</TableHead>
+                        <TableHead className="text-right">Return</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...result.trades].reverse().map(trade => (
+                        <TableRow key={trade.entryDate.getTime()}>
+                          <TableCell className="font-mono text-xs">{formatDay(trade.entryDate)}</TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {trade.open ? 'Open' : formatDay(trade.exitDate)}
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-xs">{formatPrice(trade.entryPrice)}</TableCell>
+                          <TableCell className="text-right font-mono text-xs">{formatPrice(trade.exitPrice)}</TableCell>
+                          <TableCell className="text-right font-mono text-xs">{trade.days}</TableCell>
+                          <TableCell className={cn('text-right font-mono text-xs', signClass(trade.returnPct))}>
+                            {formatPercent(trade.returnPct)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,13 @@
 import React from 'react';
-import { BarChart3, LineChart, TrendingUp, Layers, Settings, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
+import { CandlestickChart, Waves, Square, LineChart, TrendingUp, Layers, Settings, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { cn } from '@/lib/utils';
+import { LiveCandleSource } from '@/hooks/useLiveCandles';
 
-export type ChartType = 'candlestick' | 'line' | 'area' | 'bar';
+export type ChartType = 'candlestick' | 'heikin-ashi' | 'hollow' | 'line' | 'area' | 'bar';
 export type TimeInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w';
 
 interface ChartControlsProps {
@@ -17,16 +18,22 @@ interface ChartControlsProps {
   onZoomIn?: () => void;
   onZoomOut?: () => void;
   onReset?: () => void;
-  enabledIndicators?: string[];
-  onToggleIndicator?: (indicator: string) => void;
+  indicatorCount?: number;
+  onEditIndicators?: () => void;
+  historySize?: number;
+  onHistorySizeChange?: (size: number) => void;
+  liveSource?: LiveCandleSource;
+  onLiveSourceChange?: (source: LiveCandleSource) => void;
   className?: string;
 }
 
-const chartTypeIcons = {
-  candlestick: BarChart3,
-  line: LineChart,
-  area: TrendingUp,
-  bar: Layers
+const chartTypes: Record<ChartType, { icon: React.ElementType; label: string }> = {
+  candlestick: { icon: CandlestickChart, label: 'Candlesticks' },
+  'heikin-ashi': { icon: Waves, label: 'Heikin-Ashi' },
+  hollow: { icon: Square, label: 'Hollow candles' },
+  line: { icon: LineChart, label: 'Line' },
+  area: { icon: TrendingUp, label: 'Area' },
+  bar: { icon: Layers, label: 'Bars' }
 };
 
 const timeIntervals: { value: TimeInterval; label: string }[] = [
@@ -39,12 +46,19 @@ const timeIntervals: { value: TimeInterval; label: string }[] = [
   { value: '1w', label: '1w' }
 ];
 
-const technicalIndicators = [
-  { id: 'sma', label: 'SMA', description: 'Simple Moving Average' },
-  { id: 'ema', label: 'EMA', description: 'Exponential Moving Average' },
-  { id: 'rsi', label: 'RSI', description: 'Relative Strength Index' },
-  { id: 'macd', label: 'MACD', description: 'Moving Average Convergence Divergence' },
-  { id: 'bb', label: 'BB', description: 'Bollinger Bands' }
+// Candles loaded into the chart; large histories render on canvas
+const historySizes: { value: number; label: string }[] = [
+  { value: 200, label: '200' },
+  { value: 1000, label: '1K' },
+  { value: 5000, label: '5K' },
+  { value: 20000, label: '20K' },
+  { value: 50000, label: '50K' }
+];
+
+// What updates the forming candle between fetches
+const liveSources: { value: LiveCandleSource; label: string }[] = [
+  { value: 'book', label: 'Book mid' },
+  { value: 'trades', label: 'Trades' }
 ];
 
 export const ChartControls: React.FC<ChartControlsProps> = ({
@@ -55,8 +69,12 @@ export const ChartControls: React.FC<ChartControlsProps> = ({
   onZoomIn,
   onZoomOut,
   onReset,
-  enabledIndicators = [],
-  onToggleIndicator,
+  indicatorCount = 0,
+  onEditIndicators,
+  historySize,
+  onHistorySizeChange,
+  liveSource,
+  onLiveSourceChange,
   className
 }) => {
   return (
@@ -65,8 +83,8 @@ export const ChartControls: React.FC<ChartControlsProps> = ({
       <div className="flex items-center gap-2">
         <span className="text-sm font-medium text-muted-foreground">Chart:</span>
         <div className="flex gap-1">
-          {(Object.keys(chartTypeIcons) as ChartType[]).map((type) => {
-            const Icon = chartTypeIcons[type];
+          {(Object.keys(chartTypes) as ChartType[]).map((type) => {
+            const { icon: Icon, label } = chartTypes[type];
             return (
               <Button
                 key={type}
@@ -74,6 +92,8 @@ export const ChartControls: React.FC<ChartControlsProps> = ({
                 size="sm"
                 onClick={() => onChartTypeChange(type)}
                 className="px-2"
+                title={label}
+                aria-label={label}
               >
                 <Icon className="w-4 h-4" />
               </Button>
@@ -101,6 +121,42 @@ export const ChartControls: React.FC<ChartControlsProps> = ({
         </Select>
       </div>
 
+      {onHistorySizeChange && historySize !== undefined && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-muted-foreground">Candles:</span>
+          <Select value={String(historySize)} onValueChange={(value) => onHistorySizeChange(Number(value))}>
+            <SelectTrigger className="w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {historySizes.map((size) => (
+                <SelectItem key={size.value} value={String(size.value)}>
+                  {size.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {onLiveSourceChange && liveSource !== undefined && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-muted-foreground">Live:</span>
+          <Select value={liveSource} onValueChange={(value) => onLiveSourceChange(value as LiveCandleSource)}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {liveSources.map((source) => (
+                <SelectItem key={source.value} value={source.value}>
+                  {source.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       <Separator orientation="vertical" className="hidden sm:block" />
 
       {/* Zoom Controls */}
@@ -136,35 +192,18 @@ export const ChartControls: React.FC<ChartControlsProps> = ({
 
       <Separator orientation="vertical" className="hidden sm:block" />
 
-      {/* Technical Indicators */}
-      {onToggleIndicator && (
-        <div className="flex items-center gap-2 flex-wrap">
-          <span className="text-sm font-medium text-muted-foreground">Indicators:</span>
-          <div className="flex gap-1 flex-wrap">
-            {technicalIndicators.map((indicator) => {
-              const isEnabled = enabledIndicators.includes(indicator.id);
-              return (
-                <Button
-                  key={indicator.id}
-                  variant={isEnabled ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => onToggleIndicator(indicator.id)}
-                  className="px-2 text-xs"
-                >
-                  {indicator.label}
-                </Button>
-              );
-            })}
-          </div>
-        </div>
-      )}
-
-      {/* Enabled Indicators Badge */}
-      {enabledIndicators.length > 0 && (
-        <div className="flex items-center gap-1">
-          <Badge variant="secondary" className="text-xs">
-            {enabledIndicators.length} indicator{enabledIndicators.length !== 1 ? 's' : ''} active
-          </Badge>
+      {/* Technical Indicators, configured in a dialog */}
+      {onEditIndicators && (
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={onEditIndicators} className="gap-1">
+            <Settings className="w-4 h-4" />
+            Indicators
+          </Button>
+          {indicatorCount > 0 && (
+            <Badge variant="secondary" className="text-xs">
+              {indicatorCount} indicator{indicatorCount !== 1 ? 's' : ''} active
+            </Badge>
+          )}
         </div>
       )}
     </div>
@@ -84,19 +84,19 @@ export const ChartLegend: React.FC<ChartLegendProps> = ({
 export const ChartLegendConfigs = {
   candlestick: [
     {
-      color: 'hsl(var(--chart-2))',
+      color: 'hsl(var(--success))',
       label: 'Bullish Candle',
-      description: 'Price closed higher than it opened'
+      description: 'Price closed higher than it opened (hollow candles: than the previous close)'
     },
     {
-      color: 'hsl(var(--chart-3))',
-      label: 'Bearish Candle', 
-      description: 'Price closed lower than it opened'
+      color: 'hsl(var(--destructive))',
+      label: 'Bearish Candle',
+      description: 'Price closed lower than it opened (hollow candles: than the previous close)'
     },
     {
-      color: 'hsl(var(--primary))',
-      label: 'Trend Line',
-      description: 'Overall price direction'
+      color: 'hsl(var(--muted-foreground))',
+      label: 'Hollow Body',
+      description: 'Hollow candles only: price closed above its open'
     },
     {
       color: 'hsl(var(--chart-4))',
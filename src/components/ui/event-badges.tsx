@@ -0,0 +1,71 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { MarketEvent, eventTypeInfo } from '@/utils/market-events';
+
+interface EventBadgesProps {
+  events: MarketEvent[];
+  compact?: boolean; // coloured dots only, for small day cells
+  max?: number;
+  className?: string;
+}
+
+// Event markers for a calendar day; the title lists every event so nothing is lost when truncated
+export const EventBadges: React.FC<EventBadgesProps> = ({ events, compact = false, max = 3, className }) => {
+  if (!events.length) return null;
+  const shown = events.slice(0, max);
+  const hidden = events.length - shown.length;
+  const title = events.map(event => `${eventTypeInfo(event.type).label}: ${event.title}`).join('\n');
+
+  if (compact) {
+    return (
+      <div className={cn('flex items-center gap-0.5', className)} title={title}>
+        {shown.map(event => (
+          <span
+            key={event.id}
+            className="w-1.5 h-1.5 rounded-full flex-shrink-0"
+            style={{ backgroundColor: eventTypeInfo(event.type).color }}
+          />
+        ))}
+        {hidden > 0 && <span className="text-[8px] leading-none text-muted-foreground">+{hidden}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1', className)} title={title}>
+      {shown.map(event => {
+        const info = eventTypeInfo(event.type);
+        return (
+          <span
+            key={event.id}
+            className="inline-flex items-center gap-1 rounded px-1 py-0.5 text-[10px] font-medium leading-none border"
+            style={{ borderColor: info.color, color: info.color }}
+          >
+            <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: info.color }} />
+            {info.label}
+          </span>
+        );
+      })}
+      {hidden > 0 && <span className="text-[10px] text-muted-foreground">+{hidden}</span>}
+    </div>
+  );
+};
+
+// Full list for roomy views: one line per event with its type and title
+export const EventList: React.FC<{ events: MarketEvent[]; className?: string }> = ({ events, className }) => {
+  if (!events.length) return null;
+  return (
+    <ul className={cn('space-y-1', className)}>
+      {events.map(event => {
+        const info = eventTypeInfo(event.type);
+        return (
+          <li key={event.id} className="flex items-center gap-2 text-sm">
+            <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: info.color }} />
+            <span className="font-medium" style={{ color: info.color }}>{info.label}</span>
+            <span className="text-muted-foreground truncate">{event.title}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
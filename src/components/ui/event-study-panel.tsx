@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarClock } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { FinancialData } from '@/types/api';
+import { useMarketEvents } from '@/contexts/market-events-context';
+import { eventStudy, eventTypeInfo } from '@/utils/market-events';
+
+interface EventStudyPanelProps {
+  history: FinancialData[]; // daily candles
+  className?: string;
+}
+
+const WINDOWS = [1, 3, 5, 10];
+
+const formatReturn = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+const returnClass = (value: number) => value >= 0 ? 'text-performance-positive' : 'text-performance-negative';
+
+// Average return around each visible event type over the loaded history
+export const EventStudyPanel: React.FC<EventStudyPanelProps> = ({ history, className }) => {
+  const { visibleEvents } = useMarketEvents();
+  const [windowDays, setWindowDays] = useState(5);
+  const rows = useMemo(() => eventStudy(visibleEvents, history, windowDays), [visibleEvents, history, windowDays]);
+
+  return (
+    <Card className={cn('p-6', className)}>
+      <CardHeader className="px-0 pt-0">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <CalendarClock className="w-5 h-5" />
+          Event Study
+          <Select value={String(windowDays)} onValueChange={(value) => setWindowDays(Number(value))}>
+            <SelectTrigger className="ml-auto w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WINDOWS.map(days => (
+                <SelectItem key={days} value={String(days)}>±{days} {days === 1 ? 'day' : 'days'}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Mean close-to-close return in the {windowDays} {windowDays === 1 ? 'day' : 'days'} before, on, and after each event (UTC days)
+        </p>
+      </CardHeader>
+      <CardContent className="px-0 pb-0">
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No events fall inside the loaded history</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Events</TableHead>
+                <TableHead className="text-right">Before</TableHead>
+                <TableHead className="text-right">Event Day</TableHead>
+                <TableHead className="text-right">After</TableHead>
+                <TableHead className="text-right">Up After</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => {
+                const info = eventTypeInfo(row.type);
+                return (
+                  <TableRow key={row.type}>
+                    <TableCell>
+                      <span className="flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: info.color }} />
+                        {info.label}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-xs">{row.count}</TableCell>
+                    <TableCell className={cn('text-right font-mono text-xs', returnClass(row.before))}>{formatReturn(row.before)}</TableCell>
+                    <TableCell className={cn('text-right font-mono text-xs', returnClass(row.eventDay))}>{formatReturn(row.eventDay)}</TableCell>
+                    <TableCell className={cn('text-right font-mono text-xs', returnClass(row.after))}>{formatReturn(row.after)}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{(row.afterWinRate * 100).toFixed(0)}%</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
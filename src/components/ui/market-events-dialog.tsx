@@ -0,0 +1,173 @@
+import React, { useRef, useState } from 'react';
+import { CalendarClock, Plus, Trash2, Upload } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { useMarketEvents } from '@/contexts/market-events-context';
+import { createMarketEvent, eventTypeInfo, eventTypes } from '@/utils/market-events';
+
+interface MarketEventsDialogProps {
+  className?: string;
+}
+
+// Event types shown on the calendar and charts, plus the user's own and imported events
+export const MarketEventsDialog: React.FC<MarketEventsDialogProps> = ({ className }) => {
+  const { events, types, hiddenTypes, toggleType, addEvent, removeEvent, importFile, clearImported } = useMarketEvents();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [date, setDate] = useState('');
+  const [title, setTitle] = useState('');
+  const [type, setType] = useState('custom');
+
+  const userEvents = events
+    .filter(event => event.source !== 'bundled')
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const hasImported = userEvents.some(event => event.source === 'imported');
+  const typeChoices = [...new Set([...Object.keys(eventTypes), ...types])];
+
+  const handleAdd = () => {
+    if (!date || !title.trim()) return;
+    addEvent(createMarketEvent({ date, title, type }));
+    setTitle('');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const count = await importFile(file);
+      toast({ title: 'Events imported', description: `${count} events from ${file.name}` });
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : `Couldn't read ${file.name}`,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className={cn('flex items-center space-x-1', className)}>
+          <CalendarClock className="w-4 h-4" />
+          <span className="hidden sm:inline">Events</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Market Events</DialogTitle>
+          <DialogDescription>
+            Shown as badges on the calendar and markers on the price chart. Import JSON or iCalendar (.ics) files, or add your own.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Types */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Types</p>
+          <div className="grid grid-cols-2 gap-2">
+            {types.map(eventType => {
+              const info = eventTypeInfo(eventType);
+              return (
+                <label key={eventType} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Switch
+                    checked={!hiddenTypes.includes(eventType)}
+                    onCheckedChange={() => toggleType(eventType)}
+                  />
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: info.color }} />
+                  {info.label}
+                  <span className="text-xs text-muted-foreground">
+                    {events.filter(event => event.type === eventType).length}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* New event */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Add event</p>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="event-date" className="text-xs text-muted-foreground">Date (UTC)</Label>
+              <Input id="event-date" type="date" value={date} onChange={(event) => setDate(event.target.value)} className="h-8 w-36" />
+            </div>
+            <div className="space-y-1 flex-1 min-w-[8rem]">
+              <Label htmlFor="event-title" className="text-xs text-muted-foreground">Title</Label>
+              <Input
+                id="event-title"
+                value={title}
+                onChange={(event) => setTitle(event.target.value)}
+                onKeyDown={(event) => event.key === 'Enter' && handleAdd()}
+                className="h-8"
+              />
+            </div>
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger className="h-8 w-28" aria-label="Event type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {typeChoices.map(eventType => (
+                  <SelectItem key={eventType} value={eventType}>{eventTypeInfo(eventType).label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleAdd} disabled={!date || !title.trim()} className="gap-1">
+              <Plus className="w-4 h-4" />
+              Add
+            </Button>
+          </div>
+        </div>
+
+        {/* Import and the user's events */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Your events</p>
+            <div className="flex items-center gap-1">
+              {hasImported && (
+                <Button variant="ghost" size="sm" onClick={clearImported} className="text-xs">Clear imported</Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => fileRef.current?.click()} className="gap-1">
+                <Upload className="w-4 h-4" />
+                Import
+              </Button>
+              <input ref={fileRef} type="file" accept=".json,.ics,application/json,text/calendar" className="hidden" onChange={handleImport} />
+            </div>
+          </div>
+          {userEvents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No custom or imported events</p>
+          ) : (
+            <ScrollArea className="h-40">
+              <div className="space-y-1 pr-3">
+                {userEvents.map(event => (
+                  <div key={event.id} className="flex items-center gap-2 text-sm">
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: eventTypeInfo(event.type).color }} />
+                    <span className="font-mono text-xs text-muted-foreground">{event.date}</span>
+                    <span className="flex-1 truncate">{event.title}</span>
+                    {event.source === 'imported' && <span className="text-xs text-muted-foreground">imported</span>}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeEvent(event.id)}
+                      className="px-2 h-7"
+                      aria-label={`Remove ${event.title}`}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,17 +1,22 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { TrendingUp, TrendingDown, Activity, Target } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatPrice, formatVolume } from '@/components/ui/chart-formatters';
+import { SlippageCalculator } from '@/components/ui/slippage-calculator';
 import { cn } from '@/lib/utils';
-import { Orderbook } from '@/types/api';
+import { Orderbook, OrderbookEntry } from '@/types/api';
+import { DEFAULT_METRIC_LEVELS, bookMetrics } from '@/utils/microstructure';
 
 interface OrderbookEnhancementsProps {
   orderbook: Orderbook | null;
-  previousOrderbook?: Orderbook | null;
   className?: string;
 }
 
+const METRIC_LEVELS = [5, 10, 20];
+
 interface PriceLevel {
   price: number;
   quantity: number;
@@ -19,49 +24,42 @@ interface PriceLevel {
   change?: 'increased' | 'decreased' | 'new' | 'removed';
 }
 
+// Quantity at each price in a book side, for spotting changed levels between updates
+const quantitiesByPrice = (entries: OrderbookEntry[]) =>
+  new Map(entries.map(entry => [entry.price, parseFloat(entry.quantity)]));
+
 export const OrderbookEnhancements: React.FC<OrderbookEnhancementsProps> = ({
   orderbook,
-  previousOrderbook,
   className
 }) => {
   const [priceChanges, setPriceChanges] = useState<Map<string, string>>(new Map());
+  const [metricLevels, setMetricLevels] = useState(DEFAULT_METRIC_LEVELS);
+  const previousRef = useRef<Orderbook | null>(null);
 
+  // Levels are matched by price against the previous update, so a shifted book isn't read as
+  // every level changing
   useEffect(() => {
-    if (!orderbook || !previousOrderbook) return;
+    const previousOrderbook = previousRef.current;
+    previousRef.current = orderbook;
+    if (!orderbook || !previousOrderbook || previousOrderbook.symbol !== orderbook.symbol) return;
 
     const changes = new Map<string, string>();
-    
-    // Compare bids
-    orderbook.bids.forEach((bid, index) => {
-      const prevBid = previousOrderbook.bids[index];
-      if (prevBid) {
-        const currentQty = parseFloat(bid.quantity);
-        const prevQty = parseFloat(prevBid.quantity);
-        if (currentQty > prevQty) {
-          changes.set(`bid-${bid.price}`, 'increased');
-        } else if (currentQty < prevQty) {
-          changes.set(`bid-${bid.price}`, 'decreased');
-        }
-      } else {
-        changes.set(`bid-${bid.price}`, 'new');
-      }
-    });
-
-    // Compare asks
-    orderbook.asks.forEach((ask, index) => {
-      const prevAsk = previousOrderbook.asks[index];
-      if (prevAsk) {
-        const currentQty = parseFloat(ask.quantity);
-        const prevQty = parseFloat(prevAsk.quantity);
-        if (currentQty > prevQty) {
-          changes.set(`ask-${ask.price}`, 'increased');
+    const compare = (entries: OrderbookEntry[], previous: OrderbookEntry[], type: 'bid' | 'ask') => {
+      const before = quantitiesByPrice(previous);
+      entries.forEach(entry => {
+        const prevQty = before.get(entry.price);
+        const currentQty = parseFloat(entry.quantity);
+        if (prevQty === undefined) {
+          changes.set(`${type}-${entry.price}`, 'new');
+        } else if (currentQty > prevQty) {
+          changes.set(`${type}-${entry.price}`, 'increased');
         } else if (currentQty < prevQty) {
-          changes.set(`ask-${ask.price}`, 'decreased');
+          changes.set(`${type}-${entry.price}`, 'decreased');
         }
-      } else {
-        changes.set(`ask-${ask.price}`, 'new');
-      }
-    });
+      });
+    };
+    compare(orderbook.bids, previousOrderbook.bids, 'bid');
+    compare(orderbook.asks, previousOrderbook.asks, 'ask');
 
     setPriceChanges(changes);
 
@@ -71,7 +69,9 @@ export const OrderbookEnhancements: React.FC<OrderbookEnhancementsProps> = ({
     }, 1000);
 
     return () => clearTimeout(timer);
-  }, [orderbook, previousOrderbook]);
+  }, [orderbook]);
+
+  const metrics = useMemo(() => orderbook ? bookMetrics(orderbook, metricLevels) : null, [orderbook, metricLevels]);
 
   if (!orderbook) return null;
 
@@ -112,10 +112,7 @@ export const OrderbookEnhancements: React.FC<OrderbookEnhancementsProps> = ({
     }
   };
 
-  // Calculate order imbalance
-  const totalBidVolume = bids.reduce((sum, bid) => sum + bid.quantity, 0);
-  const totalAskVolume = asks.reduce((sum, ask) => sum + ask.quantity, 0);
-  const imbalance = totalBidVolume / (totalBidVolume + totalAskVolume);
+  const imbalance = metrics?.imbalance ?? 0;
 
   return (
     <div className={cn("space-y-4", className)}>
@@ -125,9 +122,19 @@ export const OrderbookEnhancements: React.FC<OrderbookEnhancementsProps> = ({
           <CardTitle className="text-sm flex items-center gap-2">
             <Target className="w-4 h-4" />
             Market Summary
+            <Select value={String(metricLevels)} onValueChange={(value) => setMetricLevels(Number(value))}>
+              <SelectTrigger className="ml-auto h-7 w-28 text-xs" aria-label="Levels used for depth metrics">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {METRIC_LEVELS.map(levels => (
+                  <SelectItem key={levels} value={String(levels)}>Top {levels}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </CardTitle>
         </CardHeader>
-        <CardContent className="pt-0">
+        <CardContent className="pt-0 space-y-3">
           <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
             <div className="text-center p-3 rounded-lg bg-gradient-to-br from-performance-positive/20 to-transparent border border-performance-positive/20">
               <p className="text-xs text-muted-foreground">Best Bid</p>
@@ -140,21 +147,62 @@ export const OrderbookEnhancements: React.FC<OrderbookEnhancementsProps> = ({
             <div className="text-center p-3 rounded-lg bg-gradient-to-br from-warning/20 to-transparent border border-warning/20">
               <p className="text-xs text-muted-foreground">Spread</p>
               <p className="font-mono font-bold text-warning">${spread.toFixed(2)}</p>
-              <p className="text-xs text-muted-foreground">{spreadPercent.toFixed(3)}%</p>
+              <p className="text-xs text-muted-foreground">{metrics ? `${metrics.spreadBps.toFixed(2)} bps` : '—'}</p>
             </div>
             <div className="text-center p-3 rounded-lg bg-gradient-to-br from-primary/20 to-transparent border border-primary/20">
-              <p className="text-xs text-muted-foreground">Imbalance</p>
+              <p className="text-xs text-muted-foreground">Imbalance (top {metricLevels})</p>
               <div className="space-y-1">
-                <Progress value={imbalance * 100} className="h-1" />
+                <Progress value={(imbalance + 1) * 50} className="h-1" />
                 <p className="text-xs font-medium">
-                  {imbalance > 0.5 ? 'Buy' : 'Sell'} {Math.abs(imbalance - 0.5) * 200}%
+                  {imbalance >= 0 ? 'Bids' : 'Asks'} {(Math.abs(imbalance) * 100).toFixed(1)}%
                 </p>
               </div>
             </div>
           </div>
+
+          {metrics && (
+            <>
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="p-2 rounded-lg border">
+                  <p className="text-xs text-muted-foreground">Mid</p>
+                  <p className="font-mono text-sm">{formatPrice(metrics.mid)}</p>
+                </div>
+                <div className="p-2 rounded-lg border" title="Mid leaned toward the thinner side of the best bid and ask">
+                  <p className="text-xs text-muted-foreground">Microprice</p>
+                  <p className="font-mono text-sm">{formatPrice(metrics.microprice)}</p>
+                </div>
+                <div className="p-2 rounded-lg border" title={`Size-weighted over the top ${metricLevels} levels per side`}>
+                  <p className="text-xs text-muted-foreground">Weighted Mid</p>
+                  <p className="font-mono text-sm">{formatPrice(metrics.weightedMid)}</p>
+                </div>
+              </div>
+
+              {/* Resting size within each distance of mid */}
+              <div className="space-y-1 text-xs">
+                <div className="grid grid-cols-4 gap-2 font-medium text-muted-foreground border-b pb-1">
+                  <span>Depth</span>
+                  <span className="text-right">Bids</span>
+                  <span className="text-right">Asks</span>
+                  <span className="text-right">Bid / Ask $</span>
+                </div>
+                {metrics.bands.map(band => (
+                  <div key={band.percent} className="grid grid-cols-4 gap-2 font-mono">
+                    <span>±{band.percent}%</span>
+                    <span className="text-right text-performance-positive">{formatVolume(band.bid)}</span>
+                    <span className="text-right text-performance-negative">{formatVolume(band.ask)}</span>
+                    <span className="text-right text-muted-foreground">
+                      {formatVolume(band.bidNotional)} / {formatVolume(band.askNotional)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
         </CardContent>
       </Card>
 
+      <SlippageCalculator orderbook={orderbook} />
+
       {/* Enhanced Orderbook */}
       <Card>
         <CardHeader className="pb-3">
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, BellRing, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { toSymbolId } from '@/services/exchange-adapter';
+import { NotificationState } from '@/hooks/usePriceAlerts';
+import {
+  AlertEvent,
+  AlertRule,
+  AlertRuleType,
+  MAX_WINDOW_MINUTES,
+  alertRuleTypes,
+  createAlertRule,
+  describeAlertRule
+} from '@/utils/price-alerts';
+
+interface PriceAlertsPanelProps {
+  symbol: string;
+  price?: number; // suggested level for new price rules
+  rules: AlertRule[];
+  history: AlertEvent[];
+  permission: NotificationState;
+  onAddRule: (rule: AlertRule) => void;
+  onUpdateRule: (id: string, patch: Partial<Omit<AlertRule, 'id'>>) => void;
+  onRemoveRule: (id: string) => void;
+  onClearHistory: () => void;
+  onRequestPermission: () => void;
+  className?: string;
+}
+
+export const PriceAlertsPanel: React.FC<PriceAlertsPanelProps> = ({
+  symbol,
+  price,
+  rules,
+  history,
+  permission,
+  onAddRule,
+  onUpdateRule,
+  onRemoveRule,
+  onClearHistory,
+  onRequestPermission,
+  className
+}) => {
+  const [type, setType] = useState<AlertRuleType>('price-above');
+  const [threshold, setThreshold] = useState('');
+  const [windowMinutes, setWindowMinutes] = useState('15');
+  const definition = alertRuleTypes[type];
+
+  const parsedThreshold = parseFloat(threshold);
+  const parsedWindow = parseInt(windowMinutes, 10);
+  const isValid = parsedThreshold > 0 &&
+    (!definition.windowed || (parsedWindow > 0 && parsedWindow <= MAX_WINDOW_MINUTES));
+
+  const handleAdd = () => {
+    if (!isValid) return;
+    onAddRule(createAlertRule({ type, symbol, threshold: parsedThreshold, windowMinutes: parsedWindow }));
+    setThreshold('');
+  };
+
+  const isCurrent = (rule: AlertRule) => toSymbolId(rule.symbol) === toSymbolId(symbol);
+
+  return (
+    <Card className={cn('p-6', className)}>
+      <CardHeader className="px-0 pt-0">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Bell className="w-5 h-5" />
+          Price Alerts
+          {permission === 'default' && (
+            <Button variant="outline" size="sm" onClick={onRequestPermission} className="ml-auto text-xs">
+              Enable browser notifications
+            </Button>
+          )}
+          {permission === 'denied' && (
+            <Badge variant="outline" className="ml-auto gap-1 text-xs text-muted-foreground">
+              <BellOff className="w-3 h-3" />
+              Notifications blocked
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-0 pb-0 space-y-4">
+        {/* New rule for the selected symbol */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={type} onValueChange={(value) => setType(value as AlertRuleType)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(alertRuleTypes) as AlertRuleType[]).map(ruleType => (
+                <SelectItem key={ruleType} value={ruleType}>{alertRuleTypes[ruleType].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            value={threshold}
+            onChange={(event) => setThreshold(event.target.value)}
+            placeholder={definition.unit === 'price' && price ? price.toFixed(2) : definition.unit}
+            className="w-32"
+            aria-label="Threshold"
+          />
+          {definition.unit !== 'price' && <span className="text-sm text-muted-foreground">{definition.unit}</span>}
+          {definition.windowed && (
+            <>
+              <span className="text-sm text-muted-foreground">within</span>
+              <Input
+                type="number"
+                value={windowMinutes}
+                min={1}
+                max={MAX_WINDOW_MINUTES}
+                onChange={(event) => setWindowMinutes(event.target.value)}
+                className="w-20"
+                aria-label="Window in minutes"
+              />
+              <span className="text-sm text-muted-foreground">min</span>
+            </>
+          )}
+          <Button size="sm" onClick={handleAdd} disabled={!isValid} className="gap-1">
+            <Plus className="w-4 h-4" />
+            Add
+          </Button>
+        </div>
+
+        {/* Rules, including other symbols' (evaluated while that symbol is selected) */}
+        <div className="space-y-2">
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground">No alerts yet</p>
+          )}
+          {rules.map(rule => (
+            <div key={rule.id} className={cn('flex items-center gap-2 text-sm', !isCurrent(rule) && 'opacity-60')}>
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => onUpdateRule(rule.id, { enabled })}
+                aria-label={`Enable ${describeAlertRule(rule)}`}
+              />
+              <span className="flex-1 truncate">{describeAlertRule(rule)}</span>
+              {alertRuleTypes[rule.type].needsBook && (
+                <Badge variant="outline" className="text-xs">order book</Badge>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRemoveRule(rule.id)}
+                className="px-2"
+                aria-label={`Remove ${describeAlertRule(rule)}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {/* Trigger history, newest first */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-muted-foreground">History</span>
+            {history.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={onClearHistory} className="text-xs">Clear</Button>
+            )}
+          </div>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing triggered yet</p>
+          ) : (
+            <ScrollArea className="h-40">
+              <div className="space-y-1 pr-3">
+                {history.map(event => (
+                  <div key={event.id} className="flex items-start gap-2 text-xs">
+                    <BellRing className="w-3 h-3 mt-0.5 text-warning shrink-0" />
+                    <span className="font-mono text-muted-foreground shrink-0">
+                      {new Date(event.time).toLocaleString()}
+                    </span>
+                    <span>{event.message}</span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
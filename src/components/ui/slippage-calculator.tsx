@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Calculator } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { formatPrice, formatVolume } from '@/components/ui/chart-formatters';
+import { Orderbook } from '@/types/api';
+import { ImpactSide, ImpactUnit, estimateImpact } from '@/utils/microstructure';
+
+interface SlippageCalculatorProps {
+  orderbook: Orderbook;
+  className?: string;
+}
+
+// Market order fill estimate from the visible book; re-evaluated on every book update
+export const SlippageCalculator: React.FC<SlippageCalculatorProps> = ({ orderbook, className }) => {
+  const [side, setSide] = useState<ImpactSide>('buy');
+  const [unit, setUnit] = useState<ImpactUnit>('base');
+  const [size, setSize] = useState('1');
+
+  const estimate = estimateImpact(orderbook, side, parseFloat(size), unit);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Calculator className="w-4 h-4" />
+          Market Impact
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center gap-1">
+            <Button
+              variant={side === 'buy' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSide('buy')}
+              className="h-8"
+            >
+              Buy
+            </Button>
+            <Button
+              variant={side === 'sell' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSide('sell')}
+              className="h-8"
+            >
+              Sell
+            </Button>
+          </div>
+          <Input
+            type="number"
+            min={0}
+            value={size}
+            onChange={(event) => setSize(event.target.value)}
+            className="w-32 h-8"
+            aria-label="Order size"
+          />
+          <div className="flex items-center gap-1">
+            <Button
+              variant={unit === 'base' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setUnit('base')}
+              className="h-8 text-xs"
+            >
+              Base
+            </Button>
+            <Button
+              variant={unit === 'quote' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setUnit('quote')}
+              className="h-8 text-xs"
+            >
+              Quote
+            </Button>
+          </div>
+        </div>
+
+        {!estimate ? (
+          <p className="text-xs text-muted-foreground">Enter a size to walk the {side === 'buy' ? 'asks' : 'bids'}</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+            <div className="p-2 rounded-lg border">
+              <p className="text-xs text-muted-foreground">Avg Fill</p>
+              <p className="font-mono font-bold text-sm">{formatPrice(estimate.avgPrice)}</p>
+              <p className="text-xs text-muted-foreground">worst {formatPrice(estimate.worstPrice)}</p>
+            </div>
+            <div className="p-2 rounded-lg border">
+              <p className="text-xs text-muted-foreground">Slippage</p>
+              <p className="font-mono font-bold text-sm text-warning">{estimate.slippageBps.toFixed(1)} bps</p>
+              <p className="text-xs text-muted-foreground">vs touch</p>
+            </div>
+            <div className="p-2 rounded-lg border">
+              <p className="text-xs text-muted-foreground">Impact</p>
+              <p className="font-mono font-bold text-sm">{estimate.impactBps.toFixed(1)} bps</p>
+              <p className="text-xs text-muted-foreground">vs mid</p>
+            </div>
+            <div className="p-2 rounded-lg border">
+              <p className="text-xs text-muted-foreground">{side === 'buy' ? 'Cost' : 'Proceeds'}</p>
+              <p className="font-mono font-bold text-sm">{formatPrice(estimate.notional)}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatVolume(estimate.filled)} over {estimate.levelsUsed} {estimate.levelsUsed === 1 ? 'level' : 'levels'}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {estimate && !estimate.complete && (
+          <p className="text-xs text-performance-negative">
+            Larger than the visible book: only {formatVolume(estimate.filled)} could be filled
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
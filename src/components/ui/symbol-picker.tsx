@@ -0,0 +1,76 @@
+import React, { useMemo, useState } from 'react';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { cn } from '@/lib/utils';
+import { useSymbolCatalogue } from '@/hooks/useSymbolCatalogue';
+
+// Venues list thousands of pairs; only render the best matches
+const MAX_RESULTS = 50;
+
+interface SymbolPickerProps {
+  value: string;
+  onChange: (symbol: string) => void;
+  className?: string;
+}
+
+export const SymbolPicker: React.FC<SymbolPickerProps> = ({ value, onChange, className }) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const { symbols, isLoading } = useSymbolCatalogue();
+
+  // Catalogue order is already popularity-first, so prefix matches keep it; "btcusd" finds BTC/USDT
+  const matches = useMemo(() => {
+    const needle = query.trim().toUpperCase().replace(/[-_/\s]/g, '');
+    if (!needle) return symbols.slice(0, MAX_RESULTS);
+
+    const compact = (id: string) => id.replace('/', '');
+    const prefix = symbols.filter(symbol => compact(symbol.id).startsWith(needle));
+    const contains = symbols.filter(symbol => !compact(symbol.id).startsWith(needle) && compact(symbol.id).includes(needle));
+    return [...prefix, ...contains].slice(0, MAX_RESULTS);
+  }, [symbols, query]);
+
+  const select = (symbol: string) => {
+    onChange(symbol);
+    setOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn('w-[180px] justify-between font-mono', className)}
+        >
+          {value}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[240px] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search symbols..." value={query} onValueChange={setQuery} />
+          <CommandList>
+            <CommandEmpty>{isLoading ? 'Loading symbols...' : 'No symbol found.'}</CommandEmpty>
+            <CommandGroup>
+              {matches.map(symbol => (
+                <CommandItem key={symbol.id} value={symbol.id} onSelect={() => select(symbol.id)}>
+                  <Check className={cn('mr-2 h-4 w-4', value === symbol.id ? 'opacity-100' : 'opacity-0')} />
+                  <span className="font-mono">{symbol.id}</span>
+                  {symbol.exchanges.length > 0 && (
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {symbol.exchanges.length} {symbol.exchanges.length === 1 ? 'venue' : 'venues'}
+                    </span>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
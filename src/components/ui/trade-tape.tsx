@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ReceiptText } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatPrice, formatVolume } from '@/components/ui/chart-formatters';
+import { cn } from '@/lib/utils';
+import { Trade } from '@/types/api';
+import { DEFAULT_LARGE_PRINT_MULTIPLE, LARGE_PRINT_MULTIPLES, isLargePrint, tapeSummary } from '@/utils/trade-tape';
+
+interface TradeTapeProps {
+  trades: Trade[]; // newest first
+  venueName: string;
+  isUsingMockData?: boolean;
+  fallbackReason?: string | null;
+  className?: string;
+}
+
+// Print sizes are often fractions of a coin, which formatVolume would round to 0
+const formatSize = (value: number) => value >= 1000 ? formatVolume(value) : value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+
+const formatClock = (time: number) => {
+  const date = new Date(time);
+  return `${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+};
+
+// Time and sales: every print coloured by its aggressor, with prints far above the usual size highlighted
+export const TradeTape: React.FC<TradeTapeProps> = ({ trades, venueName, isUsingMockData, fallbackReason, className }) => {
+  const [multiple, setMultiple] = useState(DEFAULT_LARGE_PRINT_MULTIPLE);
+  const summary = useMemo(() => tapeSummary(trades), [trades]);
+
+  return (
+    <Card className={cn('p-6', className)}>
+      <CardHeader className="px-0 pt-0">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <ReceiptText className="w-5 h-5" />
+          Time & Sales
+          <Badge
+            variant={isUsingMockData ? 'outline' : 'secondary'}
+            className="ml-auto"
+            title={isUsingMockData && fallbackReason ? fallbackReason : undefined}
+          >
+            {isUsingMockData ? 'Simulated' : venueName}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-0 pb-0 space-y-4">
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground">Large prints:</span>
+            <Select value={String(multiple)} onValueChange={(value) => setMultiple(Number(value))}>
+              <SelectTrigger className="w-36 h-8" aria-label="Large print threshold">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LARGE_PRINT_MULTIPLES.map(value => (
+                  <SelectItem key={value} value={String(value)}>{value}× median size</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {summary.vwap > 0 && (
+            <span className="text-muted-foreground">
+              VWAP <span className="font-mono text-foreground">{formatPrice(summary.vwap)}</span>
+            </span>
+          )}
+        </div>
+
+        {/* Aggressor balance over the prints on the tape */}
+        <div className="space-y-1">
+          <div className="flex h-2 overflow-hidden rounded-full bg-muted">
+            <div className="bg-chart-2" style={{ width: `${summary.buyShare * 100}%` }} />
+            <div className="bg-chart-3" style={{ width: `${(1 - summary.buyShare) * 100}%` }} />
+          </div>
+          <div className="flex justify-between text-xs font-mono">
+            <span className="text-chart-2">Buys {formatSize(summary.buyVolume)}</span>
+            <span className="text-chart-3">Sells {formatSize(summary.sellVolume)}</span>
+          </div>
+        </div>
+
+        {!trades.length ? (
+          <p className="text-sm text-muted-foreground">Waiting for trades...</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trades.map(trade => {
+                  const large = isLargePrint(trade, summary.medianSize, multiple, trades.length);
+                  const buy = trade.side === 'buy';
+                  return (
+                    <TableRow
+                      key={`${trade.source}-${trade.id}`}
+                      className={cn('font-mono text-xs', large && 'bg-warning/15 font-bold')}
+                    >
+                      <TableCell className="py-1 text-muted-foreground">{formatClock(trade.time)}</TableCell>
+                      <TableCell className={cn('py-1 text-right', buy ? 'text-chart-2' : 'text-chart-3')}>
+                        <span className="inline-flex items-center gap-1">
+                          {buy ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+                          {formatPrice(trade.price)}
+                        </span>
+                      </TableCell>
+                      <TableCell className="py-1 text-right">{formatSize(trade.quantity)}</TableCell>
+                      <TableCell className="py-1 text-right">{formatPrice(trade.price * trade.quantity)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,139 @@
+import React from 'react';
+import { GitCompareArrows } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatPrice } from '@/components/ui/chart-formatters';
+import { cn } from '@/lib/utils';
+import { DivergenceChart } from '@/components/charts/DivergenceChart';
+import { ConsolidatedVenue } from '@/utils/consolidated-orderbook';
+import { DivergenceSample, DivergenceSnapshot, DivergenceThresholds } from '@/utils/venue-divergence';
+
+interface VenueDivergencePanelProps {
+  snapshot: DivergenceSnapshot | null;
+  history: DivergenceSample[];
+  venues: ConsolidatedVenue[];
+  thresholds: DivergenceThresholds;
+  onThresholdsChange: (patch: Partial<DivergenceThresholds>) => void;
+  isLoading?: boolean;
+  className?: string;
+}
+
+const formatBps = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}`;
+
+// Last, bid and ask per venue, how far apart the venues are, and how long each took to answer
+export const VenueDivergencePanel: React.FC<VenueDivergencePanelProps> = ({
+  snapshot,
+  history,
+  venues,
+  thresholds,
+  onThresholdsChange,
+  isLoading,
+  className
+}) => {
+  const charted = venues.filter(venue => history.some(sample => sample[venue.id] !== undefined));
+  const spreadAlert = !!snapshot && snapshot.spreadBps > thresholds.spreadBps;
+
+  return (
+    <Card className={cn('p-6', className)}>
+      <CardHeader className="px-0 pt-0">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <GitCompareArrows className="w-5 h-5" />
+          Cross-Venue Divergence
+          {snapshot && (
+            <Badge variant={spreadAlert ? 'destructive' : 'secondary'} className="ml-auto font-mono">
+              {snapshot.spreadBps.toFixed(1)} bps
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-0 pb-0 space-y-4">
+        {!snapshot ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoading ? 'Polling venues...' : 'No venue tickers available'}
+          </p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Venue</TableHead>
+                  <TableHead className="text-right">Last</TableHead>
+                  <TableHead className="text-right">Bid</TableHead>
+                  <TableHead className="text-right">Ask</TableHead>
+                  <TableHead className="text-right">vs {snapshot.quote} Median (bps)</TableHead>
+                  <TableHead className="text-right">Latency</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {snapshot.rows.map(row => {
+                  const color = venues.find(venue => venue.id === row.venue)?.color;
+                  const slow = row.latency !== undefined && row.latency > thresholds.latencyMs;
+                  return (
+                    <TableRow key={row.venue}>
+                      <TableCell>
+                        <span className="flex items-center gap-2">
+                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+                          {row.name}
+                          <span className="font-mono text-xs text-muted-foreground">{row.pair}</span>
+                          {row.venue === snapshot.high && <Badge variant="outline" className="text-xs">high</Badge>}
+                          {row.venue === snapshot.low && <Badge variant="outline" className="text-xs">low</Badge>}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">{formatPrice(row.last)}</TableCell>
+                      <TableCell className="text-right font-mono text-xs text-chart-2">{row.bid > 0 ? formatPrice(row.bid) : '—'}</TableCell>
+                      <TableCell className="text-right font-mono text-xs text-chart-3">{row.ask > 0 ? formatPrice(row.ask) : '—'}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{row.deviationBps !== null ? formatBps(row.deviationBps) : '—'}</TableCell>
+                      <TableCell className={cn('text-right font-mono text-xs', slow && 'text-performance-negative')}>
+                        {row.latency !== undefined ? `${row.latency} ms` : '—'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {snapshot.crossBps > 0 && (
+              <p className="text-xs text-warning">
+                Best bid on one venue is {snapshot.crossBps.toFixed(1)} bps above the best ask on another (before fees)
+              </p>
+            )}
+
+            <DivergenceChart history={history} venues={charted} thresholdBps={thresholds.spreadBps} />
+          </>
+        )}
+
+        {/* Alert thresholds */}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Switch
+            checked={thresholds.enabled}
+            onCheckedChange={(enabled) => onThresholdsChange({ enabled })}
+            aria-label="Divergence alerts"
+          />
+          <span>Alert when venues are more than</span>
+          <Input
+            type="number"
+            min={0}
+            value={thresholds.spreadBps}
+            onChange={(event) => onThresholdsChange({ spreadBps: Math.max(0, Number(event.target.value)) })}
+            className="w-20 h-8"
+            aria-label="Spread threshold in bps"
+          />
+          <span>bps apart or slower than</span>
+          <Input
+            type="number"
+            min={0}
+            step={100}
+            value={thresholds.latencyMs}
+            onChange={(event) => onThresholdsChange({ latencyMs: Math.max(0, Number(event.target.value)) })}
+            className="w-24 h-8"
+            aria-label="Latency threshold in ms"
+          />
+          <span>ms</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import bundledEventData from '@/data/market-events.json';
+import { MarketEvent, groupEventsByDay, parseEventFile, toMarketEvents } from '@/utils/market-events';
+
+const BUNDLED_EVENTS = toMarketEvents(bundledEventData, 'bundled');
+
+interface MarketEventsContextType {
+  events: MarketEvent[];          // every event, including hidden types
+  visibleEvents: MarketEvent[];
+  types: string[];                // types present across all events
+  hiddenTypes: string[];
+  getEventsOn: (dayKey: string) => MarketEvent[]; // visible events on a 'YYYY-MM-DD' day
+  toggleType: (type: string) => void;
+  addEvent: (event: MarketEvent) => void;
+  removeEvent: (id: string) => void;
+  importFile: (file: File) => Promise<number>;
+  clearImported: () => void;
+}
+
+interface StoredEvents {
+  events: MarketEvent[];          // imported and custom; bundled events always come from the app
+  hiddenTypes: string[];
+}
+
+const MarketEventsContext = createContext<MarketEventsContextType | undefined>(undefined);
+
+export const useMarketEvents = () => {
+  const context = useContext(MarketEventsContext);
+  if (context === undefined) {
+    throw new Error('useMarketEvents must be used within a MarketEventsProvider');
+  }
+  return context;
+};
+
+const loadStored = (storageKey: string): StoredEvents => {
+  const stored = localStorage.getItem(storageKey);
+  if (stored) {
+    try {
+      const { events, hiddenTypes } = JSON.parse(stored);
+      return {
+        events: Array.isArray(events) ? events.filter(event => event?.date && event?.title) : [],
+        hiddenTypes: Array.isArray(hiddenTypes) ? hiddenTypes : []
+      };
+    } catch {
+      // Invalid stored data, start empty
+    }
+  }
+  return { events: [], hiddenTypes: [] };
+};
+
+interface MarketEventsProviderProps {
+  children: ReactNode;
+  storageKey?: string;
+}
+
+export const MarketEventsProvider: React.FC<MarketEventsProviderProps> = ({
+  children,
+  storageKey = 'financial-calendar-events',
+}) => {
+  const [stored, setStored] = useState<StoredEvents>(() => loadStored(storageKey));
+
+  useEffect(() => {
+    localStorage.setItem(storageKey, JSON.stringify(stored));
+  }, [stored, storageKey]);
+
+  const events = useMemo(() => [...BUNDLED_EVENTS, ...stored.events], [stored.events]);
+  const visibleEvents = useMemo(
+    () => events.filter(event => !stored.hiddenTypes.includes(event.type)),
+    [events, stored.hiddenTypes]
+  );
+  const byDay = useMemo(() => groupEventsByDay(visibleEvents), [visibleEvents]);
+  const types = useMemo(() => [...new Set(events.map(event => event.type))], [events]);
+
+  const getEventsOn = useCallback((dayKey: string) => byDay.get(dayKey) ?? [], [byDay]);
+
+  const toggleType = useCallback((type: string) => setStored(prev => ({
+    ...prev,
+    hiddenTypes: prev.hiddenTypes.includes(type)
+      ? prev.hiddenTypes.filter(hidden => hidden !== type)
+      : [...prev.hiddenTypes, type]
+  })), []);
+
+  const addEvent = useCallback((event: MarketEvent) => {
+    setStored(prev => ({ ...prev, events: [...prev.events, event] }));
+  }, []);
+
+  const removeEvent = useCallback((id: string) => {
+    setStored(prev => ({ ...prev, events: prev.events.filter(event => event.id !== id) }));
+  }, []);
+
+  // Re-importing a file replaces events with the same id (ICS UIDs) rather than duplicating them
+  const importFile = useCallback(async (file: File) => {
+    const imported = parseEventFile(file.name, await file.text());
+    const ids = new Set(imported.map(event => event.id));
+    setStored(prev => ({ ...prev, events: [...prev.events.filter(event => !ids.has(event.id)), ...imported] }));
+    return imported.length;
+  }, []);
+
+  const clearImported = useCallback(() => {
+    setStored(prev => ({ ...prev, events: prev.events.filter(event => event.source !== 'imported') }));
+  }, []);
+
+  return (
+    <MarketEventsContext.Provider value={{
+      events,
+      visibleEvents,
+      types,
+      hiddenTypes: stored.hiddenTypes,
+      getEventsOn,
+      toggleType,
+      addEvent,
+      removeEvent,
+      importFile,
+      clearImported
+    }}>
+      {children}
+    </MarketEventsContext.Provider>
+  );
+};
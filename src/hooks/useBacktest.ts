@@ -0,0 +1,13 @@
+import { useMemo } from 'react';
+import { useSeasonality } from './useSeasonality';
+import { BacktestConfig, runBacktest } from '@/utils/backtest';
+
+// Backtest over the same daily history the seasonality tab loads, so switching between them is free.
+// That history is exactly Jan 1st of the first year through today, so the run starts on Jan 1st.
+export function useBacktest(symbol: string, years: number, config: BacktestConfig) {
+  const { history, isLoading, isError, refetch } = useSeasonality(symbol, years);
+
+  const result = useMemo(() => history.length ? runBacktest(history, config) : null, [history, config]);
+
+  return { result, isLoading, isError, refetch };
+}
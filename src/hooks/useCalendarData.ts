@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { calendarDataService, CalendarDayState, toDayKey } from '@/services/calendar-data-service';
+
+// Reads straight from the shared cache so every view sees the same candles
+const readDayState = (symbol: string, date: Date, settled: boolean): CalendarDayState => {
+  const state = calendarDataService.getDayState(symbol, date);
+  if (state.status === 'loading' && settled) {
+    return { status: 'empty' };
+  }
+  return state;
+};
+
+export function useCalendarData(symbol: string, start: Date | null, end: Date | null) {
+  const enabled = !!start && !!end;
+
+  const { data: days = [], isLoading, isError, refetch } = useQuery({
+    queryKey: ['calendar', symbol, start ? toDayKey(start) : null, end ? toDayKey(end) : null],
+    queryFn: () => calendarDataService.loadRange(symbol, start!, end!),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const getDayState = (date: Date): CalendarDayState => readDayState(symbol, date, enabled && !isLoading);
+
+  return {
+    days,
+    getDayState,
+    isLoading: enabled && isLoading,
+    isError,
+    refetch
+  };
+}
+
+// The same calendar month (0-11) for each of the `yearSpan` years ending at `endYear`
+export function useCalendarMonthAcrossYears(symbol: string, month: number, endYear: number, yearSpan: number) {
+  const years = useMemo(
+    () => Array.from({ length: yearSpan }, (_, i) => endYear - yearSpan + 1 + i),
+    [endYear, yearSpan]
+  );
+
+  const { isLoading, isError, refetch } = useQuery({
+    queryKey: ['calendar-yoy', symbol, month, endYear, yearSpan],
+    // One small request per year instead of loading every month in between
+    queryFn: () => Promise.all(years.map(year =>
+      calendarDataService.loadRange(symbol, new Date(year, month, 1), new Date(year, month + 1, 0))
+    )),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const getDayState = (date: Date): CalendarDayState => readDayState(symbol, date, !isLoading);
+
+  return {
+    years,
+    getDayState,
+    isLoading,
+    isError,
+    refetch
+  };
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+export interface CanvasSize {
+  width: number;  // CSS pixels
+  height: number;
+}
+
+export type CanvasDraw = (ctx: CanvasRenderingContext2D, size: CanvasSize) => void;
+
+// A canvas that tracks its element size and device pixel ratio and redraws at most once per frame.
+// `draw` works in CSS pixels; the backing store is scaled so lines stay sharp on high-DPI screens.
+export function useCanvas(draw: CanvasDraw) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawRef = useRef(draw);
+  const sizeRef = useRef<CanvasSize>({ width: 0, height: 0 });
+  const frameRef = useRef<number | null>(null);
+  drawRef.current = draw;
+
+  const requestDraw = useCallback(() => {
+    if (frameRef.current !== null) return;
+
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      const { width, height } = sizeRef.current;
+      if (!canvas || !ctx || width === 0 || height === 0) return;
+
+      const ratio = window.devicePixelRatio || 1;
+      const backingWidth = Math.round(width * ratio);
+      const backingHeight = Math.round(height * ratio);
+      if (canvas.width !== backingWidth || canvas.height !== backingHeight) {
+        canvas.width = backingWidth;
+        canvas.height = backingHeight;
+      }
+
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      drawRef.current(ctx, { width, height });
+    });
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      sizeRef.current = { width: entry.contentRect.width, height: entry.contentRect.height };
+      requestDraw();
+    });
+    observer.observe(canvas);
+
+    return () => {
+      observer.disconnect();
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [requestDraw]);
+
+  // Any re-render may have changed what `draw` closes over
+  useEffect(() => {
+    requestDraw();
+  });
+
+  return { canvasRef, requestDraw };
+}
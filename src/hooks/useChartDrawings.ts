@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toSymbolId } from '@/services/exchange-adapter';
+import { ChartDrawing, drawingTypes } from '@/utils/chart-drawings';
+
+const STORAGE_PREFIX = 'financial-calendar-drawings';
+
+const storageKey = (symbol: string, interval: string) => `${STORAGE_PREFIX}:${toSymbolId(symbol)}:${interval}`;
+
+const loadDrawings = (key: string): ChartDrawing[] => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return [];
+  try {
+    const parsed: ChartDrawing[] = JSON.parse(stored);
+    return parsed.filter(drawing =>
+      drawing && drawingTypes[drawing.type] && Array.isArray(drawing.points) &&
+      drawing.points.length === drawingTypes[drawing.type].points &&
+      drawing.points.every(point => Number.isFinite(point?.time) && Number.isFinite(point?.price))
+    );
+  } catch {
+    // Invalid stored data, start empty
+    return [];
+  }
+};
+
+// Chart annotations for a symbol and interval, saved to localStorage whenever they change
+export function useChartDrawings(symbol: string, interval: string) {
+  const key = storageKey(symbol, interval);
+  const [state, setState] = useState<{ key?: string; drawings: ChartDrawing[] }>({ drawings: [] });
+
+  useEffect(() => {
+    setState({ key, drawings: loadDrawings(key) });
+  }, [key]);
+
+  const change = useCallback((update: (drawings: ChartDrawing[]) => ChartDrawing[]) => {
+    setState(prev => {
+      const drawings = update(prev.drawings);
+      if (prev.key) localStorage.setItem(prev.key, JSON.stringify(drawings));
+      return { ...prev, drawings };
+    });
+  }, []);
+
+  const add = useCallback((drawing: ChartDrawing) => {
+    change(drawings => [...drawings, drawing]);
+  }, [change]);
+
+  const update = useCallback((id: string, patch: Partial<Omit<ChartDrawing, 'id' | 'type'>>) => {
+    change(drawings => drawings.map(drawing => drawing.id === id ? { ...drawing, ...patch } : drawing));
+  }, [change]);
+
+  const remove = useCallback((id: string) => {
+    change(drawings => drawings.filter(drawing => drawing.id !== id));
+  }, [change]);
+
+  const clear = useCallback(() => change(() => []), [change]);
+
+  return {
+    drawings: state.key === key ? state.drawings : [],
+    add,
+    update,
+    remove,
+    clear
+  };
+}
@@ -0,0 +1,33 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { candleStore } from '@/services/candle-store';
+import { intervalToMs } from '@/services/exchange-adapter';
+import { TimeInterval } from '@/components/ui/chart-controls';
+
+// Chart selector -> app-wide interval name; adapters map these to each venue's granularity
+const CHART_INTERVALS: Record<TimeInterval, string> = {
+  '1m': '1min',
+  '5m': '5min',
+  '15m': '15min',
+  '1h': '1hour',
+  '4h': '4hour',
+  '1d': '1day',
+  '1w': '1week'
+};
+
+export function useChartKlines(symbol: string, timeInterval: TimeInterval, count: number = 200) {
+  const interval = CHART_INTERVALS[timeInterval];
+  const intervalMs = intervalToMs(interval);
+
+  const { data: klines = [], isLoading, isPlaceholderData, isError, refetch } = useQuery({
+    queryKey: ['chart-klines', symbol, interval, count],
+    queryFn: () => {
+      const end = Date.now();
+      return candleStore.getCandles(symbol, interval, end - count * intervalMs, end);
+    },
+    // Keep the old candles on screen while another interval loads
+    placeholderData: keepPreviousData,
+    refetchInterval: 60000, // Keeps the forming candle current
+  });
+
+  return { klines, interval, isLoading, isPlaceholderData, isError, refetch };
+}
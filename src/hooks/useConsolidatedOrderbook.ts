@@ -0,0 +1,32 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiManager } from '@/services/api-manager';
+import { symbolCatalogue } from '@/services/symbol-catalogue';
+import { splitSymbol } from '@/services/exchange-adapter';
+import { consolidateOrderbooks, venueColor } from '@/utils/consolidated-orderbook';
+
+// Books from every reachable venue merged into one; only polled while a consolidated view is open.
+// Each book carries the quote of the listing the venue was asked for, which can be a USD stand-in.
+export function useConsolidatedOrderbook(symbol: string, enabled: boolean) {
+  const { data: books = [], isLoading, isError, refetch } = useQuery({
+    queryKey: ['consolidated-orderbook', symbol],
+    queryFn: () => apiManager.getVenueOrderbooks(symbol),
+    enabled,
+    refetchInterval: 5000,
+  });
+
+  const consolidated = useMemo(() => books.length ? consolidateOrderbooks(books.map(book => {
+    const listing = symbolCatalogue.getListing(book.source, symbol);
+    return {
+      venue: book.source,
+      name: apiManager.getAdapter(book.source)?.name ?? book.source,
+      color: venueColor(apiManager.getAvailableSources().indexOf(book.source)),
+      quote: listing?.quote ?? splitSymbol(symbol).quote,
+      bids: book.bids,
+      asks: book.asks,
+      tickSize: listing?.tickSize
+    };
+  })) : null, [books, symbol]);
+
+  return { consolidated, isLoading: enabled && isLoading, isError, refetch };
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toSymbolId } from '@/services/exchange-adapter';
+import {
+  IndicatorInstance,
+  createIndicatorInstance,
+  defaultIndicatorParams,
+  getChartIndicator
+} from '@/utils/chart-indicators';
+
+const STORAGE_PREFIX = 'financial-calendar-indicators';
+
+const storageKey = (symbol: string) => `${STORAGE_PREFIX}:${toSymbolId(symbol)}`;
+
+// Stored configurations may predate an indicator's parameters, or name one that no longer exists
+const loadInstances = (symbol: string): IndicatorInstance[] => {
+  const stored = localStorage.getItem(storageKey(symbol));
+  if (!stored) return [];
+  try {
+    const parsed: IndicatorInstance[] = JSON.parse(stored);
+    return parsed.flatMap(instance => {
+      const definition = getChartIndicator(instance?.type);
+      if (!definition || typeof instance.id !== 'string') return [];
+      return [{
+        id: instance.id,
+        type: instance.type,
+        params: { ...defaultIndicatorParams(definition), ...instance.params },
+        colors: { ...instance.colors },
+        visible: instance.visible !== false
+      }];
+    });
+  } catch {
+    // Invalid stored data, start empty
+    return [];
+  }
+};
+
+// The chart's indicator instances for a symbol, saved to localStorage whenever they change
+export function useIndicatorInstances(symbol: string) {
+  const [state, setState] = useState<{ symbol?: string; instances: IndicatorInstance[] }>({ instances: [] });
+
+  useEffect(() => {
+    setState({ symbol, instances: loadInstances(symbol) });
+  }, [symbol]);
+
+  const change = useCallback((update: (instances: IndicatorInstance[]) => IndicatorInstance[]) => {
+    setState(prev => {
+      const instances = update(prev.instances);
+      if (prev.symbol) localStorage.setItem(storageKey(prev.symbol), JSON.stringify(instances));
+      return { ...prev, instances };
+    });
+  }, []);
+
+  const add = useCallback((type: string) => {
+    change(instances => [...instances, createIndicatorInstance(type)]);
+  }, [change]);
+
+  const update = useCallback((id: string, patch: Partial<Omit<IndicatorInstance, 'id' | 'type'>>) => {
+    change(instances => instances.map(instance => instance.id === id ? { ...instance, ...patch } : instance));
+  }, [change]);
+
+  const remove = useCallback((id: string) => {
+    change(instances => instances.filter(instance => instance.id !== id));
+  }, [change]);
+
+  return {
+    // Nothing is shown for the previous symbol while the next one loads
+    instances: state.symbol === symbol ? state.instances : [],
+    add,
+    update,
+    remove
+  };
+}
@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react';
+import { enhancedWebSocketService } from '@/services/enhanced-websocket';
+import { tradeStreamService } from '@/services/trade-stream';
+import { alignToInterval, toSymbolId } from '@/services/exchange-adapter';
+import { PriceBar } from '@/utils/technicalIndicators';
+import { Orderbook, Trade } from '@/types/api';
+
+const PUBLISH_THROTTLE_MS = 250;
+
+// What moves the forming candle: the order book mid, or executed trades
+export type LiveCandleSource = 'book' | 'trades';
+
+interface LiveState {
+  base?: PriceBar; // fetched candle the live bars continue from
+  bars: PriceBar[];
+}
+
+// Folds one price (and any traded size) into the candle open at `time`, opening a new one when the
+// interval has rolled over. Ticks for a candle older than the forming one are dropped.
+const applyTick = (state: LiveState, base: PriceBar, interval: string, time: number, price: number, volume: number): LiveState => {
+  if (state.base !== base) state = { base, bars: [] };
+  const forming = state.bars[state.bars.length - 1] ?? base;
+  const openTime = alignToInterval(time, interval);
+  if (openTime < forming.time) return state;
+
+  if (openTime > forming.time) {
+    return { base, bars: [...state.bars, { time: openTime, open: price, high: price, low: price, close: price, volume }] };
+  }
+  const revised = {
+    time: forming.time,
+    open: forming.open,
+    high: Math.max(forming.high, price),
+    low: Math.min(forming.low, price),
+    close: price,
+    volume: forming.volume + volume
+  };
+  return { base, bars: [...state.bars.slice(0, -1), revised] };
+};
+
+// Candles kept current between REST refreshes: each tick revises the forming candle and opens new ones
+// as intervals roll over. Returns the bars from `latest` on (a revision of it first, if its interval is
+// still open); empty until the first tick, and again whenever a fetch replaces `latest`.
+// From the book, the mid price drives the candle; the book carries no volume, so live bars keep the
+// fetched volume and bars opened live start at 0. From trades, each print's price and size are applied
+// at its own timestamp, so live bars also accumulate volume on top of the fetched figure.
+// Simulated books and trades are ignored so they can't skew real candles.
+export function useLiveCandles(symbol: string, interval: string, latest: PriceBar | undefined, source: LiveCandleSource = 'book'): PriceBar[] {
+  const [live, setLive] = useState<LiveState>({ bars: [] });
+  const latestRef = useRef(latest);
+
+  useEffect(() => {
+    latestRef.current = latest;
+  }, [latest]);
+
+  useEffect(() => {
+    let state: LiveState = { bars: [] };
+    let lastPublished = 0;
+    let trailingPublish: NodeJS.Timeout | null = null;
+    setLive(state);
+
+    // Throttled, with a trailing publish so the last tick of a burst still reaches the chart
+    const publish = () => {
+      const wait = PUBLISH_THROTTLE_MS - (Date.now() - lastPublished);
+      if (wait <= 0) {
+        lastPublished = Date.now();
+        setLive(state);
+      } else if (!trailingPublish) {
+        trailingPublish = setTimeout(() => {
+          trailingPublish = null;
+          lastPublished = Date.now();
+          setLive(state);
+        }, wait);
+      }
+    };
+
+    const unsubscribe = source === 'trades'
+      ? tradeStreamService.subscribe('trades', (trades: Trade[]) => {
+        const base = latestRef.current;
+        if (!base || tradeStreamService.getIsUsingMockData()) return;
+        trades
+          .filter(trade => toSymbolId(trade.symbol) === toSymbolId(symbol))
+          .sort((a, b) => a.time - b.time)
+          .forEach(trade => {
+            state = applyTick(state, base, interval, trade.time, trade.price, trade.quantity);
+          });
+        publish();
+      })
+      : enhancedWebSocketService.subscribe('orderbook', (book: Orderbook) => {
+        const base = latestRef.current;
+        if (!base || enhancedWebSocketService.getIsUsingMockData()) return;
+        if (toSymbolId(book.symbol) !== toSymbolId(symbol)) return;
+
+        const bid = parseFloat(book.bids[0]?.price);
+        const ask = parseFloat(book.asks[0]?.price);
+        if (!(bid > 0 && ask > 0)) return;
+
+        state = applyTick(state, base, interval, Date.now(), (bid + ask) / 2, 0);
+        publish();
+      });
+
+    return () => {
+      unsubscribe();
+      if (trailingPublish) clearTimeout(trailingPublish);
+    };
+  }, [symbol, interval, source]);
+
+  return live.base === latest ? live.bars : [];
+}
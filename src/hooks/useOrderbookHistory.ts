@@ -0,0 +1,37 @@
+import { useEffect, useRef, useState } from 'react';
+import { enhancedWebSocketService } from '@/services/enhanced-websocket';
+import { toSymbolId } from '@/services/exchange-adapter';
+import { Orderbook } from '@/types/api';
+import { OrderbookHistory } from '@/utils/orderbook-history';
+
+// Re-render at most this often; the stream itself publishes every 100ms
+const REVISION_INTERVAL_MS = 500;
+
+// Buffers the streamed order book for the symbol from the moment it mounts. `revision` changes as
+// snapshots arrive, so consumers know to redraw; the buffer itself is mutated in place.
+export function useOrderbookHistory(symbol: string) {
+  const historyRef = useRef(new OrderbookHistory());
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    const history = historyRef.current;
+    history.clear();
+    setRevision(0);
+
+    let lastRevision = 0;
+    const unsubscribe = enhancedWebSocketService.subscribe('orderbook', (book: Orderbook) => {
+      // The stream can still deliver the previous symbol's book right after a switch
+      if (!book || toSymbolId(book.symbol) !== toSymbolId(symbol)) return;
+      const now = Date.now();
+      history.push(book, now);
+      if (now - lastRevision >= REVISION_INTERVAL_MS) {
+        lastRevision = now;
+        setRevision(now);
+      }
+    });
+
+    return unsubscribe;
+  }, [symbol]);
+
+  return { history: historyRef.current, revision };
+}
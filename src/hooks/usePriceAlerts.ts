@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { Orderbook, Ticker24h } from '@/types/api';
+import { toSymbolId } from '@/services/exchange-adapter';
+import { AlertEvent, AlertRule, PriceAlertEngine, alertRuleTypes, toMarketSample } from '@/utils/price-alerts';
+
+const RULES_KEY = 'financial-calendar-alerts';
+const HISTORY_KEY = 'financial-calendar-alert-history';
+const MAX_HISTORY = 100;
+
+const load = <T>(key: string): T[] => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    // Invalid stored data, start empty
+    return [];
+  }
+};
+
+export type NotificationState = NotificationPermission | 'unsupported';
+
+const notificationState = (): NotificationState =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+const notify = (event: AlertEvent) => {
+  toast({ title: `Alert: ${event.symbol}`, description: event.message });
+  if (notificationState() === 'granted') {
+    new Notification(`Alert: ${event.symbol}`, { body: event.message, tag: event.ruleId });
+  }
+};
+
+// Price alert rules evaluated against the dashboard's ticker and order book. Rules and the trigger
+// history survive reloads; triggers raise a toast and, once permitted, a browser notification.
+// Simulated books are ignored so they can't fire alerts; the ticker still drives price rules then.
+export function usePriceAlerts(symbol: string, ticker: Ticker24h | undefined, orderbook: Orderbook | null, simulated = false) {
+  const [rules, setRules] = useState<AlertRule[]>(() => load<AlertRule>(RULES_KEY)
+    .filter(rule => alertRuleTypes[rule?.type] && Number.isFinite(rule.threshold)));
+  const [history, setHistory] = useState<AlertEvent[]>(() => load<AlertEvent>(HISTORY_KEY));
+  const [permission, setPermission] = useState<NotificationState>(notificationState);
+  const engineRef = useRef<PriceAlertEngine | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+  }, [rules]);
+
+  useEffect(() => {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  }, [history]);
+
+  // Windows and armed state belong to one symbol's data
+  useEffect(() => {
+    engineRef.current = new PriceAlertEngine(symbol);
+  }, [symbol]);
+
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    // Data can still belong to the previous symbol right after a switch
+    const matches = (other?: string) => !!other && toSymbolId(other) === toSymbolId(symbol);
+    const book = !simulated && matches(orderbook?.symbol) ? orderbook : null;
+    const sample = toMarketSample(matches(ticker?.symbol) ? ticker : undefined, book);
+    if (!sample) return;
+    engine.push(sample);
+    const events = engine.evaluate(rules);
+    if (!events.length) return;
+
+    events.forEach(notify);
+    setHistory(prev => [...events.reverse(), ...prev].slice(0, MAX_HISTORY));
+  }, [symbol, ticker, orderbook, simulated, rules]);
+
+  const addRule = useCallback((rule: AlertRule) => setRules(prev => [...prev, rule]), []);
+
+  const updateRule = useCallback((id: string, patch: Partial<Omit<AlertRule, 'id'>>) => {
+    setRules(prev => prev.map(rule => rule.id === id ? { ...rule, ...patch } : rule));
+  }, []);
+
+  const removeRule = useCallback((id: string) => setRules(prev => prev.filter(rule => rule.id !== id)), []);
+
+  const clearHistory = useCallback(() => setHistory([]), []);
+
+  const requestPermission = useCallback(async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  }, []);
+
+  return { rules, history, permission, addRule, updateRule, removeRule, clearHistory, requestPermission };
+}
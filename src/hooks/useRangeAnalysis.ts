@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { calendarDataService, toCalendarDays, toDayKey } from '@/services/calendar-data-service';
+import { klinesToFinancialData } from '@/services/exchange-adapter';
+import { calculateRangeStats } from '@/utils/range-analysis';
+import { FilterOptions, filterDays } from '@/utils/calendar-filters';
+
+export function useRangeAnalysis(symbol: string, start: Date | null, end: Date | null, filters?: FilterOptions) {
+  const enabled = !!start && !!end;
+
+  // Klines for exactly the selected window, so liquidity is relative to this range only
+  const { data: days = [], isLoading, isError, refetch } = useQuery({
+    queryKey: ['range-analysis', symbol, start ? toDayKey(start) : null, end ? toDayKey(end) : null],
+    queryFn: async () => toCalendarDays(klinesToFinancialData(await calendarDataService.loadKlines(symbol, start!, end!))),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const stats = useMemo(
+    () => days.length ? calculateRangeStats(days, filterDays(days, filters)) : null,
+    [days, filters]
+  );
+
+  return {
+    stats,
+    totalDays: days.length,
+    isLoading: enabled && isLoading,
+    isError,
+    refetch
+  };
+}
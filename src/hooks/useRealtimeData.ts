@@ -2,13 +2,19 @@ import { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { apiManager, APISource } from '@/services/api-manager';
 import { enhancedWebSocketService } from '@/services/enhanced-websocket';
-import { Orderbook, Ticker24h, FinancialData, WebSocketOrderbook } from '@/types/api';
+import { candleStore } from '@/services/candle-store';
+import { DEFAULT_SYMBOL } from '@/services/symbol-catalogue';
+import { Orderbook, Ticker24h, FinancialData, WebSocketOrderbook, StreamConnectionEvent } from '@/types/api';
 
-export function useRealtimeData(symbol: string = 'BTCUSDT', onSourceChange?: (source: string) => void) {
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function useRealtimeData(symbol: string = DEFAULT_SYMBOL, onSourceChange?: (source: string) => void) {
   const [orderbook, setOrderbook] = useState<Orderbook | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected' | 'error'>('disconnected');
   const [financialData, setFinancialData] = useState<FinancialData[]>([]);
   const [apiSource, setApiSource] = useState<APISource>('coinbase');
+  const [streamMode, setStreamMode] = useState<StreamConnectionEvent['mode']>('live');
+  const [streamFallbackReason, setStreamFallbackReason] = useState<string | null>(null);
 
   // Manual source switching
   const switchSource = async (source: string) => {
@@ -40,9 +46,9 @@ export function useRealtimeData(symbol: string = 'BTCUSDT', onSourceChange?: (so
   const { data: klines, isLoading: klinesLoading, refetch: refetchKlines } = useQuery({
     queryKey: ['klines', symbol, apiSource],
     queryFn: async () => {
-      const result = await apiManager.getKlines(symbol, '1day', 30);
-      setApiSource(result.source);
-      return result;
+      // Last 30 daily candles; older ones come from the local candle store
+      const end = Date.now();
+      return candleStore.getCandles(symbol, '1day', end - 30 * DAY_MS, end);
     },
     refetchInterval: 60000, // Refetch every minute
   });
@@ -61,49 +67,48 @@ export function useRealtimeData(symbol: string = 'BTCUSDT', onSourceChange?: (so
   // WebSocket connection for real-time orderbook
   useEffect(() => {
     let mounted = true;
-    let unsubscribeFunction: (() => void) | null = null;
+    const unsubscribers: (() => void)[] = [];
 
     const connectWebSocket = async () => {
       if (!mounted) return;
-      
-      try {
-        setConnectionStatus('connecting');
-        await enhancedWebSocketService.connect(symbol.toLowerCase());
-        
+
+      // Subscribe before connecting so the first snapshot and any mock fallback are not missed
+      unsubscribers.push(enhancedWebSocketService.subscribe('orderbook', (data: Orderbook) => {
         if (!mounted) return;
-        
-        setConnectionStatus('connected');
 
-        unsubscribeFunction = enhancedWebSocketService.subscribe('orderbook', (data: Orderbook) => {
-          if (!mounted) return;
-          
-          // Data is already in Orderbook format from enhanced service
-          setOrderbook(data);
-        });
+        // Data is already in Orderbook format from enhanced service
+        setOrderbook(data);
+      }));
 
+      unsubscribers.push(enhancedWebSocketService.subscribe('connection', (event: StreamConnectionEvent) => {
+        if (!mounted) return;
+
+        setConnectionStatus(event.status);
+        setStreamMode(event.mode);
+        setStreamFallbackReason(event.mode === 'mock' ? event.reason ?? null : null);
+      }));
+
+      try {
+        setConnectionStatus('connecting');
+        await enhancedWebSocketService.connect(symbol);
       } catch (error) {
         console.error('WebSocket connection failed:', error);
         if (mounted) {
           setConnectionStatus('error');
-          // Use initial orderbook as fallback
-          if (initialOrderbook) {
-            setOrderbook(initialOrderbook);
-          }
         }
       }
     };
 
     // Start connection attempt
+    setOrderbook(null);
     connectWebSocket();
 
     return () => {
       mounted = false;
-      if (unsubscribeFunction) {
-        unsubscribeFunction();
-      }
+      unsubscribers.forEach(unsubscribe => unsubscribe());
       enhancedWebSocketService.disconnect();
     };
-  }, [symbol, initialOrderbook]);
+  }, [symbol]);
 
   // Update connection status periodically
   useEffect(() => {
@@ -138,6 +143,8 @@ export function useRealtimeData(symbol: string = 'BTCUSDT', onSourceChange?: (so
     klines,
     financialData,
     connectionStatus,
+    streamMode,
+    streamFallbackReason,
     isLoading: tickerLoading || klinesLoading,
     symbol,
     apiSource,
@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { calendarDataService } from '@/services/calendar-data-service';
+import { calculateSeasonality } from '@/utils/seasonality';
+
+export function useSeasonality(symbol: string, years: number) {
+  const { data: history = [], isLoading, isError, refetch } = useQuery({
+    queryKey: ['seasonality', symbol, years],
+    queryFn: () => {
+      const end = new Date();
+      // Start on Jan 1st so the first year's months are complete
+      const start = new Date(end.getFullYear() - years + 1, 0, 1);
+      return calendarDataService.loadHistory(symbol, start, end);
+    },
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const stats = useMemo(() => calculateSeasonality(history), [history]);
+
+  return {
+    stats,
+    history,
+    isLoading,
+    isError,
+    refetch
+  };
+}
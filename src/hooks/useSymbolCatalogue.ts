@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { symbolCatalogue } from '@/services/symbol-catalogue';
+
+export function useSymbolCatalogue() {
+  const { data: symbols = symbolCatalogue.getSymbols(), isLoading } = useQuery({
+    queryKey: ['symbol-catalogue'],
+    queryFn: () => symbolCatalogue.load(),
+    // Listings change rarely; one load per session is plenty
+    staleTime: Infinity,
+  });
+
+  return {
+    symbols,
+    isLoading,
+    getSymbol: (symbol: string) => symbolCatalogue.get(symbol)
+  };
+}
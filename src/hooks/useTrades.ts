@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { tradeStreamService, tradeVenueFor } from '@/services/trade-stream';
+import { exchangeRegistry } from '@/services/exchanges';
+import { toSymbolId } from '@/services/exchange-adapter';
+import { StreamConnectionEvent, Trade } from '@/types/api';
+
+export const MAX_TAPE_TRADES = 200;
+// Busy markets print many times a second; the tape re-renders at most this often
+const PUBLISH_THROTTLE_MS = 250;
+
+// Connects the trade stream for the symbol on the given venue (or the default trade venue when it has
+// no feed) while enabled, and keeps the newest MAX_TAPE_TRADES prints, newest first.
+export function useTrades(symbol: string, source: string, enabled = true) {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [connection, setConnection] = useState<StreamConnectionEvent | null>(null);
+  const venue = tradeVenueFor(source);
+
+  useEffect(() => {
+    let buffer: Trade[] = [];
+    let publishTimeout: NodeJS.Timeout | null = null;
+    setTrades([]);
+    setConnection(null);
+    if (!enabled) return;
+
+    const unsubscribers = [
+      tradeStreamService.subscribe('trades', (batch: Trade[]) => {
+        const incoming = batch
+          .filter(trade => toSymbolId(trade.symbol) === toSymbolId(symbol))
+          .sort((a, b) => b.time - a.time);
+        if (!incoming.length) return;
+
+        buffer = [...incoming, ...buffer].slice(0, MAX_TAPE_TRADES);
+        if (!publishTimeout) {
+          publishTimeout = setTimeout(() => {
+            publishTimeout = null;
+            setTrades(buffer);
+          }, PUBLISH_THROTTLE_MS);
+        }
+      }),
+      tradeStreamService.subscribe('connection', (event: StreamConnectionEvent) => setConnection(event))
+    ];
+
+    tradeStreamService.connect(symbol, venue);
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      if (publishTimeout) clearTimeout(publishTimeout);
+      tradeStreamService.disconnect();
+    };
+  }, [symbol, venue, enabled]);
+
+  return {
+    trades,
+    venue,
+    venueName: exchangeRegistry.get(venue)?.name ?? venue,
+    isUsingMockData: connection?.mode === 'mock',
+    status: connection?.status ?? 'disconnected',
+    fallbackReason: connection?.mode === 'mock' ? connection.reason ?? null : null
+  };
+}
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { toast } from '@/hooks/use-toast';
+import { apiManager } from '@/services/api-manager';
+import { symbolCatalogue } from '@/services/symbol-catalogue';
+import { splitSymbol, toSymbolId } from '@/services/exchange-adapter';
+import { ConsolidatedVenue, venueColor } from '@/utils/consolidated-orderbook';
+import {
+  DivergenceSample,
+  DivergenceSnapshot,
+  DivergenceThresholds,
+  MAX_DIVERGENCE_SAMPLES,
+  defaultDivergenceThresholds,
+  divergenceBreaches,
+  divergenceSnapshot,
+  toDivergenceSample
+} from '@/utils/venue-divergence';
+
+const THRESHOLDS_KEY = 'financial-calendar-divergence-thresholds';
+const POLL_MS = 5000;
+
+const loadThresholds = (): DivergenceThresholds => {
+  const stored = localStorage.getItem(THRESHOLDS_KEY);
+  if (!stored) return defaultDivergenceThresholds;
+  try {
+    return { ...defaultDivergenceThresholds, ...JSON.parse(stored) };
+  } catch {
+    // Invalid stored data, start from the defaults
+    return defaultDivergenceThresholds;
+  }
+};
+
+// Polls every venue's ticker while enabled and keeps a rolling divergence history for the symbol.
+// Spread and latency alerts fire once when a threshold is crossed, not on every poll above it.
+export function useVenueDivergence(symbol: string, enabled: boolean) {
+  const [thresholds, setThresholds] = useState<DivergenceThresholds>(loadThresholds);
+  const [snapshot, setSnapshot] = useState<DivergenceSnapshot | null>(null);
+  const [history, setHistory] = useState<DivergenceSample[]>([]);
+  const activeBreachesRef = useRef(new Set<string>());
+  const processedAtRef = useRef(0);
+
+  useEffect(() => {
+    localStorage.setItem(THRESHOLDS_KEY, JSON.stringify(thresholds));
+  }, [thresholds]);
+
+  useEffect(() => {
+    setSnapshot(null);
+    setHistory([]);
+    activeBreachesRef.current = new Set();
+  }, [symbol]);
+
+  const { data: tickers, dataUpdatedAt, isLoading, isError } = useQuery({
+    queryKey: ['venue-tickers', symbol],
+    queryFn: () => apiManager.getVenueTickers(symbol),
+    enabled,
+    refetchInterval: POLL_MS,
+  });
+
+  // Each poll is processed once; a threshold change applies from the next poll
+  useEffect(() => {
+    if (!tickers || dataUpdatedAt === processedAtRef.current) return;
+    processedAtRef.current = dataUpdatedAt;
+    const requested = toSymbolId(symbol);
+    const next = divergenceSnapshot(tickers.map(ticker => {
+      // Venues without the exact pair answer with a USD stand-in listing
+      const listing = symbolCatalogue.getListing(ticker.source, symbol);
+      return {
+        venue: ticker.source,
+        name: apiManager.getAdapter(ticker.source)?.name ?? ticker.source,
+        pair: listing?.symbol ?? requested,
+        quote: listing?.quote ?? splitSymbol(requested).quote,
+        last: parseFloat(ticker.lastPrice),
+        bid: parseFloat(ticker.bidPrice),
+        ask: parseFloat(ticker.askPrice),
+        latency: ticker.responseTime
+      };
+    }), splitSymbol(requested).quote, dataUpdatedAt);
+    setSnapshot(next);
+    if (!next) return;
+    setHistory(prev => [...prev, toDivergenceSample(next)].slice(-MAX_DIVERGENCE_SAMPLES));
+
+    const breaches = divergenceBreaches(next, thresholds);
+    const active = new Set(breaches.map(breach => breach.key));
+    if (thresholds.enabled) {
+      breaches
+        .filter(breach => !activeBreachesRef.current.has(breach.key))
+        .forEach(breach => {
+          toast({ title: `Divergence: ${symbol}`, description: breach.message });
+          if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+            new Notification(`Divergence: ${symbol}`, { body: breach.message, tag: `divergence-${breach.key}` });
+          }
+        });
+    }
+    activeBreachesRef.current = active;
+  }, [symbol, tickers, dataUpdatedAt, thresholds]);
+
+  // Every registered venue, coloured as in the consolidated order book
+  const venues = useMemo<ConsolidatedVenue[]>(() => apiManager.getAvailableSources().map((id, index) => ({
+    id,
+    name: apiManager.getAdapter(id)?.name ?? id,
+    color: venueColor(index)
+  })), []);
+
+  const updateThresholds = useCallback((patch: Partial<DivergenceThresholds>) => {
+    setThresholds(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  return { snapshot, history, venues, thresholds, updateThresholds, isLoading: enabled && isLoading, isError };
+}
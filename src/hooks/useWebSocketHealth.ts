@@ -172,7 +172,7 @@ export function useWebSocketHealth(symbol?: string) {
     try {
       enhancedWebSocketService.disconnect();
       if (symbol) {
-        await enhancedWebSocketService.connect(symbol.toLowerCase());
+        await enhancedWebSocketService.connect(symbol);
         setMetrics(prev => ({ 
           ...prev, 
           reconnectCount: prev.reconnectCount + 1 
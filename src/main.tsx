@@ -1,5 +1,9 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { candleStore } from './services/candle-store'
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// Bring previously stored candle series up to date in the background
+candleStore.fillGaps().catch(error => console.warn('Candle store gap fill failed:', error));
@@ -1,37 +1,22 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState } from 'react';
 import { FinancialCalendar } from '@/components/financial-calendar';
 import { DataDashboard } from '@/components/data-dashboard';
 import { ThemeSelector } from '@/components/ui/theme-selector';
-
-// Mock data generator (same as in financial-calendar)
-const generateMockData = (date: Date) => {
-  const seed = date.getTime();
-  const random = (min: number, max: number) => {
-    const x = Math.sin(seed * 9.301) * 10000;
-    return min + (x - Math.floor(x)) * (max - min);
-  };
-  
-  const volatility = random(0, 1);
-  const performance = random(-0.15, 0.15);
-  const volume = random(1000000, 100000000);
-  
-  return {
-    volatility,
-    performance,
-    volume,
-    price: random(40000, 70000),
-    liquidity: random(0.1, 1),
-  };
-};
+import { useCalendarData } from '@/hooks/useCalendarData';
+import { DEFAULT_SYMBOL } from '@/services/symbol-catalogue';
+import { FilterOptions } from '@/utils/calendar-filters';
+import { TradeDayMark } from '@/utils/backtest';
 
 const Index = () => {
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [activeRange, setActiveRange] = useState<{ start: Date | null; end: Date | null }>({ start: null, end: null });
   const [viewType, setViewType] = useState<'day' | 'week' | 'month'>('month');
+  const [symbol, setSymbol] = useState(DEFAULT_SYMBOL);
+  const [filters, setFilters] = useState<FilterOptions | undefined>(undefined);
+  const [tradeDays, setTradeDays] = useState<Map<string, TradeDayMark> | null>(null);
   
-  const selectedData = useMemo(() => {
-    return selectedDate ? generateMockData(selectedDate) : null;
-  }, [selectedDate]);
+  const { getDayState } = useCalendarData(symbol, selectedDate, selectedDate);
+  const selectedData = selectedDate ? getDayState(selectedDate).data ?? null : null;
 
   return (
     <div className="min-h-screen bg-background">
@@ -50,6 +35,8 @@ const Index = () => {
           {/* Main Calendar */}
           <div className="animate-fade-in">
             <FinancialCalendar 
+              symbol={symbol}
+              onSymbolChange={setSymbol}
               onDateSelect={setSelectedDate} 
               selectedDate={selectedDate}
               onDateRangeChange={(range) => {
@@ -60,16 +47,22 @@ const Index = () => {
                 }
               }}
               onViewTypeChange={setViewType}
+              onFiltersChange={setFilters}
+              tradeDays={tradeDays ?? undefined}
             />
           </div>
           
           {/* Dashboard Panel */}
           <div className="animate-fade-in" style={{ animationDelay: '0.2s' }}>
             <DataDashboard 
+              symbol={symbol}
+              onSymbolChange={setSymbol}
               selectedDate={selectedDate} 
               data={selectedData} 
               dateRange={activeRange}
               viewType={viewType}
+              filters={filters}
+              onTradeDaysChange={setTradeDays}
             />
           </div>
         </div>
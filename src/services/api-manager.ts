@@ -1,12 +1,13 @@
 import { Orderbook, Ticker24h, Kline, FinancialData } from '@/types/api';
-import { coinbaseAPI } from './coinbase-api';
-import { okxAPI } from './okx-api';
-import { kucoinAPI } from './kucoin-api';
+import { ExchangeAdapter, klinesToFinancialData } from './exchange-adapter';
+import { exchangeRegistry } from './exchanges';
 import { mockDataService } from './mock-data-service';
+import { DEFAULT_SYMBOL, symbolCatalogue } from './symbol-catalogue';
 
-export type APISource = 'coinbase' | 'okx' | 'kucoin' | 'mock';
+// Any registered adapter id, or 'mock' for the built-in fallback
+export type APISource = string;
 
-interface APIHealth {
+export interface APIHealth {
   source: APISource;
   isHealthy: boolean;
   lastChecked: number;
@@ -15,6 +16,13 @@ interface APIHealth {
   consecutiveFailures: number;
 }
 
+// Per-venue results for views that compare venues side by side
+export type VenueOrderbookResult = Orderbook & { source: APISource };
+export type VenueTickerResult = Ticker24h & { source: APISource; responseTime?: number };
+
+// Unhealthy venues are left out of per-venue requests until this long after their last check
+const HEALTH_RECHECK_MS = 30 * 1000;
+
 interface RetryConfig {
   maxRetries: number;
   baseDelay: number;
@@ -24,8 +32,7 @@ interface RetryConfig {
 class APIManagerService {
   private static instance: APIManagerService;
   private apiHealth: Map<APISource, APIHealth> = new Map();
-  private preferredOrder: APISource[] = ['coinbase', 'okx', 'kucoin'];
-  private currentSource: APISource = 'coinbase';
+  private currentSource: APISource = exchangeRegistry.ids()[0] ?? 'mock';
   private fallbackToMock: boolean = false;
   private retryConfig: RetryConfig = {
     maxRetries: 3,
@@ -40,9 +47,14 @@ class APIManagerService {
     return APIManagerService.instance;
   }
 
-  constructor() {
-    // Initialize health tracking
-    this.preferredOrder.forEach(source => {
+  // Registered venues in failover order; read live so late registrations are picked up
+  private get preferredOrder(): APISource[] {
+    return exchangeRegistry.ids();
+  }
+
+  // Health entries are created lazily for adapters registered after startup
+  private getHealth(source: APISource): APIHealth {
+    if (!this.apiHealth.has(source)) {
       this.apiHealth.set(source, {
         source,
         isHealthy: true,
@@ -50,16 +62,16 @@ class APIManagerService {
         errorCount: 0,
         consecutiveFailures: 0
       });
-    });
+    }
+    return this.apiHealth.get(source)!;
   }
 
-  private getAPIService(source: APISource) {
-    switch (source) {
-      case 'coinbase': return coinbaseAPI;
-      case 'okx': return okxAPI;
-      case 'kucoin': return kucoinAPI;
-      default: return kucoinAPI; // fallback
+  private getAPIService(source: APISource): ExchangeAdapter {
+    const adapter = exchangeRegistry.get(source);
+    if (!adapter) {
+      throw new Error(`No exchange adapter registered for source: ${source}`);
     }
+    return adapter;
   }
 
   private async healthCheck(source: APISource): Promise<boolean> {
@@ -68,7 +80,7 @@ class APIManagerService {
       const api = this.getAPIService(source);
       
       // Simple health check with ticker request
-      await api.get24hTicker('BTCUSDT');
+      await api.get24hTicker(DEFAULT_SYMBOL);
       
       const responseTime = Date.now() - startTime;
       this.updateHealth(source, true, responseTime);
@@ -80,7 +92,7 @@ class APIManagerService {
   }
 
   private updateHealth(source: APISource, isHealthy: boolean, responseTime?: number) {
-    const health = this.apiHealth.get(source);
+    const health = this.getHealth(source);
     if (health) {
       health.isHealthy = isHealthy;
       health.lastChecked = Date.now();
@@ -96,8 +108,8 @@ class APIManagerService {
   }
 
   private checkAndEnableMockFallback() {
-    const allUnhealthy = Array.from(this.apiHealth.values()).every(
-      health => health.consecutiveFailures >= this.retryConfig.maxRetries
+    const allUnhealthy = this.preferredOrder.every(
+      source => this.getHealth(source).consecutiveFailures >= this.retryConfig.maxRetries
     );
     if (allUnhealthy && !this.fallbackToMock) {
       console.warn('All APIs failing, enabling mock data fallback');
@@ -109,13 +121,11 @@ class APIManagerService {
     operation: () => Promise<T>,
     source: APISource
   ): Promise<T> {
-    const health = this.apiHealth.get(source);
-    if (!health) throw new Error(`No health info for source: ${source}`);
-
     for (let attempt = 0; attempt < this.retryConfig.maxRetries; attempt++) {
       try {
+        const startTime = Date.now();
         const result = await operation();
-        this.updateHealth(source, true);
+        this.updateHealth(source, true, Date.now() - startTime);
         return result;
       } catch (error) {
         this.updateHealth(source, false);
@@ -134,7 +144,7 @@ class APIManagerService {
     throw new Error('Max retries exceeded');
   }
 
-  private getAPIForSource(source: APISource): { api: any; source: APISource } {
+  private getAPIForSource(source: APISource): { api: ExchangeAdapter; source: APISource } {
     this.currentSource = source;
     return { api: this.getAPIService(source), source };
   }
@@ -186,6 +196,49 @@ class APIManagerService {
     }
   }
 
+  // Venues that can answer for the pair: known not to list it or recently failed are skipped
+  private venuesFor(symbol: string, capability: 'orderbook' | 'ticker'): APISource[] {
+    return this.preferredOrder.filter(source => {
+      const adapter = exchangeRegistry.get(source);
+      const health = this.getHealth(source);
+      const listed = !symbolCatalogue.hasListings(source) || !!symbolCatalogue.getListing(source, symbol);
+      return adapter?.capabilities[capability] && listed &&
+        (health.isHealthy || Date.now() - health.lastChecked > HEALTH_RECHECK_MS);
+    });
+  }
+
+  // One request per venue at once, without retries or mock fallback. A venue that fails is left out
+  // and marked unhealthy until HEALTH_RECHECK_MS passes; the others record and return their response time.
+  private async fetchFromVenues<T>(sources: APISource[], request: (api: ExchangeAdapter) => Promise<T>) {
+    const results = await Promise.allSettled(sources.map(async source => {
+      const startTime = Date.now();
+      const value = await request(this.getAPIService(source));
+      const responseTime = Date.now() - startTime;
+      this.updateHealth(source, true, responseTime);
+      return { value, source, responseTime };
+    }));
+
+    return results.flatMap((result, index) => {
+      if (result.status === 'fulfilled') return [result.value];
+      this.updateHealth(sources[index], false);
+      return [];
+    });
+  }
+
+  // Books from every venue for the consolidated view
+  async getVenueOrderbooks(symbol: string, limit: number = 50): Promise<VenueOrderbookResult[]> {
+    if (this.fallbackToMock) return [];
+    const results = await this.fetchFromVenues(this.venuesFor(symbol, 'orderbook'), api => api.getOrderbook(symbol, limit));
+    return results.map(({ value, source }) => ({ ...value, source }));
+  }
+
+  // Tickers from every venue, each with the response time of its own request
+  async getVenueTickers(symbol: string): Promise<VenueTickerResult[]> {
+    if (this.fallbackToMock) return [];
+    const results = await this.fetchFromVenues(this.venuesFor(symbol, 'ticker'), api => api.get24hTicker(symbol));
+    return results.map(({ value, source, responseTime }) => ({ ...value, source, responseTime }));
+  }
+
   async get24hTicker(symbol: string): Promise<Ticker24h & { source: APISource }> {
     if (this.fallbackToMock) {
       const ticker = mockDataService.generate24hTicker(symbol);
@@ -206,9 +259,9 @@ class APIManagerService {
     }
   }
 
-  async getKlines(symbol: string, interval: string = '1day', limit: number = 30): Promise<Kline[] & { source: APISource }> {
+  async getKlines(symbol: string, interval: string = '1day', limit: number = 30, endTime?: number): Promise<Kline[] & { source: APISource }> {
     if (this.fallbackToMock) {
-      const klines = mockDataService.generateKlines(symbol, interval, limit);
+      const klines = mockDataService.generateKlines(symbol, interval, limit, endTime);
       const result = klines as Kline[] & { source: APISource };
       result.source = 'mock' as APISource;
       return result;
@@ -217,7 +270,7 @@ class APIManagerService {
     try {
       const { api, source } = this.getAPIForSource(this.currentSource);
       const klines = await this.retryWithExponentialBackoff(
-        () => api.getKlines(symbol, interval, limit),
+        () => api.getKlines(symbol, interval, limit, endTime),
         source
       );
       const result = klines as Kline[] & { source: APISource };
@@ -225,19 +278,30 @@ class APIManagerService {
       return result;
     } catch (error) {
       console.warn(`Klines API failed, falling back to mock data:`, error);
-      const klines = mockDataService.generateKlines(symbol, interval, limit);
+      const klines = mockDataService.generateKlines(symbol, interval, limit, endTime);
       const result = klines as Kline[] & { source: APISource };
       result.source = 'mock' as APISource;
       return result;
     }
   }
 
+  // Klines are already normalised by the adapters, so one transform serves every venue
   transformToFinancialData(ticker: Ticker24h, klines: Kline[]): FinancialData[] {
-    if (this.fallbackToMock) {
-      return mockDataService.transformToFinancialData(ticker, klines);
-    }
-    const api = this.getAPIService(this.currentSource);
-    return api.transformToFinancialData(ticker, klines);
+    return klinesToFinancialData(klines);
+  }
+
+  getAdapter(source: APISource = this.currentSource): ExchangeAdapter | undefined {
+    return exchangeRegistry.get(source);
+  }
+
+  getAvailableSources(): APISource[] {
+    return this.preferredOrder;
+  }
+
+  // Page size for historical kline loops; mock data has no limit worth respecting
+  getMaxKlinesPerRequest(): number {
+    if (this.fallbackToMock) return 1000;
+    return this.getAdapter()?.capabilities.maxKlinesPerRequest ?? 300;
   }
 
   getCurrentSource(): APISource {
@@ -245,7 +309,7 @@ class APIManagerService {
   }
 
   getAPIHealth(): APIHealth[] {
-    return Array.from(this.apiHealth.values());
+    return this.preferredOrder.map(source => this.getHealth(source));
   }
 
   async switchToAPI(source: APISource): Promise<boolean> {
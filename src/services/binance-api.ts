@@ -1,10 +1,43 @@
-import { Orderbook, Ticker24h, Kline, FinancialData } from '@/types/api';
+import { Orderbook, Ticker24h, Kline, BinanceSymbolInfo } from '@/types/api';
+import { ExchangeAdapter, ExchangeCapabilities, ExchangeSymbol, assertOk, splitSymbol, joinSymbol } from './exchange-adapter';
+import { exchangeEndpoints } from './exchange-endpoints';
+import { symbolCatalogue, DEFAULT_SYMBOL } from './symbol-catalogue';
 
-const BINANCE_BASE_URL = 'https://api.binance.com/api/v3';
+// App interval -> Binance `interval`
+const BINANCE_INTERVALS: Record<string, string> = {
+  '1min': '1m',
+  '5min': '5m',
+  '15min': '15m',
+  '30min': '30m',
+  '1hour': '1h',
+  '4hour': '4h',
+  '1day': '1d',
+  '1week': '1w'
+};
 
-export class BinanceAPIService {
+export class BinanceAPIService implements ExchangeAdapter {
   private static instance: BinanceAPIService;
 
+  readonly id = 'binance';
+  readonly name = 'Binance';
+  readonly capabilities: ExchangeCapabilities = {
+    orderbook: true,
+    ticker: true,
+    klines: true,
+    historicalKlines: true,
+    symbolListing: true,
+    websocket: true,
+    maxKlinesPerRequest: 1000
+  };
+
+  get baseURL(): string {
+    return exchangeEndpoints.get(this.id).rest;
+  }
+
+  set baseURL(url: string) {
+    exchangeEndpoints.set(this.id, { rest: url });
+  }
+
   static getInstance(): BinanceAPIService {
     if (!BinanceAPIService.instance) {
       BinanceAPIService.instance = new BinanceAPIService();
@@ -12,170 +45,87 @@ export class BinanceAPIService {
     return BinanceAPIService.instance;
   }
 
-  async getOrderbook(symbol: string = 'BTCUSDT', limit: number = 20): Promise<Orderbook> {
-    try {
-      const response = await fetch(`${BINANCE_BASE_URL}/depth?symbol=${symbol}&limit=${limit}`);
-      if (!response.ok) throw new Error('Failed to fetch orderbook');
-      
-      const data = await response.json();
-      return {
-        symbol,
-        bids: data.bids.map(([price, quantity]: [string, string]) => ({ price, quantity })),
-        asks: data.asks.map(([price, quantity]: [string, string]) => ({ price, quantity })),
-        lastUpdateId: data.lastUpdateId
-      };
-    } catch (error) {
-      console.error('Error fetching orderbook:', error);
-      // Fallback to mock data
-      return this.getMockOrderbook(symbol);
-    }
+  formatSymbol(symbol: string): string {
+    const listed = symbolCatalogue.getExchangeSymbol(this.id, symbol);
+    if (listed) return listed;
+
+    // Before exchange info loads: BTC/USDT -> BTCUSDT, with USD mapped to USDT
+    const { base, quote } = splitSymbol(symbol);
+    return joinSymbol(base, quote === 'USD' ? 'USDT' : quote);
   }
 
-  async get24hTicker(symbol: string = 'BTCUSDT'): Promise<Ticker24h> {
-    try {
-      const response = await fetch(`${BINANCE_BASE_URL}/ticker/24hr?symbol=${symbol}`);
-      if (!response.ok) throw new Error('Failed to fetch 24h ticker');
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching 24h ticker:', error);
-      // Fallback to mock data
-      return this.getMock24hTicker(symbol);
-    }
+  async getOrderbook(symbol: string = DEFAULT_SYMBOL, limit: number = 20): Promise<Orderbook> {
+    const response = await fetch(`${this.baseURL}/depth?symbol=${this.formatSymbol(symbol)}&limit=${limit}`);
+    assertOk(response, 'Binance orderbook fetch failed');
+
+    const data = await response.json();
+    return {
+      symbol,
+      bids: data.bids.map(([price, quantity]: [string, string]) => ({ price, quantity })),
+      asks: data.asks.map(([price, quantity]: [string, string]) => ({ price, quantity })),
+      lastUpdateId: data.lastUpdateId
+    };
+  }
+
+  async get24hTicker(symbol: string = DEFAULT_SYMBOL): Promise<Ticker24h> {
+    const response = await fetch(`${this.baseURL}/ticker/24hr?symbol=${this.formatSymbol(symbol)}`);
+    assertOk(response, 'Binance 24h ticker fetch failed');
+
+    return await response.json();
   }
 
   async getKlines(
-    symbol: string = 'BTCUSDT',
-    interval: string = '1d',
-    limit: number = 30
+    symbol: string = DEFAULT_SYMBOL,
+    interval: string = '1day',
+    limit: number = 30,
+    endTime?: number
   ): Promise<Kline[]> {
-    try {
-      const response = await fetch(
-        `${BINANCE_BASE_URL}/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`
-      );
-      if (!response.ok) throw new Error('Failed to fetch klines');
-      
-      const data = await response.json();
-      return data.map((k: any[]) => ({
-        openTime: k[0],
-        open: k[1],
-        high: k[2],
-        low: k[3],
-        close: k[4],
-        volume: k[5],
-        closeTime: k[6],
-        quoteAssetVolume: k[7],
-        numberOfTrades: k[8],
-        takerBuyBaseAssetVolume: k[9],
-        takerBuyQuoteAssetVolume: k[10]
-      }));
-    } catch (error) {
-      console.error('Error fetching klines:', error);
-      // Fallback to mock data
-      return this.getMockKlines(limit);
+    const binanceInterval = BINANCE_INTERVALS[interval];
+    if (!binanceInterval) {
+      throw new Error(`Binance does not support ${interval} candles`);
     }
-  }
 
-  transformToFinancialData(ticker: Ticker24h, klines: Kline[]): FinancialData[] {
-    return klines.map((kline, index) => {
-      const date = new Date(kline.openTime);
-      const open = parseFloat(kline.open);
-      const close = parseFloat(kline.close);
-      const high = parseFloat(kline.high);
-      const low = parseFloat(kline.low);
-      const volume = parseFloat(kline.volume);
-
-      // Calculate volatility as percentage difference between high and low
-      const volatility = ((high - low) / open) * 100;
-      
-      // Calculate performance as percentage change
-      const performance = ((close - open) / open) * 100;
-      
-      // Normalize liquidity based on volume (simple normalization)
-      const liquidity = Math.min(volume / 1000, 100);
-
-      return {
-        date,
-        volatility: Math.abs(volatility),
-        performance,
-        volume,
-        price: close,
-        liquidity,
-        high,
-        low,
-        open,
-        close
-      };
-    });
-  }
+    const end = endTime ? `&endTime=${endTime}` : '';
+    const response = await fetch(
+      `${this.baseURL}/klines?symbol=${this.formatSymbol(symbol)}&interval=${binanceInterval}&limit=${limit}${end}`
+    );
+    assertOk(response, 'Binance klines fetch failed');
 
-  // Mock data fallbacks
-  private getMockOrderbook(symbol: string): Orderbook {
-    const basePrice = 45000;
-    const bids = Array.from({ length: 10 }, (_, i) => ({
-      price: (basePrice - (i + 1) * 10).toString(),
-      quantity: (Math.random() * 5 + 0.1).toFixed(4)
-    }));
-    const asks = Array.from({ length: 10 }, (_, i) => ({
-      price: (basePrice + (i + 1) * 10).toString(),
-      quantity: (Math.random() * 5 + 0.1).toFixed(4)
+    const data = await response.json();
+    return data.map((k: any[]) => ({
+      openTime: k[0],
+      open: k[1],
+      high: k[2],
+      low: k[3],
+      close: k[4],
+      volume: k[5],
+      closeTime: k[6],
+      quoteAssetVolume: k[7],
+      numberOfTrades: k[8],
+      takerBuyBaseAssetVolume: k[9],
+      takerBuyQuoteAssetVolume: k[10]
     }));
-
-    return { symbol, bids, asks, lastUpdateId: Date.now() };
   }
 
-  private getMock24hTicker(symbol: string): Ticker24h {
-    const price = 45000 + (Math.random() - 0.5) * 1000;
-    const change = (Math.random() - 0.5) * 5;
-    
-    return {
-      symbol,
-      priceChange: change.toFixed(2),
-      priceChangePercent: (change / price * 100).toFixed(2),
-      weightedAvgPrice: price.toFixed(2),
-      prevClosePrice: (price - change).toFixed(2),
-      lastPrice: price.toFixed(2),
-      bidPrice: (price - 5).toFixed(2),
-      askPrice: (price + 5).toFixed(2),
-      openPrice: (price - change).toFixed(2),
-      highPrice: (price + Math.abs(change) * 2).toFixed(2),
-      lowPrice: (price - Math.abs(change) * 2).toFixed(2),
-      volume: (Math.random() * 10000 + 1000).toFixed(2),
-      quoteVolume: (Math.random() * 500000000 + 100000000).toFixed(2),
-      openTime: Date.now() - 24 * 60 * 60 * 1000,
-      closeTime: Date.now(),
-      count: Math.floor(Math.random() * 100000 + 50000)
-    };
-  }
+  async listSymbols(): Promise<ExchangeSymbol[]> {
+    const response = await fetch(`${this.baseURL}/exchangeInfo`);
+    assertOk(response, 'Binance exchange info fetch failed');
 
-  private getMockKlines(limit: number): Kline[] {
-    const now = Date.now();
-    return Array.from({ length: limit }, (_, i) => {
-      const time = now - (limit - i - 1) * 24 * 60 * 60 * 1000;
-      const basePrice = 45000 + (Math.random() - 0.5) * 5000;
-      const volatility = Math.random() * 0.05; // 5% max daily volatility
-      
-      const open = basePrice;
-      const close = open * (1 + (Math.random() - 0.5) * volatility);
-      const high = Math.max(open, close) * (1 + Math.random() * 0.02);
-      const low = Math.min(open, close) * (1 - Math.random() * 0.02);
-      const volume = Math.random() * 10000 + 1000;
-
-      return {
-        openTime: time,
-        open: open.toFixed(2),
-        high: high.toFixed(2),
-        low: low.toFixed(2),
-        close: close.toFixed(2),
-        volume: volume.toFixed(2),
-        closeTime: time + 24 * 60 * 60 * 1000 - 1,
-        quoteAssetVolume: (volume * close).toFixed(2),
-        numberOfTrades: Math.floor(Math.random() * 10000 + 1000),
-        takerBuyBaseAssetVolume: (volume * 0.6).toFixed(2),
-        takerBuyQuoteAssetVolume: (volume * close * 0.6).toFixed(2)
-      };
-    });
+    const data = await response.json();
+    return (data.symbols as BinanceSymbolInfo[])
+      .filter(market => market.status === 'TRADING')
+      .map(market => {
+        const filter = (type: string) => market.filters.find(f => f.filterType === type);
+        return {
+          symbol: joinSymbol(market.baseAsset, market.quoteAsset, '/'),
+          exchangeSymbol: market.symbol,
+          base: market.baseAsset,
+          quote: market.quoteAsset,
+          tickSize: parseFloat(filter('PRICE_FILTER')?.tickSize ?? '0.01'),
+          lotSize: parseFloat(filter('LOT_SIZE')?.stepSize ?? '0.00001')
+        };
+      });
   }
 }
 
-export const binanceAPI = BinanceAPIService.getInstance();
\ No newline at end of file
+export const binanceAPI = BinanceAPIService.getInstance();
@@ -0,0 +1,221 @@
+import { FinancialData, Kline } from '@/types/api';
+import { apiManager } from './api-manager';
+import { candleStore } from './candle-store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar cells use fractions (0.02 = 2%) and quote-currency volume
+export interface CalendarDayData {
+  date: Date;
+  volatility: number;
+  performance: number;
+  volume: number;
+  price: number;
+  liquidity: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export type CalendarDayStatus = 'loading' | 'empty' | 'ready';
+
+export interface CalendarDayState {
+  status: CalendarDayStatus;
+  data?: CalendarDayData;
+}
+
+// Daily high-low range thresholds used to colour calendar cells
+export const VOLATILITY_THRESHOLDS = {
+  medium: 0.03,
+  high: 0.06
+};
+
+export const getVolatilityLevel = (volatility: number): 'low' | 'medium' | 'high' => {
+  if (volatility < VOLATILITY_THRESHOLDS.medium) return 'low';
+  if (volatility < VOLATILITY_THRESHOLDS.high) return 'medium';
+  return 'high';
+};
+
+// Local calendar day -> YYYY-MM-DD
+export const toDayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Daily candles open at UTC midnight, so key them by their UTC date
+const klineDayKey = (openTime: number): string => {
+  const date = new Date(openTime);
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${date.getUTCFullYear()}-${month}-${day}`;
+};
+
+const startOfDay = (date: Date): number =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+// Percent-scale FinancialData -> calendar cells, one per candle's UTC day
+export const toCalendarDays = (financialData: FinancialData[]): CalendarDayData[] => {
+  const quoteVolumes = financialData.map(d => d.volume * d.price);
+  const maxQuoteVolume = Math.max(...quoteVolumes, 1);
+  const days: CalendarDayData[] = [];
+
+  financialData.forEach((d, index) => {
+    const open = d.open ?? d.price;
+    const high = d.high ?? d.price;
+    const low = d.low ?? d.price;
+    const close = d.close ?? d.price;
+    if (!open) return;
+
+    const [year, month, day] = klineDayKey(d.date.getTime()).split('-').map(Number);
+
+    days.push({
+      date: new Date(year, month - 1, day),
+      volatility: (high - low) / open,
+      performance: (close - open) / open,
+      volume: quoteVolumes[index],
+      price: close,
+      // Relative to the busiest day in the same batch, so 1 = deepest day seen
+      liquidity: quoteVolumes[index] / maxQuoteVolume,
+      open,
+      high,
+      low,
+      close
+    });
+  });
+
+  return days;
+};
+
+export class CalendarDataService {
+  private static instance: CalendarDataService;
+  private cache: Map<string, Map<string, CalendarDayData>> = new Map();
+  private loadedRanges: Map<string, Array<{ start: number; end: number }>> = new Map();
+  private pending: Map<string, Promise<CalendarDayData[]>> = new Map();
+
+  static getInstance(): CalendarDataService {
+    if (!CalendarDataService.instance) {
+      CalendarDataService.instance = new CalendarDataService();
+    }
+    return CalendarDataService.instance;
+  }
+
+  getDay(symbol: string, date: Date): CalendarDayData | undefined {
+    return this.cache.get(symbol)?.get(toDayKey(date));
+  }
+
+  getDayState(symbol: string, date: Date): CalendarDayState {
+    const data = this.getDay(symbol, date);
+    if (data) return { status: 'ready', data };
+    return { status: this.isLoaded(symbol, date, date) ? 'empty' : 'loading' };
+  }
+
+  getRange(symbol: string, start: Date, end: Date): CalendarDayData[] {
+    const days: CalendarDayData[] = [];
+    const current = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    while (current.getTime() <= startOfDay(end)) {
+      const data = this.getDay(symbol, current);
+      if (data) days.push(data);
+      current.setDate(current.getDate() + 1);
+    }
+    return days;
+  }
+
+  isLoaded(symbol: string, start: Date, end: Date): boolean {
+    const from = startOfDay(start);
+    const to = startOfDay(end);
+    return (this.loadedRanges.get(symbol) || []).some(range => range.start <= from && range.end >= to);
+  }
+
+  // Load daily candles covering [start, end] (inclusive) and return the cached days in that window
+  async loadRange(symbol: string, start: Date, end: Date): Promise<CalendarDayData[]> {
+    if (this.isLoaded(symbol, start, end)) {
+      return this.getRange(symbol, start, end);
+    }
+
+    const requestKey = `${symbol}:${toDayKey(start)}:${toDayKey(end)}`;
+    const inFlight = this.pending.get(requestKey);
+    if (inFlight) return inFlight;
+
+    const request = this.fetchRange(symbol, start, end).finally(() => {
+      this.pending.delete(requestKey);
+    });
+    this.pending.set(requestKey, request);
+    return request;
+  }
+
+  clear(symbol?: string): void {
+    if (symbol) {
+      this.cache.delete(symbol);
+      this.loadedRanges.delete(symbol);
+    } else {
+      this.cache.clear();
+      this.loadedRanges.clear();
+    }
+  }
+
+  // Raw daily FinancialData (percent scale) for exactly the calendar days start..end, for multi-year
+  // analysis; also fills the calendar cache
+  async loadHistory(symbol: string, start: Date, end: Date): Promise<FinancialData[]> {
+    const from = startOfDay(start);
+    const to = startOfDay(end);
+    const klines = await this.loadKlines(symbol, start, end);
+
+    // The daily transform only reads the candles, so no ticker is needed here
+    const financialData = apiManager.transformToFinancialData(null, klines);
+    this.store(symbol, financialData);
+    this.markLoaded(symbol, from, to);
+
+    return financialData;
+  }
+
+  // Daily klines for exactly the calendar days start..end, oldest first; bypasses the cache
+  async loadKlines(symbol: string, start: Date, end: Date): Promise<Kline[]> {
+    const klines = await this.fetchDailyKlines(symbol, startOfDay(start), startOfDay(end));
+    const [firstKey, lastKey] = [toDayKey(start), toDayKey(end)];
+    return klines.filter(k => klineDayKey(k.openTime) >= firstKey && klineDayKey(k.openTime) <= lastKey);
+  }
+
+  // Served from the candle store, which only hits the exchange for days it hasn't stored yet;
+  // includes one candle of slack before `from` for timezone edges
+  private async fetchDailyKlines(symbol: string, from: number, to: number): Promise<Kline[]> {
+    // Nothing has traded after today, so never ask the exchange for future candles
+    const lastCandleEnd = Math.min(to + DAY_MS, startOfDay(new Date()) + DAY_MS);
+    return candleStore.getCandles(symbol, '1day', from - DAY_MS, lastCandleEnd);
+  }
+
+  private async fetchRange(symbol: string, start: Date, end: Date): Promise<CalendarDayData[]> {
+    await this.loadHistory(symbol, start, end);
+    return this.getRange(symbol, start, end);
+  }
+
+  private store(symbol: string, financialData: FinancialData[]): void {
+    if (!this.cache.has(symbol)) {
+      this.cache.set(symbol, new Map());
+    }
+    const symbolCache = this.cache.get(symbol)!;
+
+    toCalendarDays(financialData).forEach(day => symbolCache.set(toDayKey(day.date), day));
+  }
+
+  private markLoaded(symbol: string, start: number, end: number): void {
+    const ranges = [...(this.loadedRanges.get(symbol) || []), { start, end }]
+      .sort((a, b) => a.start - b.start);
+
+    // Merge overlapping or adjacent windows so containment checks stay simple
+    const merged: Array<{ start: number; end: number }> = [];
+    ranges.forEach(range => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end + DAY_MS) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    });
+
+    this.loadedRanges.set(symbol, merged);
+  }
+}
+
+export const calendarDataService = CalendarDataService.getInstance();
@@ -0,0 +1,284 @@
+import { Kline } from '@/types/api';
+import { intervalToMs, toSymbolId } from './exchange-adapter';
+import { apiManager } from './api-manager';
+
+const DB_NAME = 'goquant-candles';
+const DB_VERSION = 1;
+const CANDLES = 'candles';
+const COVERAGE = 'coverage';
+
+// Candles are kept per exchange, symbol and interval; one "series" each
+interface StoredCandle extends Kline {
+  series: string;
+}
+
+// Time spans [start, end) already fetched for a series, so empty stretches (pre-listing) aren't refetched
+interface CoverageRecord {
+  series: string;
+  exchange: string;
+  symbol: string;
+  interval: string;
+  ranges: TimeRange[];
+}
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+const seriesKey = (exchange: string, symbol: string, interval: string) =>
+  `${exchange}|${toSymbolId(symbol)}|${interval}`;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const mergeRanges = (ranges: TimeRange[]): TimeRange[] => {
+  const merged: TimeRange[] = [];
+  [...ranges].sort((a, b) => a.start - b.start).forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  });
+  return merged;
+};
+
+// Parts of [start, end) not covered by `ranges`
+const subtractRanges = (start: number, end: number, ranges: TimeRange[]): TimeRange[] => {
+  const gaps: TimeRange[] = [];
+  let cursor = start;
+  mergeRanges(ranges).forEach(range => {
+    if (range.end <= cursor || range.start >= end) return;
+    if (range.start > cursor) gaps.push({ start: cursor, end: range.start });
+    cursor = Math.max(cursor, range.end);
+  });
+  if (cursor < end) gaps.push({ start: cursor, end });
+  return gaps;
+};
+
+class CandleStoreService {
+  private static instance: CandleStoreService;
+  private db: Promise<IDBDatabase | null> | null = null;
+  // Used when IndexedDB is unavailable (private browsing, tests); nothing survives a reload then
+  private memoryCandles: Map<string, Map<number, StoredCandle>> = new Map();
+  private memoryCoverage: Map<string, CoverageRecord> = new Map();
+  private pending: Map<string, Promise<void>> = new Map();
+
+  static getInstance(): CandleStoreService {
+    if (!CandleStoreService.instance) {
+      CandleStoreService.instance = new CandleStoreService();
+    }
+    return CandleStoreService.instance;
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.db) return this.db;
+
+    this.db = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CANDLES)) {
+          db.createObjectStore(CANDLES, { keyPath: ['series', 'openTime'] });
+        }
+        if (!db.objectStoreNames.contains(COVERAGE)) {
+          db.createObjectStore(COVERAGE, { keyPath: 'series' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Candle store unavailable, keeping candles in memory:', request.error);
+        resolve(null);
+      };
+    });
+
+    return this.db;
+  }
+
+  // Stored candles with openTime in [start, end); never touches the network
+  async query(exchange: string, symbol: string, interval: string, start: number, end: number): Promise<Kline[]> {
+    const series = seriesKey(exchange, symbol, interval);
+    const db = await this.open();
+
+    let stored: StoredCandle[];
+    if (db) {
+      const range = IDBKeyRange.bound([series, start], [series, end], false, true);
+      stored = await promisify(db.transaction(CANDLES).objectStore(CANDLES).getAll(range) as IDBRequest<StoredCandle[]>);
+    } else {
+      stored = Array.from(this.memoryCandles.get(series)?.values() ?? [])
+        .filter(candle => candle.openTime >= start && candle.openTime < end)
+        .sort((a, b) => a.openTime - b.openTime);
+    }
+
+    return stored.map(({ series: _series, ...kline }) => kline);
+  }
+
+  async getCoverage(exchange: string, symbol: string, interval: string): Promise<TimeRange[]> {
+    return (await this.getCoverageRecord(seriesKey(exchange, symbol, interval)))?.ranges ?? [];
+  }
+
+  // Candles for [start, end) from the active exchange: served locally where covered, missing spans fetched and stored.
+  // Mock fallback data is returned as-is and never persisted.
+  async getCandles(symbol: string, interval: string, start: number, end: number): Promise<Kline[]> {
+    if (apiManager.getIsMockMode()) {
+      return this.fetchWindow(symbol, interval, start, end).then(({ klines }) => klines);
+    }
+
+    const exchange = apiManager.getCurrentSource();
+    const covered = await this.fill(exchange, symbol, interval, start, end);
+    if (!covered) {
+      // The venue failed over to mock mid-fetch; show what we got without caching it
+      return this.fetchWindow(symbol, interval, start, end).then(({ klines }) => klines);
+    }
+
+    return this.query(exchange, symbol, interval, start, end);
+  }
+
+  // Fetch every span of history from `since` to now that isn't stored yet
+  async backfill(symbol: string, interval: string, since: number): Promise<void> {
+    if (apiManager.getIsMockMode()) return;
+    await this.fill(apiManager.getCurrentSource(), symbol, interval, since, Date.now());
+  }
+
+  // On startup: bring every stored series of the active exchange up to date
+  async fillGaps(): Promise<void> {
+    const exchange = apiManager.getCurrentSource();
+    const records = (await this.getAllCoverage()).filter(record => record.exchange === exchange);
+
+    for (const record of records) {
+      const earliest = record.ranges[0]?.start;
+      if (earliest === undefined) continue;
+      try {
+        await this.fill(exchange, record.symbol, record.interval, earliest, Date.now());
+      } catch (error) {
+        console.warn(`Candle gap fill failed for ${record.series}:`, error);
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.memoryCandles.clear();
+    this.memoryCoverage.clear();
+    const db = await this.open();
+    if (!db) return;
+
+    const tx = db.transaction([CANDLES, COVERAGE], 'readwrite');
+    tx.objectStore(CANDLES).clear();
+    tx.objectStore(COVERAGE).clear();
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  // Returns false if any page came back from the mock fallback (nothing is stored in that case)
+  private async fill(exchange: string, symbol: string, interval: string, start: number, end: number): Promise<boolean> {
+    const series = seriesKey(exchange, symbol, interval);
+    const record = await this.getCoverageRecord(series);
+    const gaps = subtractRanges(start, end, record?.ranges ?? []);
+
+    for (const gap of gaps) {
+      // Concurrent callers asking for the same gap share one fetch
+      const key = `${series}:${gap.start}:${gap.end}`;
+      let request = this.pending.get(key);
+      if (!request) {
+        request = this.fetchAndStore(exchange, symbol, interval, gap).finally(() => this.pending.delete(key));
+        this.pending.set(key, request);
+      }
+      await request;
+      if (apiManager.getIsMockMode() || apiManager.getCurrentSource() !== exchange) return false;
+    }
+
+    return true;
+  }
+
+  private async fetchAndStore(exchange: string, symbol: string, interval: string, gap: TimeRange): Promise<void> {
+    const { klines, source } = await this.fetchWindow(symbol, interval, gap.start, gap.end);
+    if (source !== exchange) return;
+
+    // The newest candle may still be forming, so only spans of closed candles count as covered
+    const step = intervalToMs(interval);
+    const coveredEnd = Math.min(gap.end, Date.now() - step);
+
+    await this.write(exchange, symbol, interval, klines, coveredEnd > gap.start ? { start: gap.start, end: coveredEnd } : null);
+  }
+
+  // Pages backwards from `end` within the adapter's per-request limit until `start` or the start of listing
+  private async fetchWindow(symbol: string, interval: string, start: number, end: number): Promise<{ klines: Kline[]; source: string }> {
+    const step = intervalToMs(interval);
+    const maxPerRequest = apiManager.getMaxKlinesPerRequest();
+    const klines: Kline[] = [];
+    let source = apiManager.getCurrentSource();
+    let windowEnd = Math.min(end, Date.now() + step);
+
+    while (windowEnd > start) {
+      const count = Math.min(Math.ceil((windowEnd - start) / step) + 1, maxPerRequest);
+      const page = await apiManager.getKlines(symbol, interval, count, windowEnd);
+      source = page.source;
+      klines.push(...page);
+      if (page.length === 0 || source === 'mock') break;
+      windowEnd -= (count - 1) * step;
+    }
+
+    // Pages overlap by a candle at the edges, so dedupe by open time
+    const unique = Array.from(new Map(klines.map(k => [k.openTime, k])).values())
+      .filter(k => k.openTime >= start && k.openTime < end)
+      .sort((a, b) => a.openTime - b.openTime);
+
+    return { klines: unique, source };
+  }
+
+  private async write(exchange: string, symbol: string, interval: string, klines: Kline[], covered: TimeRange | null): Promise<void> {
+    const series = seriesKey(exchange, symbol, interval);
+    const previous = await this.getCoverageRecord(series);
+    const record: CoverageRecord = {
+      series,
+      exchange,
+      symbol: toSymbolId(symbol),
+      interval,
+      ranges: mergeRanges([...(previous?.ranges ?? []), ...(covered ? [covered] : [])])
+    };
+    const candles: StoredCandle[] = klines.map(kline => ({ ...kline, series }));
+
+    const db = await this.open();
+    if (!db) {
+      const bucket = this.memoryCandles.get(series) ?? new Map<number, StoredCandle>();
+      candles.forEach(candle => bucket.set(candle.openTime, candle));
+      this.memoryCandles.set(series, bucket);
+      this.memoryCoverage.set(series, record);
+      return;
+    }
+
+    const tx = db.transaction([CANDLES, COVERAGE], 'readwrite');
+    const store = tx.objectStore(CANDLES);
+    candles.forEach(candle => store.put(candle));
+    tx.objectStore(COVERAGE).put(record);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  private async getCoverageRecord(series: string): Promise<CoverageRecord | undefined> {
+    const db = await this.open();
+    if (!db) return this.memoryCoverage.get(series);
+    return promisify(db.transaction(COVERAGE).objectStore(COVERAGE).get(series) as IDBRequest<CoverageRecord | undefined>);
+  }
+
+  private async getAllCoverage(): Promise<CoverageRecord[]> {
+    const db = await this.open();
+    if (!db) return Array.from(this.memoryCoverage.values());
+    return promisify(db.transaction(COVERAGE).objectStore(COVERAGE).getAll() as IDBRequest<CoverageRecord[]>);
+  }
+}
+
+export const candleStore = CandleStoreService.getInstance();
@@ -1,5 +1,15 @@
-import { WebSocketOrderbook, Orderbook } from '@/types/api';
+import { WebSocketOrderbook, Orderbook, StreamConnectionStatus, StreamConnectionEvent } from '@/types/api';
 import { mockDataService } from './mock-data-service';
+import { binanceAPI } from './binance-api';
+import { OrderbookSynchronizer } from './orderbook-sync';
+import { exchangeEndpoints } from './exchange-endpoints';
+import { toSymbolId } from './exchange-adapter';
+import { DEFAULT_SYMBOL } from './symbol-catalogue';
+
+const SNAPSHOT_DEPTH = 1000;
+const PUBLISH_DEPTH = 20;
+const CONNECT_TIMEOUT = 10000;
+const MAX_RESYNC_ATTEMPTS = 3;
 
 export class EnhancedWebSocketService {
   private static instance: EnhancedWebSocketService;
@@ -8,11 +18,17 @@ export class EnhancedWebSocketService {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
-  private connectionState: 'connecting' | 'connected' | 'disconnected' | 'error' = 'disconnected';
-  private pingInterval: NodeJS.Timeout | null = null;
+  private connectionState: StreamConnectionStatus = 'disconnected';
+  private reconnectTimeout: NodeJS.Timeout | null = null;
   private lastOrderbook: Orderbook | null = null;
   private mockDataInterval: NodeJS.Timeout | null = null;
   private isUsingMockData = false;
+  private symbol = DEFAULT_SYMBOL;
+  private book = new OrderbookSynchronizer();
+  private resyncing: { session: number; promise: Promise<void> } | null = null;
+  private hasBeenLive = false;
+  // Bumped on every connect/disconnect so callbacks from stale sockets are ignored
+  private session = 0;
 
   static getInstance(): EnhancedWebSocketService {
     if (!EnhancedWebSocketService.instance) {
@@ -21,27 +37,159 @@ export class EnhancedWebSocketService {
     return EnhancedWebSocketService.instance;
   }
 
-  async connect(symbol: string = 'btcusdt'): Promise<void> {
-    // Always fall back to mock data due to CORS issues
-    this.enableMockDataMode(symbol);
-    return Promise.resolve();
+  async connect(symbol: string = DEFAULT_SYMBOL): Promise<void> {
+    this.reconnectAttempts = 0;
+    this.hasBeenLive = false;
+    return this.start(symbol);
+  }
+
+  // Open the diff stream first so nothing is missed, then load the REST snapshot on top of it
+  private async start(symbol: string): Promise<void> {
+    this.stop();
+    const session = ++this.session;
+    this.symbol = toSymbolId(symbol);
+    this.book = new OrderbookSynchronizer();
+    this.setConnectionState('connecting', 'live');
+
+    try {
+      await this.openStream(session, binanceAPI.formatSymbol(this.symbol).toLowerCase());
+      await this.resync(session);
+      if (session !== this.session) return;
+
+      this.reconnectAttempts = 0;
+      this.hasBeenLive = true;
+      this.setConnectionState('connected', 'live');
+    } catch (error) {
+      if (session !== this.session) return;
+      this.handleLiveFailure(symbol, error);
+    }
+  }
+
+  private openStream(session: number, streamSymbol: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(`${exchangeEndpoints.get('binance').stream}/${streamSymbol}@depth@100ms`);
+      this.ws = ws;
+
+      const timeout = setTimeout(() => {
+        if (ws.readyState === WebSocket.CONNECTING) {
+          ws.close();
+          reject(new Error('Orderbook stream connection timeout'));
+        }
+      }, CONNECT_TIMEOUT);
+
+      ws.onopen = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+
+      ws.onmessage = (event) => {
+        if (session !== this.session) return;
+        try {
+          this.handleDiff(session, JSON.parse(event.data) as WebSocketOrderbook);
+        } catch (error) {
+          console.error('Error parsing orderbook stream message:', error);
+        }
+      };
+
+      ws.onerror = () => {
+        clearTimeout(timeout);
+        reject(new Error('Orderbook stream error'));
+      };
+
+      ws.onclose = (event) => {
+        clearTimeout(timeout);
+        reject(new Error(`Orderbook stream closed (${event.code})`));
+        // Only an established stream needs recovering; failures while connecting are handled by start()
+        if (session === this.session && this.connectionState === 'connected' && !this.isUsingMockData) {
+          this.handleLiveFailure(this.symbol, new Error(`Orderbook stream closed (${event.code})`));
+        }
+      };
+    });
+  }
+
+  private handleDiff(session: number, diff: WebSocketOrderbook): void {
+    if (diff.e !== 'depthUpdate') return;
+
+    const result = this.book.apply(diff);
+    if (result === 'applied') {
+      this.publish();
+    } else if (result === 'gap') {
+      console.warn(`Orderbook sequence gap for ${this.symbol} (expected ${(this.book.getLastUpdateId() ?? 0) + 1}, got ${diff.U}), resyncing`);
+      this.resync(session).catch(error => {
+        if (session === this.session) {
+          this.handleLiveFailure(this.symbol, error);
+        }
+      });
+      // resync() has dropped the book; buffer the diff that exposed the gap so a snapshot taken
+      // inside its range can pick up from it
+      this.book.apply(diff);
+    }
+  }
+
+  // Refetch the snapshot until it lines up with the buffered diffs
+  private resync(session: number): Promise<void> {
+    if (this.resyncing && this.resyncing.session === session) {
+      return this.resyncing.promise;
+    }
+
+    this.book.reset();
+    const promise = (async () => {
+      for (let attempt = 1; attempt <= MAX_RESYNC_ATTEMPTS; attempt++) {
+        const snapshot = await binanceAPI.getOrderbook(this.symbol, SNAPSHOT_DEPTH);
+        if (session !== this.session) return;
+
+        if (this.book.loadSnapshot(snapshot) === 'applied') {
+          this.publish();
+          return;
+        }
+      }
+      throw new Error(`Orderbook snapshot did not line up with the stream after ${MAX_RESYNC_ATTEMPTS} attempts`);
+    })().finally(() => {
+      if (this.resyncing?.promise === promise) {
+        this.resyncing = null;
+      }
+    });
+
+    this.resyncing = { session, promise };
+    return promise;
+  }
+
+  private publish(): void {
+    this.lastOrderbook = this.book.toOrderbook(this.symbol, PUBLISH_DEPTH);
+    this.notifySubscribers('orderbook', this.lastOrderbook);
   }
 
-  private enableMockDataMode(symbol: string): void {
+  // Retry a stream that was working before; otherwise the live path is unavailable and we simulate
+  private handleLiveFailure(symbol: string, error: unknown): void {
+    const reason = error instanceof Error ? error.message : String(error);
+
+    if (this.hasBeenLive && this.reconnectAttempts < this.maxReconnectAttempts) {
+      this.reconnectAttempts++;
+      const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+      console.warn(`${reason}; reconnecting in ${delay}ms (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+
+      this.stop();
+      this.setConnectionState('connecting', 'live', reason);
+      this.reconnectTimeout = setTimeout(() => this.start(symbol), delay);
+      return;
+    }
+
+    console.warn(`Live orderbook unavailable (${reason}), falling back to mock data`);
+    this.stop();
+    this.enableMockDataMode(symbol, reason);
+  }
+
+  private enableMockDataMode(symbol: string, reason: string): void {
     this.isUsingMockData = true;
-    this.connectionState = 'connected';
-    
-    // Start mock data simulation
-    this.startMockDataSimulation(symbol);
-    
-    // Notify subscribers of connection
-    this.notifySubscribers('connection', { status: 'connected', isProxy: true });
+    this.startMockDataSimulation(toSymbolId(symbol));
+    this.setConnectionState('connected', 'mock', reason);
   }
 
   private startMockDataSimulation(symbol: string): void {
     // Generate initial orderbook
     this.lastOrderbook = mockDataService.generateOrderbook(symbol);
-    
+    this.notifySubscribers('orderbook', this.lastOrderbook);
+
     // Simulate real-time updates every 500ms
     this.mockDataInterval = setInterval(() => {
       if (this.lastOrderbook) {
@@ -51,6 +199,12 @@ export class EnhancedWebSocketService {
     }, 500);
   }
 
+  private setConnectionState(status: StreamConnectionStatus, mode: StreamConnectionEvent['mode'], reason?: string): void {
+    this.connectionState = status;
+    const event: StreamConnectionEvent = { status, mode, reason };
+    this.notifySubscribers('connection', event);
+  }
+
   subscribe(channel: string, callback: (data: any) => void): () => void {
     if (!this.subscribers.has(channel)) {
       this.subscribers.set(channel, new Set());
@@ -82,15 +236,20 @@ export class EnhancedWebSocketService {
     }
   }
 
-  disconnect(): void {
+  // Tear down the socket and timers but keep subscribers
+  private stop(): void {
     if (this.ws) {
-      this.ws.close();
+      const ws = this.ws;
       this.ws = null;
+      ws.onclose = null;
+      ws.onerror = null;
+      ws.onmessage = null;
+      ws.close();
     }
 
-    if (this.pingInterval) {
-      clearInterval(this.pingInterval);
-      this.pingInterval = null;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
     }
 
     if (this.mockDataInterval) {
@@ -98,12 +257,19 @@ export class EnhancedWebSocketService {
       this.mockDataInterval = null;
     }
 
-    this.connectionState = 'disconnected';
-    this.subscribers.clear();
     this.isUsingMockData = false;
   }
 
-  getConnectionStatus(): 'connecting' | 'connected' | 'disconnected' | 'error' {
+  // Subscribers are kept, so the heatmap history and live candles keep filling after a manual
+  // reconnect; each unsubscribes itself
+  disconnect(): void {
+    this.session++;
+    this.stop();
+    this.book.reset();
+    this.connectionState = 'disconnected';
+  }
+
+  getConnectionStatus(): StreamConnectionStatus {
     return this.connectionState;
   }
 
@@ -119,4 +285,4 @@ export class EnhancedWebSocketService {
   }
 }
 
-export const enhancedWebSocketService = EnhancedWebSocketService.getInstance();
\ No newline at end of file
+export const enhancedWebSocketService = EnhancedWebSocketService.getInstance();
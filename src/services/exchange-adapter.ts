@@ -0,0 +1,157 @@
+import { Orderbook, Ticker24h, Kline, FinancialData } from '@/types/api';
+
+export interface ExchangeCapabilities {
+  orderbook: boolean;
+  ticker: boolean;
+  klines: boolean;
+  historicalKlines: boolean;   // getKlines honours endTime
+  symbolListing: boolean;
+  websocket: boolean;
+  maxKlinesPerRequest: number;
+}
+
+export interface ExchangeSymbol {
+  symbol: string;          // canonical id, e.g. BTC/USDT
+  exchangeSymbol: string;  // venue form, e.g. BTC-USDT
+  base: string;
+  quote: string;
+  tickSize: number;
+  lotSize: number;
+}
+
+// Every venue implements this; the api manager only talks to adapters through it.
+// Methods throw on failure so the manager can retry and fall back to mock data.
+export interface ExchangeAdapter {
+  readonly id: string;
+  readonly name: string;
+  readonly capabilities: ExchangeCapabilities;
+  baseURL: string;             // REST root, resolved per call through exchange-endpoints.ts
+  formatSymbol(symbol: string): string;
+  getOrderbook(symbol: string, limit?: number): Promise<Orderbook>;
+  get24hTicker(symbol: string): Promise<Ticker24h>;
+  getKlines(symbol: string, interval?: string, limit?: number, endTime?: number): Promise<Kline[]>;
+  listSymbols(): Promise<ExchangeSymbol[]>;
+}
+
+// Longest first so e.g. USDT wins over USD
+export const KNOWN_QUOTES = ['USDT', 'USDC', 'BUSD', 'USD', 'EUR', 'BTC', 'ETH', 'BNB'];
+
+// BTCUSDT -> { base: 'BTC', quote: 'USDT' }; already-separated symbols are split as-is
+export const splitSymbol = (symbol: string): { base: string; quote: string } => {
+  const separated = symbol.split(/[-/_]/);
+  if (separated.length === 2) {
+    return { base: separated[0], quote: separated[1] };
+  }
+
+  const quote = KNOWN_QUOTES.find(q => symbol.endsWith(q) && symbol.length > q.length);
+  if (quote) {
+    return { base: symbol.slice(0, -quote.length), quote };
+  }
+
+  // Fallback - assume last 4 chars are quote currency
+  return { base: symbol.slice(0, -4), quote: symbol.slice(-4) };
+};
+
+export const joinSymbol = (base: string, quote: string, separator: string = ''): string =>
+  `${base}${separator}${quote}`;
+
+// Canonical 'BASE/QUOTE' id from any of BTCUSDT, btc-usdt, BTC/USDT
+export const toSymbolId = (symbol: string): string => {
+  const { base, quote } = splitSymbol(symbol.toUpperCase());
+  return joinSymbol(base, quote, '/');
+};
+
+// App-wide interval names (KuCoin spelling); adapters translate them to their own granularity
+export const INTERVAL_MS: Record<string, number> = {
+  '1min': 60 * 1000,
+  '5min': 5 * 60 * 1000,
+  '15min': 15 * 60 * 1000,
+  '30min': 30 * 60 * 1000,
+  '1hour': 60 * 60 * 1000,
+  '4hour': 4 * 60 * 60 * 1000,
+  '1day': 24 * 60 * 60 * 1000,
+  '1week': 7 * 24 * 60 * 60 * 1000
+};
+
+export const intervalToMs = (interval: string): number => {
+  const ms = INTERVAL_MS[interval];
+  if (!ms) {
+    throw new Error(`Unsupported interval: ${interval}`);
+  }
+  return ms;
+};
+
+// Weekly candles open on Monday 00:00 UTC (Binance, OKX, KuCoin); 1970-01-05 was a Monday
+const WEEK_ANCHOR_MS = 4 * INTERVAL_MS['1day'];
+
+// Open time of the candle containing `time`
+export const alignToInterval = (time: number, interval: string): number => {
+  const ms = intervalToMs(interval);
+  const anchor = interval === '1week' ? WEEK_ANCHOR_MS : 0;
+  return Math.floor((time - anchor) / ms) * ms + anchor;
+};
+
+// Coarsest supported interval that evenly divides `interval`, for venues that need resampling
+export const resampleSource = (interval: string, supported: string[]): string | undefined => {
+  const target = intervalToMs(interval);
+  return supported
+    .filter(candidate => target % intervalToMs(candidate) === 0)
+    .sort((a, b) => intervalToMs(b) - intervalToMs(a))[0];
+};
+
+// Merges finer candles (oldest first) into `interval` buckets; partial buckets at the edges are kept
+export const resampleKlines = (klines: Kline[], interval: string): Kline[] => {
+  const ms = intervalToMs(interval);
+  const buckets = new Map<number, Kline[]>();
+  klines.forEach(kline => {
+    const openTime = alignToInterval(kline.openTime, interval);
+    buckets.set(openTime, [...(buckets.get(openTime) ?? []), kline]);
+  });
+
+  const sum = (candles: Kline[], field: keyof Kline) =>
+    candles.reduce((total, candle) => total + parseFloat(String(candle[field])), 0).toString();
+
+  return Array.from(buckets.entries()).map(([openTime, candles]) => ({
+    openTime,
+    open: candles[0].open,
+    high: Math.max(...candles.map(c => parseFloat(c.high))).toString(),
+    low: Math.min(...candles.map(c => parseFloat(c.low))).toString(),
+    close: candles[candles.length - 1].close,
+    volume: sum(candles, 'volume'),
+    closeTime: openTime + ms - 1,
+    quoteAssetVolume: sum(candles, 'quoteAssetVolume'),
+    numberOfTrades: candles.reduce((total, candle) => total + candle.numberOfTrades, 0),
+    takerBuyBaseAssetVolume: sum(candles, 'takerBuyBaseAssetVolume'),
+    takerBuyQuoteAssetVolume: sum(candles, 'takerBuyQuoteAssetVolume')
+  }));
+};
+
+export const assertOk = (response: Response, context: string): void => {
+  if (!response.ok) {
+    throw new Error(`${context}: HTTP ${response.status}`);
+  }
+};
+
+// Shared kline -> FinancialData transform (volatility/performance in %, liquidity as quote notional)
+export const klinesToFinancialData = (klines: Kline[]): FinancialData[] => {
+  return klines.map((kline) => {
+    const open = parseFloat(kline.open);
+    const close = parseFloat(kline.close);
+    const high = parseFloat(kline.high);
+    const low = parseFloat(kline.low);
+    const volume = parseFloat(kline.volume);
+
+    return {
+      date: new Date(kline.openTime),
+      volatility: Math.abs(((high - low) / open) * 100),
+      performance: ((close - open) / open) * 100,
+      volume,
+      price: close,
+      liquidity: volume * close,
+      high,
+      low,
+      open,
+      close
+    };
+  });
+};
@@ -0,0 +1,78 @@
+export interface ExchangeEndpoint {
+  rest: string;
+  stream?: string;
+}
+
+const DEFAULT_ENDPOINTS: Record<string, ExchangeEndpoint> = {
+  coinbase: { rest: 'https://api.exchange.coinbase.com', stream: 'wss://ws-feed.exchange.coinbase.com' },
+  okx: { rest: 'https://www.okx.com/api/v5', stream: 'wss://ws.okx.com:8443/ws/v5/public' },
+  kucoin: { rest: 'https://api.kucoin.com/api/v1' },
+  binance: { rest: 'https://api.binance.com/api/v3', stream: 'wss://stream.binance.com:9443/ws' }
+};
+
+// The local simulator (npm run simulator) serves each venue under /<venue> with its real path layout
+const SIMULATOR_PATHS: Record<string, ExchangeEndpoint> = {
+  coinbase: { rest: '/coinbase', stream: '/coinbase/ws' },
+  okx: { rest: '/okx/api/v5', stream: '/okx/ws/v5/public' },
+  kucoin: { rest: '/kucoin/api/v1' },
+  binance: { rest: '/binance/api/v3', stream: '/binance/ws' }
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// Resolution order: runtime override, VITE_<ID>_REST_URL / VITE_<ID>_STREAM_URL,
+// VITE_EXCHANGE_SIMULATOR_URL, then the public venue URL.
+class ExchangeEndpointsService {
+  private static instance: ExchangeEndpointsService;
+  private overrides: Map<string, Partial<ExchangeEndpoint>> = new Map();
+
+  static getInstance(): ExchangeEndpointsService {
+    if (!ExchangeEndpointsService.instance) {
+      ExchangeEndpointsService.instance = new ExchangeEndpointsService();
+    }
+    return ExchangeEndpointsService.instance;
+  }
+
+  get(id: string): ExchangeEndpoint {
+    const env = import.meta.env;
+    const key = id.toUpperCase();
+    const simulator = this.getSimulatorEndpoint(id);
+    const defaults = DEFAULT_ENDPOINTS[id] ?? { rest: '' };
+    const override = this.overrides.get(id) ?? {};
+
+    return {
+      rest: trimSlash(override.rest ?? env[`VITE_${key}_REST_URL`] ?? simulator?.rest ?? defaults.rest),
+      stream: override.stream ?? env[`VITE_${key}_STREAM_URL`] ?? simulator?.stream ?? defaults.stream
+    };
+  }
+
+  set(id: string, endpoint: Partial<ExchangeEndpoint>): void {
+    this.overrides.set(id, { ...this.overrides.get(id), ...endpoint });
+  }
+
+  reset(id?: string): void {
+    if (id) {
+      this.overrides.delete(id);
+    } else {
+      this.overrides.clear();
+    }
+  }
+
+  getSimulatorURL(): string | null {
+    const url = import.meta.env.VITE_EXCHANGE_SIMULATOR_URL;
+    return url ? trimSlash(url) : null;
+  }
+
+  private getSimulatorEndpoint(id: string): ExchangeEndpoint | null {
+    const origin = this.getSimulatorURL();
+    const paths = SIMULATOR_PATHS[id];
+    if (!origin || !paths) return null;
+
+    return {
+      rest: `${origin}${paths.rest}`,
+      stream: paths.stream ? `${origin.replace(/^http/, 'ws')}${paths.stream}` : undefined
+    };
+  }
+}
+
+export const exchangeEndpoints = ExchangeEndpointsService.getInstance();
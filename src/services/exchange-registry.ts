@@ -0,0 +1,43 @@
+import { ExchangeAdapter } from './exchange-adapter';
+
+class ExchangeRegistryService {
+  private static instance: ExchangeRegistryService;
+  private adapters: Map<string, ExchangeAdapter> = new Map();
+
+  static getInstance(): ExchangeRegistryService {
+    if (!ExchangeRegistryService.instance) {
+      ExchangeRegistryService.instance = new ExchangeRegistryService();
+    }
+    return ExchangeRegistryService.instance;
+  }
+
+  // Registration order doubles as the default failover order
+  register(adapter: ExchangeAdapter): void {
+    if (adapter.id === 'mock') {
+      throw new Error('"mock" is reserved for the built-in mock data fallback');
+    }
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  unregister(id: string): void {
+    this.adapters.delete(id);
+  }
+
+  get(id: string): ExchangeAdapter | undefined {
+    return this.adapters.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.adapters.has(id);
+  }
+
+  list(): ExchangeAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  ids(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+}
+
+export const exchangeRegistry = ExchangeRegistryService.getInstance();
@@ -0,0 +1,10 @@
+import { exchangeRegistry } from './exchange-registry';
+import { coinbaseAPI } from './coinbase-api';
+import { okxAPI } from './okx-api';
+import { kucoinAPI } from './kucoin-api';
+import { binanceAPI } from './binance-api';
+
+// Built-in venues, in default failover order. New venues only need an adapter and a line here.
+[coinbaseAPI, okxAPI, kucoinAPI, binanceAPI].forEach(adapter => exchangeRegistry.register(adapter));
+
+export { exchangeRegistry };
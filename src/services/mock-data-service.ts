@@ -1,4 +1,20 @@
-import { Orderbook, Ticker24h, Kline, FinancialData } from '@/types/api';
+import { Orderbook, Ticker24h, Kline, FinancialData, Trade } from '@/types/api';
+import { klinesToFinancialData, splitSymbol, intervalToMs, alignToInterval } from './exchange-adapter';
+import { symbolCatalogue, DEFAULT_SYMBOL } from './symbol-catalogue';
+
+// Rough price levels so mock data for each base looks plausible; unknown bases get 1
+const REFERENCE_PRICES: Record<string, number> = {
+  BTC: 45000, ETH: 2500, BNB: 300, SOL: 120, AVAX: 30, LTC: 80, LINK: 15,
+  DOT: 7, XRP: 0.6, ADA: 0.45, MATIC: 0.8, DOGE: 0.12
+};
+
+const referencePrice = (symbol: string) => REFERENCE_PRICES[splitSymbol(symbol.toUpperCase()).base] ?? 1;
+
+// Enough decimals for the pair's tick size, never fewer than 2
+const priceDigits = (symbol: string) => {
+  const tickSize = symbolCatalogue.get(symbol)?.tickSize ?? 0.01;
+  return Math.max(2, Math.round(-Math.log10(tickSize)));
+};
 
 export class MockDataService {
   private static instance: MockDataService;
@@ -11,17 +27,19 @@ export class MockDataService {
   }
 
   // Generate realistic mock orderbook with bid/ask spread
-  generateOrderbook(symbol: string = 'BTCUSDT'): Orderbook {
-    const basePrice = 45000 + (Math.random() - 0.5) * 10000;
+  generateOrderbook(symbol: string = DEFAULT_SYMBOL): Orderbook {
+    const basePrice = referencePrice(symbol) * (1 + (Math.random() - 0.5) * 0.2);
     const spread = basePrice * 0.0002; // 0.02% spread
+    const step = basePrice * 0.001;
+    const digits = priceDigits(symbol);
     
     const bids = Array.from({ length: 20 }, (_, i) => ({
-      price: (basePrice - spread / 2 - (i + 1) * Math.random() * 50).toFixed(2),
+      price: (basePrice - spread / 2 - (i + 1) * Math.random() * step).toFixed(digits),
       quantity: (Math.random() * 2 + 0.1).toFixed(4)
     }));
     
     const asks = Array.from({ length: 20 }, (_, i) => ({
-      price: (basePrice + spread / 2 + (i + 1) * Math.random() * 50).toFixed(2),
+      price: (basePrice + spread / 2 + (i + 1) * Math.random() * step).toFixed(digits),
       quantity: (Math.random() * 2 + 0.1).toFixed(4)
     }));
 
@@ -34,8 +52,9 @@ export class MockDataService {
   }
 
   // Generate realistic 24h ticker with market-like movements
-  generate24hTicker(symbol: string = 'BTCUSDT'): Ticker24h {
-    const basePrice = 45000 + (Math.random() - 0.5) * 10000;
+  generate24hTicker(symbol: string = DEFAULT_SYMBOL): Ticker24h {
+    const basePrice = referencePrice(symbol) * (1 + (Math.random() - 0.5) * 0.2);
+    const digits = priceDigits(symbol);
     const volatility = Math.random() * 0.1; // Up to 10% daily volatility
     const change = (Math.random() - 0.5) * volatility * basePrice;
     const volume = Math.random() * 50000 + 10000;
@@ -47,16 +66,16 @@ export class MockDataService {
 
     return {
       symbol,
-      priceChange: change.toFixed(2),
+      priceChange: change.toFixed(digits),
       priceChangePercent: ((change / openPrice) * 100).toFixed(2),
-      weightedAvgPrice: ((openPrice + closePrice) / 2).toFixed(2),
-      prevClosePrice: openPrice.toFixed(2),
-      lastPrice: closePrice.toFixed(2),
-      bidPrice: (closePrice - 25).toFixed(2),
-      askPrice: (closePrice + 25).toFixed(2),
-      openPrice: openPrice.toFixed(2),
-      highPrice: highPrice.toFixed(2),
-      lowPrice: lowPrice.toFixed(2),
+      weightedAvgPrice: ((openPrice + closePrice) / 2).toFixed(digits),
+      prevClosePrice: openPrice.toFixed(digits),
+      lastPrice: closePrice.toFixed(digits),
+      bidPrice: (closePrice * 0.9995).toFixed(digits),
+      askPrice: (closePrice * 1.0005).toFixed(digits),
+      openPrice: openPrice.toFixed(digits),
+      highPrice: highPrice.toFixed(digits),
+      lowPrice: lowPrice.toFixed(digits),
       volume: volume.toFixed(2),
       quoteVolume: (volume * closePrice).toFixed(2),
       openTime: Date.now() - 24 * 60 * 60 * 1000,
@@ -66,35 +85,39 @@ export class MockDataService {
   }
 
   // Generate realistic historical klines with trending patterns
-  generateKlines(symbol: string = 'BTCUSDT', interval: string = '1day', limit: number = 30): Kline[] {
-    const now = Date.now();
-    const intervalMs = 24 * 60 * 60 * 1000; // 1 day in milliseconds
+  generateKlines(symbol: string = DEFAULT_SYMBOL, interval: string = '1day', limit: number = 30, endTime?: number): Kline[] {
+    const lastOpen = alignToInterval(endTime ?? Date.now(), interval);
+    const intervalMs = intervalToMs(interval);
+    // Moves and volume shrink with the candle size so intraday charts look like intraday charts
+    const scale = Math.sqrt(intervalMs / (24 * 60 * 60 * 1000));
+    const volumeScale = intervalMs / (24 * 60 * 60 * 1000);
+    const digits = priceDigits(symbol);
     
-    let currentPrice = 45000 + (Math.random() - 0.5) * 10000;
+    let currentPrice = referencePrice(symbol) * (1 + (Math.random() - 0.5) * 0.2);
     const trend = (Math.random() - 0.5) * 0.002; // Overall trend direction
     
     return Array.from({ length: limit }, (_, i) => {
-      const time = now - (limit - i - 1) * intervalMs;
+      const time = lastOpen - (limit - i - 1) * intervalMs;
       
       // Add trend and random walk
-      const dailyChange = trend + (Math.random() - 0.5) * 0.03;
+      const dailyChange = (trend + (Math.random() - 0.5) * 0.03) * scale;
       const open = currentPrice;
       const close = open * (1 + dailyChange);
       
       // Generate realistic high/low based on volatility
-      const volatility = Math.random() * 0.05;
+      const volatility = Math.random() * 0.05 * scale;
       const high = Math.max(open, close) * (1 + volatility / 2);
       const low = Math.min(open, close) * (1 - volatility / 2);
       
-      const volume = Math.random() * 20000 + 5000;
+      const volume = (Math.random() * 20000 + 5000) * volumeScale;
       currentPrice = close; // Use for next iteration
 
       return {
         openTime: time,
-        open: open.toFixed(2),
-        high: high.toFixed(2),
-        low: low.toFixed(2),
-        close: close.toFixed(2),
+        open: open.toFixed(digits),
+        high: high.toFixed(digits),
+        low: low.toFixed(digits),
+        close: close.toFixed(digits),
         volume: volume.toFixed(2),
         closeTime: time + intervalMs - 1,
         quoteAssetVolume: (volume * close).toFixed(2),
@@ -109,15 +132,16 @@ export class MockDataService {
   generateRealtimeUpdate(currentOrderbook: Orderbook): Orderbook {
     if (!currentOrderbook) return this.generateOrderbook();
 
+    const digits = priceDigits(currentOrderbook.symbol);
     const bids = currentOrderbook.bids.map(bid => ({
       ...bid,
-      price: (parseFloat(bid.price) * (1 + (Math.random() - 0.5) * 0.001)).toFixed(2),
+      price: (parseFloat(bid.price) * (1 + (Math.random() - 0.5) * 0.001)).toFixed(digits),
       quantity: (parseFloat(bid.quantity) * (1 + (Math.random() - 0.5) * 0.2)).toFixed(4)
     }));
 
     const asks = currentOrderbook.asks.map(ask => ({
       ...ask,
-      price: (parseFloat(ask.price) * (1 + (Math.random() - 0.5) * 0.001)).toFixed(2),
+      price: (parseFloat(ask.price) * (1 + (Math.random() - 0.5) * 0.001)).toFixed(digits),
       quantity: (parseFloat(ask.quantity) * (1 + (Math.random() - 0.5) * 0.2)).toFixed(4)
     }));
 
@@ -129,33 +153,33 @@ export class MockDataService {
     };
   }
 
-  transformToFinancialData(ticker: Ticker24h, klines: Kline[]): FinancialData[] {
-    return klines.map((kline) => {
-      const date = new Date(kline.openTime);
-      const open = parseFloat(kline.open);
-      const close = parseFloat(kline.close);
-      const high = parseFloat(kline.high);
-      const low = parseFloat(kline.low);
-      const volume = parseFloat(kline.volume);
-
-      const volatility = ((high - low) / open) * 100;
-      const performance = ((close - open) / open) * 100;
-      const liquidity = Math.min(volume / 1000, 100);
+  // A burst of 0-3 prints walking from lastPrice. Aggressors come in runs and roughly one
+  // print in fifty is a block many times the usual size, so the tape has something to highlight.
+  generateTrades(symbol: string = DEFAULT_SYMBOL, lastPrice?: number, lastSide?: Trade['side']): Trade[] {
+    const digits = priceDigits(symbol);
+    let price = lastPrice ?? referencePrice(symbol) * (1 + (Math.random() - 0.5) * 0.2);
+    let side = lastSide ?? (Math.random() < 0.5 ? 'buy' : 'sell');
+    const now = Date.now();
 
+    return Array.from({ length: Math.floor(Math.random() * 4) }, (_, i) => {
+      if (Math.random() < 0.3) side = side === 'buy' ? 'sell' : 'buy';
+      price *= 1 + (side === 'buy' ? 1 : -1) * Math.random() * 0.0002;
+      const size = Math.pow(Math.random(), 3) * 2 + 0.0005;
       return {
-        date,
-        volatility: Math.abs(volatility),
-        performance,
-        volume,
-        price: close,
-        liquidity,
-        high,
-        low,
-        open,
-        close
+        id: `mock-${now}-${i}`,
+        symbol,
+        price: parseFloat(price.toFixed(digits)),
+        quantity: parseFloat((Math.random() < 0.02 ? size * (20 + Math.random() * 30) : size).toFixed(4)),
+        side,
+        time: now,
+        source: 'mock'
       };
     });
   }
+
+  transformToFinancialData(ticker: Ticker24h, klines: Kline[]): FinancialData[] {
+    return klinesToFinancialData(klines);
+  }
 }
 
 export const mockDataService = MockDataService.getInstance();
\ No newline at end of file
@@ -1,8 +1,43 @@
-import { Orderbook, Ticker24h, Kline, FinancialData } from '@/types/api';
-
-class OKXAPIService {
+import { Orderbook, Ticker24h, Kline, OKXOrderbook, OKXTicker, OKXInstrument } from '@/types/api';
+import { ExchangeAdapter, ExchangeCapabilities, ExchangeSymbol, assertOk, joinSymbol, splitSymbol, intervalToMs } from './exchange-adapter';
+import { exchangeEndpoints } from './exchange-endpoints';
+import { symbolCatalogue } from './symbol-catalogue';
+
+// App interval -> OKX `bar`; the utc variants align daily and weekly candles to UTC midnight rather than Hong Kong time
+const OKX_BARS: Record<string, string> = {
+  '1min': '1m',
+  '5min': '5m',
+  '15min': '15m',
+  '30min': '30m',
+  '1hour': '1H',
+  '4hour': '4H',
+  '1day': '1Dutc',
+  '1week': '1Wutc'
+};
+
+class OKXAPIService implements ExchangeAdapter {
   private static instance: OKXAPIService;
-  private baseURL = 'https://www.okx.com/api/v5';
+
+  readonly id = 'okx';
+  readonly name = 'OKX';
+  readonly capabilities: ExchangeCapabilities = {
+    orderbook: true,
+    ticker: true,
+    klines: true,
+    historicalKlines: true,
+    symbolListing: true,
+    websocket: false,
+    // history-candles pages at most 100 bars
+    maxKlinesPerRequest: 100
+  };
+
+  get baseURL(): string {
+    return exchangeEndpoints.get(this.id).rest;
+  }
+
+  set baseURL(url: string) {
+    exchangeEndpoints.set(this.id, { rest: url });
+  }
 
   static getInstance(): OKXAPIService {
     if (!OKXAPIService.instance) {
@@ -11,231 +46,127 @@ class OKXAPIService {
     return OKXAPIService.instance;
   }
 
-  private formatSymbol(symbol: string): string {
-    // Convert BTCUSDT to BTC-USDT format
-    if (symbol.includes('USDT')) {
-      return symbol.replace('USDT', '-USDT');
-    }
-    return symbol;
-  }
+  formatSymbol(symbol: string): string {
+    const listed = symbolCatalogue.getExchangeSymbol(this.id, symbol);
+    if (listed) return listed;
 
-  async getOrderbook(symbol: string, limit: number = 20): Promise<Orderbook> {
-    try {
-      const formattedSymbol = this.formatSymbol(symbol);
-      const response = await fetch(`${this.baseURL}/market/books?instId=${formattedSymbol}&sz=${limit}`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      if (data.code !== '0' || !data.data[0]) {
-        throw new Error('Invalid response format');
-      }
-
-      const orderbook = data.data[0];
-      
-      return {
-        symbol: symbol,
-        bids: orderbook.bids.map(([price, quantity]: [string, string]) => ({
-          price,
-          quantity
-        })),
-        asks: orderbook.asks.map(([price, quantity]: [string, string]) => ({
-          price,
-          quantity
-        })),
-        lastUpdateId: parseInt(orderbook.ts)
-      };
-    } catch (error) {
-      console.error('OKX orderbook fetch failed:', error);
-      return this.getMockOrderbook(symbol);
-    }
+    // Before instruments load: BTC/USD -> BTC-USDT (OKX spot has no plain USD book)
+    const { base, quote } = splitSymbol(symbol);
+    return joinSymbol(base, quote === 'USD' ? 'USDT' : quote, '-');
   }
 
-  async get24hTicker(symbol: string): Promise<Ticker24h> {
-    try {
-      const formattedSymbol = this.formatSymbol(symbol);
-      const response = await fetch(`${this.baseURL}/market/ticker?instId=${formattedSymbol}`);
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      if (data.code !== '0' || !data.data[0]) {
-        throw new Error('Invalid response format');
-      }
-
-      const ticker = data.data[0];
-
-      return {
-        symbol: symbol,
-        priceChange: (parseFloat(ticker.last) - parseFloat(ticker.open24h)).toString(),
-        priceChangePercent: (((parseFloat(ticker.last) - parseFloat(ticker.open24h)) / parseFloat(ticker.open24h)) * 100).toString(),
-        weightedAvgPrice: ticker.last,
-        prevClosePrice: ticker.open24h,
-        lastPrice: ticker.last,
-        bidPrice: ticker.bidPx,
-        askPrice: ticker.askPx,
-        openPrice: ticker.open24h,
-        highPrice: ticker.high24h,
-        lowPrice: ticker.low24h,
-        volume: ticker.vol24h,
-        quoteVolume: ticker.volCcy24h,
-        openTime: parseInt(ticker.ts) - 24 * 60 * 60 * 1000,
-        closeTime: parseInt(ticker.ts),
-        count: 0
-      };
-    } catch (error) {
-      console.error('OKX ticker fetch failed:', error);
-      return this.getMock24hTicker(symbol);
-    }
-  }
+  // OKX wraps every payload in { code, msg, data }
+  private async request<T>(path: string, context: string): Promise<T> {
+    const response = await fetch(`${this.baseURL}${path}`);
+    assertOk(response, context);
 
-  async getKlines(symbol: string, interval: string = '1D', limit: number = 30): Promise<Kline[]> {
-    try {
-      const formattedSymbol = this.formatSymbol(symbol);
-      const response = await fetch(
-        `${this.baseURL}/market/candles?instId=${formattedSymbol}&bar=${interval}&limit=${limit}`
-      );
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      if (data.code !== '0') {
-        throw new Error('Invalid response format');
-      }
-      
-      return data.data.map((candle: string[]) => ({
-        openTime: parseInt(candle[0]),
-        open: candle[1],
-        high: candle[2],
-        low: candle[3],
-        close: candle[4],
-        volume: candle[5],
-        closeTime: parseInt(candle[0]) + 24 * 60 * 60 * 1000,
-        quoteAssetVolume: candle[6],
-        numberOfTrades: 0,
-        takerBuyBaseAssetVolume: '0',
-        takerBuyQuoteAssetVolume: '0'
-      })).reverse();
-    } catch (error) {
-      console.error('OKX klines fetch failed:', error);
-      return this.getMockKlines(symbol, limit);
+    const data = await response.json();
+    if (data.code !== '0') {
+      throw new Error(`${context}: ${data.msg || 'Invalid response format'}`);
     }
+    return data.data as T;
   }
 
-  transformToFinancialData(ticker: Ticker24h, klines: Kline[]): FinancialData[] {
-    return klines.map((kline, index) => {
-      const open = parseFloat(kline.open);
-      const close = parseFloat(kline.close);
-      const high = parseFloat(kline.high);
-      const low = parseFloat(kline.low);
-      const volume = parseFloat(kline.volume);
-      
-      const priceRange = high - low;
-      const volatility = (priceRange / open) * 100;
-      const performance = ((close - open) / open) * 100;
-      
-      const prevClose = index > 0 ? parseFloat(klines[index - 1].close) : open;
-      const liquidity = volume * close;
-
-      return {
-        date: new Date(kline.openTime),
-        volatility,
-        performance,
-        volume,
-        price: close,
-        liquidity,
-        high,
-        low,
-        open,
-        close
-      };
-    });
-  }
+  async getOrderbook(symbol: string, limit: number = 20): Promise<Orderbook> {
+    const formattedSymbol = this.formatSymbol(symbol);
+    const [orderbook] = await this.request<OKXOrderbook[]>(
+      `/market/books?instId=${formattedSymbol}&sz=${limit}`,
+      'OKX orderbook fetch failed'
+    );
+    if (!orderbook) {
+      throw new Error('OKX orderbook fetch failed: empty response');
+    }
 
-  private getMockOrderbook(symbol: string): Orderbook {
-    const basePrice = 65000;
-    const spread = 10;
-    
     return {
-      symbol,
-      bids: Array.from({ length: 20 }, (_, i) => ({
-        price: (basePrice - spread - i * 5).toString(),
-        quantity: (Math.random() * 2).toFixed(4)
+      symbol: symbol,
+      bids: orderbook.bids.map(([price, quantity]) => ({
+        price,
+        quantity
       })),
-      asks: Array.from({ length: 20 }, (_, i) => ({
-        price: (basePrice + spread + i * 5).toString(),
-        quantity: (Math.random() * 2).toFixed(4)
+      asks: orderbook.asks.map(([price, quantity]) => ({
+        price,
+        quantity
       })),
-      lastUpdateId: Date.now()
+      lastUpdateId: parseInt(orderbook.ts)
     };
   }
 
-  private getMock24hTicker(symbol: string): Ticker24h {
-    const lastPrice = 65000 + Math.random() * 1000;
-    const openPrice = lastPrice * (0.98 + Math.random() * 0.04);
-    const high = Math.max(lastPrice, openPrice) * (1 + Math.random() * 0.02);
-    const low = Math.min(lastPrice, openPrice) * (1 - Math.random() * 0.02);
-    
+  async get24hTicker(symbol: string): Promise<Ticker24h> {
+    const formattedSymbol = this.formatSymbol(symbol);
+    const [ticker] = await this.request<OKXTicker[]>(
+      `/market/ticker?instId=${formattedSymbol}`,
+      'OKX ticker fetch failed'
+    );
+    if (!ticker) {
+      throw new Error('OKX ticker fetch failed: empty response');
+    }
+
     return {
-      symbol,
-      priceChange: (lastPrice - openPrice).toFixed(2),
-      priceChangePercent: (((lastPrice - openPrice) / openPrice) * 100).toFixed(2),
-      weightedAvgPrice: ((lastPrice + openPrice) / 2).toFixed(2),
-      prevClosePrice: openPrice.toFixed(2),
-      lastPrice: lastPrice.toFixed(2),
-      bidPrice: (lastPrice - 5).toFixed(2),
-      askPrice: (lastPrice + 5).toFixed(2),
-      openPrice: openPrice.toFixed(2),
-      highPrice: high.toFixed(2),
-      lowPrice: low.toFixed(2),
-      volume: (Math.random() * 1000).toFixed(2),
-      quoteVolume: (Math.random() * 50000000).toFixed(2),
-      openTime: Date.now() - 24 * 60 * 60 * 1000,
-      closeTime: Date.now(),
-      count: Math.floor(Math.random() * 10000)
+      symbol: symbol,
+      priceChange: (parseFloat(ticker.last) - parseFloat(ticker.open24h)).toString(),
+      priceChangePercent: (((parseFloat(ticker.last) - parseFloat(ticker.open24h)) / parseFloat(ticker.open24h)) * 100).toString(),
+      weightedAvgPrice: ticker.last,
+      prevClosePrice: ticker.open24h,
+      lastPrice: ticker.last,
+      bidPrice: ticker.bidPx,
+      askPrice: ticker.askPx,
+      openPrice: ticker.open24h,
+      highPrice: ticker.high24h,
+      lowPrice: ticker.low24h,
+      volume: ticker.vol24h,
+      quoteVolume: ticker.volCcy24h,
+      openTime: parseInt(ticker.ts) - 24 * 60 * 60 * 1000,
+      closeTime: parseInt(ticker.ts),
+      count: 0
     };
   }
 
-  private getMockKlines(symbol: string, limit: number): Kline[] {
-    const now = Date.now();
-    const dayMs = 24 * 60 * 60 * 1000;
-    let currentPrice = 65000;
-    
-    return Array.from({ length: limit }, (_, i) => {
-      const openTime = now - (limit - i) * dayMs;
-      const open = currentPrice;
-      const change = (Math.random() - 0.5) * 0.1;
-      const close = open * (1 + change);
-      const high = Math.max(open, close) * (1 + Math.random() * 0.05);
-      const low = Math.min(open, close) * (1 - Math.random() * 0.05);
-      const volume = Math.random() * 1000;
-      
-      currentPrice = close;
-      
-      return {
-        openTime,
-        open: open.toString(),
-        high: high.toString(),
-        low: low.toString(),
-        close: close.toString(),
-        volume: volume.toString(),
-        closeTime: openTime + dayMs,
-        quoteAssetVolume: (volume * close).toString(),
-        numberOfTrades: Math.floor(Math.random() * 1000),
-        takerBuyBaseAssetVolume: (volume * 0.6).toString(),
-        takerBuyQuoteAssetVolume: (volume * close * 0.6).toString()
-      };
-    });
+  async getKlines(symbol: string, interval: string = '1day', limit: number = 30, endTime?: number): Promise<Kline[]> {
+    const bar = OKX_BARS[interval];
+    if (!bar) {
+      throw new Error(`OKX does not support ${interval} candles`);
+    }
+
+    const formattedSymbol = this.formatSymbol(symbol);
+    const intervalMs = intervalToMs(interval);
+    // history-candles pages backwards from `after` (records earlier than that ts)
+    const path = endTime
+      ? `/market/history-candles?instId=${formattedSymbol}&bar=${bar}&limit=${limit}&after=${endTime}`
+      : `/market/candles?instId=${formattedSymbol}&bar=${bar}&limit=${limit}`;
+    const candles = await this.request<string[][]>(path, 'OKX klines fetch failed');
+
+    return candles.map((candle: string[]) => ({
+      openTime: parseInt(candle[0]),
+      open: candle[1],
+      high: candle[2],
+      low: candle[3],
+      close: candle[4],
+      volume: candle[5],
+      closeTime: parseInt(candle[0]) + intervalMs - 1,
+      quoteAssetVolume: candle[6],
+      numberOfTrades: 0,
+      takerBuyBaseAssetVolume: '0',
+      takerBuyQuoteAssetVolume: '0'
+    })).reverse();
+  }
+
+  async listSymbols(): Promise<ExchangeSymbol[]> {
+    const instruments = await this.request<OKXInstrument[]>(
+      '/public/instruments?instType=SPOT',
+      'OKX instruments fetch failed'
+    );
+
+    return instruments
+      .filter(instrument => instrument.state === 'live')
+      .map(instrument => ({
+        symbol: joinSymbol(instrument.baseCcy, instrument.quoteCcy, '/'),
+        exchangeSymbol: instrument.instId,
+        base: instrument.baseCcy,
+        quote: instrument.quoteCcy,
+        tickSize: parseFloat(instrument.tickSz),
+        lotSize: parseFloat(instrument.lotSz)
+      }));
   }
 }
 
-export const okxAPI = OKXAPIService.getInstance();
\ No newline at end of file
+export const okxAPI = OKXAPIService.getInstance();
@@ -0,0 +1,107 @@
+import { Orderbook, OrderbookEntry, WebSocketOrderbook } from '@/types/api';
+
+export type DiffResult = 'applied' | 'buffered' | 'stale' | 'gap';
+
+// Diffs queued while no snapshot is loaded; past this we are too far behind anyway
+const MAX_BUFFERED_DIFFS = 1000;
+
+// Maintains a local L2 book from a REST snapshot plus `depthUpdate` diffs.
+// Follows the Binance sequencing rules: drop diffs with u <= lastUpdateId, and
+// every applied diff must cover lastUpdateId + 1 (U <= lastUpdateId + 1 <= u).
+export class OrderbookSynchronizer {
+  private bids: Map<number, OrderbookEntry> = new Map();
+  private asks: Map<number, OrderbookEntry> = new Map();
+  private buffer: WebSocketOrderbook[] = [];
+  private lastUpdateId: number | null = null;
+
+  isSynced(): boolean {
+    return this.lastUpdateId !== null;
+  }
+
+  getLastUpdateId(): number | null {
+    return this.lastUpdateId;
+  }
+
+  // Drop the book and start buffering again until the next snapshot
+  reset(): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.lastUpdateId = null;
+  }
+
+  // Replace the book with a snapshot and replay buffered diffs on top of it.
+  // Returns 'gap' when the snapshot is older than the buffered stream and must be refetched.
+  loadSnapshot(snapshot: Orderbook): DiffResult {
+    this.reset();
+    snapshot.bids.forEach(({ price, quantity }) => this.setLevel(this.bids, price, quantity));
+    snapshot.asks.forEach(({ price, quantity }) => this.setLevel(this.asks, price, quantity));
+    this.lastUpdateId = snapshot.lastUpdateId;
+
+    const buffered = this.buffer;
+    this.buffer = [];
+
+    for (const diff of buffered) {
+      if (this.apply(diff) === 'gap') {
+        // Keep the newer diffs so the next snapshot can pick up from them
+        this.buffer = buffered.filter(d => d.u > snapshot.lastUpdateId);
+        this.reset();
+        return 'gap';
+      }
+    }
+
+    return 'applied';
+  }
+
+  apply(diff: WebSocketOrderbook): DiffResult {
+    if (this.lastUpdateId === null) {
+      this.buffer.push(diff);
+      if (this.buffer.length > MAX_BUFFERED_DIFFS) {
+        this.buffer.shift();
+      }
+      return 'buffered';
+    }
+
+    if (diff.u <= this.lastUpdateId) {
+      return 'stale';
+    }
+
+    if (diff.U > this.lastUpdateId + 1) {
+      return 'gap';
+    }
+
+    diff.b.forEach(([price, quantity]) => this.setLevel(this.bids, price, quantity));
+    diff.a.forEach(([price, quantity]) => this.setLevel(this.asks, price, quantity));
+    this.lastUpdateId = diff.u;
+    return 'applied';
+  }
+
+  toOrderbook(symbol: string, depth: number = 20): Orderbook {
+    return {
+      symbol,
+      bids: this.topLevels(this.bids, depth, (a, b) => b - a),
+      asks: this.topLevels(this.asks, depth, (a, b) => a - b),
+      lastUpdateId: this.lastUpdateId ?? 0
+    };
+  }
+
+  // Quantities are absolute; zero removes the level
+  private setLevel(side: Map<number, OrderbookEntry>, price: string, quantity: string): void {
+    const key = parseFloat(price);
+    if (parseFloat(quantity) === 0) {
+      side.delete(key);
+    } else {
+      side.set(key, { price, quantity });
+    }
+  }
+
+  private topLevels(
+    side: Map<number, OrderbookEntry>,
+    depth: number,
+    compare: (a: number, b: number) => number
+  ): OrderbookEntry[] {
+    return Array.from(side.keys())
+      .sort(compare)
+      .slice(0, depth)
+      .map(price => side.get(price)!);
+  }
+}
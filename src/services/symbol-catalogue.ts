@@ -0,0 +1,153 @@
+import { MarketSymbol } from '@/types/api';
+import { ExchangeSymbol, splitSymbol, joinSymbol, toSymbolId } from './exchange-adapter';
+import { exchangeRegistry } from './exchange-registry';
+
+export const DEFAULT_SYMBOL = 'BTC/USDT';
+
+// Venues quote the dollar differently; a pair missing on one venue resolves to its nearest stand-in
+const USD_EQUIVALENTS = ['USD', 'USDT', 'USDC'];
+
+const fallbackSymbol = (base: string, quote: string, tickSize: number, lotSize: number): MarketSymbol => ({
+  id: joinSymbol(base, quote, '/'),
+  base,
+  quote,
+  tickSize,
+  lotSize,
+  exchanges: []
+});
+
+// Shown before any venue listing has loaded, and as the only choices when every venue is unreachable
+const FALLBACK_SYMBOLS: MarketSymbol[] = [
+  fallbackSymbol('BTC', 'USDT', 0.01, 0.00001),
+  fallbackSymbol('ETH', 'USDT', 0.01, 0.0001),
+  fallbackSymbol('SOL', 'USDT', 0.01, 0.001),
+  fallbackSymbol('XRP', 'USDT', 0.0001, 0.1),
+  fallbackSymbol('ADA', 'USDT', 0.0001, 0.1),
+  fallbackSymbol('DOGE', 'USDT', 0.00001, 1),
+  fallbackSymbol('BTC', 'USD', 0.01, 0.00000001),
+  fallbackSymbol('ETH', 'USD', 0.01, 0.00000001)
+];
+
+// Listed first in pickers; everything else follows alphabetically
+const POPULAR_BASES = ['BTC', 'ETH', 'SOL', 'XRP', 'BNB', 'ADA', 'DOGE', 'AVAX', 'DOT', 'LINK', 'LTC', 'MATIC'];
+
+class SymbolCatalogueService {
+  private static instance: SymbolCatalogueService;
+  private symbols: Map<string, MarketSymbol> = new Map(FALLBACK_SYMBOLS.map(symbol => [symbol.id, symbol]));
+  private listings: Map<string, Map<string, ExchangeSymbol>> = new Map(); // exchange id -> symbol id -> listing
+  private loading: Promise<MarketSymbol[]> | null = null;
+  private loaded = false;
+
+  static getInstance(): SymbolCatalogueService {
+    if (!SymbolCatalogueService.instance) {
+      SymbolCatalogueService.instance = new SymbolCatalogueService();
+    }
+    return SymbolCatalogueService.instance;
+  }
+
+  // Fetch listings from every registered venue once; venues that fail are skipped
+  load(): Promise<MarketSymbol[]> {
+    if (this.loaded) return Promise.resolve(this.getSymbols());
+    if (this.loading) return this.loading;
+
+    this.loading = (async () => {
+      const adapters = exchangeRegistry.list().filter(adapter => adapter.capabilities.symbolListing);
+      const results = await Promise.allSettled(adapters.map(adapter => adapter.listSymbols()));
+
+      results.forEach((result, index) => {
+        const adapter = adapters[index];
+        if (result.status === 'rejected') {
+          console.warn(`Symbol listing failed for ${adapter.name}:`, result.reason);
+          return;
+        }
+        this.addListings(adapter.id, result.value);
+      });
+
+      this.loaded = this.listings.size > 0;
+      return this.getSymbols();
+    })().finally(() => {
+      this.loading = null;
+    });
+
+    return this.loading;
+  }
+
+  private addListings(exchangeId: string, listings: ExchangeSymbol[]): void {
+    const byId = new Map<string, ExchangeSymbol>();
+    listings.forEach(listing => byId.set(listing.symbol, listing));
+    this.listings.set(exchangeId, byId);
+
+    listings.forEach(listing => {
+      const existing = this.symbols.get(listing.symbol);
+      if (existing && existing.exchanges.length > 0) {
+        if (!existing.exchanges.includes(exchangeId)) {
+          existing.exchanges.push(exchangeId);
+        }
+        return;
+      }
+
+      // First venue to list a pair (registry order) supplies its precision
+      this.symbols.set(listing.symbol, {
+        id: listing.symbol,
+        base: listing.base,
+        quote: listing.quote,
+        tickSize: listing.tickSize,
+        lotSize: listing.lotSize,
+        exchanges: [exchangeId]
+      });
+    });
+  }
+
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  // Whether a venue's listing has loaded, so a missing pair means it isn't traded there
+  hasListings(exchangeId: string): boolean {
+    return this.listings.has(exchangeId);
+  }
+
+  getSymbols(): MarketSymbol[] {
+    const rank = (symbol: MarketSymbol) => {
+      const popular = POPULAR_BASES.indexOf(symbol.base);
+      return popular === -1 ? POPULAR_BASES.length : popular;
+    };
+
+    return Array.from(this.symbols.values()).sort((a, b) =>
+      rank(a) - rank(b) ||
+      b.exchanges.length - a.exchanges.length ||
+      a.id.localeCompare(b.id)
+    );
+  }
+
+  get(symbol: string): MarketSymbol | undefined {
+    return this.symbols.get(toSymbolId(symbol));
+  }
+
+  // Venue-native symbol for a canonical id, trying USD stand-ins when the exact pair is not listed.
+  // Returns undefined until the venue's listing has loaded.
+  getExchangeSymbol(exchangeId: string, symbol: string): string | undefined {
+    const listing = this.getListing(exchangeId, symbol);
+    return listing?.exchangeSymbol;
+  }
+
+  getListing(exchangeId: string, symbol: string): ExchangeSymbol | undefined {
+    const venue = this.listings.get(exchangeId);
+    if (!venue) return undefined;
+
+    const id = toSymbolId(symbol);
+    const exact = venue.get(id);
+    if (exact) return exact;
+
+    const { base, quote } = splitSymbol(id);
+    if (!USD_EQUIVALENTS.includes(quote)) return undefined;
+
+    for (const alternative of USD_EQUIVALENTS) {
+      const listing = venue.get(joinSymbol(base, alternative, '/'));
+      if (listing) return listing;
+    }
+    return undefined;
+  }
+}
+
+export const symbolCatalogue = SymbolCatalogueService.getInstance();
@@ -0,0 +1,349 @@
+import { Trade, StreamConnectionStatus, StreamConnectionEvent } from '@/types/api';
+import { mockDataService } from './mock-data-service';
+import { exchangeEndpoints } from './exchange-endpoints';
+import { exchangeRegistry } from './exchanges';
+import { assertOk, toSymbolId } from './exchange-adapter';
+import { DEFAULT_SYMBOL } from './symbol-catalogue';
+
+const CONNECT_TIMEOUT = 10000;
+const MOCK_INTERVAL_MS = 400;
+const OKX_PING_MS = 25000; // OKX drops sockets that stay silent for 30s
+
+// How one venue's public trade feed is reached and read. `symbol` is always the canonical id.
+interface TradeFeed {
+  open(symbol: string): Promise<{ url: string; pingInterval?: number }>;
+  subscribe(symbol: string): object;
+  ping?: () => string;
+  parse(message: unknown, symbol: string): Trade[];
+}
+
+// The parts of each venue's messages the feeds read
+interface CoinbaseMatch {
+  type: string;
+  trade_id: number;
+  price: string;
+  size: string;
+  side: Trade['side']; // maker side
+  time: string;
+}
+
+interface OkxTradesPush {
+  arg?: { channel: string };
+  data?: { tradeId: string; px: string; sz: string; side: Trade['side']; ts: string }[];
+}
+
+interface KuCoinMatchMessage {
+  type: string;
+  subject?: string;
+  data: { tradeId: string; price: string; size: string; side: Trade['side']; time: string };
+}
+
+interface TradeStreamChannels {
+  trades: Trade[];
+  connection: StreamConnectionEvent;
+}
+
+type TradeStreamChannel = keyof TradeStreamChannels;
+type TradeStreamCallback = (data: TradeStreamChannels[TradeStreamChannel]) => void;
+
+const venueSymbol = (venue: string, symbol: string) => exchangeRegistry.get(venue)?.formatSymbol(symbol) ?? symbol;
+
+const TRADE_FEEDS: Record<string, TradeFeed> = {
+  coinbase: {
+    open: async () => ({ url: exchangeEndpoints.get('coinbase').stream ?? '' }),
+    subscribe: symbol => ({ type: 'subscribe', product_ids: [venueSymbol('coinbase', symbol)], channels: ['matches'] }),
+    // Coinbase reports the resting maker's side, so the aggressor is the other one
+    parse: (message, symbol) => {
+      const match = message as CoinbaseMatch;
+      return match.type === 'match' || match.type === 'last_match' ? [{
+        id: String(match.trade_id),
+        symbol,
+        price: parseFloat(match.price),
+        quantity: parseFloat(match.size),
+        side: match.side === 'buy' ? 'sell' : 'buy',
+        time: Date.parse(match.time),
+        source: 'coinbase'
+      }] : [];
+    }
+  },
+  okx: {
+    open: async () => ({ url: exchangeEndpoints.get('okx').stream ?? '', pingInterval: OKX_PING_MS }),
+    subscribe: symbol => ({ op: 'subscribe', args: [{ channel: 'trades', instId: venueSymbol('okx', symbol) }] }),
+    ping: () => 'ping',
+    parse: (message, symbol) => {
+      const push = message as OkxTradesPush;
+      return push.arg?.channel === 'trades' && Array.isArray(push.data)
+        ? push.data.map(trade => ({
+          id: String(trade.tradeId),
+          symbol,
+          price: parseFloat(trade.px),
+          quantity: parseFloat(trade.sz),
+          side: trade.side,
+          time: Number(trade.ts),
+          source: 'okx'
+        }))
+        : [];
+    }
+  },
+  kucoin: {
+    // KuCoin hands out the socket address and a token over REST first
+    open: async () => {
+      const response = await fetch(`${exchangeEndpoints.get('kucoin').rest}/bullet-public`, { method: 'POST' });
+      assertOk(response, 'KuCoin websocket token request failed');
+      const { data } = await response.json();
+      const server = data?.instanceServers?.[0];
+      if (!data?.token || !server) throw new Error('No KuCoin websocket servers available');
+      return { url: `${server.endpoint}?token=${data.token}&connectId=${Date.now()}`, pingInterval: server.pingInterval };
+    },
+    subscribe: symbol => ({
+      id: String(Date.now()),
+      type: 'subscribe',
+      topic: `/market/match:${venueSymbol('kucoin', symbol)}`,
+      privateChannel: false,
+      response: true
+    }),
+    ping: () => JSON.stringify({ id: String(Date.now()), type: 'ping' }),
+    // Match times are in nanoseconds
+    parse: (message, symbol) => {
+      const match = message as KuCoinMatchMessage;
+      return match.type === 'message' && match.subject === 'trade.l3match' ? [{
+        id: String(match.data.tradeId),
+        symbol,
+        price: parseFloat(match.data.price),
+        quantity: parseFloat(match.data.size),
+        side: match.data.side,
+        time: Math.floor(Number(match.data.time) / 1e6),
+        source: 'kucoin'
+      }] : [];
+    }
+  }
+};
+
+export const TRADE_VENUES = Object.keys(TRADE_FEEDS);
+export const DEFAULT_TRADE_VENUE = 'coinbase';
+
+// Venues without a trade feed (Binance) read the default venue's tape instead
+export const tradeVenueFor = (source: string): string => TRADE_FEEDS[source] ? source : DEFAULT_TRADE_VENUE;
+
+// Executed trades for one symbol from one venue, published in batches on the `trades` channel.
+// Falls back to simulated prints when the venue can't be reached, like the order book stream.
+export class TradeStreamService {
+  private static instance: TradeStreamService;
+  private ws: WebSocket | null = null;
+  private subscribers: Map<TradeStreamChannel, Set<TradeStreamCallback>> = new Map();
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 5;
+  private reconnectDelay = 1000;
+  private connectionState: StreamConnectionStatus = 'disconnected';
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private pingInterval: NodeJS.Timeout | null = null;
+  private mockDataInterval: NodeJS.Timeout | null = null;
+  private isUsingMockData = false;
+  private symbol = DEFAULT_SYMBOL;
+  private venue = DEFAULT_TRADE_VENUE;
+  private hasBeenLive = false;
+  // Bumped on every connect/disconnect so callbacks from stale sockets are ignored
+  private session = 0;
+
+  static getInstance(): TradeStreamService {
+    if (!TradeStreamService.instance) {
+      TradeStreamService.instance = new TradeStreamService();
+    }
+    return TradeStreamService.instance;
+  }
+
+  async connect(symbol: string = DEFAULT_SYMBOL, source: string = DEFAULT_TRADE_VENUE): Promise<void> {
+    this.reconnectAttempts = 0;
+    this.hasBeenLive = false;
+    return this.start(symbol, tradeVenueFor(source));
+  }
+
+  private async start(symbol: string, venue: string): Promise<void> {
+    this.stop();
+    const session = ++this.session;
+    this.symbol = toSymbolId(symbol);
+    this.venue = venue;
+    this.setConnectionState('connecting', 'live');
+
+    try {
+      await this.openStream(session, TRADE_FEEDS[venue]);
+      if (session !== this.session) return;
+
+      this.reconnectAttempts = 0;
+      this.hasBeenLive = true;
+      this.setConnectionState('connected', 'live');
+    } catch (error) {
+      if (session !== this.session) return;
+      this.handleLiveFailure(error);
+    }
+  }
+
+  private async openStream(session: number, feed: TradeFeed): Promise<void> {
+    const { url, pingInterval } = await feed.open(this.symbol);
+    if (session !== this.session) return;
+
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url);
+      this.ws = ws;
+
+      const timeout = setTimeout(() => {
+        if (ws.readyState === WebSocket.CONNECTING) {
+          ws.close();
+          reject(new Error('Trade stream connection timeout'));
+        }
+      }, CONNECT_TIMEOUT);
+
+      ws.onopen = () => {
+        clearTimeout(timeout);
+        ws.send(JSON.stringify(feed.subscribe(this.symbol)));
+        if (feed.ping && pingInterval) {
+          this.pingInterval = setInterval(() => ws.send(feed.ping!()), pingInterval);
+        }
+        resolve();
+      };
+
+      ws.onmessage = (event) => {
+        // OKX answers pings with a bare "pong"
+        if (session !== this.session || typeof event.data !== 'string' || !event.data.startsWith('{')) return;
+        try {
+          const trades = feed.parse(JSON.parse(event.data), this.symbol)
+            .filter(trade => trade.price > 0 && trade.quantity > 0 && Number.isFinite(trade.time));
+          if (trades.length) this.notifySubscribers('trades', trades);
+        } catch (error) {
+          console.error('Error parsing trade stream message:', error);
+        }
+      };
+
+      ws.onerror = () => {
+        clearTimeout(timeout);
+        reject(new Error('Trade stream error'));
+      };
+
+      ws.onclose = (event) => {
+        clearTimeout(timeout);
+        reject(new Error(`Trade stream closed (${event.code})`));
+        if (session === this.session && this.connectionState === 'connected' && !this.isUsingMockData) {
+          this.handleLiveFailure(new Error(`Trade stream closed (${event.code})`));
+        }
+      };
+    });
+  }
+
+  private handleLiveFailure(error: unknown): void {
+    const reason = error instanceof Error ? error.message : String(error);
+
+    if (this.hasBeenLive && this.reconnectAttempts < this.maxReconnectAttempts) {
+      this.reconnectAttempts++;
+      const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+      console.warn(`${reason}; reconnecting in ${delay}ms (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+
+      this.stop();
+      this.setConnectionState('connecting', 'live', reason);
+      this.reconnectTimeout = setTimeout(() => this.start(this.symbol, this.venue), delay);
+      return;
+    }
+
+    console.warn(`Live trades unavailable (${reason}), falling back to mock data`);
+    this.stop();
+    this.isUsingMockData = true;
+    this.startMockDataSimulation();
+    this.setConnectionState('connected', 'mock', reason);
+  }
+
+  private startMockDataSimulation(): void {
+    let last: Trade | undefined;
+    this.mockDataInterval = setInterval(() => {
+      const trades = mockDataService.generateTrades(this.symbol, last?.price, last?.side);
+      if (!trades.length) return;
+      last = trades[trades.length - 1];
+      this.notifySubscribers('trades', trades);
+    }, MOCK_INTERVAL_MS);
+  }
+
+  private setConnectionState(status: StreamConnectionStatus, mode: StreamConnectionEvent['mode'], reason?: string): void {
+    this.connectionState = status;
+    const event: StreamConnectionEvent = { status, mode, reason };
+    this.notifySubscribers('connection', event);
+  }
+
+  subscribe<K extends TradeStreamChannel>(channel: K, callback: (data: TradeStreamChannels[K]) => void): () => void {
+    const listener = callback as TradeStreamCallback;
+    if (!this.subscribers.has(channel)) {
+      this.subscribers.set(channel, new Set());
+    }
+    this.subscribers.get(channel)!.add(listener);
+
+    return () => {
+      const channelSubscribers = this.subscribers.get(channel);
+      if (channelSubscribers) {
+        channelSubscribers.delete(listener);
+        if (channelSubscribers.size === 0) {
+          this.subscribers.delete(channel);
+        }
+      }
+    };
+  }
+
+  private notifySubscribers<K extends TradeStreamChannel>(channel: K, data: TradeStreamChannels[K]): void {
+    const channelSubscribers = this.subscribers.get(channel);
+    if (channelSubscribers) {
+      channelSubscribers.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in trade stream subscriber for channel ${channel}:`, error);
+        }
+      });
+    }
+  }
+
+  private stop(): void {
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.onclose = null;
+      ws.onerror = null;
+      ws.onmessage = null;
+      ws.close();
+    }
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+
+    if (this.mockDataInterval) {
+      clearInterval(this.mockDataInterval);
+      this.mockDataInterval = null;
+    }
+
+    this.isUsingMockData = false;
+  }
+
+  // Unlike the order book stream, subscribers are kept: live candles listen independently of
+  // whoever owns the connection, and each unsubscribes itself
+  disconnect(): void {
+    this.session++;
+    this.stop();
+    this.connectionState = 'disconnected';
+  }
+
+  getConnectionStatus(): StreamConnectionStatus {
+    return this.connectionState;
+  }
+
+  getVenue(): string {
+    return this.venue;
+  }
+
+  getIsUsingMockData(): boolean {
+    return this.isUsingMockData;
+  }
+}
+
+export const tradeStreamService = TradeStreamService.getInstance();
@@ -1,4 +1,5 @@
 import { WebSocketOrderbook, KuCoinWebSocketOrderbook } from '@/types/api';
+import { exchangeEndpoints } from './exchange-endpoints';
 
 export class WebSocketService {
   private ws: WebSocket | null = null;
@@ -12,7 +13,7 @@ export class WebSocketService {
   // Get WebSocket connection details from KuCoin
   private async getWebSocketInfo(): Promise<any> {
     try {
-      const response = await fetch('https://api.kucoin.com/api/v1/bullet-public');
+      const response = await fetch(`${exchangeEndpoints.get('kucoin').rest}/bullet-public`, { method: 'POST' });
       const result = await response.json();
       return result.data;
     } catch (error) {
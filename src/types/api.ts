@@ -53,6 +53,26 @@ export interface WebSocketOrderbook {
   a: [string, string][]; // Asks [price, quantity]
 }
 
+export type StreamConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'error';
+
+// Published on the `connection` channel; mode tells subscribers whether the book is real or simulated
+export interface StreamConnectionEvent {
+  status: StreamConnectionStatus;
+  mode: 'live' | 'mock';
+  reason?: string;
+}
+
+// Executed trade from the trades stream. `side` is the aggressor: 'buy' lifted the ask, 'sell' hit the bid
+export interface Trade {
+  id: string;
+  symbol: string;
+  price: number;
+  quantity: number;
+  side: 'buy' | 'sell';
+  time: number;
+  source: string; // venue id, or 'mock'
+}
+
 // KuCoin specific types
 export interface KuCoinOrderbook {
   sequence: string;
@@ -105,6 +125,74 @@ export interface KuCoinWebSocketOrderbook {
   };
 }
 
+export interface KuCoinSymbol {
+  symbol: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  priceIncrement: string;
+  baseIncrement: string;
+  enableTrading: boolean;
+}
+
+// Coinbase specific types
+export interface CoinbaseProduct {
+  id: string;
+  base_currency: string;
+  quote_currency: string;
+  quote_increment: string;
+  base_increment: string;
+  status: string;
+  trading_disabled: boolean;
+}
+
+// OKX specific types
+export interface OKXOrderbook {
+  asks: [string, string, string, string][];
+  bids: [string, string, string, string][];
+  ts: string;
+}
+
+export interface OKXTicker {
+  instId: string;
+  last: string;
+  askPx: string;
+  bidPx: string;
+  open24h: string;
+  high24h: string;
+  low24h: string;
+  vol24h: string;
+  volCcy24h: string;
+  ts: string;
+}
+
+export interface OKXInstrument {
+  instId: string;
+  baseCcy: string;
+  quoteCcy: string;
+  tickSz: string;
+  lotSz: string;
+  state: string;
+}
+
+// Binance specific types
+export interface BinanceSymbolInfo {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  status: string;
+  filters: { filterType: string; tickSize?: string; stepSize?: string }[];
+}
+
+// Canonical instrument used everywhere in the app; `id` is 'BASE/QUOTE', e.g. 'ETH/USD'
+export interface MarketSymbol {
+  id: string;
+  base: string;
+  quote: string;
+  tickSize: number;
+  lotSize: number;
+  exchanges: string[];   // venues listing this exact pair, in registry order
+}
+
 export interface FinancialData {
   date: Date;
   volatility: number;
@@ -0,0 +1,223 @@
+import { FinancialData } from '@/types/api';
+import { MONTH_LABELS, WEEKDAY_LABELS } from './seasonality';
+
+// Calendar rules decide, day by day, whether to hold through that day (close of the previous day to
+// the close of this one). Weekdays are Monday = 0, months January = 0, both in UTC like the candles.
+export type BacktestRule =
+  | { kind: 'weekday-window'; entryDay: number; exitDay: number } // buy at entryDay's close, sell at exitDay's
+  | { kind: 'months'; months: number[] }                          // hold through the chosen months
+  | { kind: 'positive-months'; minYears: number };                // hold in months whose earlier years averaged a gain
+
+export interface BacktestConfig {
+  rule: BacktestRule;
+  feeBps: number;      // per side
+  slippageBps: number; // per side
+  initialCapital: number;
+}
+
+export interface BacktestTrade {
+  entryDate: Date;     // its close is the entry
+  exitDate: Date;      // its close is the exit
+  entryPrice: number;
+  exitPrice: number;
+  days: number;        // days held
+  returnPct: number;   // after costs
+  open: boolean;       // still held on the last candle; no exit costs charged
+}
+
+export interface EquityPoint {
+  date: Date;
+  equity: number;
+  benchmark: number;   // buy and hold from the first close, without costs
+  drawdown: number;    // % below the running peak, <= 0
+  inMarket: boolean;
+}
+
+export interface BacktestMetrics {
+  totalReturn: number; // %
+  cagr: number;        // %
+  sharpe: number;      // annualised, zero risk-free rate
+  sortino: number;
+  maxDrawdown: number; // %, <= 0
+  exposure: number;    // share of days in the market, 0-1
+  winRate: number;     // share of profitable trades, 0-1
+  trades: number;
+  benchmarkReturn: number; // %
+}
+
+export interface BacktestResult {
+  equity: EquityPoint[];
+  trades: BacktestTrade[];
+  metrics: BacktestMetrics;
+}
+
+export type TradeDayMark = 'entry' | 'hold' | 'exit';
+
+export const defaultBacktestConfig: BacktestConfig = {
+  rule: { kind: 'weekday-window', entryDay: 4, exitDay: 0 },
+  feeBps: 10,
+  slippageBps: 5,
+  initialCapital: 10000
+};
+
+// Crypto trades every day of the year
+const PERIODS_PER_YEAR = 365;
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+const weekday = (date: Date) => (date.getUTCDay() + 6) % 7;
+
+export const describeBacktestRule = (rule: BacktestRule): string => {
+  switch (rule.kind) {
+    case 'weekday-window':
+      return `Buy ${WEEKDAY_LABELS[rule.entryDay]} close, sell ${WEEKDAY_LABELS[rule.exitDay]} close`;
+    case 'months':
+      return `Hold in ${rule.months.length ? rule.months.map(month => MONTH_LABELS[month]).join(', ') : 'no months'}`;
+    case 'positive-months':
+      return `Hold in months that averaged a gain over at least ${rule.minYears} earlier years`;
+  }
+};
+
+// Closing price at the end of each UTC month, keyed 'year-month'
+const monthCloses = (bars: FinancialData[]) => {
+  const closes = new Map<string, number>();
+  bars.forEach(bar => closes.set(`${bar.date.getUTCFullYear()}-${bar.date.getUTCMonth()}`, bar.close!));
+  return closes;
+};
+
+// Whether each day is held. Walk-forward: the positive-months rule only sees years before the day's.
+const positions = (bars: FinancialData[], rule: BacktestRule): boolean[] => {
+  switch (rule.kind) {
+    case 'weekday-window': {
+      // Held from the day after entryDay through exitDay, wrapping over the weekend
+      const span = (rule.exitDay - rule.entryDay + 7) % 7 || 7;
+      return bars.map(bar => {
+        const sinceEntry = (weekday(bar.date) - rule.entryDay + 7) % 7 || 7;
+        return sinceEntry <= span;
+      });
+    }
+    case 'months': {
+      const months = new Set(rule.months);
+      return bars.map(bar => months.has(bar.date.getUTCMonth()));
+    }
+    case 'positive-months': {
+      const closes = monthCloses(bars);
+      const monthReturn = (year: number, month: number): number | null => {
+        const previous = month === 0 ? closes.get(`${year - 1}-11`) : closes.get(`${year}-${month - 1}`);
+        const current = closes.get(`${year}-${month}`);
+        return previous && current ? current / previous - 1 : null;
+      };
+      const firstYear = bars.length ? bars[0].date.getUTCFullYear() : 0;
+      return bars.map(bar => {
+        const year = bar.date.getUTCFullYear();
+        const month = bar.date.getUTCMonth();
+        const history: number[] = [];
+        for (let earlier = firstYear; earlier < year; earlier++) {
+          const value = monthReturn(earlier, month);
+          if (value !== null) history.push(value);
+        }
+        return history.length >= rule.minYears && history.reduce((a, b) => a + b, 0) / history.length > 0;
+      });
+    }
+  }
+};
+
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const computeMetrics = (equity: EquityPoint[], returns: number[], trades: BacktestTrade[], initialCapital: number): BacktestMetrics => {
+  const last = equity[equity.length - 1];
+  const totalReturn = last ? (last.equity / initialCapital - 1) * 100 : 0;
+  const years = equity.length > 1 ? (last.date.getTime() - equity[0].date.getTime()) / YEAR_MS : 0;
+  const cagr = years > 0 && last.equity > 0 ? (Math.pow(last.equity / initialCapital, 1 / years) - 1) * 100 : 0;
+
+  const average = mean(returns);
+  const deviation = Math.sqrt(returns.reduce((sum, r) => sum + (r - average) ** 2, 0) / Math.max(1, returns.length - 1));
+  const downside = Math.sqrt(mean(returns.map(r => Math.min(0, r) ** 2)));
+  const annualise = Math.sqrt(PERIODS_PER_YEAR);
+
+  return {
+    totalReturn,
+    cagr,
+    sharpe: deviation > 0 ? average / deviation * annualise : 0,
+    sortino: downside > 0 ? average / downside * annualise : 0,
+    maxDrawdown: Math.min(0, ...equity.map(point => point.drawdown)),
+    exposure: equity.length > 1 ? equity.slice(1).filter(point => point.inMarket).length / (equity.length - 1) : 0,
+    winRate: trades.length ? trades.filter(trade => trade.returnPct > 0).length / trades.length : 0,
+    trades: trades.length,
+    benchmarkReturn: last ? (last.benchmark / initialCapital - 1) * 100 : 0
+  };
+};
+
+// Runs a calendar rule over daily candles, trading at closes. Fees and slippage are charged on each
+// entry and exit as a fraction of equity.
+export const runBacktest = (data: FinancialData[], config: BacktestConfig): BacktestResult => {
+  const bars = data
+    .filter(bar => bar.close && bar.close > 0)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  const held = positions(bars, config.rule);
+  const cost = (config.feeBps + config.slippageBps) / 10000;
+
+  const equity: EquityPoint[] = [];
+  const returns: number[] = [];
+  const trades: BacktestTrade[] = [];
+  let value = config.initialCapital;
+  let peak = value;
+  let entry: { index: number; value: number } | null = null;
+
+  bars.forEach((bar, i) => {
+    const before = value;
+    const inMarket = i > 0 && held[i];
+
+    if (inMarket) {
+      if (!entry) {
+        value *= 1 - cost;
+        entry = { index: i - 1, value: before };
+      }
+      value *= bar.close! / bars[i - 1].close!;
+
+      const exits = i === bars.length - 1 ? false : !held[i + 1];
+      if (exits) value *= 1 - cost;
+      if (exits || i === bars.length - 1) {
+        trades.push({
+          entryDate: bars[entry.index].date,
+          exitDate: bar.date,
+          entryPrice: bars[entry.index].close!,
+          exitPrice: bar.close!,
+          days: i - entry.index,
+          returnPct: (value / entry.value - 1) * 100,
+          open: !exits
+        });
+        entry = null;
+      }
+    }
+
+    peak = Math.max(peak, value);
+    if (i > 0) returns.push(value / before - 1);
+    equity.push({
+      date: bar.date,
+      equity: value,
+      benchmark: config.initialCapital * bar.close! / bars[0].close!,
+      drawdown: (value / peak - 1) * 100,
+      inMarket
+    });
+  });
+
+  return { equity, trades, metrics: computeMetrics(equity, returns, trades, config.initialCapital) };
+};
+
+// UTC candle day -> 'YYYY-MM-DD', matching the calendar's day keys
+const candleDayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+// Calendar marks for each trade: the entry day, the days held and the exit day
+export const tradeDayMarks = (trades: BacktestTrade[]): Map<string, TradeDayMark> => {
+  const marks = new Map<string, TradeDayMark>();
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  trades.forEach(trade => {
+    for (let time = trade.entryDate.getTime() + DAY_MS; time < trade.exitDate.getTime(); time += DAY_MS) {
+      marks.set(candleDayKey(new Date(time)), 'hold');
+    }
+    marks.set(candleDayKey(trade.entryDate), 'entry');
+    if (!trade.open) marks.set(candleDayKey(trade.exitDate), 'exit');
+    else marks.set(candleDayKey(trade.exitDate), 'hold');
+  });
+  return marks;
+};
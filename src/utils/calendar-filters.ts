@@ -0,0 +1,59 @@
+import { CalendarDayState, CalendarDayData } from '@/services/calendar-data-service';
+
+export interface FilterOptions {
+  instrument: string;
+  volatilityRange: [number, number];   // fraction of the day's open
+  performanceRange: [number, number];  // fraction, open to close
+  volumeThreshold: number;             // quote currency
+  showOnlyTradingDays: boolean;
+  hideNonMatching: boolean;            // hide instead of dim
+}
+
+// Slider bounds; a handle resting on a bound means "no limit on that side"
+export const FILTER_LIMITS = {
+  volatility: [0, 1] as [number, number],
+  performance: [-0.15, 0.15] as [number, number],
+  volume: [1000000, 100000000] as [number, number]
+};
+
+export type FilterDisplay = 'visible' | 'dimmed' | 'hidden';
+
+export const createDefaultFilters = (instrument: string): FilterOptions => ({
+  instrument,
+  volatilityRange: [...FILTER_LIMITS.volatility],
+  performanceRange: [...FILTER_LIMITS.performance],
+  volumeThreshold: FILTER_LIMITS.volume[0],
+  showOnlyTradingDays: false,
+  hideNonMatching: false
+});
+
+const inRange = (value: number, [min, max]: [number, number], [lower, upper]: [number, number]) =>
+  (min <= lower || value >= min) && (max >= upper || value <= max);
+
+export const isFilterActive = (filters: FilterOptions): boolean => {
+  const [volMin, volMax] = filters.volatilityRange;
+  const [perfMin, perfMax] = filters.performanceRange;
+  return volMin > FILTER_LIMITS.volatility[0] || volMax < FILTER_LIMITS.volatility[1] ||
+    perfMin > FILTER_LIMITS.performance[0] || perfMax < FILTER_LIMITS.performance[1] ||
+    filters.volumeThreshold > FILTER_LIMITS.volume[0] ||
+    filters.showOnlyTradingDays;
+};
+
+// Days without a candle only fail the "trading days" filter; the value filters need data to judge
+export const matchesFilters = (day: CalendarDayData | undefined, filters: FilterOptions): boolean => {
+  if (!day) return !filters.showOnlyTradingDays;
+  if (filters.showOnlyTradingDays && day.volume <= 0) return false;
+
+  return inRange(day.volatility, filters.volatilityRange, FILTER_LIMITS.volatility) &&
+    inRange(day.performance, filters.performanceRange, FILTER_LIMITS.performance) &&
+    (filters.volumeThreshold <= FILTER_LIMITS.volume[0] || day.volume >= filters.volumeThreshold);
+};
+
+export const getFilterDisplay = (dayState: CalendarDayState, filters?: FilterOptions): FilterDisplay => {
+  // Still-loading days are left alone so cells don't flicker while data arrives
+  if (!filters || dayState.status === 'loading' || matchesFilters(dayState.data, filters)) return 'visible';
+  return filters.hideNonMatching ? 'hidden' : 'dimmed';
+};
+
+export const filterDays = (days: CalendarDayData[], filters?: FilterOptions): CalendarDayData[] =>
+  filters ? days.filter(day => matchesFilters(day, filters)) : days;
@@ -0,0 +1,24 @@
+export interface OHLC {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// Heikin-Ashi smooths each candle with the previous one; extra fields (date, volume) pass through
+export const toHeikinAshi = <T extends OHLC>(candles: T[]): T[] => {
+  const result: T[] = [];
+  candles.forEach((candle, index) => {
+    const previous = result[index - 1];
+    const close = (candle.open + candle.high + candle.low + candle.close) / 4;
+    const open = previous ? (previous.open + previous.close) / 2 : (candle.open + candle.close) / 2;
+    result.push({
+      ...candle,
+      open,
+      close,
+      high: Math.max(candle.high, open, close),
+      low: Math.min(candle.low, open, close)
+    });
+  });
+  return result;
+};
@@ -0,0 +1,32 @@
+// Canvas can't read CSS variables, so theme colours like 'hsl(var(--success))' are resolved against
+// the document before drawing. Results are cached per colour until the theme changes.
+const resolved = new Map<string, string>();
+let resolvedTheme = '';
+
+const themeKey = () => document.documentElement.className;
+
+export const resolveColor = (color: string): string => {
+  if (!color.includes('var(')) return color;
+
+  if (themeKey() !== resolvedTheme) {
+    resolved.clear();
+    resolvedTheme = themeKey();
+  }
+
+  const cached = resolved.get(color);
+  if (cached) return cached;
+
+  const styles = getComputedStyle(document.documentElement);
+  const value = color.replace(/var\((--[\w-]+)\)/g, (_, name: string) => styles.getPropertyValue(name).trim());
+  resolved.set(color, value);
+  return value;
+};
+
+// 'hsl(142 71% 45%)' -> 'hsl(142 71% 45% / 0.4)'; other formats are returned unchanged
+export const withAlpha = (color: string, alpha: number): string => {
+  const value = resolveColor(color);
+  return value.startsWith('hsl(') && !value.includes('/') ? value.replace(/\)$/, ` / ${alpha})`) : value;
+};
+
+// Snap to the pixel grid so 1px lines are not blurred across two pixels
+export const crisp = (value: number): number => Math.round(value) + 0.5;
@@ -0,0 +1,40 @@
+import { PricePoint } from './chart-projection';
+
+export type DrawingType = 'trendline' | 'horizontal' | 'rectangle' | 'fibonacci' | 'text';
+
+// An annotation anchored in time/price, so it follows the candles through zoom and pan
+export interface ChartDrawing {
+  id: string;
+  type: DrawingType;
+  points: PricePoint[]; // one for levels and notes, two for the rest
+  color: string;
+  text?: string;        // text notes only
+}
+
+export const drawingTypes: Record<DrawingType, { label: string; points: 1 | 2 }> = {
+  trendline: { label: 'Trend line', points: 2 },
+  horizontal: { label: 'Price level', points: 1 },
+  rectangle: { label: 'Rectangle', points: 2 },
+  fibonacci: { label: 'Fibonacci retracement', points: 2 },
+  text: { label: 'Text note', points: 1 }
+};
+
+export const drawingColors = Array.from({ length: 8 }, (_, i) => `hsl(var(--chart-${i + 1}))`);
+
+export const FIBONACCI_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+// Retracement of the move from the first point to the second: 0 at the second point, 1 back at the first
+export const fibonacciPrice = ([from, to]: PricePoint[], level: number): number =>
+  to.price - (to.price - from.price) * level;
+
+export const createDrawing = (type: DrawingType, points: PricePoint[], color: string): ChartDrawing => ({
+  id: `${type}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  type,
+  points,
+  color,
+  ...(type === 'text' ? { text: 'Note' } : {})
+});
+
+// Moves every point by the same time and price offset
+export const translateDrawing = (points: PricePoint[], deltaTime: number, deltaPrice: number): PricePoint[] =>
+  points.map(point => ({ time: point.time + deltaTime, price: point.price + deltaPrice }));
@@ -0,0 +1,537 @@
+import {
+  PriceBar,
+  calculateSMA,
+  calculateEMA,
+  calculateRSI,
+  calculateMACD,
+  calculateBollingerBands,
+  calculateATR,
+  calculateStochastic,
+  calculateVWAP,
+  calculateOBV,
+  calculateADX,
+  calculateIchimoku,
+  calculateKeltnerChannels,
+  calculateParabolicSAR,
+  calculateDonchianChannels
+} from './technicalIndicators';
+import {
+  StreamingSMA,
+  StreamingEMA,
+  StreamingRSI,
+  StreamingMACD,
+  StreamingBollingerBands,
+  StreamingATR,
+  StreamingStochastic,
+  StreamingVWAP,
+  StreamingOBV,
+  StreamingADX,
+  StreamingIchimoku,
+  StreamingKeltnerChannels,
+  StreamingParabolicSAR,
+  StreamingDonchianChannels
+} from './streamingIndicators';
+
+// Overlays share the price scale; pane indicators get their own strip below the chart
+export type IndicatorPlacement = 'overlay' | 'pane';
+
+export type IndicatorSeriesStyle = 'line' | 'histogram' | 'dots';
+
+export interface IndicatorSeries {
+  key: string;      // unique within the chart once prefixed with the instance id; used as the chart data key
+  label: string;
+  values: number[]; // one per bar, NaN during warm-up
+  color: string;
+  style?: IndicatorSeriesStyle;
+  offset?: number;  // streamed values belong this many bars back (Ichimoku's lagging span)
+}
+
+// Area filled between two of the series, e.g. the Ichimoku cloud
+export interface IndicatorBand {
+  key: string;
+  upper: string;
+  lower: string;
+  color: string;
+}
+
+export interface IndicatorOutput {
+  series: IndicatorSeries[];
+  bands?: IndicatorBand[];
+}
+
+export interface IndicatorParam {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  kind?: 'number' | 'date'; // dates are UTC ms, 0 meaning the first loaded candle
+}
+
+export type IndicatorParams = Record<string, number>;
+
+export type IndicatorStep = (bar: PriceBar, isNew: boolean) => Record<string, number>;
+
+export interface IndicatorDefinition {
+  id: string;
+  label: string;
+  description: string;
+  placement: IndicatorPlacement;
+  params: IndicatorParam[];
+  range?: [number, number]; // fixed scale for bounded oscillators
+  levels?: number[];        // horizontal guides, e.g. RSI 30/70
+  compute: (bars: PriceBar[], params: IndicatorParams) => IndicatorOutput;
+  // Incremental version: feed bars in order, with isNew false for revisions of the forming bar;
+  // returns the newest value of each series by key
+  stream: (params: IndicatorParams) => IndicatorStep;
+}
+
+// One configured indicator on a chart; several can share a definition (SMA 20, 50 and 200)
+export interface IndicatorInstance {
+  id: string;
+  type: string;                   // IndicatorDefinition id
+  params: IndicatorParams;
+  colors: Record<string, string>; // series key -> colour, overriding the definition's
+  visible: boolean;
+}
+
+const closes = (bars: PriceBar[]) => bars.map(bar => bar.close);
+
+// calculateRSI starts from the second bar; pad it so every series lines up with its candle
+const padStart = (values: number[], length: number): number[] =>
+  [...new Array(Math.max(0, length - values.length)).fill(NaN), ...values];
+
+// calculateMACD reports 0 until the slow EMA, then the signal EMA, have enough bars
+const macdStarts = ({ slow, signal }: IndicatorParams) => ({ line: slow - 1, signal: slow + signal - 2 });
+
+const periodParam = (defaultValue: number, label = 'Period'): IndicatorParam =>
+  ({ key: 'period', label, defaultValue, min: 1, max: 500, step: 1 });
+
+const multiplierParam = (defaultValue: number, label = 'Multiplier'): IndicatorParam =>
+  ({ key: 'multiplier', label, defaultValue, min: 0.1, max: 10, step: 0.1 });
+
+export const chartIndicators: IndicatorDefinition[] = [
+  {
+    id: 'sma',
+    label: 'SMA',
+    description: 'Simple Moving Average',
+    placement: 'overlay',
+    params: [periodParam(20)],
+    compute: (bars, { period }) => ({
+      series: [{ key: 'sma', label: `SMA ${period}`, values: calculateSMA(closes(bars), period), color: 'hsl(var(--chart-5))' }]
+    }),
+    stream: ({ period }) => {
+      const sma = new StreamingSMA(period);
+      return (bar, isNew) => ({ sma: sma.next(bar.close, isNew) });
+    }
+  },
+  {
+    id: 'ema',
+    label: 'EMA',
+    description: 'Exponential Moving Average',
+    placement: 'overlay',
+    params: [periodParam(12)],
+    compute: (bars, { period }) => ({
+      series: [{ key: 'ema', label: `EMA ${period}`, values: calculateEMA(closes(bars), period), color: 'hsl(var(--chart-6))' }]
+    }),
+    stream: ({ period }) => {
+      const ema = new StreamingEMA(period);
+      return (bar, isNew) => ({ ema: ema.next(bar.close, isNew) });
+    }
+  },
+  {
+    id: 'bb',
+    label: 'BB',
+    description: 'Bollinger Bands',
+    placement: 'overlay',
+    params: [periodParam(20), multiplierParam(2, 'Std devs')],
+    compute: (bars, { period, multiplier }) => {
+      const bands = calculateBollingerBands(closes(bars), period, multiplier);
+      return {
+        series: [
+          { key: 'upper', label: 'BB Upper', values: bands.map(band => band.upper), color: 'hsl(var(--chart-4))' },
+          { key: 'middle', label: 'BB Middle', values: bands.map(band => band.middle), color: 'hsl(var(--chart-4))' },
+          { key: 'lower', label: 'BB Lower', values: bands.map(band => band.lower), color: 'hsl(var(--chart-4))' }
+        ],
+        bands: [{ key: 'band', upper: 'upper', lower: 'lower', color: 'hsl(var(--chart-4))' }]
+      };
+    },
+    stream: ({ period, multiplier }) => {
+      const bands = new StreamingBollingerBands(period, multiplier);
+      return (bar, isNew) => {
+        const band = bands.next(bar.close, isNew);
+        return { upper: band.upper, middle: band.middle, lower: band.lower };
+      };
+    }
+  },
+  {
+    id: 'keltner',
+    label: 'KC',
+    description: 'Keltner Channels: EMA +/- a multiple of ATR',
+    placement: 'overlay',
+    params: [
+      periodParam(20, 'EMA period'),
+      { key: 'atrPeriod', label: 'ATR period', defaultValue: 10, min: 1, max: 500, step: 1 },
+      multiplierParam(2)
+    ],
+    compute: (bars, { period, atrPeriod, multiplier }) => {
+      const channels = calculateKeltnerChannels(bars, period, atrPeriod, multiplier);
+      return {
+        series: [
+          { key: 'upper', label: 'KC Upper', values: channels.map(channel => channel.upper), color: 'hsl(var(--chart-6))' },
+          { key: 'middle', label: 'KC Middle', values: channels.map(channel => channel.middle), color: 'hsl(var(--chart-6))' },
+          { key: 'lower', label: 'KC Lower', values: channels.map(channel => channel.lower), color: 'hsl(var(--chart-6))' }
+        ],
+        bands: [{ key: 'band', upper: 'upper', lower: 'lower', color: 'hsl(var(--chart-6))' }]
+      };
+    },
+    stream: ({ period, atrPeriod, multiplier }) => {
+      const channels = new StreamingKeltnerChannels(period, atrPeriod, multiplier);
+      return (bar, isNew) => {
+        const channel = channels.next(bar, isNew);
+        return { upper: channel.upper, middle: channel.middle, lower: channel.lower };
+      };
+    }
+  },
+  {
+    id: 'donchian',
+    label: 'DC',
+    description: 'Donchian Channels: highest high and lowest low',
+    placement: 'overlay',
+    params: [periodParam(20)],
+    compute: (bars, { period }) => {
+      const channels = calculateDonchianChannels(bars, period);
+      return {
+        series: [
+          { key: 'upper', label: 'DC Upper', values: channels.map(channel => channel.upper), color: 'hsl(var(--chart-1))' },
+          { key: 'middle', label: 'DC Middle', values: channels.map(channel => channel.middle), color: 'hsl(var(--chart-1))' },
+          { key: 'lower', label: 'DC Lower', values: channels.map(channel => channel.lower), color: 'hsl(var(--chart-1))' }
+        ],
+        bands: [{ key: 'band', upper: 'upper', lower: 'lower', color: 'hsl(var(--chart-1))' }]
+      };
+    },
+    stream: ({ period }) => {
+      const channels = new StreamingDonchianChannels(period);
+      return (bar, isNew) => {
+        const channel = channels.next(bar, isNew);
+        return { upper: channel.upper, middle: channel.middle, lower: channel.lower };
+      };
+    }
+  },
+  {
+    id: 'ichimoku',
+    label: 'Ichimoku',
+    description: 'Ichimoku Cloud',
+    placement: 'overlay',
+    params: [
+      { key: 'conversion', label: 'Tenkan period', defaultValue: 9, min: 1, max: 200, step: 1 },
+      { key: 'base', label: 'Kijun period', defaultValue: 26, min: 1, max: 200, step: 1 },
+      { key: 'spanB', label: 'Span B period', defaultValue: 52, min: 1, max: 400, step: 1 },
+      { key: 'displacement', label: 'Displacement', defaultValue: 26, min: 1, max: 200, step: 1 }
+    ],
+    compute: (bars, { conversion, base, spanB, displacement }) => {
+      const cloud = calculateIchimoku(bars, conversion, base, spanB, displacement);
+      return {
+        series: [
+          { key: 'conversion', label: 'Tenkan', values: cloud.map(point => point.conversion), color: 'hsl(var(--chart-1))' },
+          { key: 'base', label: 'Kijun', values: cloud.map(point => point.base), color: 'hsl(var(--chart-3))' },
+          { key: 'spanA', label: 'Span A', values: cloud.map(point => point.spanA), color: 'hsl(var(--chart-2))' },
+          { key: 'spanB', label: 'Span B', values: cloud.map(point => point.spanB), color: 'hsl(var(--chart-3))' },
+          { key: 'lagging', label: 'Chikou', values: cloud.map(point => point.lagging), color: 'hsl(var(--chart-4))', offset: displacement }
+        ],
+        bands: [{ key: 'cloud', upper: 'spanA', lower: 'spanB', color: 'hsl(var(--chart-2))' }]
+      };
+    },
+    stream: ({ conversion, base, spanB, displacement }) => {
+      const cloud = new StreamingIchimoku(conversion, base, spanB, displacement);
+      return (bar, isNew) => {
+        const point = cloud.next(bar, isNew);
+        return { conversion: point.conversion, base: point.base, spanA: point.spanA, spanB: point.spanB, lagging: point.lagging };
+      };
+    }
+  },
+  {
+    id: 'psar',
+    label: 'SAR',
+    description: 'Parabolic SAR',
+    placement: 'overlay',
+    params: [
+      { key: 'step', label: 'Step', defaultValue: 0.02, min: 0.001, max: 1, step: 0.001 },
+      { key: 'maxStep', label: 'Max step', defaultValue: 0.2, min: 0.01, max: 1, step: 0.01 }
+    ],
+    compute: (bars, { step, maxStep }) => ({
+      series: [{
+        key: 'sar',
+        label: 'SAR',
+        values: calculateParabolicSAR(bars, step, maxStep).map(point => point.value),
+        color: 'hsl(var(--chart-7))',
+        style: 'dots'
+      }]
+    }),
+    stream: ({ step, maxStep }) => {
+      const sar = new StreamingParabolicSAR(step, maxStep);
+      return (bar, isNew) => ({ sar: sar.next(bar, isNew).value });
+    }
+  },
+  {
+    id: 'vwap',
+    label: 'VWAP',
+    description: 'Volume Weighted Average Price, reset each UTC day',
+    placement: 'overlay',
+    params: [],
+    compute: bars => ({
+      series: [{ key: 'vwap', label: 'VWAP', values: calculateVWAP(bars, 'session'), color: 'hsl(var(--chart-8))' }]
+    }),
+    stream: () => {
+      const vwap = new StreamingVWAP('session');
+      return (bar, isNew) => ({ vwap: vwap.next(bar, isNew) });
+    }
+  },
+  {
+    id: 'avwap',
+    label: 'AVWAP',
+    description: 'VWAP anchored to a chosen date',
+    placement: 'overlay',
+    params: [{ key: 'anchor', label: 'Anchor date', defaultValue: 0, kind: 'date' }],
+    compute: (bars, { anchor }) => ({
+      series: [{
+        key: 'vwap',
+        label: 'Anchored VWAP',
+        values: calculateVWAP(bars, anchor || (bars[0]?.time ?? 0)),
+        color: 'hsl(var(--chart-5))'
+      }]
+    }),
+    stream: ({ anchor }) => {
+      // Without a chosen date the anchor is the first bar fed in
+      let vwap: StreamingVWAP | null = anchor ? new StreamingVWAP(anchor) : null;
+      return (bar, isNew) => {
+        vwap = vwap ?? new StreamingVWAP(bar.time);
+        return { vwap: vwap.next(bar, isNew) };
+      };
+    }
+  },
+  {
+    id: 'rsi',
+    label: 'RSI',
+    description: 'Relative Strength Index',
+    placement: 'pane',
+    params: [periodParam(14)],
+    range: [0, 100],
+    levels: [30, 70],
+    compute: (bars, { period }) => ({
+      series: [{
+        key: 'rsi',
+        label: `RSI ${period}`,
+        values: padStart(calculateRSI(closes(bars), period).map(point => point.value), bars.length),
+        color: 'hsl(var(--chart-6))'
+      }]
+    }),
+    stream: ({ period }) => {
+      const rsi = new StreamingRSI(period);
+      return (bar, isNew) => ({ rsi: rsi.next(bar.close, isNew).value });
+    }
+  },
+  {
+    id: 'macd',
+    label: 'MACD',
+    description: 'Moving Average Convergence Divergence',
+    placement: 'pane',
+    params: [
+      { key: 'fast', label: 'Fast period', defaultValue: 12, min: 1, max: 200, step: 1 },
+      { key: 'slow', label: 'Slow period', defaultValue: 26, min: 2, max: 400, step: 1 },
+      { key: 'signal', label: 'Signal period', defaultValue: 9, min: 1, max: 200, step: 1 }
+    ],
+    levels: [0],
+    compute: (bars, params) => {
+      const macd = calculateMACD(closes(bars), params.fast, params.slow, params.signal);
+      const starts = macdStarts(params);
+      return {
+        series: [
+          { key: 'histogram', label: 'Histogram', values: macd.map((point, i) => i < starts.signal ? NaN : point.histogram), color: 'hsl(var(--chart-4))', style: 'histogram' },
+          { key: 'macd', label: 'MACD', values: macd.map((point, i) => i < starts.line ? NaN : point.macd), color: 'hsl(var(--chart-1))' },
+          { key: 'signal', label: 'Signal', values: macd.map((point, i) => i < starts.signal ? NaN : point.signal), color: 'hsl(var(--chart-5))' }
+        ]
+      };
+    },
+    stream: params => {
+      const macd = new StreamingMACD(params.fast, params.slow, params.signal);
+      const starts = macdStarts(params);
+      let index = -1;
+      return (bar, isNew) => {
+        if (isNew || index < 0) index++;
+        const point = macd.next(bar.close, isNew);
+        return {
+          histogram: index < starts.signal ? NaN : point.histogram,
+          macd: index < starts.line ? NaN : point.macd,
+          signal: index < starts.signal ? NaN : point.signal
+        };
+      };
+    }
+  },
+  {
+    id: 'stoch',
+    label: 'Stoch',
+    description: 'Stochastic Oscillator',
+    placement: 'pane',
+    params: [
+      { key: 'kPeriod', label: '%K period', defaultValue: 14, min: 1, max: 200, step: 1 },
+      { key: 'dPeriod', label: '%D period', defaultValue: 3, min: 1, max: 50, step: 1 },
+      { key: 'smoothing', label: 'Smoothing', defaultValue: 3, min: 1, max: 50, step: 1 }
+    ],
+    range: [0, 100],
+    levels: [20, 80],
+    compute: (bars, { kPeriod, dPeriod, smoothing }) => {
+      const stochastic = calculateStochastic(bars, kPeriod, dPeriod, smoothing);
+      return {
+        series: [
+          { key: 'k', label: '%K', values: stochastic.map(point => point.k), color: 'hsl(var(--chart-1))' },
+          { key: 'd', label: '%D', values: stochastic.map(point => point.d), color: 'hsl(var(--chart-5))' }
+        ]
+      };
+    },
+    stream: ({ kPeriod, dPeriod, smoothing }) => {
+      const stochastic = new StreamingStochastic(kPeriod, dPeriod, smoothing);
+      return (bar, isNew) => {
+        const point = stochastic.next(bar, isNew);
+        return { k: point.k, d: point.d };
+      };
+    }
+  },
+  {
+    id: 'atr',
+    label: 'ATR',
+    description: 'Average True Range',
+    placement: 'pane',
+    params: [periodParam(14)],
+    compute: (bars, { period }) => ({
+      series: [{ key: 'atr', label: `ATR ${period}`, values: calculateATR(bars, period), color: 'hsl(var(--chart-7))' }]
+    }),
+    stream: ({ period }) => {
+      const atr = new StreamingATR(period);
+      return (bar, isNew) => ({ atr: atr.next(bar, isNew) });
+    }
+  },
+  {
+    id: 'adx',
+    label: 'ADX',
+    description: 'Average Directional Index with +DI / -DI',
+    placement: 'pane',
+    params: [periodParam(14)],
+    range: [0, 100],
+    levels: [25],
+    compute: (bars, { period }) => {
+      const adx = calculateADX(bars, period);
+      return {
+        series: [
+          { key: 'adx', label: 'ADX', values: adx.map(point => point.adx), color: 'hsl(var(--chart-4))' },
+          { key: 'plusDI', label: '+DI', values: adx.map(point => point.plusDI), color: 'hsl(var(--chart-2))' },
+          { key: 'minusDI', label: '-DI', values: adx.map(point => point.minusDI), color: 'hsl(var(--chart-3))' }
+        ]
+      };
+    },
+    stream: ({ period }) => {
+      const adx = new StreamingADX(period);
+      return (bar, isNew) => {
+        const point = adx.next(bar, isNew);
+        return { adx: point.adx, plusDI: point.plusDI, minusDI: point.minusDI };
+      };
+    }
+  },
+  {
+    id: 'obv',
+    label: 'OBV',
+    description: 'On-Balance Volume',
+    placement: 'pane',
+    params: [],
+    compute: bars => ({
+      series: [{ key: 'obv', label: 'OBV', values: calculateOBV(bars), color: 'hsl(var(--chart-1))' }]
+    }),
+    stream: () => {
+      const obv = new StreamingOBV();
+      return (bar, isNew) => ({ obv: obv.next(bar, isNew) });
+    }
+  }
+];
+
+export const getChartIndicator = (id: string): IndicatorDefinition | undefined =>
+  chartIndicators.find(indicator => indicator.id === id);
+
+export const defaultIndicatorParams = (definition: IndicatorDefinition): IndicatorParams =>
+  Object.fromEntries(definition.params.map(param => [param.key, param.defaultValue]));
+
+export const createIndicatorInstance = (type: string, params: IndicatorParams = {}): IndicatorInstance => {
+  const definition = getChartIndicator(type);
+  return {
+    id: `${type}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    type,
+    params: { ...(definition ? defaultIndicatorParams(definition) : {}), ...params },
+    colors: {},
+    visible: true
+  };
+};
+
+// 'SMA 200', 'MACD 12/26/9'; dates are left out
+export const indicatorInstanceLabel = (instance: IndicatorInstance): string => {
+  const definition = getChartIndicator(instance.type);
+  if (!definition) return instance.type;
+  const values = definition.params
+    .filter(param => param.kind !== 'date')
+    .map(param => instance.params[param.key] ?? param.defaultValue);
+  return values.length ? `${definition.label} ${values.join('/')}` : definition.label;
+};
+
+export interface LiveIndicatorOutput extends IndicatorOutput {
+  definition: IndicatorDefinition;
+  instance: IndicatorInstance;
+}
+
+// Series for a candle history that then follow live candles: the history is computed once in batch
+// and replayed through the streams, after which each live bar only steps the streams and writes the
+// newest values. Keys are prefixed with the instance id ('sma-x1:sma') so instances of one type can
+// share a chart. Series arrays are updated in place.
+export const createLiveIndicators = (instances: IndicatorInstance[], bars: PriceBar[]) => {
+  const active = instances
+    .filter(instance => instance.visible)
+    .map(instance => ({ instance, definition: getChartIndicator(instance.type) }))
+    .filter((entry): entry is { instance: IndicatorInstance; definition: IndicatorDefinition } => !!entry.definition)
+    .map(entry => ({ ...entry, params: { ...defaultIndicatorParams(entry.definition), ...entry.instance.params } }));
+
+  const outputs: LiveIndicatorOutput[] = active.map(({ instance, definition, params }) => {
+    const { series, bands } = definition.compute(bars, params);
+    const prefixed = (key: string) => `${instance.id}:${key}`;
+    return {
+      definition,
+      instance,
+      series: series.map(item => ({ ...item, key: prefixed(item.key), color: instance.colors[item.key] ?? item.color })),
+      bands: bands?.map(band => ({
+        key: prefixed(band.key),
+        upper: prefixed(band.upper),
+        lower: prefixed(band.lower),
+        color: instance.colors[band.upper] ?? band.color
+      }))
+    };
+  });
+  const steps = active.map(({ definition, params }) => definition.stream(params));
+  bars.forEach(bar => steps.forEach(step => step(bar, true)));
+  let lastTime = bars.length ? bars[bars.length - 1].time : -Infinity;
+
+  // A bar at the last time revises it, a later one is appended; older bars are ignored
+  const apply = (bar: PriceBar): boolean => {
+    if (bar.time < lastTime) return false;
+    const isNew = bar.time > lastTime;
+    lastTime = bar.time;
+
+    outputs.forEach(({ instance, series }, index) => {
+      const values = steps[index](bar, isNew);
+      series.forEach(item => {
+        if (isNew) item.values.push(NaN);
+        const at = item.values.length - 1 - (item.offset ?? 0);
+        if (at >= 0) item.values[at] = values[item.key.slice(instance.id.length + 1)];
+      });
+    });
+    return true;
+  };
+
+  return { outputs, apply };
+};
@@ -0,0 +1,72 @@
+// Mapping between chart pixels and time/price, shared by the SVG and canvas renderers so
+// annotations can be anchored to the market rather than to the screen.
+
+export interface PricePoint {
+  time: number; // UTC ms
+  price: number;
+}
+
+export interface PlotRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ChartProjection {
+  plot: PlotRect;
+  x: (time: number) => number;
+  y: (price: number) => number;
+  toPoint: (x: number, y: number) => PricePoint;
+}
+
+export interface TimeScale {
+  toIndex: (time: number) => number; // fractional position among the candles, 0 = first open time
+  toTime: (index: number) => number;
+}
+
+// Candles are evenly spaced on screen but not always in time (gaps, sampled rows), so positions are
+// interpolated between neighbouring candles and extrapolated past either end at the edge spacing.
+export const createTimeScale = (times: number[]): TimeScale => {
+  const n = times.length;
+  const firstGap = n > 1 ? times[1] - times[0] || 1 : 1;
+  const lastGap = n > 1 ? times[n - 1] - times[n - 2] || 1 : 1;
+
+  const toIndex = (time: number): number => {
+    if (!n) return 0;
+    if (time <= times[0]) return (time - times[0]) / firstGap;
+    if (time >= times[n - 1]) return n - 1 + (time - times[n - 1]) / lastGap;
+    let low = 0;
+    let high = n - 1;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (times[mid] <= time) low = mid;
+      else high = mid;
+    }
+    return low + (time - times[low]) / (times[high] - times[low] || 1);
+  };
+
+  const toTime = (index: number): number => {
+    if (!n) return 0;
+    if (index <= 0) return times[0] + index * firstGap;
+    if (index >= n - 1) return times[n - 1] + (index - (n - 1)) * lastGap;
+    const low = Math.floor(index);
+    return times[low] + (index - low) * (times[low + 1] - times[low]);
+  };
+
+  return { toIndex, toTime };
+};
+
+// Projection for a plot where candle `index` is centred at left + (index - start + 0.5) * step
+export const createCandleProjection = (
+  scale: TimeScale,
+  plot: PlotRect,
+  start: number,
+  step: number,
+  price: { toY: (price: number) => number; fromY: (y: number) => number }
+): ChartProjection => ({
+  plot,
+  x: time => plot.left + (scale.toIndex(time) - start + 0.5) * step,
+  y: price.toY,
+  toPoint: (x, y) => ({ time: scale.toTime((x - plot.left) / step + start - 0.5), price: price.fromY(y) })
+});
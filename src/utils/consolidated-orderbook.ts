@@ -0,0 +1,173 @@
+import { OrderbookEntry } from '@/types/api';
+
+// One venue's book as fetched, in the venue's own price increments
+export interface VenueOrderbook {
+  venue: string;       // adapter id
+  name: string;
+  color: string;
+  quote: string;       // quote of the pair actually fetched, which may be a USD stand-in for the requested one
+  bids: OrderbookEntry[];
+  asks: OrderbookEntry[];
+  tickSize?: number;   // from the symbol catalogue when the venue's listing has loaded
+}
+
+export interface ConsolidatedLevel {
+  price: number;
+  quantity: number;
+  venues: Record<string, number>; // quantity contributed by each venue at this grid price
+}
+
+export interface VenueQuote {
+  venue: string;
+  price: number;
+  quantity: number;
+}
+
+// Buying on one venue's asks and selling into another's bids while the bid is higher, before fees
+export interface ArbitrageOpportunity {
+  buyVenue: string;
+  sellVenue: string;
+  buyPrice: number;    // best ask on the buy venue
+  sellPrice: number;   // best bid on the sell venue
+  spreadBps: number;
+  quantity: number;    // executable while the books stay crossed
+  profit: number;      // quote currency
+}
+
+export interface ConsolidatedVenue {
+  id: string;
+  name: string;
+  color: string;
+  quote?: string;
+}
+
+export interface ConsolidatedOrderbook {
+  venues: ConsolidatedVenue[];
+  step: number;        // common price grid
+  bids: ConsolidatedLevel[];
+  asks: ConsolidatedLevel[];
+  bestBid: VenueQuote | null;
+  bestAsk: VenueQuote | null;
+  crossed: boolean;    // some venue bids above the ask of another venue with the same quote
+  arbitrage: ArbitrageOpportunity[];
+}
+
+// Venue colours by registry position, kept clear of chart-2/chart-3 which mean bid/ask
+const VENUE_COLORS = ['chart-1', 'chart-4', 'chart-5', 'chart-6', 'chart-7', 'chart-8'];
+
+export const venueColor = (index: number) => `hsl(var(--${VENUE_COLORS[index % VENUE_COLORS.length]}))`;
+
+interface Level {
+  price: number;
+  quantity: number;
+}
+
+const toLevels = (entries: OrderbookEntry[]): Level[] => entries
+  .map(entry => ({ price: parseFloat(entry.price), quantity: parseFloat(entry.quantity) }))
+  .filter(level => level.price > 0 && level.quantity > 0);
+
+// Smallest gap between adjacent levels, as a stand-in tick size before listings load
+const inferTickSize = (levels: Level[]): number => {
+  let tick = Infinity;
+  for (let i = 1; i < levels.length; i++) {
+    const gap = Math.abs(levels[i].price - levels[i - 1].price);
+    if (gap > 0) tick = Math.min(tick, gap);
+  }
+  return Number.isFinite(tick) ? tick : 0;
+};
+
+// Decimal places of the grid, so snapped prices don't carry float noise
+const decimalsOf = (step: number) => Math.max(0, Math.ceil(-Math.log10(step) - 1e-9));
+
+// Bids round down and asks up, so an aggregated level is never better than the venues behind it
+const snap = (price: number, step: number, side: 'bid' | 'ask') => {
+  const units = price / step;
+  const snapped = (side === 'bid' ? Math.floor(units + 1e-9) : Math.ceil(units - 1e-9)) * step;
+  return parseFloat(snapped.toFixed(decimalsOf(step)));
+};
+
+const aggregate = (books: VenueOrderbook[], side: 'bid' | 'ask', step: number, depth: number): ConsolidatedLevel[] => {
+  const byPrice = new Map<number, ConsolidatedLevel>();
+  books.forEach(book => {
+    toLevels(side === 'bid' ? book.bids : book.asks).forEach(level => {
+      const price = snap(level.price, step, side);
+      const merged = byPrice.get(price) ?? { price, quantity: 0, venues: {} };
+      merged.quantity += level.quantity;
+      merged.venues[book.venue] = (merged.venues[book.venue] ?? 0) + level.quantity;
+      byPrice.set(price, merged);
+    });
+  });
+  return [...byPrice.values()]
+    .sort((a, b) => side === 'bid' ? b.price - a.price : a.price - b.price)
+    .slice(0, depth);
+};
+
+const bestQuote = (books: VenueOrderbook[], side: 'bid' | 'ask'): VenueQuote | null => {
+  let best: VenueQuote | null = null;
+  books.forEach(book => {
+    const [top] = toLevels(side === 'bid' ? book.bids : book.asks)
+      .sort((a, b) => side === 'bid' ? b.price - a.price : a.price - b.price);
+    if (!top) return;
+    const better = !best || (side === 'bid' ? top.price > best.price : top.price < best.price);
+    if (better) best = { venue: book.venue, ...top };
+  });
+  return best;
+};
+
+// Walks the buy venue's asks up and the sell venue's bids down, matching size while bid > ask
+const crossing = (buy: VenueOrderbook, sell: VenueOrderbook): ArbitrageOpportunity | null => {
+  const asks = toLevels(buy.asks).sort((a, b) => a.price - b.price).map(level => ({ ...level }));
+  const bids = toLevels(sell.bids).sort((a, b) => b.price - a.price).map(level => ({ ...level }));
+  if (!asks.length || !bids.length || bids[0].price <= asks[0].price) return null;
+
+  let quantity = 0;
+  let profit = 0;
+  let a = 0;
+  let b = 0;
+  while (a < asks.length && b < bids.length && bids[b].price > asks[a].price) {
+    const size = Math.min(asks[a].quantity, bids[b].quantity);
+    quantity += size;
+    profit += size * (bids[b].price - asks[a].price);
+    asks[a].quantity -= size;
+    bids[b].quantity -= size;
+    if (asks[a].quantity <= 0) a++;
+    if (bids[b].quantity <= 0) b++;
+  }
+
+  return {
+    buyVenue: buy.venue,
+    sellVenue: sell.venue,
+    buyPrice: asks[0].price,
+    sellPrice: bids[0].price,
+    spreadBps: (bids[0].price - asks[0].price) / asks[0].price * 10000,
+    quantity,
+    profit
+  };
+};
+
+// Merges venue books onto the coarsest venue tick and flags crossings between venues quoting the same
+// currency; a USD book against a USDT one only shows the stablecoin basis
+export const consolidateOrderbooks = (books: VenueOrderbook[], depth = 20): ConsolidatedOrderbook => {
+  const ticks = books.map(book => book.tickSize || inferTickSize(toLevels([...book.bids, ...book.asks])
+    .sort((a, b) => a.price - b.price)));
+  const step = Math.max(0, ...ticks) || 0.01;
+
+  const arbitrage = books
+    .flatMap(buy => books.filter(sell => sell !== buy && sell.quote === buy.quote).map(sell => crossing(buy, sell)))
+    .filter((opportunity): opportunity is ArbitrageOpportunity => opportunity !== null)
+    .sort((a, b) => b.profit - a.profit);
+
+  const bestBid = bestQuote(books, 'bid');
+  const bestAsk = bestQuote(books, 'ask');
+
+  return {
+    venues: books.map(book => ({ id: book.venue, name: book.name, color: book.color, quote: book.quote })),
+    step,
+    bids: aggregate(books, 'bid', step, depth),
+    asks: aggregate(books, 'ask', step, depth),
+    bestBid,
+    bestAsk,
+    crossed: arbitrage.length > 0,
+    arbitrage
+  };
+};
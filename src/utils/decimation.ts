@@ -0,0 +1,79 @@
+import { OHLC } from './candles';
+
+export interface OHLCV extends OHLC {
+  volume: number;
+}
+
+// One drawn column: candles [startIndex, endIndex) merged into a single candle
+export interface CandleBucket extends OHLCV {
+  startIndex: number;
+  endIndex: number;
+}
+
+// Merges every `bucketSize` candles of [start, end) into one. Open/close come from the ends and
+// high/low are the extremes, so wicks and spikes survive however far the view is zoomed out.
+export const aggregateCandles = <T extends OHLCV>(candles: T[], start: number, end: number, bucketSize: number): CandleBucket[] => {
+  const size = Math.max(1, Math.floor(bucketSize));
+  const buckets: CandleBucket[] = [];
+
+  for (let from = start; from < end; from += size) {
+    const to = Math.min(end, from + size);
+    let high = -Infinity;
+    let low = Infinity;
+    let volume = 0;
+    for (let i = from; i < to; i++) {
+      const candle = candles[i];
+      if (candle.high > high) high = candle.high;
+      if (candle.low < low) low = candle.low;
+      volume += candle.volume;
+    }
+    buckets.push({
+      open: candles[from].open,
+      close: candles[to - 1].close,
+      high,
+      low,
+      volume,
+      startIndex: from,
+      endIndex: to
+    });
+  }
+
+  return buckets;
+};
+
+export interface SeriesBucket {
+  first: number;
+  min: number;
+  max: number;
+  last: number;
+  startIndex: number;
+  endIndex: number;
+}
+
+// M4-style decimation of a numeric series: keeping first/min/max/last per bucket draws the same
+// line as the full series at the target resolution. NaN values (indicator warm-up) are skipped.
+export const decimateSeries = (values: number[], start: number, end: number, bucketSize: number): SeriesBucket[] => {
+  const size = Math.max(1, Math.floor(bucketSize));
+  const buckets: SeriesBucket[] = [];
+
+  for (let from = start; from < end; from += size) {
+    const to = Math.min(end, from + size);
+    let first = NaN;
+    let last = NaN;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = from; i < to; i++) {
+      const value = values[i];
+      if (Number.isNaN(value)) continue;
+      if (Number.isNaN(first)) first = value;
+      last = value;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (!Number.isNaN(first)) {
+      buckets.push({ first, min, max, last, startIndex: from, endIndex: to });
+    }
+  }
+
+  return buckets;
+};
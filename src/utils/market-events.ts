@@ -0,0 +1,189 @@
+import { FinancialData } from '@/types/api';
+
+export type MarketEventSource = 'bundled' | 'imported' | 'custom';
+
+export interface MarketEvent {
+  id: string;
+  date: string;      // UTC day, 'YYYY-MM-DD' like the calendar's day keys
+  title: string;
+  type: string;      // 'fomc', 'cpi', 'halving', 'crypto', 'custom' or any imported category
+  source: MarketEventSource;
+}
+
+export interface MarketEventTypeInfo {
+  label: string;
+  color: string;
+}
+
+export const eventTypes: Record<string, MarketEventTypeInfo> = {
+  fomc: { label: 'FOMC', color: 'hsl(var(--chart-1))' },
+  cpi: { label: 'CPI', color: 'hsl(var(--chart-2))' },
+  halving: { label: 'Halving', color: 'hsl(var(--chart-3))' },
+  crypto: { label: 'Crypto', color: 'hsl(var(--chart-4))' },
+  custom: { label: 'Custom', color: 'hsl(var(--chart-5))' }
+};
+
+// Imported categories we don't know get a stable colour from the remaining chart palette
+const EXTRA_COLORS = ['hsl(var(--chart-6))', 'hsl(var(--chart-7))', 'hsl(var(--chart-8))'];
+
+export const eventTypeInfo = (type: string): MarketEventTypeInfo => {
+  if (eventTypes[type]) return eventTypes[type];
+  const hash = [...type].reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  return { label: type.charAt(0).toUpperCase() + type.slice(1), color: EXTRA_COLORS[hash % EXTRA_COLORS.length] };
+};
+
+const createEventId = (source: MarketEventSource) =>
+  `${source}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const normalizeType = (type: unknown) =>
+  typeof type === 'string' && type.trim() ? type.trim().toLowerCase() : 'custom';
+
+// 'YYYY-MM-DD' passes through; anything else Date can parse is reduced to its UTC day
+export const toEventDate = (value: unknown): string | null => {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+export const createMarketEvent = (input: { date: string; title: string; type?: string }): MarketEvent => ({
+  id: createEventId('custom'),
+  date: input.date,
+  title: input.title.trim(),
+  type: normalizeType(input.type),
+  source: 'custom'
+});
+
+// Accepts an array of events or { events: [...] }; each needs a date and a title (or name/summary).
+// Entries missing either are skipped.
+export const toMarketEvents = (value: unknown, source: MarketEventSource): MarketEvent[] => {
+  const items = Array.isArray(value) ? value : (value as { events?: unknown })?.events;
+  if (!Array.isArray(items)) {
+    throw new Error('Expected an array of events or an object with an "events" array');
+  }
+
+  return items.flatMap((item, index) => {
+    const date = toEventDate(item?.date);
+    const title = item?.title ?? item?.name ?? item?.summary;
+    if (!date || typeof title !== 'string' || !title.trim()) return [];
+    return [{
+      id: typeof item.id === 'string' ? item.id : source === 'bundled' ? `bundled-${date}-${index}` : createEventId(source),
+      date,
+      title: title.trim(),
+      type: normalizeType(item.type ?? item.category),
+      source
+    }];
+  });
+};
+
+export const parseEventsJson = (text: string): MarketEvent[] => toMarketEvents(JSON.parse(text), 'imported');
+
+const unescapeIcs = (value: string) => value
+  .replace(/\\n/gi, ' ')
+  .replace(/\\([,;\\])/g, '$1');
+
+// DTSTART as a date (20240131), UTC time (20240131T190000Z) or local/TZID time (taken at its own date)
+const icsDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (hours && utc) {
+    return new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds)).toISOString().slice(0, 10);
+  }
+  return `${year}-${month}-${day}`;
+};
+
+// Minimal iCalendar reader: VEVENTs with DTSTART and SUMMARY; the first CATEGORIES value becomes the type
+export const parseIcs = (text: string): MarketEvent[] => {
+  // Long lines are folded onto continuation lines that start with whitespace
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const events: MarketEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+    } else if (line === 'END:VEVENT' && current) {
+      const date = current.DTSTART ? icsDate(current.DTSTART) : null;
+      const title = current.SUMMARY ? unescapeIcs(current.SUMMARY).trim() : '';
+      if (date && title) {
+        events.push({
+          id: current.UID ? `ics-${current.UID}` : createEventId('imported'),
+          date,
+          title,
+          type: normalizeType(current.CATEGORIES ? unescapeIcs(current.CATEGORIES.split(',')[0]) : undefined),
+          source: 'imported'
+        });
+      }
+      current = null;
+    } else if (current) {
+      const colon = line.indexOf(':');
+      if (colon < 0) return;
+      const name = line.slice(0, colon).split(';')[0].toUpperCase();
+      current[name] = line.slice(colon + 1);
+    }
+  });
+
+  if (!events.length && !text.includes('BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar file');
+  }
+  return events;
+};
+
+// Picks the parser from the file extension, falling back to sniffing the content
+export const parseEventFile = (fileName: string, text: string): MarketEvent[] => {
+  const isIcs = /\.ics$/i.test(fileName) || text.trimStart().startsWith('BEGIN:VCALENDAR');
+  return isIcs ? parseIcs(text) : parseEventsJson(text);
+};
+
+export const groupEventsByDay = (events: MarketEvent[]): Map<string, MarketEvent[]> => {
+  const byDay = new Map<string, MarketEvent[]>();
+  events.forEach(event => {
+    const day = byDay.get(event.date);
+    if (day) day.push(event);
+    else byDay.set(event.date, [event]);
+  });
+  return byDay;
+};
+
+export interface EventStudyRow {
+  type: string;
+  count: number;          // events with a full window either side
+  before: number;         // mean return over the N days before the event day
+  eventDay: number;       // mean return on the event day, previous close to close
+  after: number;          // mean return over the N days after the event day
+  afterWinRate: number;   // share of events followed by a gain, 0-1
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Average behaviour around each event type in daily candles, measured close to close
+export const eventStudy = (events: MarketEvent[], data: FinancialData[], window: number): EventStudyRow[] => {
+  const bars = data
+    .filter(bar => bar.close && bar.close > 0)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  const indexByDay = new Map(bars.map((bar, index) => [bar.date.toISOString().slice(0, 10), index]));
+
+  const samples = new Map<string, { before: number[]; eventDay: number[]; after: number[] }>();
+  events.forEach(event => {
+    const i = indexByDay.get(event.date);
+    if (i === undefined || i - 1 - window < 0 || i + window >= bars.length) return;
+    const close = (index: number) => bars[index].close!;
+    const sample = samples.get(event.type) ?? { before: [], eventDay: [], after: [] };
+    sample.before.push(close(i - 1) / close(i - 1 - window) - 1);
+    sample.eventDay.push(close(i) / close(i - 1) - 1);
+    sample.after.push(close(i + window) / close(i) - 1);
+    samples.set(event.type, sample);
+  });
+
+  return [...samples.entries()]
+    .map(([type, sample]) => ({
+      type,
+      count: sample.after.length,
+      before: mean(sample.before),
+      eventDay: mean(sample.eventDay),
+      after: mean(sample.after),
+      afterWinRate: sample.after.filter(value => value > 0).length / sample.after.length
+    }))
+    .sort((a, b) => b.count - a.count);
+};
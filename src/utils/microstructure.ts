@@ -0,0 +1,148 @@
+import { Orderbook, OrderbookEntry } from '@/types/api';
+
+export interface DepthBand {
+  percent: number;     // distance from mid on each side
+  bid: number;         // base quantity resting within the band
+  ask: number;
+  bidNotional: number; // quote currency
+  askNotional: number;
+}
+
+export interface BookMetrics {
+  bestBid: number;
+  bestAsk: number;
+  mid: number;
+  spread: number;
+  spreadBps: number;
+  levels: number;       // top N levels per side the depth figures use
+  bidDepth: number;
+  askDepth: number;
+  imbalance: number;    // (bid - ask) / (bid + ask) over the top N levels, -1 to 1
+  microprice: number;   // mid leaned toward the thinner side of the touch
+  weightedMid: number;  // the same lean using size-weighted prices over the top N levels
+  bands: DepthBand[];
+}
+
+export type ImpactSide = 'buy' | 'sell';
+export type ImpactUnit = 'base' | 'quote';
+
+export interface ImpactEstimate {
+  side: ImpactSide;
+  filled: number;        // base quantity the visible book can fill
+  notional: number;      // quote spent or received
+  avgPrice: number;
+  worstPrice: number;    // last level touched
+  slippageBps: number;   // average fill against the touch
+  impactBps: number;     // average fill against mid, so it includes half the spread
+  levelsUsed: number;
+  complete: boolean;     // false when the order is larger than the visible book
+}
+
+export const DEFAULT_METRIC_LEVELS = 10;
+export const DEFAULT_DEPTH_BANDS = [0.1, 0.5, 1, 2];
+
+interface Level {
+  price: number;
+  quantity: number;
+}
+
+const toLevels = (entries: OrderbookEntry[]): Level[] => entries
+  .map(entry => ({ price: parseFloat(entry.price), quantity: parseFloat(entry.quantity) }))
+  .filter(level => level.price > 0 && level.quantity > 0);
+
+const sum = (levels: Level[]) => levels.reduce((total, level) => total + level.quantity, 0);
+
+const vwap = (levels: Level[]) => {
+  const quantity = sum(levels);
+  return quantity > 0 ? levels.reduce((total, level) => total + level.price * level.quantity, 0) / quantity : 0;
+};
+
+// Price between bid and ask, weighted toward the side with less size behind it
+const lean = (bid: number, ask: number, bidSize: number, askSize: number) =>
+  bidSize + askSize > 0 ? (ask * bidSize + bid * askSize) / (bidSize + askSize) : (bid + ask) / 2;
+
+// Null until both sides of the book have a level
+export const bookMetrics = (
+  orderbook: Orderbook,
+  levels = DEFAULT_METRIC_LEVELS,
+  bandPercents = DEFAULT_DEPTH_BANDS
+): BookMetrics | null => {
+  const bids = toLevels(orderbook.bids);
+  const asks = toLevels(orderbook.asks);
+  if (!bids.length || !asks.length) return null;
+
+  const bestBid = bids[0].price;
+  const bestAsk = asks[0].price;
+  const mid = (bestBid + bestAsk) / 2;
+  const topBids = bids.slice(0, levels);
+  const topAsks = asks.slice(0, levels);
+  const bidDepth = sum(topBids);
+  const askDepth = sum(topAsks);
+
+  const bands = bandPercents.map(percent => {
+    const inBids = bids.filter(level => level.price >= mid * (1 - percent / 100));
+    const inAsks = asks.filter(level => level.price <= mid * (1 + percent / 100));
+    return {
+      percent,
+      bid: sum(inBids),
+      ask: sum(inAsks),
+      bidNotional: inBids.reduce((total, level) => total + level.price * level.quantity, 0),
+      askNotional: inAsks.reduce((total, level) => total + level.price * level.quantity, 0)
+    };
+  });
+
+  return {
+    bestBid,
+    bestAsk,
+    mid,
+    spread: bestAsk - bestBid,
+    spreadBps: (bestAsk - bestBid) / mid * 10000,
+    levels: Math.min(levels, Math.max(topBids.length, topAsks.length)),
+    bidDepth,
+    askDepth,
+    imbalance: bidDepth + askDepth > 0 ? (bidDepth - askDepth) / (bidDepth + askDepth) : 0,
+    microprice: lean(bestBid, bestAsk, bids[0].quantity, asks[0].quantity),
+    weightedMid: lean(vwap(topBids), vwap(topAsks), bidDepth, askDepth),
+    bands
+  };
+};
+
+// Walks the asks for a buy or the bids for a sell until the size is filled or the visible book runs out.
+// Size is base quantity, or quote currency to spend/receive when unit is 'quote'.
+export const estimateImpact = (orderbook: Orderbook, side: ImpactSide, size: number, unit: ImpactUnit = 'base'): ImpactEstimate | null => {
+  const bids = toLevels(orderbook.bids);
+  const asks = toLevels(orderbook.asks);
+  const book = side === 'buy' ? asks : bids;
+  if (!book.length || !(size > 0)) return null;
+
+  let remaining = size;
+  let filled = 0;
+  let notional = 0;
+  let levelsUsed = 0;
+  for (const level of book) {
+    if (remaining <= 0) break;
+    const take = unit === 'base' ? Math.min(level.quantity, remaining) : Math.min(level.quantity, remaining / level.price);
+    filled += take;
+    notional += take * level.price;
+    remaining -= unit === 'base' ? take : take * level.price;
+    levelsUsed++;
+  }
+
+  const avgPrice = notional / filled;
+  const touch = book[0].price;
+  const mid = bids.length && asks.length ? (bids[0].price + asks[0].price) / 2 : touch;
+  const direction = side === 'buy' ? 1 : -1;
+
+  return {
+    side,
+    filled,
+    notional,
+    avgPrice,
+    worstPrice: book[levelsUsed - 1].price,
+    slippageBps: direction * (avgPrice - touch) / touch * 10000,
+    impactBps: direction * (avgPrice - mid) / mid * 10000,
+    levelsUsed,
+    // Float leftovers from quote sizing don't count as unfilled
+    complete: remaining <= size * 1e-9
+  };
+};
@@ -0,0 +1,84 @@
+import { Orderbook, OrderbookEntry } from '@/types/api';
+
+export interface HistoryLevel {
+  price: number;
+  quantity: number;
+}
+
+// The book as it stood at one moment, best levels first
+export interface BookSnapshot {
+  time: number;
+  mid: number;
+  bids: HistoryLevel[];
+  asks: HistoryLevel[];
+}
+
+export const MAX_HISTORY_MINUTES = 30;
+const SNAPSHOT_SPACING_MS = 500;
+const MINUTE_MS = 60 * 1000;
+
+const toLevels = (entries: OrderbookEntry[]): HistoryLevel[] => entries
+  .map(entry => ({ price: parseFloat(entry.price), quantity: parseFloat(entry.quantity) }))
+  .filter(level => level.price > 0 && level.quantity > 0);
+
+// Rolling buffer of streamed books for one symbol. Updates are kept one per SNAPSHOT_SPACING_MS slot
+// (the newest in a slot wins), and anything older than MAX_HISTORY_MINUTES is dropped.
+export class OrderbookHistory {
+  private items: BookSnapshot[] = [];
+
+  push(orderbook: Orderbook, time = Date.now()): void {
+    const bids = toLevels(orderbook.bids);
+    const asks = toLevels(orderbook.asks);
+    if (!bids.length || !asks.length) return;
+
+    const snapshot = { time, mid: (bids[0].price + asks[0].price) / 2, bids, asks };
+    const last = this.items[this.items.length - 1];
+    const slot = (at: number) => Math.floor(at / SNAPSHOT_SPACING_MS);
+    if (last && slot(time) === slot(last.time)) this.items[this.items.length - 1] = snapshot;
+    else this.items.push(snapshot);
+
+    const cutoff = time - MAX_HISTORY_MINUTES * MINUTE_MS;
+    const stale = this.items.findIndex(item => item.time >= cutoff);
+    if (stale > 0) this.items.splice(0, stale);
+  }
+
+  clear(): void {
+    this.items = [];
+  }
+
+  get snapshots(): readonly BookSnapshot[] {
+    return this.items;
+  }
+
+  // Snapshots covering [start, end], plus the one before start so the first column isn't blank
+  range(start: number, end: number): BookSnapshot[] {
+    const first = this.items.findIndex(item => item.time >= start);
+    const from = Math.max(0, (first === -1 ? this.items.length : first) - 1);
+    const to = this.items.findIndex(item => item.time > end);
+    return this.items.slice(from, to === -1 ? undefined : to);
+  }
+}
+
+// Resting size that counts as full intensity: a high percentile rather than the maximum, so one
+// outsized order doesn't wash out the rest of the map. Long windows are sampled to keep it cheap.
+export const intensityScale = (snapshots: BookSnapshot[], percentile = 0.95): number => {
+  const stride = Math.max(1, Math.ceil(snapshots.length / 500));
+  const sizes = snapshots
+    .filter((_, index) => index % stride === 0)
+    .flatMap(snapshot => [...snapshot.bids, ...snapshot.asks].map(level => level.quantity));
+  if (!sizes.length) return 1;
+  sizes.sort((a, b) => a - b);
+  return sizes[Math.min(sizes.length - 1, Math.floor(sizes.length * percentile))] || 1;
+};
+
+// Smallest gap between adjacent prices, used as the height of one heatmap row
+export const priceStep = (snapshot: BookSnapshot | undefined): number => {
+  if (!snapshot) return 0;
+  const prices = [...snapshot.bids, ...snapshot.asks].map(level => level.price).sort((a, b) => a - b);
+  let step = Infinity;
+  for (let i = 1; i < prices.length; i++) {
+    const gap = prices[i] - prices[i - 1];
+    if (gap > 0) step = Math.min(step, gap);
+  }
+  return Number.isFinite(step) ? step : 0;
+};
@@ -0,0 +1,170 @@
+import { Orderbook, Ticker24h } from '@/types/api';
+import { toSymbolId } from '@/services/exchange-adapter';
+import { formatPrice } from '@/components/ui/chart-formatters';
+
+export type AlertRuleType = 'price-above' | 'price-below' | 'percent-move' | 'spread-above' | 'volatility-above' | 'imbalance';
+
+export interface AlertRule {
+  id: string;
+  type: AlertRuleType;
+  symbol: string;
+  threshold: number;      // in the unit of the rule type
+  windowMinutes?: number; // percent-move and volatility only
+  enabled: boolean;
+  createdAt: number;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  symbol: string;
+  message: string;
+  value: number;
+  time: number;
+}
+
+// Latest view of the market when an update arrives; book fields are missing without an order book
+export interface MarketSample {
+  time: number;
+  price: number;
+  bid?: number;
+  ask?: number;
+  bidDepth?: number; // quantity over the top IMBALANCE_LEVELS levels
+  askDepth?: number;
+}
+
+export const IMBALANCE_LEVELS = 10;
+export const MAX_WINDOW_MINUTES = 240;
+const SAMPLE_SPACING_MS = 1000;
+const MINUTE_MS = 60 * 1000;
+
+export const alertRuleTypes: Record<AlertRuleType, { label: string; unit: string; windowed?: boolean; needsBook?: boolean }> = {
+  'price-above': { label: 'Price above', unit: 'price' },
+  'price-below': { label: 'Price below', unit: 'price' },
+  'percent-move': { label: 'Move within window', unit: '%', windowed: true },
+  'spread-above': { label: 'Spread wider than', unit: 'bps', needsBook: true },
+  'volatility-above': { label: 'Volatility above', unit: '%', windowed: true },
+  'imbalance': { label: 'Book imbalance beyond', unit: '%', needsBook: true }
+};
+
+export const describeAlertRule = (rule: AlertRule): string => {
+  const window = `${rule.windowMinutes ?? 0}m`;
+  switch (rule.type) {
+    case 'price-above': return `${rule.symbol} above ${formatPrice(rule.threshold)}`;
+    case 'price-below': return `${rule.symbol} below ${formatPrice(rule.threshold)}`;
+    case 'percent-move': return `${rule.symbol} moves ${rule.threshold}% within ${window}`;
+    case 'spread-above': return `${rule.symbol} spread wider than ${rule.threshold} bps`;
+    case 'volatility-above': return `${rule.symbol} volatility above ${rule.threshold}% over ${window}`;
+    case 'imbalance': return `${rule.symbol} book imbalance beyond ${rule.threshold}%`;
+  }
+};
+
+const formatMeasure = (rule: AlertRule, value: number): string => {
+  if (rule.type === 'price-above' || rule.type === 'price-below') return formatPrice(value);
+  return `${value.toFixed(2)}${rule.type === 'spread-above' ? ' bps' : '%'}`;
+};
+
+export const createAlertRule = (rule: Omit<AlertRule, 'id' | 'enabled' | 'createdAt'>): AlertRule => ({
+  ...rule,
+  windowMinutes: alertRuleTypes[rule.type].windowed ? rule.windowMinutes : undefined,
+  id: `alert-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  enabled: true,
+  createdAt: Date.now()
+});
+
+const depth = (levels: Orderbook['bids']) => levels
+  .slice(0, IMBALANCE_LEVELS)
+  .reduce((sum, level) => sum + (parseFloat(level.quantity) || 0), 0);
+
+// Mid price when there is a book, otherwise the ticker's last trade
+export const toMarketSample = (ticker: Ticker24h | undefined, orderbook: Orderbook | null, time = Date.now()): MarketSample | null => {
+  const bid = parseFloat(orderbook?.bids[0]?.price ?? '');
+  const ask = parseFloat(orderbook?.asks[0]?.price ?? '');
+  if (orderbook && bid > 0 && ask > 0) {
+    return { time, price: (bid + ask) / 2, bid, ask, bidDepth: depth(orderbook.bids), askDepth: depth(orderbook.asks) };
+  }
+  const last = parseFloat(ticker?.lastPrice ?? '');
+  return last > 0 ? { time, price: last } : null;
+};
+
+// Evaluates alert rules for one symbol against its recent samples. A rule fires when its condition
+// becomes true and re-arms once the condition clears, so a price sitting above a level alerts once.
+export class PriceAlertEngine {
+  private samples: MarketSample[] = [];
+  private satisfied = new Set<string>();
+
+  constructor(private readonly symbol: string) {}
+
+  push(sample: MarketSample): void {
+    // Dense book updates are thinned to one sample per second slot; the newest one in a slot wins
+    const last = this.samples[this.samples.length - 1];
+    const slot = (time: number) => Math.floor(time / SAMPLE_SPACING_MS);
+    if (last && slot(sample.time) === slot(last.time)) this.samples[this.samples.length - 1] = sample;
+    else this.samples.push(sample);
+
+    const cutoff = sample.time - MAX_WINDOW_MINUTES * MINUTE_MS;
+    const stale = this.samples.findIndex(item => item.time >= cutoff);
+    if (stale > 0) this.samples.splice(0, stale);
+  }
+
+  evaluate(rules: AlertRule[]): AlertEvent[] {
+    const latest = this.samples[this.samples.length - 1];
+    if (!latest) return [];
+
+    return rules.flatMap(rule => {
+      if (!rule.enabled || toSymbolId(rule.symbol) !== toSymbolId(this.symbol)) return [];
+      const value = this.measure(rule, latest);
+      if (value === null) return [];
+
+      const met = rule.type === 'price-below' ? value < rule.threshold : value > rule.threshold;
+      const wasMet = this.satisfied.has(rule.id);
+      if (met) this.satisfied.add(rule.id);
+      else this.satisfied.delete(rule.id);
+      if (!met || wasMet) return [];
+
+      return [{
+        id: `${rule.id}-${latest.time}`,
+        ruleId: rule.id,
+        symbol: rule.symbol,
+        message: `${describeAlertRule(rule)} (now ${formatMeasure(rule, value)})`,
+        value,
+        time: latest.time
+      }];
+    });
+  }
+
+  // The rule's measurement from the latest sample, or null while there isn't enough data
+  private measure(rule: AlertRule, latest: MarketSample): number | null {
+    switch (rule.type) {
+      case 'price-above':
+      case 'price-below':
+        return latest.price;
+      case 'percent-move': {
+        const window = this.window(rule, latest);
+        if (window.length < 2) return null;
+        return Math.abs(latest.price - window[0].price) / window[0].price * 100;
+      }
+      case 'volatility-above': {
+        // Realised volatility over the window: root of the summed squared log returns
+        const window = this.window(rule, latest);
+        if (window.length < 3) return null;
+        let sum = 0;
+        for (let i = 1; i < window.length; i++) sum += Math.log(window[i].price / window[i - 1].price) ** 2;
+        return Math.sqrt(sum) * 100;
+      }
+      case 'spread-above':
+        if (latest.bid === undefined || latest.ask === undefined) return null;
+        return (latest.ask - latest.bid) / latest.price * 10000;
+      case 'imbalance': {
+        const total = (latest.bidDepth ?? 0) + (latest.askDepth ?? 0);
+        if (!total) return null;
+        return Math.abs((latest.bidDepth ?? 0) - (latest.askDepth ?? 0)) / total * 100;
+      }
+    }
+  }
+
+  private window(rule: AlertRule, latest: MarketSample): MarketSample[] {
+    const from = latest.time - (rule.windowMinutes ?? 0) * MINUTE_MS;
+    return this.samples.filter(sample => sample.time >= from);
+  }
+}
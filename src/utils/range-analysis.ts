@@ -0,0 +1,146 @@
+import { CalendarDayData, getVolatilityLevel } from '@/services/calendar-data-service';
+
+// Crypto trades every day of the year
+const PERIODS_PER_YEAR = 365;
+const VOLUME_PROFILE_BUCKETS = 12;
+
+export interface DayExtreme {
+  date: Date;
+  performance: number; // fraction
+}
+
+export interface VolumeProfileBucket {
+  priceLow: number;
+  priceHigh: number;
+  volume: number; // quote currency
+}
+
+export interface RangeStats {
+  tradingDays: number;
+  cumulativeReturn: number;      // fraction, compounded daily open-to-close returns
+  annualisedVolatility: number;  // fraction, stdev of daily returns * sqrt(365)
+  maxDrawdown: number;           // fraction, <= 0
+  drawdownPeak: Date | null;
+  drawdownTrough: Date | null;
+  bestDay: DayExtreme | null;
+  worstDay: DayExtreme | null;
+  upDays: number;
+  downDays: number;
+  flatDays: number;
+  averageTrueRange: number;      // quote price
+  averageTrueRangePct: number;   // fraction of the average close
+  avgVolatility: number;         // mean daily high-low range, fraction
+  highVolatilityDays: number;
+  totalVolume: number;
+  avgPrice: number;
+  priceRange: { min: number; max: number };
+  avgLiquidity: number;
+  volumeProfile: VolumeProfileBucket[];
+  pointOfControl: VolumeProfileBucket | null; // busiest price bucket
+}
+
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const stdDev = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1));
+};
+
+// True range needs the previous close, so it is taken from the full window before any filtering
+const trueRanges = (days: CalendarDayData[]): Map<number, number> => {
+  const ranges = new Map<number, number>();
+  days.forEach((day, index) => {
+    const prevClose = index > 0 ? days[index - 1].close : null;
+    const range = prevClose === null
+      ? day.high - day.low
+      : Math.max(day.high - day.low, Math.abs(day.high - prevClose), Math.abs(day.low - prevClose));
+    ranges.set(day.date.getTime(), range);
+  });
+  return ranges;
+};
+
+// Each day's volume is spread evenly over the buckets its high-low range touches
+const buildVolumeProfile = (days: CalendarDayData[], min: number, max: number): VolumeProfileBucket[] => {
+  if (!days.length || max <= min) return [];
+
+  const size = (max - min) / VOLUME_PROFILE_BUCKETS;
+  const buckets = Array.from({ length: VOLUME_PROFILE_BUCKETS }, (_, i) => ({
+    priceLow: min + i * size,
+    priceHigh: min + (i + 1) * size,
+    volume: 0
+  }));
+
+  days.forEach(day => {
+    const first = Math.min(VOLUME_PROFILE_BUCKETS - 1, Math.floor((day.low - min) / size));
+    const last = Math.min(VOLUME_PROFILE_BUCKETS - 1, Math.floor((day.high - min) / size));
+    const share = day.volume / (last - first + 1);
+    for (let i = first; i <= last; i++) {
+      buckets[i].volume += share;
+    }
+  });
+
+  return buckets;
+};
+
+// `days` is the full window, oldest first; `included` is the subset that counts (e.g. after filters)
+export const calculateRangeStats = (days: CalendarDayData[], included: CalendarDayData[] = days): RangeStats => {
+  const returns = included.map(day => day.performance);
+  const ranges = trueRanges(days);
+  const closes = included.map(day => day.close);
+
+  // Equity curve from holding over the included days only
+  let equity = 1;
+  let peak = 1;
+  let peakDate: Date | null = included[0]?.date ?? null;
+  let maxDrawdown = 0;
+  let drawdownPeak: Date | null = null;
+  let drawdownTrough: Date | null = null;
+  included.forEach(day => {
+    equity *= 1 + day.performance;
+    if (equity > peak) {
+      peak = equity;
+      peakDate = day.date;
+    }
+    const drawdown = equity / peak - 1;
+    if (drawdown < maxDrawdown) {
+      maxDrawdown = drawdown;
+      drawdownPeak = peakDate;
+      drawdownTrough = day.date;
+    }
+  });
+
+  const best = included.reduce<CalendarDayData | null>((top, day) => !top || day.performance > top.performance ? day : top, null);
+  const worst = included.reduce<CalendarDayData | null>((low, day) => !low || day.performance < low.performance ? day : low, null);
+
+  const priceRange = included.length
+    ? { min: Math.min(...included.map(day => day.low)), max: Math.max(...included.map(day => day.high)) }
+    : { min: 0, max: 0 };
+  const averageTrueRange = mean(included.map(day => ranges.get(day.date.getTime()) ?? day.high - day.low));
+  const avgClose = mean(closes);
+  const volumeProfile = buildVolumeProfile(included, priceRange.min, priceRange.max);
+
+  return {
+    tradingDays: included.length,
+    cumulativeReturn: equity - 1,
+    annualisedVolatility: stdDev(returns) * Math.sqrt(PERIODS_PER_YEAR),
+    maxDrawdown,
+    drawdownPeak,
+    drawdownTrough,
+    bestDay: best ? { date: best.date, performance: best.performance } : null,
+    worstDay: worst ? { date: worst.date, performance: worst.performance } : null,
+    upDays: returns.filter(r => r > 0).length,
+    downDays: returns.filter(r => r < 0).length,
+    flatDays: returns.filter(r => r === 0).length,
+    averageTrueRange,
+    averageTrueRangePct: avgClose ? averageTrueRange / avgClose : 0,
+    avgVolatility: mean(included.map(day => day.volatility)),
+    highVolatilityDays: included.filter(day => getVolatilityLevel(day.volatility) === 'high').length,
+    totalVolume: included.reduce((sum, day) => sum + day.volume, 0),
+    avgPrice: avgClose,
+    priceRange,
+    avgLiquidity: mean(included.map(day => day.liquidity)),
+    volumeProfile,
+    pointOfControl: volumeProfile.reduce<VolumeProfileBucket | null>((top, bucket) => !top || bucket.volume > top.volume ? bucket : top, null)
+  };
+};
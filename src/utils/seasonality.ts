@@ -0,0 +1,181 @@
+import { FinancialData } from '@/types/api';
+
+export interface SeasonalityBucket {
+  key: number;
+  label: string;
+  count: number;
+  mean: number;      // % return
+  median: number;    // % return
+  stdDev: number;    // % return
+  winRate: number;   // 0-1, share of positive returns
+  tStat: number;     // mean / standard error, 0 when count < 2
+}
+
+export interface SeasonalityStats {
+  weekday: SeasonalityBucket[];
+  dayOfMonth: SeasonalityBucket[];
+  isoWeek: SeasonalityBucket[];
+  month: SeasonalityBucket[];
+  sampleSize: number;
+  years: number[];
+  startDate: Date | null;
+  endDate: Date | null;
+}
+
+export type SeasonalityMetric = 'mean' | 'median' | 'winRate' | 'tStat' | 'stdDev';
+
+export const seasonalityMetrics: { value: SeasonalityMetric; label: string }[] = [
+  { value: 'mean', label: 'Mean Return' },
+  { value: 'median', label: 'Median Return' },
+  { value: 'winRate', label: 'Win Rate' },
+  { value: 'tStat', label: 't-Stat' },
+  { value: 'stdDev', label: 'Std Dev' }
+];
+
+export const formatSeasonalityValue = (metric: SeasonalityMetric, value: number): string => {
+  if (metric === 'winRate') return `${(value * 100).toFixed(0)}%`;
+  if (metric === 'tStat') return value.toFixed(2);
+  return `${value > 0 && metric !== 'stdDev' ? '+' : ''}${value.toFixed(2)}%`;
+};
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const mean = (values: number[]): number =>
+  values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const median = (values: number[]): number => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Sample standard deviation (n - 1)
+const stdDev = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + Math.pow(v - avg, 2), 0) / (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+export const summarizeReturns = (key: number, label: string, returns: number[]): SeasonalityBucket => {
+  const avg = mean(returns);
+  const sd = stdDev(returns);
+  return {
+    key,
+    label,
+    count: returns.length,
+    mean: avg,
+    median: median(returns),
+    stdDev: sd,
+    winRate: returns.length ? returns.filter(r => r > 0).length / returns.length : 0,
+    tStat: sd > 0 ? avg / (sd / Math.sqrt(returns.length)) : 0
+  };
+};
+
+// Daily candles open at UTC midnight, so all calendar fields are read in UTC
+export const getISOWeek = (date: Date): { year: number; week: number } => {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const dayNumber = target.getUTCDay() || 7;
+  // Thursday of the current week decides which ISO year the week belongs to
+  target.setUTCDate(target.getUTCDate() + 4 - dayNumber);
+  const yearStart = new Date(Date.UTC(target.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((target.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+  return { year: target.getUTCFullYear(), week };
+};
+
+const dailyReturn = (d: FinancialData): number => {
+  if (d.open && d.close) return ((d.close - d.open) / d.open) * 100;
+  return d.performance;
+};
+
+// Chain daily % returns into a single period % return
+const compound = (returns: number[]): number =>
+  (returns.reduce((acc, r) => acc * (1 + r / 100), 1) - 1) * 100;
+
+const bucketize = (
+  groups: Map<number, number[]>,
+  keys: number[],
+  labelFor: (key: number) => string
+): SeasonalityBucket[] => keys.map(key => summarizeReturns(key, labelFor(key), groups.get(key) || []));
+
+const push = (groups: Map<number, number[]>, key: number, value: number) => {
+  if (!groups.has(key)) groups.set(key, []);
+  groups.get(key)!.push(value);
+};
+
+// Weekday and day-of-month stats use daily returns; ISO week and month stats use the
+// compounded return of each complete week/month, so "September" means the whole month's move.
+export const calculateSeasonality = (data: FinancialData[]): SeasonalityStats => {
+  const sorted = [...data]
+    .filter(d => Number.isFinite(dailyReturn(d)))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const byWeekday = new Map<number, number[]>();
+  const byDayOfMonth = new Map<number, number[]>();
+  const weekPeriods = new Map<string, { week: number; returns: number[] }>();
+  const monthPeriods = new Map<string, { month: number; returns: number[] }>();
+  const years = new Set<number>();
+
+  sorted.forEach(d => {
+    const r = dailyReturn(d);
+    const date = d.date;
+    years.add(date.getUTCFullYear());
+
+    // getUTCDay is Sunday-first; shift to Monday = 0
+    push(byWeekday, (date.getUTCDay() + 6) % 7, r);
+    push(byDayOfMonth, date.getUTCDate(), r);
+
+    const iso = getISOWeek(date);
+    const weekKey = `${iso.year}-${iso.week}`;
+    if (!weekPeriods.has(weekKey)) weekPeriods.set(weekKey, { week: iso.week, returns: [] });
+    weekPeriods.get(weekKey)!.returns.push(r);
+
+    const monthKey = `${date.getUTCFullYear()}-${date.getUTCMonth()}`;
+    if (!monthPeriods.has(monthKey)) monthPeriods.set(monthKey, { month: date.getUTCMonth(), returns: [] });
+    monthPeriods.get(monthKey)!.returns.push(r);
+  });
+
+  // A week or month cut off by either end of the data (the opening ISO week of a Jan 1st start, the
+  // week and month still forming) would be compounded as if it were whole, so it is left out
+  const partial = new Set<string>();
+  if (sorted.length) {
+    const first = sorted[0].date;
+    const last = sorted[sorted.length - 1].date;
+    const weekKey = (date: Date) => {
+      const iso = getISOWeek(date);
+      return `w${iso.year}-${iso.week}`;
+    };
+    const monthKey = (date: Date) => `m${date.getUTCFullYear()}-${date.getUTCMonth()}`;
+    const lastDayOfMonth = new Date(Date.UTC(last.getUTCFullYear(), last.getUTCMonth() + 1, 0)).getUTCDate();
+
+    if (first.getUTCDay() !== 1) partial.add(weekKey(first));
+    if (last.getUTCDay() !== 0) partial.add(weekKey(last));
+    if (first.getUTCDate() !== 1) partial.add(monthKey(first));
+    if (last.getUTCDate() !== lastDayOfMonth) partial.add(monthKey(last));
+  }
+
+  const byIsoWeek = new Map<number, number[]>();
+  weekPeriods.forEach(({ week, returns }, key) => {
+    if (!partial.has(`w${key}`)) push(byIsoWeek, week, compound(returns));
+  });
+
+  const byMonth = new Map<number, number[]>();
+  monthPeriods.forEach(({ month, returns }, key) => {
+    if (!partial.has(`m${key}`)) push(byMonth, month, compound(returns));
+  });
+
+  const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+  return {
+    weekday: bucketize(byWeekday, range(0, 6), key => WEEKDAY_LABELS[key]),
+    dayOfMonth: bucketize(byDayOfMonth, range(1, 31), key => String(key)),
+    isoWeek: bucketize(byIsoWeek, range(1, 53), key => `W${key}`),
+    month: bucketize(byMonth, range(0, 11), key => MONTH_LABELS[key]),
+    sampleSize: sorted.length,
+    years: Array.from(years).sort((a, b) => a - b),
+    startDate: sorted.length ? sorted[0].date : null,
+    endDate: sorted.length ? sorted[sorted.length - 1].date : null
+  };
+};
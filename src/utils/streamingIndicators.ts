@@ -0,0 +1,542 @@
+import {
+  PriceBar,
+  RSIResult,
+  MACDResult,
+  BollingerBandsResult,
+  StochasticResult,
+  ADXResult,
+  IchimokuResult,
+  ParabolicSARResult,
+  ChannelResult
+} from './technicalIndicators';
+
+// Incremental counterparts of the batch functions in technicalIndicators.ts. Each keeps only the
+// state needed for the newest bar: next(input) appends a bar, next(input, false) revises the bar
+// still forming. Work per call depends on the indicator period, never on how much history came
+// before, and values match the batch functions bar for bar.
+
+// Last `size` values of a series; the newest can be replaced while its bar is still open
+class RollingWindow {
+  private buffer: number[];
+  private head = 0; // oldest value
+  private count = 0;
+  private total = 0;
+  private invalid = 0; // NaNs in the window
+  private pushes = 0;
+
+  constructor(readonly size: number) {
+    this.buffer = new Array(size).fill(NaN);
+  }
+
+  get full(): boolean {
+    return this.count === this.size;
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  // NaN while any value in the window is, like summing a slice
+  get sum(): number {
+    return this.invalid ? NaN : this.total;
+  }
+
+  next(value: number, isNew: boolean): void {
+    if (isNew || this.count === 0) this.push(value);
+    else this.replaceLast(value);
+  }
+
+  // 0 is the oldest value in the window
+  get(index: number): number {
+    return this.buffer[(this.head + index) % this.size];
+  }
+
+  // Highest of the newest `count` values
+  max(count: number = this.count): number {
+    let max = -Infinity;
+    for (let i = this.count - Math.min(count, this.count); i < this.count; i++) max = Math.max(max, this.get(i));
+    return max;
+  }
+
+  min(count: number = this.count): number {
+    let min = Infinity;
+    for (let i = this.count - Math.min(count, this.count); i < this.count; i++) min = Math.min(min, this.get(i));
+    return min;
+  }
+
+  private push(value: number): void {
+    if (this.count === this.size) {
+      this.remove(this.buffer[this.head]);
+      this.buffer[this.head] = value;
+      this.head = (this.head + 1) % this.size;
+    } else {
+      this.buffer[(this.head + this.count) % this.size] = value;
+      this.count++;
+    }
+    this.add(value);
+
+    // Re-add from scratch once per window so rounding in the running sum can't accumulate
+    if (++this.pushes % this.size === 0) {
+      this.total = 0;
+      this.invalid = 0;
+      for (let i = 0; i < this.count; i++) this.add(this.get(i));
+    }
+  }
+
+  private replaceLast(value: number): void {
+    const index = (this.head + this.count - 1) % this.size;
+    this.remove(this.buffer[index]);
+    this.buffer[index] = value;
+    this.add(value);
+  }
+
+  private add(value: number): void {
+    if (Number.isNaN(value)) this.invalid++;
+    else this.total += value;
+  }
+
+  private remove(value: number): void {
+    if (Number.isNaN(value)) this.invalid--;
+    else this.total -= value;
+  }
+}
+
+// Recursive state after the last closed bar, plus the state including the forming bar.
+// A revision steps again from the closed state; a new bar first closes the forming one.
+class Revisable<S> {
+  private current: S;
+
+  constructor(private committed: S) {
+    this.current = committed;
+  }
+
+  // State as of the previous bar
+  get previous(): S {
+    return this.committed;
+  }
+
+  next(isNew: boolean, step: (previous: S) => S): S {
+    if (isNew) this.committed = this.current;
+    this.current = step(this.committed);
+    return this.current;
+  }
+}
+
+// Average seeded with the mean of the first `period` values, then smoothed by `weight`
+// (2 / (period + 1) for an EMA, 1 / period for Wilder smoothing)
+class SeededAverage {
+  private state = new Revisable({ count: 0, sum: 0, value: NaN });
+
+  constructor(private period: number, private weight: number) {}
+
+  next(value: number, isNew: boolean = true): number {
+    return this.state.next(isNew, ({ count, sum, value: previous }) => {
+      const n = count + 1;
+      if (n < this.period) return { count: n, sum: sum + value, value: NaN };
+      if (n === this.period) return { count: n, sum: sum + value, value: (sum + value) / this.period };
+      return { count: n, sum, value: (value - previous) * this.weight + previous };
+    }).value;
+  }
+}
+
+// Bar count, so indicators know where their warm-up ends even when revising
+class BarCounter {
+  private state = new Revisable(0);
+
+  next(isNew: boolean): number {
+    return this.state.next(isNew, count => count + 1) - 1;
+  }
+}
+
+export class StreamingSMA {
+  private window: RollingWindow;
+
+  constructor(private period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  next(value: number, isNew: boolean = true): number {
+    this.window.next(value, isNew);
+    return this.window.full ? this.window.sum / this.period : NaN;
+  }
+}
+
+export class StreamingEMA {
+  private average: SeededAverage;
+
+  constructor(period: number) {
+    this.average = new SeededAverage(period, 2 / (period + 1));
+  }
+
+  next(value: number, isNew: boolean = true): number {
+    return this.average.next(value, isNew);
+  }
+}
+
+// Matches calculateRSI, which averages gains and losses over the window rather than Wilder-smoothing
+export class StreamingRSI {
+  private closes = new Revisable(NaN);
+  private gains: RollingWindow;
+  private losses: RollingWindow;
+
+  constructor(private period: number = 14) {
+    this.gains = new RollingWindow(period);
+    this.losses = new RollingWindow(period);
+  }
+
+  next(price: number, isNew: boolean = true): RSIResult {
+    this.closes.next(isNew, () => price);
+    const previous = this.closes.previous;
+    if (Number.isNaN(previous)) return { value: NaN, overbought: false, oversold: false };
+
+    const change = price - previous;
+    this.gains.next(change > 0 ? change : 0, isNew);
+    this.losses.next(change < 0 ? -change : 0, isNew);
+    if (!this.gains.full) return { value: NaN, overbought: false, oversold: false };
+
+    const avgGain = this.gains.sum / this.period;
+    const avgLoss = this.losses.sum / this.period;
+    const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
+    const value = 100 - (100 / (1 + rs));
+    return {
+      value,
+      overbought: value > 70,
+      oversold: value < 30,
+      signal: value > 70 ? 'sell' : value < 30 ? 'buy' : 'neutral'
+    };
+  }
+}
+
+export class StreamingMACD {
+  private fast: StreamingEMA;
+  private slow: StreamingEMA;
+  private signal: StreamingEMA;
+
+  constructor(fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+    this.fast = new StreamingEMA(fastPeriod);
+    this.slow = new StreamingEMA(slowPeriod);
+    this.signal = new StreamingEMA(signalPeriod);
+  }
+
+  next(price: number, isNew: boolean = true): MACDResult {
+    const macd = this.fast.next(price, isNew) - this.slow.next(price, isNew);
+    // The signal line only starts once the MACD line exists
+    const signal = Number.isNaN(macd) ? NaN : this.signal.next(macd, isNew);
+    const histogram = Number.isNaN(macd) || Number.isNaN(signal) ? NaN : macd - signal;
+    return {
+      macd: macd || 0,
+      signal: signal || 0,
+      histogram: histogram || 0,
+      bullish: !Number.isNaN(histogram) && histogram > 0
+    };
+  }
+}
+
+export class StreamingBollingerBands {
+  private window: RollingWindow;
+
+  constructor(private period: number = 20, private stdDev: number = 2) {
+    this.window = new RollingWindow(period);
+  }
+
+  next(price: number, isNew: boolean = true): BollingerBandsResult {
+    this.window.next(price, isNew);
+    const mean = this.window.sum / this.period;
+    if (!this.window.full || Number.isNaN(mean)) {
+      return { upper: NaN, middle: NaN, lower: NaN, width: NaN, position: NaN };
+    }
+
+    let squares = 0;
+    for (let i = 0; i < this.period; i++) squares += Math.pow(this.window.get(i) - mean, 2);
+    const deviation = Math.sqrt(squares / this.period) * this.stdDev;
+    const upper = mean + deviation;
+    const lower = mean - deviation;
+    const width = upper - lower;
+    const position = width > 0 ? (price - lower) / width : 0.5;
+    return { upper, middle: mean, lower, width, position: Math.max(0, Math.min(1, position)) };
+  }
+}
+
+// True range of a bar against the previous close kept here
+class StreamingTrueRange {
+  private closes = new Revisable(NaN);
+
+  next(bar: PriceBar, isNew: boolean): number {
+    this.closes.next(isNew, () => bar.close);
+    const prevClose = this.closes.previous;
+    if (Number.isNaN(prevClose)) return bar.high - bar.low;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - prevClose), Math.abs(bar.low - prevClose));
+  }
+}
+
+export class StreamingATR {
+  private trueRange = new StreamingTrueRange();
+  private average: SeededAverage;
+
+  constructor(period: number = 14) {
+    this.average = new SeededAverage(period, 1 / period);
+  }
+
+  next(bar: PriceBar, isNew: boolean = true): number {
+    return this.average.next(this.trueRange.next(bar, isNew), isNew);
+  }
+}
+
+export class StreamingStochastic {
+  private highs: RollingWindow;
+  private lows: RollingWindow;
+  private k: StreamingSMA;
+  private d: StreamingSMA;
+
+  constructor(kPeriod: number = 14, dPeriod: number = 3, smoothing: number = 3) {
+    this.highs = new RollingWindow(kPeriod);
+    this.lows = new RollingWindow(kPeriod);
+    this.k = new StreamingSMA(smoothing);
+    this.d = new StreamingSMA(dPeriod);
+  }
+
+  next(bar: PriceBar, isNew: boolean = true): StochasticResult {
+    this.highs.next(bar.high, isNew);
+    this.lows.next(bar.low, isNew);
+
+    let rawK = NaN;
+    if (this.highs.full) {
+      const high = this.highs.max();
+      const low = this.lows.min();
+      rawK = high === low ? 50 : (bar.close - low) / (high - low) * 100;
+    }
+    const k = this.k.next(rawK, isNew);
+    const d = this.d.next(k, isNew);
+
+    return {
+      value: k,
+      k,
+      d,
+      overbought: k > 80,
+      oversold: k < 20,
+      signal: k > 80 ? 'sell' : k < 20 ? 'buy' : 'neutral'
+    };
+  }
+}
+
+export class StreamingVWAP {
+  private state = new Revisable({ session: -1, pv: 0, volume: 0, value: NaN });
+
+  constructor(private anchor: 'session' | number = 'session') {}
+
+  next(bar: PriceBar, isNew: boolean = true): number {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    return this.state.next(isNew, previous => {
+      let { pv, volume } = previous;
+      const session = Math.floor(bar.time / DAY_MS);
+      if (this.anchor === 'session') {
+        if (session !== previous.session) {
+          pv = 0;
+          volume = 0;
+        }
+      } else if (bar.time < this.anchor) {
+        return { ...previous, value: NaN };
+      }
+
+      const typicalPrice = (bar.high + bar.low + bar.close) / 3;
+      pv += typicalPrice * bar.volume;
+      volume += bar.volume;
+      return { session, pv, volume, value: volume > 0 ? pv / volume : typicalPrice };
+    }).value;
+  }
+}
+
+export class StreamingOBV {
+  private state = new Revisable({ obv: 0, close: NaN });
+
+  next(bar: PriceBar, isNew: boolean = true): number {
+    return this.state.next(isNew, ({ obv, close }) => {
+      if (bar.close > close) return { obv: obv + bar.volume, close: bar.close };
+      if (bar.close < close) return { obv: obv - bar.volume, close: bar.close };
+      return { obv, close: bar.close };
+    }).obv;
+  }
+}
+
+export class StreamingADX {
+  private bars = new Revisable<PriceBar | null>(null);
+  private index = new BarCounter();
+  private trueRange = new StreamingTrueRange();
+  private smoothedTR: SeededAverage;
+  private smoothedPlus: SeededAverage;
+  private smoothedMinus: SeededAverage;
+  private adx: SeededAverage;
+
+  constructor(private period: number = 14) {
+    // Wilder sums are seeded with an average, so scaling both sides of each DI ratio cancels out
+    this.smoothedTR = new SeededAverage(period, 1 / period);
+    this.smoothedPlus = new SeededAverage(period, 1 / period);
+    this.smoothedMinus = new SeededAverage(period, 1 / period);
+    this.adx = new SeededAverage(period, 1 / period);
+  }
+
+  next(bar: PriceBar, isNew: boolean = true): ADXResult {
+    const index = this.index.next(isNew);
+    const range = this.trueRange.next(bar, isNew);
+    this.bars.next(isNew, () => bar);
+    const previous = this.bars.previous;
+    if (!previous) return { adx: NaN, plusDI: NaN, minusDI: NaN, trending: false };
+
+    const up = bar.high - previous.high;
+    const down = previous.low - bar.low;
+    const tr = this.smoothedTR.next(range, isNew);
+    const plus = this.smoothedPlus.next(up > down && up > 0 ? up : 0, isNew);
+    const minus = this.smoothedMinus.next(down > up && down > 0 ? down : 0, isNew);
+
+    const plusDI = tr ? plus / tr * 100 : NaN;
+    const minusDI = tr ? minus / tr * 100 : NaN;
+    const sum = plusDI + minusDI;
+    const dx = sum ? Math.abs(plusDI - minusDI) / sum * 100 : NaN;
+    // DX exists from bar `period`; ADX averages it from there
+    const adx = index >= this.period ? this.adx.next(dx, isNew) : NaN;
+
+    return { adx, plusDI, minusDI, trending: adx > 25 };
+  }
+}
+
+export class StreamingIchimoku {
+  private highs: RollingWindow;
+  private lows: RollingWindow;
+  private spanA: RollingWindow;
+  private spanB: RollingWindow;
+
+  constructor(
+    private conversionPeriod: number = 9,
+    private basePeriod: number = 26,
+    private spanBPeriod: number = 52,
+    displacement: number = 26
+  ) {
+    const longest = Math.max(conversionPeriod, basePeriod, spanBPeriod);
+    this.highs = new RollingWindow(longest);
+    this.lows = new RollingWindow(longest);
+    // Spans computed `displacement` bars ago are the ones drawn at this bar
+    this.spanA = new RollingWindow(displacement + 1);
+    this.spanB = new RollingWindow(displacement + 1);
+  }
+
+  // `lagging` is this bar's close, which the batch version draws `displacement` bars back
+  next(bar: PriceBar, isNew: boolean = true): IchimokuResult {
+    this.highs.next(bar.high, isNew);
+    this.lows.next(bar.low, isNew);
+
+    const midpoint = (period: number) =>
+      this.highs.length < period ? NaN : (this.highs.max(period) + this.lows.min(period)) / 2;
+    const conversion = midpoint(this.conversionPeriod);
+    const base = midpoint(this.basePeriod);
+    this.spanA.next((conversion + base) / 2, isNew);
+    this.spanB.next(midpoint(this.spanBPeriod), isNew);
+
+    return {
+      conversion,
+      base,
+      spanA: this.spanA.full ? this.spanA.get(0) : NaN,
+      spanB: this.spanB.full ? this.spanB.get(0) : NaN,
+      lagging: bar.close
+    };
+  }
+}
+
+export class StreamingKeltnerChannels {
+  private middle: StreamingEMA;
+  private atr: StreamingATR;
+
+  constructor(emaPeriod: number = 20, atrPeriod: number = 10, private multiplier: number = 2) {
+    this.middle = new StreamingEMA(emaPeriod);
+    this.atr = new StreamingATR(atrPeriod);
+  }
+
+  next(bar: PriceBar, isNew: boolean = true): ChannelResult {
+    const middle = this.middle.next(bar.close, isNew);
+    const atr = this.atr.next(bar, isNew);
+    return { upper: middle + this.multiplier * atr, middle, lower: middle - this.multiplier * atr };
+  }
+}
+
+interface SARState {
+  count: number;
+  prev: PriceBar | null;     // bar i-1
+  prevPrev: PriceBar | null; // bar i-2 (bar 0 while i is 1)
+  rising: boolean;
+  sar: number;
+  extreme: number;
+  acceleration: number;
+}
+
+// The first bar's trend is reported as 'up'; the batch version already knows the second bar there
+export class StreamingParabolicSAR {
+  private state = new Revisable<SARState>({
+    count: 0, prev: null, prevPrev: null, rising: true, sar: NaN, extreme: NaN, acceleration: 0
+  });
+
+  constructor(private step: number = 0.02, private maxStep: number = 0.2) {}
+
+  next(bar: PriceBar, isNew: boolean = true): ParabolicSARResult {
+    const { count, sar, rising } = this.state.next(isNew, previous => {
+      const { prev, prevPrev } = previous;
+      if (!prev || !prevPrev) {
+        return { ...previous, count: 1, prev: bar, prevPrev: bar };
+      }
+
+      let { rising, sar, extreme, acceleration } = previous;
+      if (previous.count === 1) {
+        rising = bar.close >= prev.close;
+        sar = rising ? prev.low : prev.high;
+        extreme = rising ? prev.high : prev.low;
+        acceleration = this.step;
+      }
+
+      sar += acceleration * (extreme - sar);
+      if (rising) {
+        sar = Math.min(sar, prev.low, prevPrev.low);
+        if (bar.low < sar) {
+          rising = false;
+          sar = extreme;
+          extreme = bar.low;
+          acceleration = this.step;
+        } else if (bar.high > extreme) {
+          extreme = bar.high;
+          acceleration = Math.min(acceleration + this.step, this.maxStep);
+        }
+      } else {
+        sar = Math.max(sar, prev.high, prevPrev.high);
+        if (bar.high > sar) {
+          rising = true;
+          sar = extreme;
+          extreme = bar.high;
+          acceleration = this.step;
+        } else if (bar.low < extreme) {
+          extreme = bar.low;
+          acceleration = Math.min(acceleration + this.step, this.maxStep);
+        }
+      }
+
+      return { count: previous.count + 1, prev: bar, prevPrev: prev, rising, sar, extreme, acceleration };
+    });
+
+    return { value: count > 1 ? sar : NaN, trend: rising ? 'up' : 'down' };
+  }
+}
+
+export class StreamingDonchianChannels {
+  private highs: RollingWindow;
+  private lows: RollingWindow;
+
+  constructor(period: number = 20) {
+    this.highs = new RollingWindow(period);
+    this.lows = new RollingWindow(period);
+  }
+
+  next(bar: PriceBar, isNew: boolean = true): ChannelResult {
+    this.highs.next(bar.high, isNew);
+    this.lows.next(bar.low, isNew);
+    if (!this.highs.full) return { upper: NaN, middle: NaN, lower: NaN };
+    const upper = this.highs.max();
+    const lower = this.lows.min();
+    return { upper, middle: (upper + lower) / 2, lower };
+  }
+}
@@ -23,6 +23,49 @@ export interface BollingerBandsResult {
   position: number; // 0-1, where price is within bands
 }
 
+// One candle; the indicators below that need more than closes take these
+export interface PriceBar {
+  time: number; // open time, ms
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // base currency
+}
+
+export interface ChannelResult {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export interface StochasticResult extends IndicatorResult {
+  k: number; // 0-100, `value` mirrors it
+  d: number;
+  overbought: boolean;
+  oversold: boolean;
+}
+
+export interface ADXResult {
+  adx: number;     // 0-100 trend strength
+  plusDI: number;
+  minusDI: number;
+  trending: boolean; // adx above 25
+}
+
+export interface IchimokuResult {
+  conversion: number; // Tenkan-sen
+  base: number;       // Kijun-sen
+  spanA: number;      // Senkou span A, already shifted forward
+  spanB: number;      // Senkou span B, already shifted forward
+  lagging: number;    // Chikou span, already shifted back
+}
+
+export interface ParabolicSARResult {
+  value: number;
+  trend: 'up' | 'down';
+}
+
 // Simple Moving Average
 export const calculateSMA = (data: number[], period: number): number[] => {
   const sma: number[] = [];
@@ -206,4 +249,238 @@ export const findSupportResistance = (prices: number[], period: number = 20): {
   }
   
   return { support, resistance };
-};
\ No newline at end of file
+};
+
+const highest = (bars: PriceBar[], end: number, period: number): number =>
+  Math.max(...bars.slice(end - period + 1, end + 1).map(bar => bar.high));
+
+const lowest = (bars: PriceBar[], end: number, period: number): number =>
+  Math.min(...bars.slice(end - period + 1, end + 1).map(bar => bar.low));
+
+const trueRange = (bars: PriceBar[], i: number): number => {
+  const { high, low } = bars[i];
+  if (i === 0) return high - low;
+  const prevClose = bars[i - 1].close;
+  return Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+};
+
+// Wilder smoothing seeded with the simple average of the first `period` values
+const wilderSmooth = (values: number[], period: number, offset: number = 0): number[] => {
+  const smoothed: number[] = new Array(values.length).fill(NaN);
+  if (values.length < offset + period) return smoothed;
+
+  let current = values.slice(offset, offset + period).reduce((a, b) => a + b, 0) / period;
+  smoothed[offset + period - 1] = current;
+  for (let i = offset + period; i < values.length; i++) {
+    current = (current * (period - 1) + values[i]) / period;
+    smoothed[i] = current;
+  }
+  return smoothed;
+};
+
+// Average True Range (Wilder)
+export const calculateATR = (bars: PriceBar[], period: number = 14): number[] =>
+  wilderSmooth(bars.map((_, i) => trueRange(bars, i)), period);
+
+// Stochastic Oscillator: %K smoothed over `smoothing` bars, %D its moving average
+export const calculateStochastic = (
+  bars: PriceBar[],
+  kPeriod: number = 14,
+  dPeriod: number = 3,
+  smoothing: number = 3
+): StochasticResult[] => {
+  const rawK = bars.map((bar, i) => {
+    if (i < kPeriod - 1) return NaN;
+    const high = highest(bars, i, kPeriod);
+    const low = lowest(bars, i, kPeriod);
+    return high === low ? 50 : (bar.close - low) / (high - low) * 100;
+  });
+  const k = calculateSMA(rawK, smoothing);
+  const d = calculateSMA(k, dPeriod);
+
+  return k.map((value, i) => ({
+    value,
+    k: value,
+    d: d[i],
+    overbought: value > 80,
+    oversold: value < 20,
+    signal: value > 80 ? 'sell' : value < 20 ? 'buy' : 'neutral'
+  }));
+};
+
+// Volume Weighted Average Price. 'session' restarts every UTC day; a timestamp anchors a single
+// running VWAP at the first bar opening at or after it (NaN before).
+export const calculateVWAP = (bars: PriceBar[], anchor: 'session' | number = 'session'): number[] => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  let cumulativePV = 0;
+  let cumulativeVolume = 0;
+  let session = -1;
+
+  return bars.map(bar => {
+    if (anchor === 'session') {
+      const day = Math.floor(bar.time / DAY_MS);
+      if (day !== session) {
+        session = day;
+        cumulativePV = 0;
+        cumulativeVolume = 0;
+      }
+    } else if (bar.time < anchor) {
+      return NaN;
+    }
+
+    const typicalPrice = (bar.high + bar.low + bar.close) / 3;
+    cumulativePV += typicalPrice * bar.volume;
+    cumulativeVolume += bar.volume;
+    return cumulativeVolume > 0 ? cumulativePV / cumulativeVolume : typicalPrice;
+  });
+};
+
+// On-Balance Volume
+export const calculateOBV = (bars: PriceBar[]): number[] => {
+  let obv = 0;
+  return bars.map((bar, i) => {
+    if (i > 0) {
+      const prevClose = bars[i - 1].close;
+      if (bar.close > prevClose) obv += bar.volume;
+      else if (bar.close < prevClose) obv -= bar.volume;
+    }
+    return obv;
+  });
+};
+
+// Average Directional Index with the +DI/-DI lines (Wilder)
+export const calculateADX = (bars: PriceBar[], period: number = 14): ADXResult[] => {
+  const plusDM = bars.map((bar, i) => {
+    if (i === 0) return 0;
+    const up = bar.high - bars[i - 1].high;
+    const down = bars[i - 1].low - bar.low;
+    return up > down && up > 0 ? up : 0;
+  });
+  const minusDM = bars.map((bar, i) => {
+    if (i === 0) return 0;
+    const up = bar.high - bars[i - 1].high;
+    const down = bars[i - 1].low - bar.low;
+    return down > up && down > 0 ? down : 0;
+  });
+  const ranges = bars.map((_, i) => trueRange(bars, i));
+
+  // The first bar has no previous close, so smoothing starts from the second
+  const smoothedTR = wilderSmooth(ranges, period, 1);
+  const smoothedPlus = wilderSmooth(plusDM, period, 1);
+  const smoothedMinus = wilderSmooth(minusDM, period, 1);
+
+  const plusDI = smoothedPlus.map((value, i) => smoothedTR[i] ? value / smoothedTR[i] * 100 : NaN);
+  const minusDI = smoothedMinus.map((value, i) => smoothedTR[i] ? value / smoothedTR[i] * 100 : NaN);
+  const dx = plusDI.map((plus, i) => {
+    const sum = plus + minusDI[i];
+    return sum ? Math.abs(plus - minusDI[i]) / sum * 100 : NaN;
+  });
+  const adx = wilderSmooth(dx, period, period);
+
+  return bars.map((_, i) => ({
+    adx: adx[i],
+    plusDI: plusDI[i],
+    minusDI: minusDI[i],
+    trending: adx[i] > 25
+  }));
+};
+
+// Ichimoku Cloud; spans are shifted forward and the lagging span back by `displacement`,
+// so every field lines up with the bar it is drawn at
+export const calculateIchimoku = (
+  bars: PriceBar[],
+  conversionPeriod: number = 9,
+  basePeriod: number = 26,
+  spanBPeriod: number = 52,
+  displacement: number = 26
+): IchimokuResult[] => {
+  const midpoint = (i: number, period: number) =>
+    i < period - 1 ? NaN : (highest(bars, i, period) + lowest(bars, i, period)) / 2;
+
+  const conversion = bars.map((_, i) => midpoint(i, conversionPeriod));
+  const base = bars.map((_, i) => midpoint(i, basePeriod));
+  const spanA = conversion.map((value, i) => (value + base[i]) / 2);
+  const spanB = bars.map((_, i) => midpoint(i, spanBPeriod));
+
+  return bars.map((_, i) => ({
+    conversion: conversion[i],
+    base: base[i],
+    spanA: i >= displacement ? spanA[i - displacement] : NaN,
+    spanB: i >= displacement ? spanB[i - displacement] : NaN,
+    lagging: i + displacement < bars.length ? bars[i + displacement].close : NaN
+  }));
+};
+
+// Keltner Channels: EMA of closes +/- a multiple of ATR
+export const calculateKeltnerChannels = (
+  bars: PriceBar[],
+  emaPeriod: number = 20,
+  atrPeriod: number = 10,
+  multiplier: number = 2
+): ChannelResult[] => {
+  const middle = calculateEMA(bars.map(bar => bar.close), emaPeriod);
+  const atr = calculateATR(bars, atrPeriod);
+  return middle.map((value, i) => ({
+    upper: value + multiplier * atr[i],
+    middle: value,
+    lower: value - multiplier * atr[i]
+  }));
+};
+
+// Parabolic SAR
+export const calculateParabolicSAR = (
+  bars: PriceBar[],
+  step: number = 0.02,
+  maxStep: number = 0.2
+): ParabolicSARResult[] => {
+  if (bars.length < 2) return bars.map(() => ({ value: NaN, trend: 'up' }));
+
+  let rising = bars[1].close >= bars[0].close;
+  let sar = rising ? bars[0].low : bars[0].high;
+  let extreme = rising ? bars[0].high : bars[0].low;
+  let acceleration = step;
+  const results: ParabolicSARResult[] = [{ value: NaN, trend: rising ? 'up' : 'down' }];
+
+  for (let i = 1; i < bars.length; i++) {
+    const bar = bars[i];
+    sar += acceleration * (extreme - sar);
+
+    if (rising) {
+      // SAR may not move into the previous two bars' range
+      sar = Math.min(sar, bars[i - 1].low, bars[Math.max(0, i - 2)].low);
+      if (bar.low < sar) {
+        rising = false;
+        sar = extreme;
+        extreme = bar.low;
+        acceleration = step;
+      } else if (bar.high > extreme) {
+        extreme = bar.high;
+        acceleration = Math.min(acceleration + step, maxStep);
+      }
+    } else {
+      sar = Math.max(sar, bars[i - 1].high, bars[Math.max(0, i - 2)].high);
+      if (bar.high > sar) {
+        rising = true;
+        sar = extreme;
+        extreme = bar.high;
+        acceleration = step;
+      } else if (bar.low < extreme) {
+        extreme = bar.low;
+        acceleration = Math.min(acceleration + step, maxStep);
+      }
+    }
+
+    results.push({ value: sar, trend: rising ? 'up' : 'down' });
+  }
+
+  return results;
+};
+
+// Donchian Channels: highest high and lowest low over `period` bars
+export const calculateDonchianChannels = (bars: PriceBar[], period: number = 20): ChannelResult[] =>
+  bars.map((_, i) => {
+    if (i < period - 1) return { upper: NaN, middle: NaN, lower: NaN };
+    const upper = highest(bars, i, period);
+    const lower = lowest(bars, i, period);
+    return { upper, middle: (upper + lower) / 2, lower };
+  });
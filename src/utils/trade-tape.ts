@@ -0,0 +1,46 @@
+import { Trade } from '@/types/api';
+
+export interface TapeSummary {
+  buyVolume: number;   // base quantity bought by aggressors
+  sellVolume: number;
+  buyShare: number;    // buy volume over total, 0 to 1; 0.5 when the tape is empty
+  vwap: number;
+  medianSize: number;
+}
+
+// Multiples of the median print size offered as the large-print threshold
+export const LARGE_PRINT_MULTIPLES = [5, 10, 20];
+export const DEFAULT_LARGE_PRINT_MULTIPLE = 10;
+// Fewer prints than this aren't enough to say what a typical size is
+const MIN_PRINTS_FOR_MEDIAN = 20;
+
+const median = (values: number[]) => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const tapeSummary = (trades: Trade[]): TapeSummary => {
+  let buyVolume = 0;
+  let sellVolume = 0;
+  let notional = 0;
+  trades.forEach(trade => {
+    if (trade.side === 'buy') buyVolume += trade.quantity;
+    else sellVolume += trade.quantity;
+    notional += trade.price * trade.quantity;
+  });
+
+  const total = buyVolume + sellVolume;
+  return {
+    buyVolume,
+    sellVolume,
+    buyShare: total > 0 ? buyVolume / total : 0.5,
+    vwap: total > 0 ? notional / total : 0,
+    medianSize: median(trades.map(trade => trade.quantity))
+  };
+};
+
+// Judged against the tape's own median so the threshold adapts to the symbol
+export const isLargePrint = (trade: Trade, medianSize: number, multiple: number, sampleSize: number): boolean =>
+  sampleSize >= MIN_PRINTS_FOR_MEDIAN && medianSize > 0 && trade.quantity >= medianSize * multiple;
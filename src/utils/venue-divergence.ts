@@ -0,0 +1,122 @@
+// Last, bid and ask from one venue's ticker, with the response time of the request that fetched it
+export interface VenueTicker {
+  venue: string;
+  name: string;
+  pair: string;     // listing actually fetched, e.g. BTC/USD on a venue without BTC/USDT
+  quote: string;
+  last: number;
+  bid: number;
+  ask: number;
+  latency?: number; // ms
+}
+
+export interface VenueDivergenceRow extends VenueTicker {
+  deviationBps: number | null; // last against the median last; null when quoted in another currency
+}
+
+export interface DivergenceSnapshot {
+  time: number;
+  quote: string;              // the venues compared are the ones quoted in this
+  reference: number;          // median last price
+  rows: VenueDivergenceRow[];
+  spreadBps: number;          // highest last minus lowest last
+  high: string | null;        // venue with the highest last
+  low: string | null;
+  crossBps: number;           // best bid anywhere minus best ask anywhere; positive when venues cross
+}
+
+// One point of the rolling chart: the venue spread and each venue's deviation
+export interface DivergenceSample {
+  time: number;
+  spreadBps: number;
+  [venue: string]: number;
+}
+
+export interface DivergenceThresholds {
+  spreadBps: number;
+  latencyMs: number;
+  enabled: boolean;
+}
+
+export interface DivergenceBreach {
+  key: string;     // stable per condition, so a breach only alerts when it starts
+  message: string;
+}
+
+export const defaultDivergenceThresholds: DivergenceThresholds = {
+  spreadBps: 25,
+  latencyMs: 1500,
+  enabled: true
+};
+
+export const MAX_DIVERGENCE_SAMPLES = 360;
+
+const toBps = (difference: number, reference: number) => reference > 0 ? difference / reference * 10000 : 0;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Venues in the requested quote are compared; when none has it, the quote most venues answered in.
+// Comparing USD against USDT would only show the stablecoin's premium or discount.
+const comparedQuote = (tickers: VenueTicker[], requested: string): string => {
+  if (tickers.some(ticker => ticker.quote === requested)) return requested;
+  const counts = new Map<string, number>();
+  tickers.forEach(ticker => counts.set(ticker.quote, (counts.get(ticker.quote) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+export const divergenceSnapshot = (tickers: VenueTicker[], quote: string, time = Date.now()): DivergenceSnapshot | null => {
+  const listed = tickers.filter(ticker => ticker.last > 0);
+  if (!listed.length) return null;
+
+  const compared = comparedQuote(listed, quote);
+  const priced = listed.filter(ticker => ticker.quote === compared);
+  const reference = median(priced.map(ticker => ticker.last));
+  const byLast = [...priced].sort((a, b) => a.last - b.last);
+  const bids = priced.map(ticker => ticker.bid).filter(bid => bid > 0);
+  const asks = priced.map(ticker => ticker.ask).filter(ask => ask > 0);
+
+  return {
+    time,
+    quote: compared,
+    reference,
+    rows: listed.map(ticker => ({
+      ...ticker,
+      deviationBps: ticker.quote === compared ? toBps(ticker.last - reference, reference) : null
+    })),
+    spreadBps: toBps(byLast[byLast.length - 1].last - byLast[0].last, reference),
+    high: priced.length > 1 ? byLast[byLast.length - 1].venue : null,
+    low: priced.length > 1 ? byLast[0].venue : null,
+    crossBps: bids.length && asks.length ? toBps(Math.max(...bids) - Math.min(...asks), reference) : 0
+  };
+};
+
+export const toDivergenceSample = (snapshot: DivergenceSnapshot): DivergenceSample => ({
+  time: snapshot.time,
+  spreadBps: snapshot.spreadBps,
+  ...Object.fromEntries(snapshot.rows
+    .filter(row => row.deviationBps !== null)
+    .map(row => [row.venue, row.deviationBps]))
+});
+
+// Conditions over their thresholds right now; the caller alerts on keys it hasn't seen active
+export const divergenceBreaches = (snapshot: DivergenceSnapshot, thresholds: DivergenceThresholds): DivergenceBreach[] => {
+  const name = (venue: string | null) => snapshot.rows.find(row => row.venue === venue)?.name ?? venue;
+  const breaches: DivergenceBreach[] = [];
+
+  if (snapshot.high && snapshot.spreadBps > thresholds.spreadBps) {
+    breaches.push({
+      key: 'spread',
+      message: `${name(snapshot.high)} is ${snapshot.spreadBps.toFixed(1)} bps above ${name(snapshot.low)}`
+    });
+  }
+  snapshot.rows.forEach(row => {
+    if (row.latency !== undefined && row.latency > thresholds.latencyMs) {
+      breaches.push({ key: `latency-${row.venue}`, message: `${row.name} responding in ${row.latency} ms` });
+    }
+  });
+  return breaches;
+};
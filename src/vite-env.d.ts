@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Point every adapter at the local exchange simulator, e.g. http://localhost:8787
+  readonly VITE_EXCHANGE_SIMULATOR_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}